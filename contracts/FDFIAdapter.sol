@@ -4,30 +4,91 @@ pragma solidity ^0.8.22;
 import { OFTAdapter } from "@layerzerolabs/oft-evm/contracts/OFTAdapter.sol";
 import { RateLimiter } from "@layerzerolabs/oapp-evm/contracts/oapp/utils/RateLimiter.sol";
 import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { Pausable } from "@openzeppelin/contracts/utils/Pausable.sol";
+import { InboundRateLimiter } from "./libs/InboundRateLimiter.sol";
+import { BridgeFee } from "./libs/BridgeFee.sol";
+import { BlocklistGuard } from "./libs/BlocklistGuard.sol";
+import { SendParam, OFTLimit, OFTReceipt, OFTFeeDetail } from "@layerzerolabs/oft-evm/contracts/interfaces/IOFT.sol";
+import { SafeERC20, IERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title FDFIOFTAdapter
  * @notice Adapts an existing ERC-20 token to LayerZero Omnichain Fungible Token (OFT) cross-chain capabilities.
  * @dev Based on the standard OFTAdapter and extended with optional rate limiting controls (similar to Morpho's approach).
+ *      Outbound (`rateLimits`) and inbound (`inboundRateLimits`) limits are separate tables, like the Solana
+ *      PeerConfig's outbound_rate_limiter / inbound_rate_limiter: inflows no longer refund the outbound budget.
  * @dev LOSSLESS ASSUMPTION: Default OFTAdapter assumes 1:1 token movement (no fee-on-transfer). If the underlying token
  *      charges transfer fees or rebases, a custom implementation must override balance accounting (pre/post diff).
  * @dev SINGLETON: Only deploy ONE adapter per underlying token across a global OFT mesh. Multiple adapters would
  *      fragment liquidity and break total supply invariants.
  */
-contract FDFIOFTAdapter is OFTAdapter, RateLimiter {
+contract FDFIOFTAdapter is OFTAdapter, RateLimiter, InboundRateLimiter, BridgeFee, BlocklistGuard, Pausable {
+    using SafeERC20 for IERC20;
+
     /// @notice Address allowed to update rate limits (operational role separate from owner)
     address public rateLimiter;
 
+    /// @notice Account allowed to pause bridging (mirrors the Solana OFTStore pauser); unset disables pausing
+    address public pauser;
+
+    /// @notice Account allowed to unpause bridging (mirrors the Solana OFTStore unpauser)
+    address public unpauser;
+
+    /// @notice An inbound transfer held back because it exceeded the inbound limit of its source eid
+    struct QueuedInbound {
+        uint256 amountLD; // 0 once released or cancelled
+        uint32 srcEid;
+        uint64 queuedAt;
+    }
+
+    /// @dev Per-recipient pending queue; indexes are stable, released / cancelled entries are zeroed
+    mapping(address recipient => QueuedInbound[]) private _inboundQueue;
+
+    /// @notice Sum of all queued amounts (still locked in the adapter, already burned on the source chain)
+    uint256 public totalQueued;
+
+    /// @notice Bridge-locked liquidity: amounts received remotely by sends, less amounts credited back (queued and
+    ///         cancelled entries stay included). Never rescuable, unlike tokens transferred to the adapter directly.
+    uint256 public totalLocked;
+
     /// @dev Emitted when rate limiter role is updated
     event RateLimiterSet(address indexed newRateLimiter);
 
+    /// @dev Emitted when the pauser / unpauser is updated
+    event PauserSet(address indexed pauser);
+    event UnpauserSet(address indexed unpauser);
+
+    /// @dev Emitted when an over-limit inbound transfer is queued instead of credited
+    event InboundQueued(address indexed to, uint256 indexed index, uint32 srcEid, uint256 amountLD);
+
+    /// @dev Emitted when a queued transfer is credited; `early` when the owner released it past the limit
+    event QueuedInboundReleased(address indexed to, uint256 indexed index, uint256 amountLD, bool early);
+
+    /// @dev Emitted when the owner cancels a queued transfer; its tokens stay locked in the adapter
+    event QueuedInboundCancelled(address indexed to, uint256 indexed index, uint256 amountLD, string reason);
+
+    /// @dev Emitted when the owner recovers tokens sent to the adapter by mistake
+    event TokensRescued(address indexed token, address indexed to, uint256 amount);
+
     /// @dev Thrown when caller lacks permission to adjust limits
     error OnlyRateLimiter();
+
+    /// @dev Thrown when caller is not the pauser / unpauser
+    error OnlyPauser();
+    error OnlyUnpauser();
+
+    /// @dev Thrown when the queue entry does not exist or was already released / cancelled
+    error NotQueued(address to, uint256 index);
+
+    /// @dev Thrown when a rescue would dip into bridge-locked liquidity or accrued fees
+    error RescueExceedsSurplus(uint256 amount, uint256 rescuable);
+
     /**
      * @param _token      Address of the existing ERC-20 token to wrap as OFT.
      * @param _lzEndpoint LayerZero endpoint address for this chain.
      * @param _owner      Admin / owner (receives Ownable privileges & can update rate limits).
-     * @param _rateLimitConfigs Optional initial rate limit configs (pass empty array if not used).
+     * @param _rateLimitConfigs Optional initial rate limit configs, applied to both outbound and inbound (pass empty
+     *                          array if not used).
      */
     constructor(
         address _token,
@@ -37,6 +98,7 @@ contract FDFIOFTAdapter is OFTAdapter, RateLimiter {
     ) OFTAdapter(_token, _lzEndpoint, _owner) Ownable(_owner) {
         if (_rateLimitConfigs.length > 0) {
             _setRateLimits(_rateLimitConfigs);
+            _setInboundRateLimits(_rateLimitConfigs);
         }
         // Initialize rateLimiter to owner by default; can be rotated to dedicated ops contract later
         rateLimiter = _owner;
@@ -52,22 +114,186 @@ contract FDFIOFTAdapter is OFTAdapter, RateLimiter {
         emit RateLimiterSet(_rateLimiter);
     }
 
-    /// @notice Update rate limits (callable by owner or designated rateLimiter)
+    /// @notice Update outbound rate limits (callable by owner or designated rateLimiter)
     function setRateLimits(RateLimitConfig[] memory _rateLimitConfigs) external {
         if (msg.sender != rateLimiter && msg.sender != owner()) revert OnlyRateLimiter();
         _setRateLimits(_rateLimitConfigs);
     }
 
+    /// @notice Update inbound rate limits, keyed by source eid in `dstEid` (callable by owner or designated rateLimiter)
+    function setInboundRateLimits(RateLimitConfig[] memory _rateLimitConfigs) external {
+        if (msg.sender != rateLimiter && msg.sender != owner()) revert OnlyRateLimiter();
+        _setInboundRateLimits(_rateLimitConfigs);
+    }
+
+    /*//////////////////////////////////////////////////////////////////
+                                 PAUSING
+    //////////////////////////////////////////////////////////////////*/
+
+    /// @notice Set the account allowed to pause (owner only)
+    function setPauser(address _pauser) external onlyOwner {
+        pauser = _pauser;
+        emit PauserSet(_pauser);
+    }
+
+    /// @notice Set the account allowed to unpause (owner only)
+    function setUnpauser(address _unpauser) external onlyOwner {
+        unpauser = _unpauser;
+        emit UnpauserSet(_unpauser);
+    }
+
+    /**
+     * @notice Stop sends and receives (pauser only).
+     * @dev Inbound packets revert while paused and stay retryable on the endpoint until unpause.
+     */
+    function pause() external {
+        if (msg.sender != pauser) revert OnlyPauser();
+        _pause();
+    }
+
+    /// @notice Resume sends and receives (unpauser only)
+    function unpause() external {
+        if (msg.sender != unpauser) revert OnlyUnpauser();
+        _unpause();
+    }
+
+    /*//////////////////////////////////////////////////////////////////
+                                  FEES
+    //////////////////////////////////////////////////////////////////*/
+
+    /// @notice Set the fee for destinations without an override (owner only)
+    function setDefaultFeeBps(uint16 _feeBps) external onlyOwner {
+        _setDefaultFeeBps(_feeBps);
+    }
+
+    /// @notice Set or disable the fee override of a destination (owner only)
+    function setFeeBps(uint32 _dstEid, uint16 _feeBps, bool _enabled) external onlyOwner {
+        _setFeeBps(_dstEid, _feeBps, _enabled);
+    }
+
+    /// @notice Set the account allowed to claim fees (owner only)
+    function setFeeWithdrawer(address _feeWithdrawer) external onlyOwner {
+        _setFeeWithdrawer(_feeWithdrawer);
+    }
+
+    /**
+     * @notice Send the accrued fees to `_to` (fee withdrawer or owner).
+     * @dev Fees are locked with the bridged amount but back nothing on the remote side.
+     */
+    function withdrawFees(address _to) external {
+        if (msg.sender != feeWithdrawer() && msg.sender != owner()) revert OnlyFeeWithdrawer();
+        innerToken.safeTransfer(_to, _withdrawFees(_to));
+    }
+
+    /// @dev Takes the fee from the amount before removing dust, which goes to the fee as well (as LayerZero's OFTFee)
+    function _debitView(
+        uint256 _amountLD,
+        uint256 _minAmountLD,
+        uint32 _dstEid
+    ) internal view override returns (uint256 amountSentLD, uint256 amountReceivedLD) {
+        uint256 fee = getFee(_dstEid, _amountLD);
+        if (fee == 0) return super._debitView(_amountLD, _minAmountLD, _dstEid);
+        amountSentLD = _amountLD;
+        amountReceivedLD = _removeDust(_amountLD - fee);
+        if (amountReceivedLD < _minAmountLD) revert SlippageExceeded(amountReceivedLD, _minAmountLD);
+    }
+
+    /// @notice Quote a send; the bridge fee (including dust) is reported in oftFeeDetails
+    function quoteOFT(
+        SendParam calldata _sendParam
+    ) external view override returns (OFTLimit memory, OFTFeeDetail[] memory, OFTReceipt memory) {
+        (uint256 amountSentLD, uint256 amountReceivedLD) = _debitView(_sendParam.amountLD, _sendParam.minAmountLD, _sendParam.dstEid);
+        return (OFTLimit(0, type(uint256).max), _feeDetails(amountSentLD - amountReceivedLD), OFTReceipt(amountSentLD, amountReceivedLD));
+    }
+
+    /*//////////////////////////////////////////////////////////////////
+                              INBOUND QUEUE
+    //////////////////////////////////////////////////////////////////*/
+
+    /// @notice Queue entries of a recipient, including zeroed (released / cancelled) ones
+    function queuedInbound(address _to) external view returns (QueuedInbound[] memory) {
+        return _inboundQueue[_to];
+    }
+
+    /**
+     * @notice Credit a queued transfer once the inbound limit of its source eid has capacity for it (anyone).
+     * @dev Consumes inbound capacity like a delivery; reverts with RateLimitExceeded while there is not enough.
+     */
+    function releaseQueued(address _to, uint256 _index) external whenNotPaused {
+        QueuedInbound memory entry = _dequeue(_to, _index);
+        _inboundFlow(entry.srcEid, entry.amountLD);
+        _unlock(_to, entry.amountLD, entry.srcEid);
+        emit QueuedInboundReleased(_to, _index, entry.amountLD, false);
+    }
+
+    /// @notice Credit a queued transfer without waiting for inbound capacity (owner only); consumes none
+    function releaseQueuedEarly(address _to, uint256 _index) external onlyOwner whenNotPaused {
+        QueuedInbound memory entry = _dequeue(_to, _index);
+        _unlock(_to, entry.amountLD, entry.srcEid);
+        emit QueuedInboundReleased(_to, _index, entry.amountLD, true);
+    }
+
+    /**
+     * @notice Drop a queued transfer (owner only), e.g. one forged by a compromised source chain.
+     * @dev Nothing is credited: the tokens stay locked in the adapter.
+     */
+    function cancelQueued(address _to, uint256 _index, string calldata _reason) external onlyOwner {
+        QueuedInbound memory entry = _dequeue(_to, _index);
+        emit QueuedInboundCancelled(_to, _index, entry.amountLD, _reason);
+    }
+
+    function _dequeue(address _to, uint256 _index) private returns (QueuedInbound memory entry) {
+        QueuedInbound[] storage queue = _inboundQueue[_to];
+        if (_index >= queue.length || queue[_index].amountLD == 0) revert NotQueued(_to, _index);
+        entry = queue[_index];
+        queue[_index].amountLD = 0;
+        totalQueued -= entry.amountLD;
+    }
+
+    /*//////////////////////////////////////////////////////////////////
+                                BLOCKLIST
+    //////////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Set the FDFIBlocklist of this chain, or zero to disable blocking (owner only)
+     * @dev Set the same blocklist on FDFIToken: sends through FDFIBridgeRouter debit the router, so the owner's
+     *      own transfer to the router is what stops a blocked account there.
+     */
+    function setBlocklist(address _blocklist) external onlyOwner {
+        _setBlocklist(_blocklist);
+    }
+
+    /*//////////////////////////////////////////////////////////////////
+                                 RESCUE
+    //////////////////////////////////////////////////////////////////*/
+
+    /// @notice Balance of `_token` the owner may recover: for FDFI, whatever exceeds totalLocked plus the fee balance
+    function rescuableAmount(address _token) public view returns (uint256) {
+        uint256 balance = IERC20(_token).balanceOf(address(this));
+        if (_token != address(innerToken)) return balance;
+        uint256 reserved = totalLocked + feeBalance();
+        return balance > reserved ? balance - reserved : 0;
+    }
+
+    /**
+     * @notice Recover tokens sent to the adapter by mistake (owner only): any ERC-20, or FDFI transferred directly
+     *         instead of through send(). Bridge-locked liquidity and accrued fees cannot be touched.
+     */
+    function rescueTokens(address _token, address _to, uint256 _amount) external onlyOwner {
+        uint256 rescuable = rescuableAmount(_token);
+        if (_amount > rescuable) revert RescueExceedsSurplus(_amount, rescuable);
+        IERC20(_token).safeTransfer(_to, _amount);
+        emit TokensRescued(_token, _to, _amount);
+    }
+
     /*//////////////////////////////////////////////////////////////////
                              RATE ENFORCEMENT
     //////////////////////////////////////////////////////////////////*/
-    /// @dev Emitted after a successful inbound rate check (post-consumption)
-    event InflowRateConsumed(uint32 indexed srcEid, uint256 amountLD, uint256 remainingCapacity);
     /// @dev Emitted after a successful outbound rate check (post-consumption)
     event OutflowRateConsumed(uint32 indexed dstEid, uint256 amountLD, uint256 remainingCapacity);
 
     /**
-     * @notice Outbound hook override to enforce per-destination rate limit.
+     * @notice Outbound hook override to enforce pause and per-destination rate limit.
      * @dev Consumes outbound capacity before performing the underlying debit logic.
      * @param _from      Sender address initiating the bridge.
      * @param _amountLD  Amount in local decimals requested to send.
@@ -81,32 +307,51 @@ contract FDFIOFTAdapter is OFTAdapter, RateLimiter {
         uint256 _amountLD,
         uint256 _minAmountLD,
         uint32 _dstEid
-    ) internal virtual override returns (uint256 amountSentLD, uint256 amountReceivedLD) {
+    ) internal virtual override whenNotPaused returns (uint256 amountSentLD, uint256 amountReceivedLD) {
+        _checkNotBlocked(_from, address(0));
         _outflow(_dstEid, _amountLD); // enforce outbound limit keyed by destination eid
         // Fetch remaining capacity for observability
         RateLimit memory rl = rateLimits[_dstEid];
         (, uint256 remaining) = _amountCanBeSent(rl.amountInFlight, rl.lastUpdated, rl.limit, rl.window);
         emit OutflowRateConsumed(_dstEid, _amountLD, remaining);
-        return super._debit(_from, _amountLD, _minAmountLD, _dstEid);
+        // Locks the full amount sent; the fee part stays in the adapter's fee balance
+        (amountSentLD, amountReceivedLD) = super._debit(_from, _amountLD, _minAmountLD, _dstEid);
+        if (amountSentLD > amountReceivedLD) _accrueFee(amountSentLD - amountReceivedLD);
+        totalLocked += amountReceivedLD;
     }
 
     /**
-     * @notice Inbound hook override to enforce per-source rate limit.
-     * @dev Consumes inbound capacity prior to crediting/minting tokens unlocked by bridging.
+     * @notice Inbound hook override to enforce pause and per-source rate limit.
+     * @dev Consumes inbound capacity prior to crediting/minting tokens unlocked by bridging (emits InflowRateConsumed).
+     *      An amount above the remaining capacity is queued for the recipient instead of reverting, so the delivery
+     *      completes and the transfer can be released later (see releaseQueued).
      * @param _to       Recipient address on this (canonical) chain.
      * @param _amountLD Amount in local decimals to credit.
      * @param _srcEid   LayerZero source Endpoint ID.
+     * @return amountReceivedLD Amount credited now: 0 when the transfer was queued.
      */
     function _credit(
         address _to,
         uint256 _amountLD,
         uint32 _srcEid
-    ) internal virtual override returns (uint256 amountReceivedLD) {
-        _inflow(_srcEid, _amountLD); // enforce inbound limit keyed by source eid
-        // Fetch remaining capacity for observability
-        RateLimit memory rl = rateLimits[_srcEid];
-        (, uint256 remaining) = _amountCanBeSent(rl.amountInFlight, rl.lastUpdated, rl.limit, rl.window);
-        emit InflowRateConsumed(_srcEid, _amountLD, remaining);
-        return super._credit(_to, _amountLD, _srcEid);
+    ) internal virtual override whenNotPaused returns (uint256 amountReceivedLD) {
+        (, uint256 amountCanBeReceived) = getAmountCanBeReceived(_srcEid);
+        if (_amountLD > amountCanBeReceived) {
+            _inboundQueue[_to].push(QueuedInbound(_amountLD, _srcEid, uint64(block.timestamp)));
+            totalQueued += _amountLD;
+            emit InboundQueued(_to, _inboundQueue[_to].length - 1, _srcEid, _amountLD);
+            return 0;
+        }
+        _inboundFlow(_srcEid, _amountLD); // enforce inbound limit keyed by source eid
+        return _unlock(_to, _amountLD, _srcEid);
+    }
+
+    /**
+     * @dev Credits from the locked liquidity; saturates at zero for credits backed by tokens sent in directly.
+     *      Credits (and queued releases) to a blocked recipient go to the blocklist's quarantine instead.
+     */
+    function _unlock(address _to, uint256 _amountLD, uint32 _srcEid) private returns (uint256) {
+        totalLocked = _amountLD > totalLocked ? 0 : totalLocked - _amountLD;
+        return super._credit(_creditRecipient(_to, _amountLD), _amountLD, _srcEid);
     }
 }
\ No newline at end of file
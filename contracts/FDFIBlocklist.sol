@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { Ownable, Ownable2Step } from "@openzeppelin/contracts/access/Ownable2Step.sol";
+
+/// @notice What FDFIToken, FDFIOFTAdapter and FDFIOFTUpgradeable read from the blocklist of their chain
+interface IFDFIBlocklist {
+    function isBlocked(address account) external view returns (bool);
+
+    function quarantine() external view returns (address);
+
+    function checkTransfer(address from, address to) external view;
+
+    function creditRecipient(address to) external view returns (address);
+}
+
+/**
+ * @title FDFIBlocklist
+ * @notice Sanctions / compliance blocklist shared by the FDFI contracts of one chain. Blocked accounts cannot send,
+ *         receive or bridge out; bridge credits to them go to the quarantine address instead, so LayerZero messages
+ *         still complete.
+ * @dev One instance per chain, referenced by the token, adapter or OFT through setBlocklist. Kept out of the OFT for
+ *      contract size. The list itself is synced across chains from a file (blocklist:sync).
+ */
+contract FDFIBlocklist is IFDFIBlocklist, Ownable2Step {
+    /// @notice Compliance account allowed to block / unblock (besides the owner)
+    address public blocklister;
+
+    /// @notice Receives bridge credits addressed to blocked accounts; never blocked itself
+    address public quarantine;
+
+    /// @notice Whether `account` is blocked on this chain
+    mapping(address account => bool) public isBlocked;
+
+    /// @dev Emitted when the blocklister is updated
+    event BlocklisterSet(address indexed blocklister);
+
+    /// @dev Emitted when the quarantine address is updated
+    event QuarantineSet(address indexed quarantine);
+
+    /// @dev Emitted for every account blocked or unblocked
+    event BlockedSet(address indexed account, bool blocked);
+
+    /// @dev Thrown (through the token, adapter or OFT) when a blocked account sends, receives or bridges out
+    error AccountBlocked(address account);
+
+    /// @dev Thrown when caller is neither the blocklister nor the owner
+    error OnlyBlocklister();
+
+    /// @dev Thrown when blocking the zero address (mints / burns) or the quarantine
+    error CannotBlock(address account);
+
+    /// @dev Thrown when the quarantine would be zero or blocked
+    error InvalidQuarantine(address quarantine);
+
+    /**
+     * @param _owner       Admin / owner (sets the blocklister and quarantine).
+     * @param _blocklister Compliance account managing the list, or zero for the owner only.
+     * @param _quarantine  Account receiving credits addressed to blocked accounts.
+     */
+    constructor(address _owner, address _blocklister, address _quarantine) Ownable(_owner) {
+        blocklister = _blocklister;
+        emit BlocklisterSet(_blocklister);
+        _setQuarantine(_quarantine);
+    }
+
+    /// @notice Set the compliance account allowed to manage the list (owner only)
+    function setBlocklister(address _blocklister) external onlyOwner {
+        blocklister = _blocklister;
+        emit BlocklisterSet(_blocklister);
+    }
+
+    /// @notice Set the account receiving quarantined credits (owner only)
+    function setQuarantine(address _quarantine) external onlyOwner {
+        _setQuarantine(_quarantine);
+    }
+
+    /// @notice Block or unblock `_accounts` (blocklister or owner)
+    function setBlocked(address[] calldata _accounts, bool _blocked) external {
+        if (msg.sender != blocklister && msg.sender != owner()) revert OnlyBlocklister();
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            if (_blocked && (_accounts[i] == address(0) || _accounts[i] == quarantine)) revert CannotBlock(_accounts[i]);
+            isBlocked[_accounts[i]] = _blocked;
+            emit BlockedSet(_accounts[i], _blocked);
+        }
+    }
+
+    /// @notice Reverts with AccountBlocked if `_from` or `_to` is blocked (zero, i.e. mint / burn, never is)
+    function checkTransfer(address _from, address _to) external view {
+        if (isBlocked[_from]) revert AccountBlocked(_from);
+        if (isBlocked[_to]) revert AccountBlocked(_to);
+    }
+
+    /// @notice Where a bridge credit to `_to` goes: the quarantine when `_to` is blocked, else `_to`
+    function creditRecipient(address _to) external view returns (address) {
+        return isBlocked[_to] ? quarantine : _to;
+    }
+
+    function _setQuarantine(address _quarantine) private {
+        if (_quarantine == address(0) || isBlocked[_quarantine]) revert InvalidQuarantine(_quarantine);
+        quarantine = _quarantine;
+        emit QuarantineSet(_quarantine);
+    }
+}
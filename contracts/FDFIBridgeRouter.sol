@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { IOFT, SendParam, OFTReceipt } from "@layerzerolabs/oft-evm/contracts/interfaces/IOFT.sol";
+import { MessagingReceipt, MessagingFee } from "@layerzerolabs/oapp-evm/contracts/oapp/OAppSender.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import { SafeERC20, IERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { Nonces } from "@openzeppelin/contracts/utils/Nonces.sol";
+
+/**
+ * @title FDFIBridgeRouter
+ * @notice Single-transaction bridging from the home chain: sendWithPermit() consumes an EIP-2612 permit on FDFIToken
+ *         instead of a separate approve(), and sendWithIntent() lets a relayer submit a signed BridgeIntent, pay the
+ *         LayerZero fee and take a reimbursement in FDFI from the owner.
+ * @dev Stateless companion to FDFIOFTAdapter (no owner, nothing upgradeable): it pulls the owner's tokens, sends them
+ *      through the adapter and refunds dust. On the adapter the router is the sender, so OFTSent reports the router
+ *      and compose messages see it as composeFrom; RoutedSend records the actual owner and relayer per GUID.
+ *      Pre-launch, the router must be on FDFIToken's sender / receiver allowlist like any other account.
+ */
+contract FDFIBridgeRouter is EIP712, Nonces {
+    using SafeERC20 for IERC20;
+
+    /// @notice EIP-2612 permit for the router; skipped when deadline is 0 (existing allowance is used)
+    struct Permit {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /// @notice Transfer signed by `owner` for a relayer to submit; the relayer gets `relayerFeeLD` on top of amountLD
+    struct BridgeIntent {
+        address owner;
+        uint32 dstEid;
+        bytes32 to;
+        uint256 amountLD;
+        uint256 minAmountLD;
+        bytes extraOptions;
+        uint256 relayerFeeLD;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    bytes32 public constant BRIDGE_INTENT_TYPEHASH =
+        keccak256(
+            "BridgeIntent(address owner,uint32 dstEid,bytes32 to,uint256 amountLD,uint256 minAmountLD,bytes extraOptions,uint256 relayerFeeLD,uint256 nonce,uint256 deadline)"
+        );
+
+    /// @notice FDFIOFTAdapter every transfer goes through
+    IOFT public immutable adapter;
+
+    /// @notice FDFIToken behind the adapter
+    IERC20 public immutable token;
+
+    /// @dev Emitted for every send through the router; `relayer` is zero for sendWithPermit
+    event RoutedSend(bytes32 indexed guid, address indexed owner, address indexed relayer, uint256 relayerFeeLD);
+
+    /// @dev Thrown when an intent is submitted after its deadline
+    error IntentExpired(uint256 deadline);
+
+    /// @dev Thrown when the intent signature is not the owner's (EOA or ERC-1271 wallet)
+    error InvalidIntentSignature();
+
+    /// @param _adapter FDFIOFTAdapter on this chain; the router approves it once for its token
+    constructor(address _adapter) EIP712("FDFIBridgeRouter", "1") {
+        adapter = IOFT(_adapter);
+        token = IERC20(IOFT(_adapter).token());
+        token.forceApprove(_adapter, type(uint256).max);
+    }
+
+    /**
+     * @notice Bridge the caller's tokens in one transaction: permit, pull and send through the adapter.
+     * @dev msg.value must equal _fee.nativeFee (the adapter's quoteSend for the same SendParam).
+     */
+    function sendWithPermit(
+        SendParam calldata _sendParam,
+        MessagingFee calldata _fee,
+        address _refundAddress,
+        Permit calldata _permit
+    ) external payable returns (MessagingReceipt memory msgReceipt, OFTReceipt memory oftReceipt) {
+        _permitIfSet(msg.sender, _permit);
+        (msgReceipt, oftReceipt) = _route(msg.sender, _sendParam, _fee, _refundAddress);
+        emit RoutedSend(msgReceipt.guid, msg.sender, address(0), 0);
+    }
+
+    /**
+     * @notice Submit an intent signed by its owner: the caller pays the native fee (msg.value) and any refund goes
+     *         back to it; the owner is debited amountLD plus relayerFeeLD, the latter transferred to the caller.
+     * @dev Reverts with InvalidAccountNonce when the nonce was already used (replay) or is not the next one.
+     */
+    function sendWithIntent(
+        BridgeIntent calldata _intent,
+        bytes calldata _signature,
+        Permit calldata _permit
+    ) external payable returns (MessagingReceipt memory msgReceipt, OFTReceipt memory oftReceipt) {
+        if (block.timestamp > _intent.deadline) revert IntentExpired(_intent.deadline);
+        _useCheckedNonce(_intent.owner, _intent.nonce);
+        if (!SignatureChecker.isValidSignatureNow(_intent.owner, hashIntent(_intent), _signature)) {
+            revert InvalidIntentSignature();
+        }
+
+        _permitIfSet(_intent.owner, _permit);
+        if (_intent.relayerFeeLD > 0) token.safeTransferFrom(_intent.owner, msg.sender, _intent.relayerFeeLD);
+
+        SendParam memory sendParam = SendParam(
+            _intent.dstEid,
+            _intent.to,
+            _intent.amountLD,
+            _intent.minAmountLD,
+            _intent.extraOptions,
+            "",
+            ""
+        );
+        (msgReceipt, oftReceipt) = _route(_intent.owner, sendParam, MessagingFee(msg.value, 0), msg.sender);
+        emit RoutedSend(msgReceipt.guid, _intent.owner, msg.sender, _intent.relayerFeeLD);
+    }
+
+    /// @notice Invalidate the caller's next intent nonce, e.g. to withdraw an intent handed to a relayer
+    function invalidateNonce() external {
+        _useNonce(msg.sender);
+    }
+
+    /// @notice EIP-712 digest the intent owner signs
+    function hashIntent(BridgeIntent calldata _intent) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        BRIDGE_INTENT_TYPEHASH,
+                        _intent.owner,
+                        _intent.dstEid,
+                        _intent.to,
+                        _intent.amountLD,
+                        _intent.minAmountLD,
+                        keccak256(_intent.extraOptions),
+                        _intent.relayerFeeLD,
+                        _intent.nonce,
+                        _intent.deadline
+                    )
+                )
+            );
+    }
+
+    /**
+     * @dev A permit front-run by someone submitting the same signature reverts here but has already set the
+     *      allowance, so failures are ignored and the pull below decides.
+     */
+    function _permitIfSet(address _owner, Permit calldata _permit) private {
+        if (_permit.deadline == 0) return;
+        try
+            IERC20Permit(address(token)).permit(
+                _owner,
+                address(this),
+                _permit.value,
+                _permit.deadline,
+                _permit.v,
+                _permit.r,
+                _permit.s
+            )
+        {} catch {}
+    }
+
+    /// @dev Pulls amountLD from `_from`, sends it through the adapter and returns the dust the adapter did not take
+    function _route(
+        address _from,
+        SendParam memory _sendParam,
+        MessagingFee memory _fee,
+        address _refundAddress
+    ) private returns (MessagingReceipt memory msgReceipt, OFTReceipt memory oftReceipt) {
+        token.safeTransferFrom(_from, address(this), _sendParam.amountLD);
+        (msgReceipt, oftReceipt) = adapter.send{ value: msg.value }(_sendParam, _fee, _refundAddress);
+        if (oftReceipt.amountSentLD < _sendParam.amountLD) {
+            token.safeTransfer(_from, _sendParam.amountLD - oftReceipt.amountSentLD);
+        }
+    }
+}
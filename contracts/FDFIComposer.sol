@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { ILayerZeroComposer } from "@layerzerolabs/lz-evm-protocol-v2/contracts/interfaces/ILayerZeroComposer.sol";
+import { IOFT } from "@layerzerolabs/oft-evm/contracts/interfaces/IOFT.sol";
+import { OFTComposeMsgCodec } from "@layerzerolabs/oft-evm/contracts/libs/OFTComposeMsgCodec.sol";
+import { IVotes } from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import { SafeERC20, IERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @notice Staking contract the composer deposits into; pulls `amount` from the caller and credits `account`
+interface IFDFIStaking {
+    function stakeFor(address account, uint256 amount) external;
+}
+
+/**
+ * @title FDFIComposer
+ * @notice Reference lzCompose receiver for bridge-and-call transfers to a satellite: the OFT credits the composer, which
+ *         then forwards the FDFI to a recipient, forwards it and delegates the recipient's votes (with their
+ *         delegateBySig signature), or deposits it into a staking contract on the recipient's behalf.
+ * @dev The compose payload (SendParam.composeMsg) is abi.encode(uint8 action, address recipient, address refundAddress,
+ *      bytes params); see scripts/lib/compose.ts. A failing action does not revert: the amount goes to refundAddress
+ *      on this chain and ComposeRefunded is emitted. Malformed payloads and native value revert, leaving the compose
+ *      message on the endpoint to be retried. Meant for satellites: on the home chain an over-limit delivery is queued
+ *      by the adapter, reaches the composer with amount 0 and is later released to it without a compose.
+ */
+contract FDFIComposer is ILayerZeroComposer {
+    using SafeERC20 for IERC20;
+
+    enum Action {
+        Forward, // params: none
+        Delegate, // params: abi.encode(address delegatee, uint256 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s)
+        Stake // params: abi.encode(address staking)
+    }
+
+    /// @notice LayerZero endpoint allowed to call lzCompose
+    address public immutable endpoint;
+
+    /// @notice FDFI OFT whose compose messages are accepted
+    address public immutable oApp;
+
+    /// @notice Token credited by the OFT (the OFT itself on satellites)
+    IERC20 public immutable token;
+
+    /// @notice Where satellite votes are delegated (FDFIVoteReporter); zero disables Action.Delegate
+    IVotes public immutable votes;
+
+    /// @dev Emitted when a compose action completed
+    event ComposeExecuted(bytes32 indexed guid, Action action, address indexed recipient, uint256 amountLD);
+
+    /// @dev Emitted when an action failed and the amount went to the refund address instead
+    event ComposeRefunded(bytes32 indexed guid, Action action, address indexed refundAddress, uint256 amountLD, bytes reason);
+
+    /// @dev Thrown when lzCompose is not called by the endpoint for the configured OFT
+    error OnlyEndpoint(address caller);
+    error OnlyOApp(address from);
+
+    /// @dev Thrown when handleCompose is called from outside the composer
+    error OnlySelf();
+
+    /// @dev Thrown when the executor attaches native value, which the composer has no use for
+    error NativeValueNotSupported();
+
+    /// @dev Thrown by Action.Delegate when no vote contract is configured or the recipient's delegation did not happen
+    error DelegationUnavailable();
+    error DelegationFailed(address recipient, address delegatee);
+
+    /**
+     * @param _endpoint LayerZero endpoint address for this chain.
+     * @param _oApp     FDFIOFTUpgradeable proxy sending the compose messages.
+     * @param _votes    FDFIVoteReporter for delegate-on-arrival, or zero.
+     */
+    constructor(address _endpoint, address _oApp, address _votes) {
+        endpoint = _endpoint;
+        oApp = _oApp;
+        token = IERC20(IOFT(_oApp).token());
+        votes = IVotes(_votes);
+    }
+
+    /// @notice Runs the action encoded in the compose message on the amount the OFT just credited to the composer
+    function lzCompose(
+        address _from,
+        bytes32 _guid,
+        bytes calldata _message,
+        address /*_executor*/,
+        bytes calldata /*_extraData*/
+    ) external payable {
+        if (msg.sender != endpoint) revert OnlyEndpoint(msg.sender);
+        if (_from != oApp) revert OnlyOApp(_from);
+        if (msg.value != 0) revert NativeValueNotSupported();
+
+        uint256 amountLD = OFTComposeMsgCodec.amountLD(_message);
+        (Action action, address recipient, address refundAddress, bytes memory params) = abi.decode(
+            OFTComposeMsgCodec.composeMsg(_message),
+            (Action, address, address, bytes)
+        );
+        if (amountLD == 0) return;
+
+        try this.handleCompose(action, recipient, amountLD, params) {
+            emit ComposeExecuted(_guid, action, recipient, amountLD);
+        } catch (bytes memory reason) {
+            token.safeTransfer(refundAddress, amountLD);
+            emit ComposeRefunded(_guid, action, refundAddress, amountLD, reason);
+        }
+    }
+
+    /// @dev External so lzCompose can roll a failed action back as a whole; callable by the composer only
+    function handleCompose(Action _action, address _recipient, uint256 _amountLD, bytes calldata _params) external {
+        if (msg.sender != address(this)) revert OnlySelf();
+
+        if (_action == Action.Stake) {
+            address staking = abi.decode(_params, (address));
+            token.forceApprove(staking, _amountLD);
+            IFDFIStaking(staking).stakeFor(_recipient, _amountLD);
+            token.forceApprove(staking, 0);
+            return;
+        }
+
+        token.safeTransfer(_recipient, _amountLD);
+        if (_action == Action.Delegate) {
+            if (address(votes) == address(0)) revert DelegationUnavailable();
+            (address delegatee, uint256 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) = abi.decode(
+                _params,
+                (address, uint256, uint256, uint8, bytes32, bytes32)
+            );
+            // A signature front-run on the vote contract has already delegated; only a missing delegation fails
+            try votes.delegateBySig(delegatee, nonce, expiry, v, r, s) {} catch {}
+            if (votes.delegates(_recipient) != delegatee) revert DelegationFailed(_recipient, delegatee);
+        }
+    }
+}
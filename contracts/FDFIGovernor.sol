@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { Governor } from "@openzeppelin/contracts/governance/Governor.sol";
+import { GovernorSettings } from "@openzeppelin/contracts/governance/extensions/GovernorSettings.sol";
+import { GovernorCountingSimple } from "@openzeppelin/contracts/governance/extensions/GovernorCountingSimple.sol";
+import { GovernorVotes } from "@openzeppelin/contracts/governance/extensions/GovernorVotes.sol";
+import { GovernorVotesQuorumFraction } from "@openzeppelin/contracts/governance/extensions/GovernorVotesQuorumFraction.sol";
+import { GovernorTimelockControl } from "@openzeppelin/contracts/governance/extensions/GovernorTimelockControl.sol";
+import { TimelockController } from "@openzeppelin/contracts/governance/TimelockController.sol";
+import { IVotes } from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import { FDFIVoteAggregator } from "./FDFIVoteAggregator.sol";
+
+/**
+ * @title FDFIGovernor
+ * @notice On-chain governance for FDFI: proposals are voted with FDFIToken (ERC20Votes) and executed by FDFITimelock.
+ * @dev Voting delay / period are in FDFIToken clock units (block numbers). Delay, period and proposal threshold can be
+ *      changed later by governance itself (GovernorSettings), the quorum fraction via updateQuorumNumerator.
+ *      The timelock, not this contract, owns the governed contracts.
+ * @dev With a vote aggregator set, votes held on satellite chains count too: the aggregator holds satellite votes
+ *      at a timestamp recorded for the proposal's snapshot block at propose time, so reporters know it in advance.
+ *      With a voting delay that block is still ahead; its timestamp is estimated as `votingDelay * secondsPerBlock`
+ *      from now. On Ethereum (12 s slots) the estimate is exact unless slots are missed, which only moves the
+ *      snapshot block later. Voting opens once the estimated timestamp has passed, so satellite votes are final.
+ */
+contract FDFIGovernor is
+    Governor,
+    GovernorSettings,
+    GovernorCountingSimple,
+    GovernorVotes,
+    GovernorVotesQuorumFraction,
+    GovernorTimelockControl
+{
+    /// @notice Satellite votes added to FDFIToken votes; address(0) counts home-chain votes only
+    FDFIVoteAggregator public voteAggregator;
+
+    /// @notice Unix timestamp of each proposal snapshot block, the timepoint satellite votes are read at
+    mapping(uint256 snapshot => uint48) public snapshotTimestamps;
+
+    /// @notice Block time of the token clock's chain, for the snapshot timestamp of proposals with a voting delay
+    uint48 public immutable secondsPerBlock;
+
+    event VoteAggregatorSet(address indexed aggregator);
+
+    /// @dev Thrown when voting on an aggregated proposal before its satellite timepoint has passed
+    error SnapshotTimestampPending(uint48 timestamp);
+
+    /**
+     * @param _token              FDFIToken (voting power source).
+     * @param _timelock           FDFITimelock executing successful proposals.
+     * @param _votingDelay        Blocks between proposal and vote start.
+     * @param _votingPeriod       Blocks the vote stays open.
+     * @param _proposalThreshold  Votes required to create a proposal (18 decimals).
+     * @param _quorumPercent      Quorum as a percentage of total supply at the proposal snapshot.
+     * @param _voteAggregator     FDFIVoteAggregator for satellite votes, or address(0).
+     * @param _secondsPerBlock    Block time of this chain (12 on Ethereum).
+     */
+    constructor(
+        IVotes _token,
+        TimelockController _timelock,
+        uint48 _votingDelay,
+        uint32 _votingPeriod,
+        uint256 _proposalThreshold,
+        uint256 _quorumPercent,
+        FDFIVoteAggregator _voteAggregator,
+        uint48 _secondsPerBlock
+    )
+        Governor("FDFI Governor")
+        GovernorSettings(_votingDelay, _votingPeriod, _proposalThreshold)
+        GovernorVotes(_token)
+        GovernorVotesQuorumFraction(_quorumPercent)
+        GovernorTimelockControl(_timelock)
+    {
+        secondsPerBlock = _secondsPerBlock;
+        _setVoteAggregator(_voteAggregator);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                        CROSS-CHAIN VOTES
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Enable, replace or (with address(0)) disable satellite vote aggregation; through governance only
+    function setVoteAggregator(FDFIVoteAggregator _voteAggregator) external onlyGovernance {
+        _setVoteAggregator(_voteAggregator);
+    }
+
+    function _setVoteAggregator(FDFIVoteAggregator _voteAggregator) internal {
+        voteAggregator = _voteAggregator;
+        emit VoteAggregatorSet(address(_voteAggregator));
+    }
+
+    /**
+     * @dev Records the snapshot block's timestamp: exact with a zero voting delay (the snapshot is the current block),
+     *      estimated from secondsPerBlock otherwise. Proposals sharing a snapshot block keep the first timestamp.
+     */
+    function _propose(
+        address[] memory _targets,
+        uint256[] memory _values,
+        bytes[] memory _calldatas,
+        string memory _description,
+        address _proposer
+    ) internal override returns (uint256) {
+        uint256 snapshot = clock() + votingDelay();
+        if (snapshotTimestamps[snapshot] == 0) {
+            snapshotTimestamps[snapshot] = uint48(block.timestamp + votingDelay() * secondsPerBlock);
+        }
+        return super._propose(_targets, _values, _calldatas, _description, _proposer);
+    }
+
+    /// @dev Satellite votes at a timestamp that has not passed yet could still change, so votes wait for it
+    function _castVote(
+        uint256 _proposalId,
+        address _account,
+        uint8 _support,
+        string memory _reason,
+        bytes memory _params
+    ) internal override returns (uint256) {
+        uint48 timestamp = snapshotTimestamps[proposalSnapshot(_proposalId)];
+        if (address(voteAggregator) != address(0) && timestamp >= block.timestamp) revert SnapshotTimestampPending(timestamp);
+        return super._castVote(_proposalId, _account, _support, _reason, _params);
+    }
+
+    /// @dev FDFIToken votes at the snapshot block plus satellite votes at its timestamp
+    function _getVotes(
+        address _account,
+        uint256 _timepoint,
+        bytes memory _params
+    ) internal view override(Governor, GovernorVotes) returns (uint256) {
+        uint256 votes = super._getVotes(_account, _timepoint, _params);
+        uint48 timestamp = snapshotTimestamps[_timepoint];
+        if (address(voteAggregator) == address(0) || timestamp == 0) return votes;
+        return votes + voteAggregator.satelliteVotes(timestamp, _account);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                        INHERITANCE RESOLUTION
+    //////////////////////////////////////////////////////////////*/
+
+    function votingDelay() public view override(Governor, GovernorSettings) returns (uint256) {
+        return super.votingDelay();
+    }
+
+    function votingPeriod() public view override(Governor, GovernorSettings) returns (uint256) {
+        return super.votingPeriod();
+    }
+
+    function quorum(uint256 _timepoint) public view override(Governor, GovernorVotesQuorumFraction) returns (uint256) {
+        return super.quorum(_timepoint);
+    }
+
+    function state(uint256 _proposalId) public view override(Governor, GovernorTimelockControl) returns (ProposalState) {
+        return super.state(_proposalId);
+    }
+
+    function proposalNeedsQueuing(uint256 _proposalId) public view override(Governor, GovernorTimelockControl) returns (bool) {
+        return super.proposalNeedsQueuing(_proposalId);
+    }
+
+    function proposalThreshold() public view override(Governor, GovernorSettings) returns (uint256) {
+        return super.proposalThreshold();
+    }
+
+    function _queueOperations(
+        uint256 _proposalId,
+        address[] memory _targets,
+        uint256[] memory _values,
+        bytes[] memory _calldatas,
+        bytes32 _descriptionHash
+    ) internal override(Governor, GovernorTimelockControl) returns (uint48) {
+        return super._queueOperations(_proposalId, _targets, _values, _calldatas, _descriptionHash);
+    }
+
+    function _executeOperations(
+        uint256 _proposalId,
+        address[] memory _targets,
+        uint256[] memory _values,
+        bytes[] memory _calldatas,
+        bytes32 _descriptionHash
+    ) internal override(Governor, GovernorTimelockControl) {
+        super._executeOperations(_proposalId, _targets, _values, _calldatas, _descriptionHash);
+    }
+
+    function _cancel(
+        address[] memory _targets,
+        uint256[] memory _values,
+        bytes[] memory _calldatas,
+        bytes32 _descriptionHash
+    ) internal override(Governor, GovernorTimelockControl) returns (uint256) {
+        return super._cancel(_targets, _values, _calldatas, _descriptionHash);
+    }
+
+    function _executor() internal view override(Governor, GovernorTimelockControl) returns (address) {
+        return super._executor();
+    }
+}
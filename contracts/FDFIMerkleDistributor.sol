@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { Ownable, Ownable2Step } from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IVotes } from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title FDFIMerkleDistributor
+ * @notice One airdrop / community allocation campaign: the owner mints the campaign total to the distributor once and
+ *         every account in the Merkle tree claims its amount to itself, optionally delegating its votes in the same
+ *         transaction (with a delegateBySig signature).
+ * @dev Leaves are keccak256(bytes.concat(keccak256(abi.encode(account, amount)))) with sorted-pair hashing, as built
+ *      by scripts/lib/airdrop.ts. Before launch the distributor must be an allowed sender on FDFIToken; claimed
+ *      tokens stay gated for the claimer until transfers are enabled. Unclaimed tokens can be clawed back by the
+ *      owner, which also ends the campaign; claims also end at the optional deadline.
+ */
+contract FDFIMerkleDistributor is Ownable2Step {
+    using SafeERC20 for IERC20;
+
+    /// @notice delegateBySig arguments signed by the claimer
+    struct Delegation {
+        address delegatee;
+        uint256 nonce;
+        uint256 expiry;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /// @notice FDFI token being distributed
+    IERC20 public immutable token;
+
+    /// @notice Root of the (account, amount) tree
+    bytes32 public immutable merkleRoot;
+
+    /// @notice Unix time after which claims are rejected; zero for no expiry
+    uint64 public immutable claimDeadline;
+
+    /// @notice Whether `account` has claimed its allocation
+    mapping(address account => bool) public claimed;
+
+    /// @notice Sum of all claimed amounts
+    uint256 public totalClaimed;
+
+    /// @notice Set by clawback(); no claims afterwards
+    bool public closed;
+
+    event Claimed(address indexed account, uint256 amount, address indexed delegatee);
+    event ClawedBack(address indexed to, uint256 amount);
+
+    error AlreadyClaimed(address account);
+    error InvalidProof();
+    error ClaimsClosed();
+    error DelegationFailed(address account, address delegatee);
+
+    /**
+     * @param _token         FDFI token.
+     * @param _merkleRoot    Root of the campaign's (account, amount) tree.
+     * @param _claimDeadline Unix time claims end, or zero for no expiry.
+     * @param _owner         Admin / multisig allowed to claw back unclaimed tokens.
+     */
+    constructor(address _token, bytes32 _merkleRoot, uint64 _claimDeadline, address _owner) Ownable(_owner) {
+        token = IERC20(_token);
+        merkleRoot = _merkleRoot;
+        claimDeadline = _claimDeadline;
+    }
+
+    /// @notice Whether claims are still accepted
+    function isOpen() public view returns (bool) {
+        return !closed && (claimDeadline == 0 || block.timestamp <= claimDeadline);
+    }
+
+    /// @notice Claim the caller's allocation
+    function claim(uint256 _amount, bytes32[] calldata _proof) external {
+        _claim(_amount, _proof, address(0));
+    }
+
+    /**
+     * @notice Claim the caller's allocation and delegate its votes with the caller's delegateBySig signature
+     * @dev A signature already used on the token (front-run) is fine as long as the caller ends up delegated to
+     *      `_delegation.delegatee`.
+     */
+    function claimAndDelegate(uint256 _amount, bytes32[] calldata _proof, Delegation calldata _delegation) external {
+        IVotes votes = IVotes(address(token));
+        try votes.delegateBySig(_delegation.delegatee, _delegation.nonce, _delegation.expiry, _delegation.v, _delegation.r, _delegation.s) {} catch {}
+        if (votes.delegates(msg.sender) != _delegation.delegatee) revert DelegationFailed(msg.sender, _delegation.delegatee);
+        _claim(_amount, _proof, _delegation.delegatee);
+    }
+
+    /// @notice End the campaign and send every unclaimed token to `_to` (owner only)
+    function clawback(address _to) external onlyOwner {
+        closed = true;
+        uint256 amount = token.balanceOf(address(this));
+        token.safeTransfer(_to, amount);
+        emit ClawedBack(_to, amount);
+    }
+
+    function _claim(uint256 _amount, bytes32[] calldata _proof, address _delegatee) private {
+        if (!isOpen()) revert ClaimsClosed();
+        if (claimed[msg.sender]) revert AlreadyClaimed(msg.sender);
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, _amount))));
+        if (!MerkleProof.verifyCalldata(_proof, merkleRoot, leaf)) revert InvalidProof();
+
+        claimed[msg.sender] = true;
+        totalClaimed += _amount;
+        token.safeTransfer(msg.sender, _amount);
+        emit Claimed(msg.sender, _amount, _delegatee);
+    }
+}
@@ -6,31 +6,66 @@ import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils
 import { OwnableUpgradeable } from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import { Ownable2StepUpgradeable } from "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
 import { ERC20PermitUpgradeable } from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
+import { PausableUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 // Burnability removed on satellites to prevent unreported local burns
 
 import { OFTUpgradeable } from "@layerzerolabs/oft-evm-upgradeable/contracts/oft/OFTUpgradeable.sol";
 // Local wrapper since LayerZero does not provide an upgradeable RateLimiter
 import { RateLimiterUpgradeable } from "./libs/RateLimiterUpgradeable.sol";
+import { InboundRateLimiter } from "./libs/InboundRateLimiter.sol";
+import { BridgeFee } from "./libs/BridgeFee.sol";
+import { BlocklistGuard } from "./libs/BlocklistGuard.sol";
+import { SendParam, OFTLimit, OFTReceipt, OFTFeeDetail } from "@layerzerolabs/oft-evm/contracts/interfaces/IOFT.sol";
+import { FDFIVoteReporter } from "./FDFIVoteReporter.sol";
 /**
  * @title FDFIOFTUpgradeable
  * @notice Upgradeable LayerZero OFT token for non-canonical chains
+ * @dev No ERC20Votes here (contract size): satellite voting power lives in FDFIVoteReporter, kept in sync from _update.
  */
 contract FDFIOFTUpgradeable is
     Initializable,
     OFTUpgradeable,
     RateLimiterUpgradeable,
+    InboundRateLimiter,
+    BridgeFee,
+    BlocklistGuard,
     ERC20PermitUpgradeable,
+    PausableUpgradeable,
     Ownable2StepUpgradeable,
     UUPSUpgradeable
 {
     /// @notice Address allowed to update rate limits dynamically
     address public rateLimiter;
 
+    /// @notice FDFIVoteReporter told about every balance change (cross-chain voting); set once, unset means no vote tracking
+    address public voteReporter;
+
+    /// @notice Account allowed to pause bridging (mirrors the Solana OFTStore pauser); unset disables pausing
+    address public pauser;
+
+    /// @notice Account allowed to unpause bridging (mirrors the Solana OFTStore unpauser)
+    address public unpauser;
+
     /// @dev Emitted when the rate limiter contract is updated.
     event RateLimiterSet(address indexed newRateLimiter);
 
+    /// @dev Emitted after a successful outbound rate check (post-consumption), as on FDFIOFTAdapter.
+    event OutflowRateConsumed(uint32 indexed dstEid, uint256 amountLD, uint256 remainingCapacity);
+
+    /// @dev Emitted when the vote reporter is updated.
+    event VoteReporterSet(address indexed reporter);
+
+    /// @dev Emitted when the pauser / unpauser is updated.
+    event PauserSet(address indexed pauser);
+    event UnpauserSet(address indexed unpauser);
+
     /// @dev Custom error for restricted functions
     error OnlyRateLimiter();
+    error OnlyPauser();
+    error OnlyUnpauser();
+
+    /// @dev Thrown when replacing the vote reporter, whose delegation checkpoints cannot move to a new one
+    error VoteReporterAlreadySet();
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor(address _lzEndpoint) OFTUpgradeable(_lzEndpoint) {
@@ -39,7 +74,7 @@ contract FDFIOFTUpgradeable is
 
     /**
      * @notice Initialize the upgradeable OFT token
-     * @param _rateLimitConfigs Initial rate limit configs (can be empty)
+     * @param _rateLimitConfigs Initial rate limit configs, applied to both outbound and inbound (can be empty)
      * @param _name Token name
      * @param _symbol Token symbol
      * @param _owner Admin / multisig owner
@@ -52,9 +87,11 @@ contract FDFIOFTUpgradeable is
     ) external initializer {
         __OFT_init(_name, _symbol, _owner);
         __ERC20Permit_init(_name);
+        __Pausable_init();
         __Ownable2Step_init();
         __UUPSUpgradeable_init();
         __RateLimiter_init(_rateLimitConfigs);
+        if (_rateLimitConfigs.length > 0) _setInboundRateLimits(_rateLimitConfigs);
         _transferOwnership(_owner);
     }
 
@@ -68,21 +105,158 @@ contract FDFIOFTUpgradeable is
         emit RateLimiterSet(_rateLimiter);
     }
 
-    /// @notice Update rate limits (callable by owner or authorized rate limiter)
+    /// @notice Update outbound rate limits (callable by owner or authorized rate limiter)
     function setRateLimits(RateLimitConfig[] calldata _rateLimitConfigs) external {
         if (msg.sender != rateLimiter && msg.sender != owner()) revert OnlyRateLimiter();
         _setRateLimits(_rateLimitConfigs);
     }
 
-    /// @dev Hook: enforce rate limit on outbound transfers
+    /**
+     * @notice Update inbound rate limits, keyed by source eid in `dstEid` (callable by owner or authorized rate limiter)
+     * @dev Proxies deployed before inbound limits existed receive without limit until this is called; pass it as
+     *      the upgradeToAndCall data when upgrading them.
+     */
+    function setInboundRateLimits(RateLimitConfig[] calldata _rateLimitConfigs) external {
+        if (msg.sender != rateLimiter && msg.sender != owner()) revert OnlyRateLimiter();
+        _setInboundRateLimits(_rateLimitConfigs);
+    }
+
+    /// @dev Hook: enforce pause and rate limit on outbound transfers; the fee moves to this contract, the rest is burned
     function _debit(
         address _from,
         uint256 _amountLD,
         uint256 _minAmountLD,
         uint32 _dstEid
-    ) internal virtual override returns (uint256 amountSentLD, uint256 amountReceivedLD) {
+    ) internal virtual override whenNotPaused returns (uint256 amountSentLD, uint256 amountReceivedLD) {
         _outflow(_dstEid, _amountLD);
-        return super._debit(_from, _amountLD, _minAmountLD, _dstEid);
+        (, uint256 remaining) = getAmountCanBeSent(_dstEid);
+        emit OutflowRateConsumed(_dstEid, _amountLD, remaining);
+        (amountSentLD, amountReceivedLD) = _debitView(_amountLD, _minAmountLD, _dstEid);
+        if (amountSentLD > amountReceivedLD) {
+            _accrueFee(amountSentLD - amountReceivedLD);
+            _transfer(_from, address(this), amountSentLD - amountReceivedLD);
+        }
+        _burn(_from, amountReceivedLD);
+    }
+
+    /**
+     * @dev Hook: enforce pause and inbound rate limit; reverted packets stay on the endpoint for retry.
+     *      Credits to a blocked recipient are minted to the blocklist's quarantine instead.
+     */
+    function _credit(
+        address _to,
+        uint256 _amountLD,
+        uint32 _srcEid
+    ) internal virtual override whenNotPaused returns (uint256 amountReceivedLD) {
+        _inboundFlow(_srcEid, _amountLD);
+        return super._credit(_creditRecipient(_to, _amountLD), _amountLD, _srcEid);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                                 FEES
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Set the fee for destinations without an override (owner only)
+    function setDefaultFeeBps(uint16 _feeBps) external onlyOwner {
+        _setDefaultFeeBps(_feeBps);
+    }
+
+    /// @notice Set or disable the fee override of a destination (owner only)
+    function setFeeBps(uint32 _dstEid, uint16 _feeBps, bool _enabled) external onlyOwner {
+        _setFeeBps(_dstEid, _feeBps, _enabled);
+    }
+
+    /// @notice Set the account allowed to claim fees (owner only)
+    function setFeeWithdrawer(address _feeWithdrawer) external onlyOwner {
+        _setFeeWithdrawer(_feeWithdrawer);
+    }
+
+    /// @notice Send the accrued fees to `_to` (fee withdrawer or owner)
+    function withdrawFees(address _to) external {
+        if (msg.sender != feeWithdrawer() && msg.sender != owner()) revert OnlyFeeWithdrawer();
+        _transfer(address(this), _to, _withdrawFees(_to));
+    }
+
+    /// @dev Takes the fee from the amount before removing dust, which goes to the fee as well (as LayerZero's OFTFee)
+    function _debitView(
+        uint256 _amountLD,
+        uint256 _minAmountLD,
+        uint32 _dstEid
+    ) internal view override returns (uint256 amountSentLD, uint256 amountReceivedLD) {
+        uint256 fee = getFee(_dstEid, _amountLD);
+        if (fee == 0) return super._debitView(_amountLD, _minAmountLD, _dstEid);
+        amountSentLD = _amountLD;
+        amountReceivedLD = _removeDust(_amountLD - fee);
+        if (amountReceivedLD < _minAmountLD) revert SlippageExceeded(amountReceivedLD, _minAmountLD);
+    }
+
+    /// @notice Quote a send; the bridge fee (including dust) is reported in oftFeeDetails
+    function quoteOFT(
+        SendParam calldata _sendParam
+    ) external view override returns (OFTLimit memory, OFTFeeDetail[] memory, OFTReceipt memory) {
+        (uint256 amountSentLD, uint256 amountReceivedLD) = _debitView(_sendParam.amountLD, _sendParam.minAmountLD, _sendParam.dstEid);
+        return (OFTLimit(0, type(uint256).max), _feeDetails(amountSentLD - amountReceivedLD), OFTReceipt(amountSentLD, amountReceivedLD));
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                               PAUSING
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Set the account allowed to pause (owner only)
+    function setPauser(address _pauser) external onlyOwner {
+        pauser = _pauser;
+        emit PauserSet(_pauser);
+    }
+
+    /// @notice Set the account allowed to unpause (owner only)
+    function setUnpauser(address _unpauser) external onlyOwner {
+        unpauser = _unpauser;
+        emit UnpauserSet(_unpauser);
+    }
+
+    /// @notice Stop sends and receives (pauser only)
+    function pause() external {
+        if (msg.sender != pauser) revert OnlyPauser();
+        _pause();
+    }
+
+    /// @notice Resume sends and receives (unpauser only)
+    function unpause() external {
+        if (msg.sender != unpauser) revert OnlyUnpauser();
+        _unpause();
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              BLOCKLIST
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Set the FDFIBlocklist of this chain, or zero to disable blocking (owner only)
+    function setBlocklist(address _blocklist) external onlyOwner {
+        _setBlocklist(_blocklist);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                          VOTE AGGREGATION
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Set the FDFIVoteReporter that tracks satellite voting power (owner only, once).
+     * @dev Every transfer, mint and burn calls the reporter, so it must never revert for valid balance changes.
+     *      Delegations and checkpoints live in the reporter. A replacement (or the old reporter set back) would hold
+     *      delegate votes that miss the balance changes made meanwhile, and moving more than that out of a delegate
+     *      underflows and reverts the holder's transfers, so the reporter cannot be changed once set.
+     */
+    function setVoteReporter(address _voteReporter) external onlyOwner {
+        if (voteReporter != address(0)) revert VoteReporterAlreadySet();
+        voteReporter = _voteReporter;
+        emit VoteReporterSet(_voteReporter);
+    }
+
+    /// @dev Blocked accounts can neither send (bridging out burns through here too) nor receive
+    function _update(address from, address to, uint256 value) internal override {
+        _checkNotBlocked(from, to);
+        super._update(from, to, value);
+        if (voteReporter != address(0)) FDFIVoteReporter(voteReporter).transferVotingUnits(from, to, value);
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -101,5 +275,5 @@ contract FDFIOFTUpgradeable is
         Ownable2StepUpgradeable._transferOwnership(newOwner);
     }
 
-    uint256[50] private __gap;
+    uint256[47] private __gap;
 }
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { TimelockController } from "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * @title FDFITimelock
+ * @notice Owner of FDFIToken, FDFIOFTAdapter and the OFT proxies once governance is live.
+ * @dev Plain TimelockController. On the home chain FDFIGovernor is the only proposer / canceller; on satellites the
+ *      proposers come from the network manifest (e.g. a multisig relaying governance decisions).
+ */
+contract FDFITimelock is TimelockController {
+    /**
+     * @param _minDelay   Seconds between scheduling and executing an operation.
+     * @param _proposers  Accounts allowed to schedule (and cancel) operations.
+     * @param _executors  Accounts allowed to execute; address(0) lets anyone execute ready operations.
+     * @param _admin      Optional bootstrap admin (address(0) for none); should renounce after wiring roles.
+     */
+    constructor(
+        uint256 _minDelay,
+        address[] memory _proposers,
+        address[] memory _executors,
+        address _admin
+    ) TimelockController(_minDelay, _proposers, _executors, _admin) {}
+}
@@ -9,10 +9,11 @@ import {ERC20PermitUpgradeable} from "@openzeppelin/contracts-upgradeable/token/
 import {ERC20BurnableUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable.sol";
 import {ERC20VotesUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20VotesUpgradeable.sol";
 import {NoncesUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import {BlocklistGuard} from "./libs/BlocklistGuard.sol";
 
 /**
  * @title FDFIToken
- * @notice A governance token with minting, burning, voting, upgradeability, and transfer gating.
+ * @notice A governance token with minting, burning, voting, upgradeability, transfer gating and a blocklist.
  */
 contract FDFIToken is
     Initializable,
@@ -21,7 +22,8 @@ contract FDFIToken is
     ERC20PermitUpgradeable,
     ERC20VotesUpgradeable,
     Ownable2StepUpgradeable,
-    UUPSUpgradeable
+    UUPSUpgradeable,
+    BlocklistGuard
 {
     // Fixed token metadata & capped total supply (2B FDFI, 18 decimals)
     string internal constant _NAME = "FDFI Token";
@@ -35,7 +37,19 @@ contract FDFIToken is
     // Transfer gating: initially false; only owner can enable after distribution readiness.
     bool public transfersEnabled;
 
+    // Vesting vault: transfers it initiates (funding escrows, releasing to beneficiaries) bypass the transfer gate.
+    // Packed into the transfersEnabled slot, so the storage gap is unchanged.
+    address public vestingVault;
+
+    // Pre-launch allowlist: transfers from an allowed sender or to an allowed receiver pass the transfer gate.
+    // Ignored once transfersEnabled is true.
+    mapping(address account => bool) public allowedSenders;
+    mapping(address account => bool) public allowedReceivers;
+
     event TransfersEnabled();
+    event VestingVaultSet(address indexed vault);
+    event AllowedSenderSet(address indexed account, bool allowed);
+    event AllowedReceiverSet(address indexed account, bool allowed);
 
     function initialize(address owner_) external initializer {
         __ERC20_init(_NAME, _SYMBOL);
@@ -66,6 +80,38 @@ contract FDFIToken is
         emit TransfersEnabled();
     }
 
+    /// @notice Set the vesting vault allowed to move vesting tokens while transfers are disabled.
+    /// @dev Exempts transfers whose caller is the vault (vault -> escrow funding, escrow -> beneficiary releases);
+    ///      beneficiaries themselves stay gated. Set to address(0) to remove the exception.
+    function setVestingVault(address vault) external onlyOwner {
+        vestingVault = vault;
+        emit VestingVaultSet(vault);
+    }
+
+    /// @notice Allow or disallow `account` to send while transfers are disabled (e.g. treasury funding the adapter).
+    function setAllowedSender(address account, bool allowed) external onlyOwner {
+        allowedSenders[account] = allowed;
+        emit AllowedSenderSet(account, allowed);
+    }
+
+    /// @notice Allow or disallow `account` to receive while transfers are disabled (e.g. market-maker custody).
+    /// @dev Allowing the OFT adapter as receiver would let every holder bridge before launch; allow the sender instead.
+    function setAllowedReceiver(address account, bool allowed) external onlyOwner {
+        allowedReceivers[account] = allowed;
+        emit AllowedReceiverSet(account, allowed);
+    }
+
+    /// @notice Set the FDFIBlocklist whose accounts can neither send nor receive, or zero to disable it.
+    /// @dev The blocklist address is kept in namespaced storage (BlocklistGuard), so the storage gap is unchanged.
+    function setBlocklist(address blocklist_) external onlyOwner {
+        _setBlocklist(blocklist_);
+    }
+
+    /// @notice Whether a transfer from `from` to `to` passes the transfer gate right now (mints/burns always do).
+    function isTransferAllowed(address from, address to) public view returns (bool) {
+        return transfersEnabled || allowedSenders[from] || allowedReceivers[to];
+    }
+
     // Authorize upgrades (owner only)
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {
         // Intentionally empty - only owner can upgrade
@@ -77,10 +123,13 @@ contract FDFIToken is
         internal
         override(ERC20Upgradeable, ERC20VotesUpgradeable)
     {
-        // Allow mint (from=0) and burn (to=0) always; restrict peer transfers until enabled.
+        // Allow mint (from=0) and burn (to=0) always; restrict peer transfers until enabled,
+        // except allowlisted senders / receivers and transfers executed by the vesting vault.
         if (from != address(0) && to != address(0)) {
-            require(transfersEnabled, "Transfers disabled");
+            require(isTransferAllowed(from, to) || _msgSender() == vestingVault, "Transfers disabled");
         }
+        // Blocked accounts can neither send (or burn) nor receive (or be minted to)
+        _checkNotBlocked(from, to);
         super._update(from, to, value);
     }
 
@@ -91,5 +140,5 @@ contract FDFIToken is
     // Minting is restricted to owner via mintTo and permanently bounded by MAX_SUPPLY.
 
     // Storage gap for future variable additions (upgrade safety)
-    uint256[50] private __gap;
+    uint256[48] private __gap;
 }
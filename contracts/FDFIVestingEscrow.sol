@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { Initializable } from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { IVotes } from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+
+/**
+ * @title FDFIVestingEscrow
+ * @notice Holds the unreleased tokens of a single vesting beneficiary so their voting power stays with them.
+ * @dev Deployed as a minimal clone by FDFIVestingVault. ERC20Votes delegates per holder, so one escrow per
+ *      beneficiary is what lets unvested tokens vote. The vault is approved to pull releases from the escrow.
+ */
+contract FDFIVestingEscrow is Initializable {
+    /// @notice Vault that created this escrow and releases from it
+    address public vault;
+    /// @notice Beneficiary whose tokens this escrow holds
+    address public beneficiary;
+    /// @notice FDFI token held by the escrow
+    IERC20 public token;
+
+    /// @dev Thrown when a caller other than the beneficiary tries to re-delegate
+    error OnlyBeneficiary();
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Bind the escrow to its vault and beneficiary; called by the vault right after cloning.
+     * @dev Delegates the escrow's votes to the beneficiary and approves the vault for releases.
+     */
+    function initialize(IERC20 _token, address _beneficiary) external initializer {
+        vault = msg.sender;
+        beneficiary = _beneficiary;
+        token = _token;
+        _token.approve(msg.sender, type(uint256).max);
+        IVotes(address(_token)).delegate(_beneficiary);
+    }
+
+    /// @notice Redirect the voting power of the unreleased tokens (beneficiary only)
+    function delegate(address delegatee) external {
+        if (msg.sender != beneficiary) revert OnlyBeneficiary();
+        IVotes(address(token)).delegate(delegatee);
+    }
+}
@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { Ownable2StepUpgradeable } from "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { Clones } from "@openzeppelin/contracts/proxy/Clones.sol";
+import { FDFIVestingEscrow } from "./FDFIVestingEscrow.sol";
+
+/**
+ * @title FDFIVestingVault
+ * @notice Cliff + linear vesting schedules for FDFI allocations, funded from tokens minted to the vault.
+ * @dev Each beneficiary's tokens sit in their own FDFIVestingEscrow clone, delegated to the beneficiary, so
+ *      unvested allocations keep their ERC20Votes weight. The vault must be registered as FDFIToken.vestingVault
+ *      for funding and releases to work while FDFIToken.transfersEnabled is false.
+ */
+contract FDFIVestingVault is Initializable, Ownable2StepUpgradeable, UUPSUpgradeable {
+    using SafeERC20 for IERC20;
+
+    struct Schedule {
+        address escrow;
+        uint64 start;
+        /// Seconds after start before anything vests
+        uint64 cliff;
+        /// Seconds after start until everything has vested
+        uint64 duration;
+        uint128 total;
+        uint128 released;
+    }
+
+    struct ScheduleParams {
+        address beneficiary;
+        uint128 amount;
+        uint64 start;
+        uint64 cliff;
+        uint64 duration;
+    }
+
+    /// @notice FDFI token being vested
+    IERC20 public token;
+    /// @notice Implementation cloned for every beneficiary escrow
+    address public escrowImplementation;
+    /// @notice Schedule per beneficiary (one schedule each)
+    mapping(address beneficiary => Schedule) public schedules;
+    /// @notice Sum of all schedule totals / releases
+    uint256 public totalAllocated;
+    uint256 public totalReleased;
+
+    event ScheduleCreated(
+        address indexed beneficiary,
+        address escrow,
+        uint256 amount,
+        uint64 start,
+        uint64 cliff,
+        uint64 duration
+    );
+    event Released(address indexed beneficiary, uint256 amount);
+
+    error InvalidSchedule();
+    error ScheduleExists(address beneficiary);
+    error NoSchedule(address beneficiary);
+    error InsufficientUnallocated(uint256 required, uint256 available);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initialize the vault
+     * @param _token FDFI token
+     * @param _owner Admin / multisig allowed to create schedules and upgrade
+     */
+    function initialize(address _token, address _owner) external initializer {
+        __Ownable_init(_owner);
+        __Ownable2Step_init();
+        __UUPSUpgradeable_init();
+        token = IERC20(_token);
+        escrowImplementation = address(new FDFIVestingEscrow());
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              SCHEDULES
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Create a schedule funded from the vault's unallocated balance (owner only)
+    function createSchedule(ScheduleParams calldata _params) external onlyOwner {
+        _createSchedule(_params);
+    }
+
+    /// @notice Batch variant of createSchedule used by the allocation script
+    function createSchedules(ScheduleParams[] calldata _params) external onlyOwner {
+        for (uint256 i = 0; i < _params.length; i++) {
+            _createSchedule(_params[i]);
+        }
+    }
+
+    /// @notice Tokens held by the vault that are not assigned to any schedule yet
+    function unallocated() public view returns (uint256) {
+        return token.balanceOf(address(this));
+    }
+
+    /// @notice Amount of a beneficiary's schedule vested at `_timestamp` (released or not)
+    function vestedAmount(address _beneficiary, uint64 _timestamp) public view returns (uint256) {
+        Schedule memory s = schedules[_beneficiary];
+        if (s.escrow == address(0) || _timestamp < s.start + s.cliff) return 0;
+        if (_timestamp >= s.start + s.duration) return s.total;
+        return (uint256(s.total) * (_timestamp - s.start)) / s.duration;
+    }
+
+    /// @notice Amount the beneficiary can release right now
+    function releasable(address _beneficiary) public view returns (uint256) {
+        return vestedAmount(_beneficiary, uint64(block.timestamp)) - schedules[_beneficiary].released;
+    }
+
+    /// @notice Send everything vested so far to the beneficiary; callable by anyone
+    function release(address _beneficiary) external returns (uint256 amount) {
+        Schedule storage s = schedules[_beneficiary];
+        if (s.escrow == address(0)) revert NoSchedule(_beneficiary);
+
+        amount = releasable(_beneficiary);
+        if (amount == 0) return 0;
+        s.released += uint128(amount);
+        totalReleased += amount;
+        token.safeTransferFrom(s.escrow, _beneficiary, amount);
+        emit Released(_beneficiary, amount);
+    }
+
+    function _createSchedule(ScheduleParams calldata _params) internal {
+        if (_params.beneficiary == address(0) || _params.amount == 0 || _params.duration == 0 || _params.cliff > _params.duration) {
+            revert InvalidSchedule();
+        }
+        if (schedules[_params.beneficiary].escrow != address(0)) revert ScheduleExists(_params.beneficiary);
+        uint256 available = unallocated();
+        if (_params.amount > available) revert InsufficientUnallocated(_params.amount, available);
+
+        address escrow = Clones.clone(escrowImplementation);
+        FDFIVestingEscrow(escrow).initialize(token, _params.beneficiary);
+        schedules[_params.beneficiary] = Schedule({
+            escrow: escrow,
+            start: _params.start,
+            cliff: _params.cliff,
+            duration: _params.duration,
+            total: _params.amount,
+            released: 0
+        });
+        totalAllocated += _params.amount;
+        token.safeTransfer(escrow, _params.amount);
+
+        emit ScheduleCreated(_params.beneficiary, escrow, _params.amount, _params.start, _params.cliff, _params.duration);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           UPGRADE CONTROL
+    //////////////////////////////////////////////////////////////*/
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+
+    uint256[50] private __gap;
+}
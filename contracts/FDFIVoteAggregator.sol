@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { OApp, Origin } from "@layerzerolabs/oapp-evm/contracts/oapp/OApp.sol";
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title FDFIVoteAggregator
+ * @notice Home-chain record of FDFI voting power held on satellite chains, counted by FDFIGovernor.
+ * @dev Peers are the satellite FDFIVoteReporter contracts, which report votes read from their timestamp checkpoints
+ *      (FDFIVoteReporter.reportVotes). A past checkpoint never changes, so reports for the same (eid, timepoint,
+ *      account) can be repeated or arrive out of order: the latest one overwrites the previous value.
+ */
+contract FDFIVoteAggregator is OApp {
+    /// @notice Votes reported by one satellite for an account at a satellite timepoint (unix seconds)
+    mapping(uint32 srcEid => mapping(uint48 timepoint => mapping(address account => uint256))) public reportedVotes;
+
+    /// @notice reportedVotes summed over every satellite
+    mapping(uint48 timepoint => mapping(address account => uint256)) public satelliteVotes;
+
+    event VotesReported(uint32 indexed srcEid, uint48 indexed timepoint, address indexed account, uint256 votes);
+
+    /// @dev Thrown when a report's account and vote arrays differ in length
+    error InvalidReport();
+
+    /**
+     * @param _lzEndpoint LayerZero endpoint address for this chain.
+     * @param _owner      Admin / owner (sets the satellite OFTs as peers).
+     */
+    constructor(address _lzEndpoint, address _owner) OApp(_lzEndpoint, _owner) Ownable(_owner) {}
+
+    /// @dev Message: abi.encode(uint48 timepoint, address[] accounts, uint256[] votes); the sender is checked as peer
+    function _lzReceive(
+        Origin calldata _origin,
+        bytes32 /*_guid*/,
+        bytes calldata _message,
+        address /*_executor*/,
+        bytes calldata /*_extraData*/
+    ) internal override {
+        (uint48 timepoint, address[] memory accounts, uint256[] memory votes) = abi.decode(
+            _message,
+            (uint48, address[], uint256[])
+        );
+        if (accounts.length != votes.length) revert InvalidReport();
+
+        for (uint256 i = 0; i < accounts.length; i++) {
+            address account = accounts[i];
+            uint256 previous = reportedVotes[_origin.srcEid][timepoint][account];
+            reportedVotes[_origin.srcEid][timepoint][account] = votes[i];
+            satelliteVotes[timepoint][account] = satelliteVotes[timepoint][account] - previous + votes[i];
+            emit VotesReported(_origin.srcEid, timepoint, account, votes[i]);
+        }
+    }
+}
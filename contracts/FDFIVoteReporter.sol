@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { OApp, Origin, MessagingFee, MessagingReceipt } from "@layerzerolabs/oapp-evm/contracts/oapp/OApp.sol";
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { Votes } from "@openzeppelin/contracts/governance/utils/Votes.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/**
+ * @title FDFIVoteReporter
+ * @notice Satellite-chain voting power for FDFI held in FDFIOFTUpgradeable, reported to the home FDFIVoteAggregator.
+ * @dev Holders delegate here instead of on the OFT, which stays below the contract size limit without ERC20Votes.
+ *      Voting units are OFT balances; the OFT moves them on every transfer, mint and burn once this contract is
+ *      set as its voteReporter. Checkpoints use timestamps (ERC-6372 "mode=timestamp") so they can be compared with
+ *      the home chain. Total supply is not checkpointed. The only peer is the home aggregator.
+ */
+contract FDFIVoteReporter is OApp, Votes {
+    /// @notice Satellite FDFIOFTUpgradeable whose balances are the voting units
+    IERC20 public immutable token;
+
+    /// @dev Emitted for every vote report sent to the home chain
+    event VotesReportSent(uint32 indexed dstEid, uint48 indexed timepoint, uint256 accounts, bytes32 guid);
+
+    /// @dev Thrown when anyone but the OFT moves voting units
+    error OnlyToken();
+
+    /// @dev Thrown on inbound messages; reports only flow to the home chain
+    error ReportsOnly();
+
+    /**
+     * @param _token      Satellite FDFIOFTUpgradeable proxy.
+     * @param _lzEndpoint LayerZero endpoint address for this chain.
+     * @param _owner      Admin / owner (sets the home aggregator as peer).
+     */
+    constructor(
+        address _token,
+        address _lzEndpoint,
+        address _owner
+    ) OApp(_lzEndpoint, _owner) Ownable(_owner) EIP712("FDFI Vote Reporter", "1") {
+        token = IERC20(_token);
+    }
+
+    /// @notice Moves voting units between the delegates of `from` and `to`; called by the OFT after every balance change
+    function transferVotingUnits(address from, address to, uint256 amount) external {
+        if (msg.sender != address(token)) revert OnlyToken();
+        // Not _transferVotingUnits: supply minted before this reporter was set would underflow the total on burn
+        _moveDelegateVotes(delegates(from), delegates(to), amount);
+    }
+
+    /// @notice Fee for reportVotes with the same arguments
+    function quoteReportVotes(
+        uint32 _dstEid,
+        uint48 _timepoint,
+        address[] calldata _accounts,
+        bytes calldata _options
+    ) external view returns (MessagingFee memory) {
+        return _quote(_dstEid, _reportMessage(_timepoint, _accounts), _options, false);
+    }
+
+    /**
+     * @notice Report the votes `_accounts` had at `_timepoint` to the home aggregator. Anyone can call this, paying the fee.
+     * @dev Checkpoints are read with getPastVotes, so `_timepoint` must be in the past; FDFIGovernor uses the
+     *      timestamp of a proposal's snapshot block.
+     * @param _dstEid    Home chain eid (the aggregator peer).
+     * @param _timepoint Unix timestamp to read votes at.
+     * @param _accounts  Delegates to report.
+     * @param _options   Executor options (lzReceive gas for the aggregator).
+     */
+    function reportVotes(
+        uint32 _dstEid,
+        uint48 _timepoint,
+        address[] calldata _accounts,
+        bytes calldata _options
+    ) external payable returns (MessagingReceipt memory receipt) {
+        receipt = _lzSend(_dstEid, _reportMessage(_timepoint, _accounts), _options, MessagingFee(msg.value, 0), payable(msg.sender));
+        emit VotesReportSent(_dstEid, _timepoint, _accounts.length, receipt.guid);
+    }
+
+    /// @dev Message decoded by FDFIVoteAggregator: abi.encode(uint48 timepoint, address[] accounts, uint256[] votes)
+    function _reportMessage(uint48 _timepoint, address[] calldata _accounts) internal view returns (bytes memory) {
+        uint256[] memory votes = new uint256[](_accounts.length);
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            votes[i] = getPastVotes(_accounts[i], _timepoint);
+        }
+        return abi.encode(_timepoint, _accounts, votes);
+    }
+
+    function _lzReceive(Origin calldata, bytes32, bytes calldata, address, bytes calldata) internal pure override {
+        revert ReportsOnly();
+    }
+
+    function _getVotingUnits(address account) internal view override returns (uint256) {
+        return token.balanceOf(account);
+    }
+
+    /// @dev Votes are compared across chains, so checkpoints use timestamps instead of block numbers
+    function clock() public view override returns (uint48) {
+        return uint48(block.timestamp);
+    }
+
+    function CLOCK_MODE() public view override returns (string memory) {
+        if (clock() != uint48(block.timestamp)) revert ERC6372InconsistentClock();
+        return "mode=timestamp";
+    }
+}
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { IFDFIBlocklist } from "../FDFIBlocklist.sol";
+
+/**
+ * @title BlocklistGuard
+ * @notice Checks accounts against the chain's FDFIBlocklist and redirects credits to blocked accounts to its quarantine.
+ * @dev The blocklist address lives in ERC-7201 namespaced storage so it can be added to deployed proxies (FDFIToken,
+ *      FDFIOFTUpgradeable); access control is left to the contract. Unset, nothing is blocked.
+ */
+abstract contract BlocklistGuard {
+    /// @custom:storage-location erc7201:fdfi.storage.BlocklistGuard
+    struct BlocklistGuardStorage {
+        IFDFIBlocklist blocklist;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fdfi.storage.BlocklistGuard")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant BlocklistGuardStorageLocation =
+        0x227622488c554b0e6ee9a16851d1d498f956e3e3100cb469c962760d89154d00;
+
+    function _getBlocklistGuardStorage() private pure returns (BlocklistGuardStorage storage $) {
+        assembly {
+            $.slot := BlocklistGuardStorageLocation
+        }
+    }
+
+    /// @dev Emitted when the blocklist is updated
+    event BlocklistSet(address indexed blocklist);
+
+    /// @dev Emitted when a bridge credit to a blocked account went to the quarantine address
+    event CreditQuarantined(address indexed to, address indexed quarantine, uint256 amountLD);
+
+    /// @notice FDFIBlocklist consulted on every transfer; zero disables the checks
+    function blocklist() public view returns (address) {
+        return address(_getBlocklistGuardStorage().blocklist);
+    }
+
+    function _setBlocklist(address _blocklist) internal {
+        _getBlocklistGuardStorage().blocklist = IFDFIBlocklist(_blocklist);
+        emit BlocklistSet(_blocklist);
+    }
+
+    /// @dev Reverts with FDFIBlocklist.AccountBlocked if `_from` or `_to` is blocked
+    function _checkNotBlocked(address _from, address _to) internal view {
+        IFDFIBlocklist list = _getBlocklistGuardStorage().blocklist;
+        if (address(list) != address(0)) list.checkTransfer(_from, _to);
+    }
+
+    /// @dev Recipient of a bridge credit: the quarantine address when `_to` is blocked
+    function _creditRecipient(address _to, uint256 _amountLD) internal returns (address recipient) {
+        IFDFIBlocklist list = _getBlocklistGuardStorage().blocklist;
+        if (address(list) == address(0)) return _to;
+        recipient = list.creditRecipient(_to);
+        if (recipient != _to) emit CreditQuarantined(_to, recipient, _amountLD);
+    }
+}
@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { FeeConfig, IFee } from "@layerzerolabs/oft-evm/contracts/interfaces/IFee.sol";
+import { OFTFeeDetail } from "@layerzerolabs/oft-evm/contracts/interfaces/IOFT.sol";
+
+/**
+ * @title BridgeFee
+ * @notice Default and per-destination bridge fees in basis points, like the Solana OFT's default_fee_bps and
+ *         PeerConfig fee_bps, accrued to a fee balance claimed by a fee withdrawer role.
+ * @dev Same fee model, events and errors as LayerZero's Fee, which is tied to non-upgradeable Ownable. State lives in
+ *      ERC-7201 namespaced storage so it can be added to deployed OFT proxies; access control is left to the contract.
+ */
+abstract contract BridgeFee is IFee {
+    uint16 public constant BPS_DENOMINATOR = 10_000;
+
+    /// @custom:storage-location erc7201:fdfi.storage.BridgeFee
+    struct BridgeFeeStorage {
+        uint16 defaultFeeBps;
+        address feeWithdrawer;
+        uint256 feeBalance;
+        mapping(uint32 dstEid => FeeConfig config) feeBps;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fdfi.storage.BridgeFee")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant BridgeFeeStorageLocation =
+        0x5ff4db6ccd53b27067da913c4cf5daf944e60aae220206c12f27e5caca53f400;
+
+    function _getBridgeFeeStorage() private pure returns (BridgeFeeStorage storage $) {
+        assembly {
+            $.slot := BridgeFeeStorageLocation
+        }
+    }
+
+    /// @dev Emitted when the fee withdrawer is updated
+    event FeeWithdrawerSet(address indexed feeWithdrawer);
+
+    /// @dev Emitted when accrued fees are claimed
+    event FeeWithdrawn(address indexed to, uint256 amountLD);
+
+    /// @dev Thrown when caller is neither the fee withdrawer nor the owner
+    error OnlyFeeWithdrawer();
+
+    /// @dev Thrown when there is no fee balance to claim
+    error NoFeesToWithdraw();
+
+    /// @notice Fee in basis points for destinations without an enabled override
+    function defaultFeeBps() public view returns (uint16) {
+        return _getBridgeFeeStorage().defaultFeeBps;
+    }
+
+    /// @notice Per-destination override; only applies while `enabled`
+    function feeBps(uint32 _dstEid) public view returns (FeeConfig memory) {
+        return _getBridgeFeeStorage().feeBps[_dstEid];
+    }
+
+    /// @notice Account allowed to claim accrued fees (besides the owner)
+    function feeWithdrawer() public view returns (address) {
+        return _getBridgeFeeStorage().feeWithdrawer;
+    }
+
+    /// @notice Fees accrued and not yet withdrawn, in local decimals
+    function feeBalance() public view returns (uint256) {
+        return _getBridgeFeeStorage().feeBalance;
+    }
+
+    /// @notice Fee charged on sending `_amount` to `_dstEid` (before dust removal)
+    function getFee(uint32 _dstEid, uint256 _amount) public view returns (uint256) {
+        BridgeFeeStorage storage $ = _getBridgeFeeStorage();
+        FeeConfig memory config = $.feeBps[_dstEid];
+        uint16 bps = config.enabled ? config.feeBps : $.defaultFeeBps;
+        return bps == 0 ? 0 : (_amount * bps) / BPS_DENOMINATOR;
+    }
+
+    function _setDefaultFeeBps(uint16 _feeBps) internal {
+        if (_feeBps > BPS_DENOMINATOR) revert InvalidBps();
+        _getBridgeFeeStorage().defaultFeeBps = _feeBps;
+        emit DefaultFeeBpsSet(_feeBps);
+    }
+
+    function _setFeeBps(uint32 _dstEid, uint16 _feeBps, bool _enabled) internal {
+        if (_feeBps > BPS_DENOMINATOR) revert InvalidBps();
+        _getBridgeFeeStorage().feeBps[_dstEid] = FeeConfig(_feeBps, _enabled);
+        emit FeeBpsSet(_dstEid, _feeBps, _enabled);
+    }
+
+    function _setFeeWithdrawer(address _feeWithdrawer) internal {
+        _getBridgeFeeStorage().feeWithdrawer = _feeWithdrawer;
+        emit FeeWithdrawerSet(_feeWithdrawer);
+    }
+
+    function _accrueFee(uint256 _fee) internal {
+        _getBridgeFeeStorage().feeBalance += _fee;
+    }
+
+    /// @dev Zeroes the fee balance and returns it; the caller transfers the tokens to `_to`
+    function _withdrawFees(address _to) internal returns (uint256 amountLD) {
+        BridgeFeeStorage storage $ = _getBridgeFeeStorage();
+        amountLD = $.feeBalance;
+        if (amountLD == 0) revert NoFeesToWithdraw();
+        $.feeBalance = 0;
+        emit FeeWithdrawn(_to, amountLD);
+    }
+
+    /// @dev quoteOFT fee details for a send whose amount sent exceeds the amount received by `_fee` (fee plus dust)
+    function _feeDetails(uint256 _fee) internal pure returns (OFTFeeDetail[] memory details) {
+        if (_fee == 0) return details;
+        details = new OFTFeeDetail[](1);
+        details[0] = OFTFeeDetail(int256(_fee), "FDFI bridge fee");
+    }
+}
@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { RateLimiter } from "@layerzerolabs/oapp-evm/contracts/oapp/utils/RateLimiter.sol";
+
+/**
+ * @title InboundRateLimiter
+ * @notice Per-source inbound limits kept next to LayerZero's RateLimiter, whose `rateLimits` stay outbound only.
+ * @dev Same decay model as RateLimiter. A source eid that was never configured is unlimited, as before the split
+ *      and like a Solana peer without an inbound_rate_limiter; a limit of 0 blocks it. The table lives in ERC-7201
+ *      namespaced storage so it can be added to deployed proxies without touching their sequential layout.
+ *      RateLimitConfig is reused as is: for inbound configs `dstEid` holds the source eid.
+ */
+abstract contract InboundRateLimiter is RateLimiter {
+    /// @custom:storage-location erc7201:fdfi.storage.InboundRateLimiter
+    struct InboundRateLimiterStorage {
+        mapping(uint32 srcEid => RateLimit limit) inboundRateLimits;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fdfi.storage.InboundRateLimiter")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant InboundRateLimiterStorageLocation =
+        0x59d269ac370f74c81175fa469ec87f9f132f8bf63ddd570bd19cac2ab3b2c100;
+
+    function _getInboundRateLimiterStorage() private pure returns (InboundRateLimiterStorage storage $) {
+        assembly {
+            $.slot := InboundRateLimiterStorageLocation
+        }
+    }
+
+    /// @notice Limit state of one direction of a lane
+    struct Capacity {
+        uint256 limit;
+        uint64 window;
+        uint256 amountInFlight; // after decay
+        uint256 remaining;
+    }
+
+    /// @notice Outbound (to `eid`) and inbound (from `eid`) limit state of a lane
+    struct LaneCapacity {
+        uint32 eid;
+        Capacity outbound;
+        Capacity inbound;
+    }
+
+    /// @notice Emitted when _setInboundRateLimits occurs (`dstEid` of each config is the source eid)
+    event InboundRateLimitsChanged(RateLimitConfig[] rateLimitConfigs);
+
+    /// @dev Emitted after a successful inbound rate check (post-consumption)
+    event InflowRateConsumed(uint32 indexed srcEid, uint256 amountLD, uint256 remainingCapacity);
+
+    /// @notice Inbound limit state for a source eid
+    function inboundRateLimits(uint32 _srcEid) public view returns (RateLimit memory) {
+        return _getInboundRateLimiterStorage().inboundRateLimits[_srcEid];
+    }
+
+    /**
+     * @notice Get the amount that can currently be received from a source endpoint id.
+     * @return currentAmountInFlight The amount received in the current window (after decay).
+     * @return amountCanBeReceived   The amount that can still be received.
+     */
+    function getAmountCanBeReceived(
+        uint32 _srcEid
+    ) public view returns (uint256 currentAmountInFlight, uint256 amountCanBeReceived) {
+        RateLimit memory rl = _getInboundRateLimiterStorage().inboundRateLimits[_srcEid];
+        if (rl.lastUpdated == 0) return (0, type(uint256).max);
+        return _amountCanBeSent(rl.amountInFlight, rl.lastUpdated, rl.limit, rl.window);
+    }
+
+    /// @notice Outbound and inbound limit state of every lane in `_eids`, in one call
+    function getLaneCapacities(uint32[] calldata _eids) external view returns (LaneCapacity[] memory lanes) {
+        lanes = new LaneCapacity[](_eids.length);
+        for (uint256 i = 0; i < _eids.length; i++) {
+            lanes[i].eid = _eids[i];
+            lanes[i].outbound = _capacity(rateLimits[_eids[i]]);
+            lanes[i].inbound = _capacity(_getInboundRateLimiterStorage().inboundRateLimits[_eids[i]]);
+        }
+    }
+
+    function _capacity(RateLimit memory rl) private view returns (Capacity memory c) {
+        (c.amountInFlight, c.remaining) = _amountCanBeSent(rl.amountInFlight, rl.lastUpdated, rl.limit, rl.window);
+        c.limit = rl.limit;
+        c.window = rl.window;
+    }
+
+    /// @dev Like _setRateLimits: checkpoints the current amount in flight before applying the new limit and window
+    function _setInboundRateLimits(RateLimitConfig[] memory _rateLimitConfigs) internal {
+        for (uint256 i = 0; i < _rateLimitConfigs.length; i++) {
+            RateLimit storage rl = _getInboundRateLimiterStorage().inboundRateLimits[_rateLimitConfigs[i].dstEid];
+            _consumeInbound(rl, 0);
+            rl.limit = _rateLimitConfigs[i].limit;
+            rl.window = _rateLimitConfigs[i].window;
+        }
+        emit InboundRateLimitsChanged(_rateLimitConfigs);
+    }
+
+    /**
+     * @dev Consumes inbound capacity of `_srcEid`, reverting with RateLimitExceeded when it is not available.
+     *      Setting a config stamps lastUpdated, so lastUpdated == 0 marks an unset (unlimited) source eid.
+     */
+    function _inboundFlow(uint32 _srcEid, uint256 _amount) internal {
+        RateLimit storage rl = _getInboundRateLimiterStorage().inboundRateLimits[_srcEid];
+        if (rl.lastUpdated == 0) return;
+        emit InflowRateConsumed(_srcEid, _amount, _consumeInbound(rl, _amount));
+    }
+
+    function _consumeInbound(RateLimit storage rl, uint256 _amount) private returns (uint256 remaining) {
+        (uint256 currentAmountInFlight, uint256 amountCanBeReceived) = _amountCanBeSent(
+            rl.amountInFlight,
+            rl.lastUpdated,
+            rl.limit,
+            rl.window
+        );
+        if (_amount > amountCanBeReceived) revert RateLimitExceeded();
+        rl.amountInFlight = uint192(currentAmountInFlight + _amount);
+        rl.lastUpdated = uint64(block.timestamp);
+        return amountCanBeReceived - _amount;
+    }
+}
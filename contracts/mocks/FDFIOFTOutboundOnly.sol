@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { OwnableUpgradeable } from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import { Ownable2StepUpgradeable } from "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import { ERC20PermitUpgradeable } from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
+import { PausableUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import { OFTUpgradeable } from "@layerzerolabs/oft-evm-upgradeable/contracts/oft/OFTUpgradeable.sol";
+import { RateLimiterUpgradeable } from "../libs/RateLimiterUpgradeable.sol";
+
+/// @notice FDFIOFTUpgradeable as deployed before inbound rate limits: outbound limits only.
+/// @dev Keeps that release's bases and state variables (the storage layout) for upgrade tests; voting and pausing
+///      logic is left out since it does not affect the layout.
+contract FDFIOFTOutboundOnly is
+    Initializable,
+    OFTUpgradeable,
+    RateLimiterUpgradeable,
+    ERC20PermitUpgradeable,
+    PausableUpgradeable,
+    Ownable2StepUpgradeable,
+    UUPSUpgradeable
+{
+    address public rateLimiter;
+    address public voteReporter;
+    address public pauser;
+    address public unpauser;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address _lzEndpoint) OFTUpgradeable(_lzEndpoint) {
+        _disableInitializers();
+    }
+
+    function initialize(
+        RateLimitConfig[] memory _rateLimitConfigs,
+        string memory _name,
+        string memory _symbol,
+        address _owner
+    ) external initializer {
+        __OFT_init(_name, _symbol, _owner);
+        __ERC20Permit_init(_name);
+        __Pausable_init();
+        __Ownable2Step_init();
+        __UUPSUpgradeable_init();
+        __RateLimiter_init(_rateLimitConfigs);
+        _transferOwnership(_owner);
+    }
+
+    function setPauser(address _pauser) external onlyOwner {
+        pauser = _pauser;
+    }
+
+    function _debit(
+        address _from,
+        uint256 _amountLD,
+        uint256 _minAmountLD,
+        uint32 _dstEid
+    ) internal virtual override returns (uint256 amountSentLD, uint256 amountReceivedLD) {
+        _outflow(_dstEid, _amountLD);
+        return super._debit(_from, _amountLD, _minAmountLD, _dstEid);
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+
+    function transferOwnership(address newOwner) public virtual override(OwnableUpgradeable, Ownable2StepUpgradeable) onlyOwner {
+        Ownable2StepUpgradeable.transferOwnership(newOwner);
+    }
+
+    function _transferOwnership(address newOwner) internal virtual override(OwnableUpgradeable, Ownable2StepUpgradeable) {
+        Ownable2StepUpgradeable._transferOwnership(newOwner);
+    }
+
+    uint256[47] private __gap;
+}
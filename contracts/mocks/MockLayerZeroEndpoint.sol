@@ -1,32 +1,120 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.22;
 
+import { MessagingParams, MessagingReceipt, MessagingFee, Origin } from "@layerzerolabs/lz-evm-protocol-v2/contracts/interfaces/ILayerZeroEndpointV2.sol";
+import { ILayerZeroReceiver } from "@layerzerolabs/lz-evm-protocol-v2/contracts/interfaces/ILayerZeroReceiver.sol";
+import { Packet } from "@layerzerolabs/lz-evm-protocol-v2/contracts/interfaces/ISendLib.sol";
+import { MessagingChannel } from "@layerzerolabs/lz-evm-protocol-v2/contracts/MessagingChannel.sol";
+import { MessagingComposer } from "@layerzerolabs/lz-evm-protocol-v2/contracts/MessagingComposer.sol";
+import { PacketV1Codec } from "@layerzerolabs/lz-evm-protocol-v2/contracts/messagelib/libs/PacketV1Codec.sol";
+import { GUID } from "@layerzerolabs/lz-evm-protocol-v2/contracts/libs/GUID.sol";
+import { AddressCast } from "@layerzerolabs/lz-evm-protocol-v2/contracts/libs/AddressCast.sol";
+import { Errors } from "@layerzerolabs/lz-evm-protocol-v2/contracts/libs/Errors.sol";
+
 /**
  * @title MockLayerZeroEndpoint
- * @notice Minimal mock of LayerZero endpoint for testing OFT/Adapter contracts
- * @dev This is a simplified mock that implements just enough to allow contract deployment
+ * @notice Local stand-in for EndpointV2 used to simulate a multi-chain OFT mesh inside one hardhat network.
+ * @dev Reuses LayerZero's MessagingChannel (nonces, payload hashes, skip/nilify/burn) and MessagingComposer.
+ *      send() only emits PacketSent with a PacketV1-encoded packet; nothing is delivered automatically.
+ *      An off-chain relayer (test/helpers/lzSimulator.ts) plays DVN + executor by calling verify() and
+ *      lzReceive() on the destination endpoint, which lets tests reorder, replay, delay or drop packets.
  */
-contract MockLayerZeroEndpoint {
-    uint32 public immutable eid;
-    
-    constructor() {
-        eid = 1; // Mock endpoint ID
+contract MockLayerZeroEndpoint is MessagingChannel, MessagingComposer {
+    using AddressCast for address;
+
+    /// @notice Flat native fee charged per message (defaults to zero)
+    uint256 public nativeFee;
+
+    /// @notice OApp => delegate, as recorded by EndpointV2.setDelegate
+    mapping(address oapp => address delegate) public delegates;
+
+    event PacketSent(bytes encodedPayload, bytes options, address sendLibrary);
+    event PacketVerified(Origin origin, address receiver, bytes32 payloadHash);
+    event PacketDelivered(Origin origin, address receiver);
+    event DelegateSet(address sender, address delegate);
+    event NativeFeeSet(uint256 nativeFee);
+
+    constructor(uint32 _eid) MessagingChannel(_eid) {}
+
+    /// @notice Sets the flat native fee returned by quote() and required by send()
+    function setNativeFee(uint256 _nativeFee) external {
+        nativeFee = _nativeFee;
+        emit NativeFeeSet(_nativeFee);
     }
-    
+
+    function quote(MessagingParams calldata _params, address /*_sender*/) external view returns (MessagingFee memory) {
+        if (_params.payInLzToken) revert Errors.LZ_LzTokenUnavailable();
+        return MessagingFee(nativeFee, 0);
+    }
+
     function send(
-        bytes calldata,
-        bytes calldata,
-        address
-    ) external payable returns (bytes32) {
-        return bytes32(0);
-    }
-    
-    function quote(
-        bytes calldata,
-        bytes calldata
-    ) external view returns (uint256, uint256) {
-        return (0, 0);
-    }
-    
-    function setDelegate(address) external {}
+        MessagingParams calldata _params,
+        address _refundAddress
+    ) external payable returns (MessagingReceipt memory receipt) {
+        if (_params.payInLzToken) revert Errors.LZ_LzTokenUnavailable();
+        if (msg.value < nativeFee) revert Errors.LZ_InsufficientFee(nativeFee, msg.value, 0, 0);
+
+        uint64 nonce = _outbound(msg.sender, _params.dstEid, _params.receiver);
+        Packet memory packet = Packet({
+            nonce: nonce,
+            srcEid: eid,
+            sender: msg.sender,
+            dstEid: _params.dstEid,
+            receiver: _params.receiver,
+            guid: GUID.generate(nonce, eid, msg.sender, _params.dstEid, _params.receiver),
+            message: _params.message
+        });
+        emit PacketSent(PacketV1Codec.encode(packet), _params.options, address(this));
+
+        if (msg.value > nativeFee) {
+            (bool success, ) = _refundAddress.call{ value: msg.value - nativeFee }("");
+            if (!success) revert Errors.LZ_InvalidAmount(nativeFee, msg.value);
+        }
+        receipt = MessagingReceipt(packet.guid, nonce, MessagingFee(nativeFee, 0));
+    }
+
+    /// @notice Stands in for the receive library + DVNs: anyone may verify a payload hash in the mock
+    function verify(Origin calldata _origin, address _receiver, bytes32 _payloadHash) external {
+        if (_origin.nonce <= lazyInboundNonce[_receiver][_origin.srcEid][_origin.sender]) {
+            revert Errors.LZ_InvalidNonce(_origin.nonce);
+        }
+        _inbound(_receiver, _origin.srcEid, _origin.sender, _origin.nonce, _payloadHash);
+        emit PacketVerified(_origin, _receiver, _payloadHash);
+    }
+
+    function lzReceive(
+        Origin calldata _origin,
+        address _receiver,
+        bytes32 _guid,
+        bytes calldata _message,
+        bytes calldata _extraData
+    ) external payable {
+        _clearPayload(_receiver, _origin.srcEid, _origin.sender, _origin.nonce, abi.encodePacked(_guid, _message));
+        ILayerZeroReceiver(_receiver).lzReceive{ value: msg.value }(_origin, _guid, _message, msg.sender, _extraData);
+        emit PacketDelivered(_origin, _receiver);
+    }
+
+    /// @notice Lets the OApp (or its delegate) consume a verified packet without executing it
+    function clear(address _oapp, Origin calldata _origin, bytes32 _guid, bytes calldata _message) external {
+        _assertAuthorized(_oapp);
+        _clearPayload(_oapp, _origin.srcEid, _origin.sender, _origin.nonce, abi.encodePacked(_guid, _message));
+        emit PacketDelivered(_origin, _oapp);
+    }
+
+    function setDelegate(address _delegate) external {
+        delegates[msg.sender] = _delegate;
+        emit DelegateSet(msg.sender, _delegate);
+    }
+
+    function lzToken() external pure returns (address) {
+        return address(0);
+    }
+
+    function nativeToken() external pure returns (address) {
+        return address(0);
+    }
+
+    function _assertAuthorized(address _oapp) internal view override {
+        if (msg.sender != _oapp && msg.sender != delegates[_oapp]) revert Errors.LZ_Unauthorized();
+    }
 }
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import { SafeERC20, IERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IFDFIStaking } from "../FDFIComposer.sol";
+
+/// @notice Minimal staking target for composer tests: records stakes per account and can be closed to force failures
+contract MockStaking is IFDFIStaking {
+    using SafeERC20 for IERC20;
+
+    IERC20 public immutable token;
+    bool public closed;
+    mapping(address account => uint256 amount) public staked;
+
+    error StakingClosed();
+
+    constructor(address _token) {
+        token = IERC20(_token);
+    }
+
+    function setClosed(bool _closed) external {
+        closed = _closed;
+    }
+
+    function stakeFor(address _account, uint256 _amount) external {
+        if (closed) revert StakingClosed();
+        token.safeTransferFrom(msg.sender, address(this), _amount);
+        staked[_account] += _amount;
+    }
+}
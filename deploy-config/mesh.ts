@@ -0,0 +1,25 @@
+import { MeshConfig } from "../scripts/lib/mesh";
+import { MsgType } from "../scripts/lib/options";
+
+// Gas for lzReceive on the adapter / OFT, including rate limit bookkeeping
+const LZ_RECEIVE_GAS = 100_000;
+
+// Gas for lzCompose on FDFIComposer (transfer plus delegateBySig or a staking deposit)
+const LZ_COMPOSE_GAS = 200_000;
+
+const enforcedOptions = [
+    { msgType: MsgType.SEND, lzReceiveGas: LZ_RECEIVE_GAS },
+    { msgType: MsgType.SEND_AND_CALL, lzReceiveGas: LZ_RECEIVE_GAS, lzComposeGas: LZ_COMPOSE_GAS },
+];
+
+/// EVM OFT meshes keyed by environment (`npx hardhat mesh:wire --mesh <name>`)
+export const meshes: Record<string, MeshConfig> = {
+    local: {
+        networks: ["localhome", "localsatellite"],
+        enforcedOptions,
+    },
+    testnet: {
+        networks: ["sepolia", "bscTestnet"],
+        enforcedOptions,
+    },
+};
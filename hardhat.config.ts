@@ -2,6 +2,7 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@openzeppelin/hardhat-upgrades";
 import * as dotenv from "dotenv";
+import "./tasks";
 
 dotenv.config();
 
@@ -9,16 +10,47 @@ const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
 
 const config: HardhatUserConfig = {
     solidity: {
-        version: "0.8.27",
-        settings: {
-            optimizer: { enabled: true, runs: 200 }
+        compilers: [
+            {
+                version: "0.8.27",
+                settings: {
+                    optimizer: { enabled: true, runs: 200 },
+                    // OpenZeppelin's Governor (via Bytes/SignatureChecker) uses mcopy; Sepolia and BSC both run Cancun
+                    evmVersion: "cancun"
+                }
+            }
+        ],
+        overrides: {
+            // Optimized for size: the satellite OFT is close to the 24 KB contract size limit
+            "contracts/FDFIOFT.sol": {
+                version: "0.8.27",
+                settings: {
+                    optimizer: { enabled: true, runs: 10 },
+                    evmVersion: "cancun"
+                }
+            }
         }
     },
     networks: {
+        // FORK_RPC forks a live chain into the in-process network (health:smoke only runs there)
+        hardhat: process.env.FORK_RPC
+            ? { forking: { url: process.env.FORK_RPC, blockNumber: process.env.FORK_BLOCK ? Number(process.env.FORK_BLOCK) : undefined } }
+            : {},
         localhost: {},
+        // Two local `npx hardhat node` instances (ports 8545 / 8546) acting as home and satellite chains
+        localhome: {
+            url: "http://127.0.0.1:8545"
+        },
+        localsatellite: {
+            url: "http://127.0.0.1:8546"
+        },
         sepolia: {
             url: process.env.SEPOLIA_RPC || "",
             accounts: PRIVATE_KEY ? [`0x${PRIVATE_KEY}`] : []
+        },
+        bscTestnet: {
+            url: process.env.BSC_TESTNET_RPC || "",
+            accounts: PRIVATE_KEY ? [`0x${PRIVATE_KEY}`] : []
         }
     },
     etherscan: {
@@ -0,0 +1,36 @@
+import hre from "hardhat";
+import { ethers } from "ethers";
+import { distributeAirdrop, loadAirdropCsv, writeAirdropProofs } from "./lib/airdrop";
+
+// Deploys and funds the Merkle distributor of an airdrop sheet (AIRDROP_CSV) for campaign CAMPAIGN on the --network
+// chain and writes the claim proofs to PROOFS_OUT (default airdrop-<campaign>.json). CLAIM_DEADLINE is a unix
+// timestamp or ISO date after which claims end. DRY_RUN=true only builds the tree and checks the MAX_SUPPLY headroom.
+async function main() {
+    const file = process.env.AIRDROP_CSV;
+    const campaign = process.env.CAMPAIGN;
+    if (!file || !campaign) throw new Error("AIRDROP_CSV and CAMPAIGN env vars required");
+    const allocations = loadAirdropCsv(file);
+    const dryRun = process.env.DRY_RUN === "true";
+    const deadline = process.env.CLAIM_DEADLINE;
+    const claimDeadline = !deadline ? 0 : /^\d+$/.test(deadline) ? Number(deadline) : Math.floor(Date.parse(deadline) / 1000);
+    if (Number.isNaN(claimDeadline)) throw new Error(`Invalid CLAIM_DEADLINE "${deadline}"`);
+
+    console.log(`${allocations.length} allocation(s) in ${file}${dryRun ? " (dry run)" : ""}`);
+    const plan = await distributeAirdrop(hre, campaign, allocations, { claimDeadline, dryRun });
+
+    const out = process.env.PROOFS_OUT ?? `airdrop-${campaign}.json`;
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    writeAirdropProofs(out, campaign, plan.distribution, { chainId: Number(chainId), distributor: plan.distributor, claimDeadline });
+
+    console.log(`\nMerkle root: ${plan.distribution.merkleRoot}`);
+    console.log(`  Distributor: ${plan.distributor ?? "(not deployed)"}`);
+    console.log(`  Total: ${ethers.formatUnits(plan.distribution.total, 18)} FDFI`);
+    console.log(`  ${dryRun ? "To mint" : "Minted"}: ${ethers.formatUnits(plan.toMint, 18)} FDFI`);
+    console.log(`  MAX_SUPPLY headroom before minting: ${ethers.formatUnits(plan.headroom, 18)} FDFI`);
+    console.log(`  Proofs written to ${out}`);
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
@@ -0,0 +1,36 @@
+import hre from "hardhat";
+import { loadDeployments, loadNetworkManifest } from "./lib/manifest";
+import { applyTransferAllowlist, formatAllowlistChange, planTransferAllowlist } from "./lib/allowlist";
+
+// Syncs FDFIToken's pre-launch transfer allowlist with transferAllowlist in deploy-config/<network>.json.
+// CHECK=true only prints the diff and exits non-zero when the chain differs from the manifest.
+async function main() {
+    const network = hre.network.name;
+    const manifest = loadNetworkManifest(network);
+    const deployments = loadDeployments(network);
+    if (!deployments) throw new Error(`No deployments/${network}.json; deploy first`);
+
+    const token = await hre.ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address);
+    if (await token.transfersEnabled()) {
+        console.log("Transfers are enabled; the allowlist is no longer consulted.");
+    }
+
+    const changes = await planTransferAllowlist(hre, manifest.transferAllowlist ?? {}, deployments);
+    if (changes.length === 0) {
+        console.log("Transfer allowlist matches the manifest.");
+        return;
+    }
+    console.log(`${changes.length} difference(s):`);
+    for (const change of changes) console.log(`  ${formatAllowlistChange(change)}`);
+
+    if (process.env.CHECK === "true") {
+        process.exitCode = 1;
+        return;
+    }
+    await applyTransferAllowlist(hre, deployments, changes);
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
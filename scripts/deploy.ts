@@ -1,18 +1,16 @@
-import { ethers, upgrades } from "hardhat";
+import { network } from "hardhat";
+import { loadNetworkManifest } from "./lib/manifest";
+import { deployNetwork } from "./lib/deploy";
 
+// Deploys the contracts described by deploy-config/<network>.json to the --network chain
 async function main() {
-    const [deployer] = await ethers.getSigners();
-    console.log("Deployer:", deployer.address);
+    const manifest = loadNetworkManifest(network.name);
+    const deployments = await deployNetwork(manifest);
 
-    const FDFIToken = await ethers.getContractFactory("FDFIToken");
-    const proxy = await upgrades.deployProxy(
-        FDFIToken,
-        [deployer.address],
-        { initializer: "initialize" }
-    );
-    await proxy.waitForDeployment();
-
-    console.log("FDFIToken proxy deployed at:", await proxy.getAddress());
+    console.log(`\nDeployments for ${network.name}:`);
+    for (const [name, record] of Object.entries(deployments.contracts)) {
+        console.log(`  ${name}: ${record.address}`);
+    }
 }
 
 main().catch((e) => {
@@ -0,0 +1,230 @@
+import { ethers } from "ethers";
+import { DEPLOYMENTS_DIR, loadDeployments, loadNetworkManifest } from "./manifest";
+import { RateLimitConfig } from "./rateLimits";
+import { buildSafeBatch, SafeBatch } from "./safe";
+
+const ADMIN_ABI = [
+    "function owner() view returns (address)",
+    "function pendingOwner() view returns (address)",
+    "function transferOwnership(address newOwner)",
+    "function acceptOwnership()",
+    "function MAX_SUPPLY() view returns (uint256)",
+    "function totalSupply() view returns (uint256)",
+    "function transfersEnabled() view returns (bool)",
+    "function mintTo(address to, uint256 amount)",
+    "function enableTransfers()",
+    "function rateLimiter() view returns (address)",
+    "function setRateLimiter(address rateLimiter)",
+    "function setRateLimits(tuple(uint32 dstEid, uint192 limit, uint64 window)[] configs)",
+    "function setInboundRateLimits(tuple(uint32 dstEid, uint192 limit, uint64 window)[] configs)",
+    "function peers(uint32 eid) view returns (bytes32)",
+    "function setPeer(uint32 eid, bytes32 peer)",
+];
+const MAX_UINT64 = 2n ** 64n - 1n;
+const MAX_UINT192 = 2n ** 192n - 1n;
+
+/// One privileged call, validated against the chain, to send directly or hand to a Safe
+export interface AdminAction {
+    network: string;
+    /// Deployments record name of the target (or its address)
+    contract: string;
+    to: string;
+    data: string;
+    /// Human-readable call, e.g. `FDFIToken.mintTo(0x..., 1000.0 FDFI)`
+    description: string;
+    /// Accounts allowed to make the call; the first one is the Safe the batch is created for
+    senders: string[];
+    /// Notes printed with the action (pending steps, side effects)
+    notes: string[];
+}
+
+/// Address of a contract recorded in deployments/<network>.json, or `nameOrAddress` itself when it is an address
+export function resolveAdminTarget(network: string, nameOrAddress: string, deploymentsDir: string = DEPLOYMENTS_DIR): string {
+    if (ethers.isAddress(nameOrAddress)) return ethers.getAddress(nameOrAddress);
+    const record = loadDeployments(network, deploymentsDir)?.contracts[nameOrAddress];
+    if (!record) throw new Error(`No ${nameOrAddress} recorded in deployments/${network}.json`);
+    return record.address;
+}
+
+/// Adapter on the home network, OFT on satellites
+export function defaultOApp(network: string): string {
+    return loadNetworkManifest(network).role === "home" ? "FDFIOFTAdapter" : "FDFIOFTUpgradeable";
+}
+
+function checkAddress(value: string, what: string): string {
+    if (!ethers.isAddress(value) || value === ethers.ZeroAddress) throw new Error(`${what} "${value}" is not a non-zero address`);
+    return ethers.getAddress(value);
+}
+
+function checkEid(eid: number): number {
+    if (!Number.isInteger(eid) || eid <= 0 || eid > 0xffffffff) throw new Error(`eid ${eid} must be a positive uint32`);
+    return eid;
+}
+
+function action(
+    network: string,
+    contract: string,
+    to: string,
+    fn: string,
+    args: unknown[],
+    description: string,
+    senders: string[],
+    notes: string[] = []
+): AdminAction {
+    const data = new ethers.Interface(ADMIN_ABI).encodeFunctionData(fn, args);
+    return { network, contract, to, data, description: `${contract}.${description}`, senders, notes };
+}
+
+/// mintTo, refused when it would take totalSupply past MAX_SUPPLY
+export async function planMint(
+    runner: ethers.ContractRunner,
+    network: string,
+    token: string,
+    to: string,
+    amount: bigint
+): Promise<AdminAction> {
+    const recipient = checkAddress(to, "Recipient");
+    if (amount <= 0n) throw new Error("Amount must be positive");
+    const contract = new ethers.Contract(token, ADMIN_ABI, runner);
+    const [maxSupply, totalSupply]: bigint[] = [await contract.MAX_SUPPLY(), await contract.totalSupply()];
+    const headroom = maxSupply - totalSupply;
+    if (amount > headroom) {
+        throw new Error(`Minting ${ethers.formatUnits(amount, 18)} FDFI exceeds the MAX_SUPPLY headroom of ${ethers.formatUnits(headroom, 18)} FDFI`);
+    }
+    return action(network, "FDFIToken", token, "mintTo", [recipient, amount], `mintTo(${recipient}, ${ethers.formatUnits(amount, 18)} FDFI)`,
+        [await contract.owner()], [`MAX_SUPPLY headroom after minting: ${ethers.formatUnits(headroom - amount, 18)} FDFI`]);
+}
+
+/// enableTransfers: one-way, so it needs `confirm`
+export async function planEnableTransfers(
+    runner: ethers.ContractRunner,
+    network: string,
+    token: string,
+    confirm: boolean
+): Promise<AdminAction> {
+    const contract = new ethers.Contract(token, ADMIN_ABI, runner);
+    if (await contract.transfersEnabled()) throw new Error("Transfers are already enabled");
+    if (!confirm) throw new Error("enableTransfers cannot be undone; pass --confirm to proceed");
+    return action(network, "FDFIToken", token, "enableTransfers", [], "enableTransfers()", [await contract.owner()],
+        ["Irreversible: every holder can transfer from now on; the transfer allowlist is no longer consulted"]);
+}
+
+async function isTwoStep(contract: ethers.Contract): Promise<boolean> {
+    try {
+        await contract.pendingOwner();
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * transferOwnership. On Ownable2Step contracts the new owner still has to accept; on the adapter (single-step
+ * Ownable) ownership moves at once, so it needs `confirm`.
+ */
+export async function planTransferOwnership(
+    runner: ethers.ContractRunner,
+    network: string,
+    name: string,
+    address: string,
+    newOwner: string,
+    confirm: boolean
+): Promise<AdminAction> {
+    const desired = checkAddress(newOwner, "New owner");
+    const contract = new ethers.Contract(address, ADMIN_ABI, runner);
+    const owner: string = await contract.owner();
+    if (owner === desired) throw new Error(`${name} is already owned by ${desired}`);
+    const twoStep = await isTwoStep(contract);
+    if (!twoStep && !confirm) throw new Error(`${name} is not Ownable2Step: ownership moves immediately; pass --confirm to proceed`);
+    const note = twoStep
+        ? `${desired} becomes pending owner and must call acceptOwnership (admin:accept-ownership)`
+        : `Immediate: ${desired} owns ${name} once this executes`;
+    return action(network, name, address, "transferOwnership", [desired], `transferOwnership(${desired})`, [owner], [note]);
+}
+
+/// acceptOwnership by the pending owner of an Ownable2Step contract
+export async function planAcceptOwnership(
+    runner: ethers.ContractRunner,
+    network: string,
+    name: string,
+    address: string
+): Promise<AdminAction> {
+    const contract = new ethers.Contract(address, ADMIN_ABI, runner);
+    if (!(await isTwoStep(contract))) throw new Error(`${name} is not Ownable2Step; there is nothing to accept`);
+    const pending: string = await contract.pendingOwner();
+    if (pending === ethers.ZeroAddress) throw new Error(`${name} has no pending owner`);
+    return action(network, name, address, "acceptOwnership", [], "acceptOwnership()", [pending]);
+}
+
+export async function planSetRateLimiter(
+    runner: ethers.ContractRunner,
+    network: string,
+    name: string,
+    address: string,
+    rateLimiter: string
+): Promise<AdminAction> {
+    const desired = checkAddress(rateLimiter, "Rate limiter");
+    const contract = new ethers.Contract(address, ADMIN_ABI, runner);
+    if ((await contract.rateLimiter()) === desired) throw new Error(`${desired} is already the rateLimiter of ${name}`);
+    return action(network, name, address, "setRateLimiter", [desired], `setRateLimiter(${desired})`, [await contract.owner()]);
+}
+
+/// setRateLimits / setInboundRateLimits for one lane; the rateLimiter or the owner may send it
+export async function planSetRateLimits(
+    runner: ethers.ContractRunner,
+    network: string,
+    name: string,
+    address: string,
+    config: RateLimitConfig,
+    inbound: boolean
+): Promise<AdminAction> {
+    checkEid(config.dstEid);
+    if (config.limit < 0n || config.limit > MAX_UINT192) throw new Error(`Limit ${config.limit} does not fit a uint192`);
+    if (config.window <= 0 || BigInt(config.window) > MAX_UINT64) throw new Error(`Window ${config.window} must be a positive number of seconds`);
+    const contract = new ethers.Contract(address, ADMIN_ABI, runner);
+    const senders: string[] = [await contract.owner()];
+    const rateLimiter: string = await contract.rateLimiter();
+    if (rateLimiter !== ethers.ZeroAddress) senders.unshift(rateLimiter);
+    const fn = inbound ? "setInboundRateLimits" : "setRateLimits";
+    return action(network, name, address, fn, [[config]],
+        `${fn}(${config.dstEid}: ${ethers.formatUnits(config.limit, 18)} FDFI per ${config.window}s)`, senders);
+}
+
+/// setPeer; `peer` is an EVM address (padded to bytes32) or a bytes32 for non-EVM chains such as Solana
+export async function planSetPeer(
+    runner: ethers.ContractRunner,
+    network: string,
+    name: string,
+    address: string,
+    eid: number,
+    peer: string
+): Promise<AdminAction> {
+    checkEid(eid);
+    let desired: string;
+    if (ethers.isAddress(peer)) desired = ethers.zeroPadValue(peer, 32);
+    else if (ethers.isHexString(peer, 32)) desired = peer;
+    else throw new Error(`Peer "${peer}" is neither an address nor a bytes32`);
+    desired = desired.toLowerCase();
+    const contract = new ethers.Contract(address, ADMIN_ABI, runner);
+    const current: string = await contract.peers(eid);
+    if (current.toLowerCase() === desired) throw new Error(`${name} already has peer ${desired} for eid ${eid}`);
+    const notes = desired === ethers.ZeroHash ? [`Unsets the peer: messages to and from eid ${eid} stop`] : [];
+    return action(network, name, address, "setPeer", [eid, desired], `setPeer(${eid}, ${desired})`, [await contract.owner()], notes);
+}
+
+/// Safe Transaction Builder batch of one action, created for its first allowed sender
+export function adminSafeBatch(chainId: bigint | number, action: AdminAction): SafeBatch {
+    const safe = action.senders[0];
+    return buildSafeBatch(chainId, `FDFI admin (${action.network})`, action.description, [{ to: action.to, value: "0", data: action.data }], safe);
+}
+
+/// Sends the action with `signer`, which must be one of its allowed senders
+export async function sendAdminAction(signer: ethers.Signer, action: AdminAction): Promise<string> {
+    const from = await signer.getAddress();
+    if (!action.senders.some((s) => s.toLowerCase() === from.toLowerCase())) {
+        throw new Error(`Signer ${from} cannot call ${action.description} (allowed: ${action.senders.join(", ")}); use --safe`);
+    }
+    const tx = await signer.sendTransaction({ to: action.to, data: action.data });
+    await tx.wait();
+    return tx.hash;
+}
@@ -0,0 +1,243 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEPLOYMENTS_DIR, loadDeployments, saveDeployments } from "./manifest";
+
+/// One row of the airdrop sheet, parsed
+export interface AirdropAllocation {
+    account: string;
+    /// 18 decimals
+    amount: bigint;
+    /// Free-form label from the sheet (community round, contributor, ...)
+    label?: string;
+}
+
+export interface AirdropClaim {
+    amount: bigint;
+    proof: string[];
+}
+
+/// Merkle tree of a campaign: what FDFIMerkleDistributor is deployed with and what claimers need
+export interface MerkleDistribution {
+    merkleRoot: string;
+    total: bigint;
+    /// Keyed by checksummed account
+    claims: Record<string, AirdropClaim>;
+}
+
+/// Proofs file handed to the claim frontend (amounts as decimal strings in wei)
+export interface AirdropProofsFile {
+    campaign: string;
+    chainId?: number;
+    distributor?: string;
+    claimDeadline: number;
+    merkleRoot: string;
+    total: string;
+    claims: Record<string, { amount: string; proof: string[] }>;
+}
+
+export interface AirdropPlan {
+    distributor?: string;
+    distribution: MerkleDistribution;
+    /// Tokens to mint into the distributor so every claim is funded
+    toMint: bigint;
+    headroom: bigint;
+}
+
+/**
+ * Parses an airdrop sheet with the header `account,amount[,label]`; `amount` is in whole FDFI (decimals allowed).
+ * Throws with the offending line number on the first invalid row.
+ */
+export function parseAirdropCsv(content: string): AirdropAllocation[] {
+    const lines = content.split(/\r?\n/).map((l) => l.trim());
+    const header = lines[0]?.split(",").map((h) => h.trim().toLowerCase());
+    if (!header || header[0] !== "account" || header[1] !== "amount") {
+        throw new Error("Airdrop sheet must start with the header account,amount[,label]");
+    }
+
+    const allocations: AirdropAllocation[] = [];
+    const seen = new Set<string>();
+    lines.slice(1).forEach((line, i) => {
+        if (line === "" || line.startsWith("#")) return;
+        const lineNo = i + 2;
+        const [account, amount, label] = line.split(",").map((c) => c.trim());
+        const fail = (reason: string): never => {
+            throw new Error(`Line ${lineNo}: ${reason}`);
+        };
+
+        if (!ethers.isAddress(account) || account === ethers.ZeroAddress) fail(`invalid account "${account}"`);
+        const address = ethers.getAddress(account);
+        if (seen.has(address)) fail(`duplicate account ${address} (one claim per account)`);
+        seen.add(address);
+
+        let parsedAmount = 0n;
+        try {
+            parsedAmount = ethers.parseUnits(amount, 18);
+        } catch {
+            fail(`invalid amount "${amount}"`);
+        }
+        if (parsedAmount <= 0n) fail("amount must be positive");
+        allocations.push({ account: address, amount: parsedAmount, label: label || undefined });
+    });
+    if (allocations.length === 0) throw new Error("Airdrop sheet has no rows");
+    return allocations;
+}
+
+export function loadAirdropCsv(file: string): AirdropAllocation[] {
+    return parseAirdropCsv(fs.readFileSync(file, "utf8"));
+}
+
+/// Leaf of FDFIMerkleDistributor: keccak256(bytes.concat(keccak256(abi.encode(account, amount))))
+export function airdropLeaf(account: string, amount: bigint): string {
+    return ethers.keccak256(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [account, amount])));
+}
+
+/// OpenZeppelin MerkleProof's commutative pair hash
+function hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b) ? ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [a, b]) : ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [b, a]);
+}
+
+/**
+ * Builds the campaign tree: leaves sorted by hash, paired level by level (an odd node is carried up unchanged).
+ * Proofs verify with OpenZeppelin's MerkleProof.
+ */
+export function buildMerkleDistribution(allocations: AirdropAllocation[]): MerkleDistribution {
+    const leaves = allocations.map((a) => ({ account: a.account, hash: airdropLeaf(a.account, a.amount) }));
+    leaves.sort((x, y) => (BigInt(x.hash) < BigInt(y.hash) ? -1 : 1));
+
+    const levels: string[][] = [leaves.map((l) => l.hash)];
+    while (levels[levels.length - 1].length > 1) {
+        const level = levels[levels.length - 1];
+        const next = [];
+        for (let i = 0; i < level.length; i += 2) next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+        levels.push(next);
+    }
+
+    const claims: Record<string, AirdropClaim> = {};
+    const amounts = new Map(allocations.map((a) => [a.account, a.amount]));
+    leaves.forEach((leaf, index) => {
+        const proof = [];
+        for (let level = 0, i = index; level < levels.length - 1; level++, i = Math.floor(i / 2)) {
+            const sibling = i % 2 === 0 ? i + 1 : i - 1;
+            if (sibling < levels[level].length) proof.push(levels[level][sibling]);
+        }
+        claims[leaf.account] = { amount: amounts.get(leaf.account)!, proof };
+    });
+    return {
+        merkleRoot: levels[levels.length - 1][0],
+        total: allocations.reduce((sum, a) => sum + a.amount, 0n),
+        claims,
+    };
+}
+
+/// Same check as FDFIMerkleDistributor, for validating a proofs file before publishing it
+export function verifyAirdropProof(merkleRoot: string, account: string, amount: bigint, proof: string[]): boolean {
+    return proof.reduce(hashPair, airdropLeaf(account, amount)) === merkleRoot;
+}
+
+export function writeAirdropProofs(
+    file: string,
+    campaign: string,
+    distribution: MerkleDistribution,
+    deployment: { chainId?: number; distributor?: string; claimDeadline: number }
+): void {
+    const proofs: AirdropProofsFile = {
+        campaign,
+        ...deployment,
+        merkleRoot: distribution.merkleRoot,
+        total: distribution.total.toString(),
+        claims: Object.fromEntries(
+            Object.entries(distribution.claims).map(([account, c]) => [account, { amount: c.amount.toString(), proof: c.proof }])
+        ),
+    };
+    fs.writeFileSync(file, JSON.stringify(proofs, null, 2) + "\n");
+}
+
+/// Prefix of the distributors' deployments records; the allowlist sync keeps them as senders
+export const DISTRIBUTOR_RECORD_PREFIX = "FDFIMerkleDistributor-";
+
+/// Deployments record of a campaign's distributor
+export function distributorRecordName(campaign: string): string {
+    return `${DISTRIBUTOR_RECORD_PREFIX}${campaign}`;
+}
+
+/**
+ * Builds the tree and checks that funding it stays within MAX_SUPPLY. When `distributor` is already deployed, its
+ * root must match and only the shortfall (total less claimed and held) is minted, so the script can be re-run.
+ */
+export async function planAirdrop(
+    hre: HardhatRuntimeEnvironment,
+    tokenAddress: string,
+    allocations: AirdropAllocation[],
+    distributor?: string
+): Promise<AirdropPlan> {
+    const token = await hre.ethers.getContractAt("FDFIToken", tokenAddress);
+    const distribution = buildMerkleDistribution(allocations);
+
+    let funded = 0n;
+    if (distributor) {
+        const contract = await hre.ethers.getContractAt("FDFIMerkleDistributor", distributor);
+        if ((await contract.merkleRoot()) !== distribution.merkleRoot) {
+            throw new Error(`Distributor ${distributor} was deployed with a different tree; use a new campaign name`);
+        }
+        funded = (await contract.totalClaimed()) + (await token.balanceOf(distributor));
+    }
+    const toMint = distribution.total > funded ? distribution.total - funded : 0n;
+    const headroom = (await token.MAX_SUPPLY()) - (await token.totalSupply());
+    if (toMint > headroom) {
+        throw new Error(
+            `Airdrop needs ${ethers.formatUnits(toMint, 18)} FDFI minted but only ` +
+            `${ethers.formatUnits(headroom, 18)} FDFI of MAX_SUPPLY headroom is left`
+        );
+    }
+    return { distributor, distribution, toMint, headroom };
+}
+
+/**
+ * Deploys the campaign's FDFIMerkleDistributor on the current network (recorded as FDFIMerkleDistributor-<campaign>),
+ * allows it as a sender while FDFIToken transfers are disabled and funds it with a single mintTo.
+ */
+export async function distributeAirdrop(
+    hre: HardhatRuntimeEnvironment,
+    campaign: string,
+    allocations: AirdropAllocation[],
+    opts: { claimDeadline?: number; dryRun?: boolean; deploymentsDir?: string } = {}
+): Promise<AirdropPlan> {
+    const { ethers, network } = hre;
+    const deploymentsDir = opts.deploymentsDir ?? DEPLOYMENTS_DIR;
+    const deployments = loadDeployments(network.name, deploymentsDir);
+    const tokenRecord = deployments?.contracts.FDFIToken;
+    if (!deployments || !tokenRecord) throw new Error(`No FDFIToken recorded in deployments/${network.name}.json`);
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("FDFIToken", tokenRecord.address, signer);
+
+    const name = distributorRecordName(campaign);
+    let distributor: string | undefined = deployments.contracts[name]?.address;
+    if (distributor && (await ethers.provider.getCode(distributor)) === "0x") distributor = undefined;
+    const plan = await planAirdrop(hre, tokenRecord.address, allocations, distributor);
+    if (opts.dryRun) return plan;
+
+    if (!distributor) {
+        const Distributor = await ethers.getContractFactory("FDFIMerkleDistributor");
+        const contract = await Distributor.deploy(tokenRecord.address, plan.distribution.merkleRoot, opts.claimDeadline ?? 0, await token.owner());
+        await contract.waitForDeployment();
+        distributor = await contract.getAddress();
+        deployments.contracts[name] = {
+            address: distributor,
+            txHash: contract.deploymentTransaction()?.hash,
+            deployedAt: new Date().toISOString(),
+        };
+        saveDeployments(deployments, deploymentsDir);
+        console.log(`  ${name}: deployed at ${distributor}`);
+    }
+
+    if (!(await token.transfersEnabled()) && !(await token.allowedSenders(distributor))) {
+        await (await token.setAllowedSender(distributor, true)).wait();
+        console.log(`  FDFIToken.setAllowedSender(${distributor}) done`);
+    }
+    if (plan.toMint > 0n) {
+        await (await token.mintTo(distributor, plan.toMint)).wait();
+        console.log(`  Minted ${ethers.formatUnits(plan.toMint, 18)} FDFI to the distributor`);
+    }
+    return { ...plan, distributor };
+}
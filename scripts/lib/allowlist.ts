@@ -0,0 +1,91 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DISTRIBUTOR_RECORD_PREFIX } from "./airdrop";
+import { DeploymentsFile, TransferAllowlist } from "./manifest";
+
+export type AllowlistKind = "sender" | "receiver";
+
+export interface AllowlistChange {
+    kind: AllowlistKind;
+    account: string;
+    /// Deployments record name the entry was given as, or the address itself
+    label: string;
+    allowed: boolean;
+}
+
+/// Resolves a manifest entry given as an address or as a contract recorded in the deployments file
+export function resolveAllowlistEntry(entry: string, deployments: DeploymentsFile): string {
+    if (ethers.isAddress(entry)) return ethers.getAddress(entry);
+    const record = deployments.contracts[entry];
+    if (!record) throw new Error(`Allowlist entry "${entry}" is neither an address nor recorded in deployments/${deployments.network}.json`);
+    return ethers.getAddress(record.address);
+}
+
+/**
+ * Diffs the manifest allowlist against FDFIToken. Accounts allowed on-chain are found through the
+ * AllowedSenderSet / AllowedReceiverSet events since the token's deployment; accounts allowed on-chain but
+ * missing from the manifest are revoked. Airdrop distributors recorded in the deployments file
+ * (FDFIMerkleDistributor-<campaign>) are senders without a manifest entry, so pre-launch claims keep working.
+ */
+export async function planTransferAllowlist(
+    hre: HardhatRuntimeEnvironment,
+    allowlist: TransferAllowlist,
+    deployments: DeploymentsFile
+): Promise<AllowlistChange[]> {
+    const tokenRecord = deployments.contracts.FDFIToken;
+    if (!tokenRecord) throw new Error(`No FDFIToken recorded in deployments/${deployments.network}.json`);
+    const token = await hre.ethers.getContractAt("FDFIToken", tokenRecord.address);
+    const receipt = tokenRecord.txHash ? await hre.ethers.provider.getTransactionReceipt(tokenRecord.txHash) : null;
+    const fromBlock = receipt?.blockNumber ?? 0;
+
+    const distributors = Object.keys(deployments.contracts).filter((name) => name.startsWith(DISTRIBUTOR_RECORD_PREFIX));
+
+    const changes: AllowlistChange[] = [];
+    const lists = [
+        {
+            kind: "sender" as const,
+            entries: [...(allowlist.senders ?? []), ...distributors],
+            isAllowed: (account: string) => token.allowedSenders(account),
+            events: () => token.queryFilter(token.filters.AllowedSenderSet(), fromBlock),
+        },
+        {
+            kind: "receiver" as const,
+            entries: allowlist.receivers ?? [],
+            isAllowed: (account: string) => token.allowedReceivers(account),
+            events: () => token.queryFilter(token.filters.AllowedReceiverSet(), fromBlock),
+        },
+    ];
+    for (const list of lists) {
+        const desired = new Map(list.entries.map((e) => [resolveAllowlistEntry(e, deployments), e]));
+        const seen = (await list.events()).map((e) => ethers.getAddress(e.args.account));
+
+        for (const account of new Set([...desired.keys(), ...seen])) {
+            const wanted = desired.has(account);
+            if ((await list.isAllowed(account)) !== wanted) {
+                changes.push({ kind: list.kind, account, label: desired.get(account) ?? account, allowed: wanted });
+            }
+        }
+    }
+    return changes;
+}
+
+export function formatAllowlistChange(change: AllowlistChange): string {
+    const name = change.label === change.account ? change.account : `${change.label} (${change.account})`;
+    return `${change.allowed ? "allow" : "revoke"} ${change.kind} ${name}`;
+}
+
+export async function applyTransferAllowlist(
+    hre: HardhatRuntimeEnvironment,
+    deployments: DeploymentsFile,
+    changes: AllowlistChange[]
+): Promise<void> {
+    const [signer] = await hre.ethers.getSigners();
+    const token = await hre.ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address, signer);
+    for (const change of changes) {
+        const tx = change.kind === "sender"
+            ? await token.setAllowedSender(change.account, change.allowed)
+            : await token.setAllowedReceiver(change.account, change.allowed);
+        await tx.wait();
+        console.log(`  ${formatAllowlistChange(change)} done`);
+    }
+}
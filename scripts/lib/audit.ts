@@ -0,0 +1,191 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEPLOYMENTS_DIR, NetworkRole, loadDeployments, loadNetworkManifest } from "./manifest";
+import { connectProvider } from "./networks";
+import { readSolanaMintSupply, readSolanaOftStore, SolanaOftType, toEvmDecimals } from "./solana";
+
+const ADAPTER_ABI = [
+    "function token() view returns (address)",
+    "function totalQueued() view returns (uint256)",
+    "function feeBalance() view returns (uint256)",
+    "function totalLocked() view returns (uint256)",
+    "function rescuableAmount(address token) view returns (uint256)",
+];
+const ERC20_ABI = ["function balanceOf(address) view returns (uint256)", "function totalSupply() view returns (uint256)"];
+
+/// One EVM chain of the mesh: the adapter on the home chain, an OFT on every satellite
+export interface SupplyAuditTarget {
+    network: string;
+    eid: number;
+    role: NetworkRole;
+    address: string;
+    provider: ethers.Provider;
+}
+
+export interface SolanaAuditTarget {
+    rpcUrl: string;
+    /// OFTStore PDA of the Solana OFT
+    oftStore: string;
+}
+
+export interface SupplyAuditOptions {
+    /// Largest accepted surplus of locked tokens over remote supply (wei); covers messages still in flight
+    tolerance: bigint;
+    solana?: SolanaAuditTarget;
+}
+
+/// Amounts are decimal strings in wei (18 decimals) so the report round-trips through JSON
+export interface SupplyReport {
+    generatedAt: string;
+    status: "ok" | "mismatch";
+    reason?: string;
+    tolerance: string;
+    home: {
+        network: string;
+        eid: number;
+        adapter: string;
+        token: string;
+        blockNumber: number;
+        /// Bridge-locked FDFI (the adapter's totalLocked), backing every token outside the home chain
+        locked: string;
+        /// Part of `locked` owed to recipients in the adapter's inbound queue (already burned on the source chain)
+        queued: string;
+        /// Bridge fees held by the adapter on top of `locked` (never minted remotely)
+        fees: string;
+        /// FDFI transferred to the adapter directly, on top of `locked` and `fees`; recoverable with rescueTokens
+        rescuable: string;
+        tokenTotalSupply: string;
+    };
+    satellites: { network: string; eid: number; oft: string; blockNumber: number; totalSupply: string }[];
+    solana?: { oftStore: string; oftType: SolanaOftType; tokenMint: string; supply: string };
+    /// Satellite supplies plus the Solana OFT
+    remoteSupply: string;
+    /// locked - queued - remoteSupply: positive while messages are in flight, negative when remote tokens are unbacked
+    difference: string;
+}
+
+/// Resolves the adapter / OFT of every network from its deploy manifest and deployments file
+export function resolveAuditTargets(
+    hre: HardhatRuntimeEnvironment,
+    networks: string[],
+    deploymentsDir: string = DEPLOYMENTS_DIR
+): SupplyAuditTarget[] {
+    return networks.map((network) => {
+        const role = loadNetworkManifest(network).role;
+        const contractName = role === "home" ? "FDFIOFTAdapter" : "FDFIOFTUpgradeable";
+        const deployments = loadDeployments(network, deploymentsDir);
+        const record = deployments?.contracts[contractName];
+        if (!deployments || !record) throw new Error(`No ${contractName} recorded in deployments/${network}.json`);
+        return { network, eid: deployments.eid, role, address: record.address, provider: connectProvider(hre, network) };
+    });
+}
+
+/**
+ * Reconciles tokens locked in the single FDFIOFTAdapter against the supply minted by every satellite OFT (and the
+ * Solana OFT). Chains are read one after another at their latest block, so a message delivered between two reads
+ * shows up like one in flight; the tolerance absorbs both.
+ */
+export async function auditSupply(targets: SupplyAuditTarget[], opts: SupplyAuditOptions): Promise<SupplyReport> {
+    const homes = targets.filter((t) => t.role === "home");
+    if (homes.length !== 1) {
+        throw new Error(`Expected exactly one home network, got ${homes.length}; a second adapter would break the invariant`);
+    }
+    const home = homes[0];
+
+    const adapter = new ethers.Contract(home.address, ADAPTER_ABI, home.provider);
+    const tokenAddress: string = await adapter.token();
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, home.provider);
+    const homeBlock = await home.provider.getBlockNumber();
+    const tokenTotalSupply: bigint = await token.totalSupply({ blockTag: homeBlock });
+    // Adapters deployed before the inbound queue / bridge fees have none
+    const queued: bigint = await adapter.totalQueued({ blockTag: homeBlock }).catch(() => 0n);
+    const fees: bigint = await adapter.feeBalance({ blockTag: homeBlock }).catch(() => 0n);
+    // The raw balance also counts FDFI transferred in directly, which backs nothing remotely. Adapters from before
+    // totalLocked cannot tell the two apart, so their whole balance less fees counts as locked.
+    let locked: bigint;
+    let rescuable = 0n;
+    try {
+        locked = await adapter.totalLocked({ blockTag: homeBlock });
+        rescuable = await adapter.rescuableAmount(tokenAddress, { blockTag: homeBlock });
+    } catch {
+        locked = (await token.balanceOf(home.address, { blockTag: homeBlock })) - fees;
+    }
+
+    const satellites: SupplyReport["satellites"] = [];
+    let remoteSupply = 0n;
+    for (const target of targets.filter((t) => t.role === "satellite")) {
+        const oft = new ethers.Contract(target.address, ERC20_ABI, target.provider);
+        const blockNumber = await target.provider.getBlockNumber();
+        const totalSupply: bigint = await oft.totalSupply({ blockTag: blockNumber });
+        satellites.push({ network: target.network, eid: target.eid, oft: target.address, blockNumber, totalSupply: totalSupply.toString() });
+        remoteSupply += totalSupply;
+    }
+
+    let solana: SupplyReport["solana"];
+    if (opts.solana) {
+        const store = await readSolanaOftStore(opts.solana.rpcUrl, opts.solana.oftStore);
+        const mint = await readSolanaMintSupply(opts.solana.rpcUrl, store.tokenMint);
+        // A Native OFT mints what it receives; an Adapter OFT locks it in the escrow and tracks that in tvl_ld
+        const supply = toEvmDecimals(store.oftType === "Native" ? mint.amount : store.tvlLd, mint.decimals);
+        solana = { oftStore: store.address, oftType: store.oftType, tokenMint: store.tokenMint, supply: supply.toString() };
+        remoteSupply += supply;
+    }
+
+    const difference = locked - queued - remoteSupply;
+    let reason: string | undefined;
+    if (difference < 0n) {
+        reason = `Remote supply exceeds tokens locked in the adapter by ${ethers.formatUnits(-difference, 18)} FDFI`;
+    } else if (difference > opts.tolerance) {
+        reason = `Adapter holds ${ethers.formatUnits(difference, 18)} FDFI more than the remote supply, above the ` +
+            `${ethers.formatUnits(opts.tolerance, 18)} FDFI tolerance`;
+    }
+
+    return {
+        generatedAt: new Date().toISOString(),
+        status: reason ? "mismatch" : "ok",
+        reason,
+        tolerance: opts.tolerance.toString(),
+        home: {
+            network: home.network,
+            eid: home.eid,
+            adapter: home.address,
+            token: tokenAddress,
+            blockNumber: homeBlock,
+            locked: locked.toString(),
+            queued: queued.toString(),
+            fees: fees.toString(),
+            rescuable: rescuable.toString(),
+            tokenTotalSupply: tokenTotalSupply.toString(),
+        },
+        satellites,
+        solana,
+        remoteSupply: remoteSupply.toString(),
+        difference: difference.toString(),
+    };
+}
+
+export function formatSupplyReportMarkdown(report: SupplyReport): string {
+    const fdfi = (wei: string) => ethers.formatUnits(wei, 18);
+    const lines = [
+        "# FDFI supply reconciliation",
+        "",
+        `Generated ${report.generatedAt}: **${report.status.toUpperCase()}**`,
+        ...(report.reason ? ["", `> ${report.reason}`] : []),
+        "",
+        "| Chain | Eid | Contract | Block | Amount (FDFI) |",
+        "| --- | --- | --- | --- | --- |",
+        `| ${report.home.network} (locked in adapter) | ${report.home.eid} | ${report.home.adapter} | ${report.home.blockNumber} | ${fdfi(report.home.locked)} |`,
+        ...report.satellites.map((s) => `| ${s.network} | ${s.eid} | ${s.oft} | ${s.blockNumber} | ${fdfi(s.totalSupply)} |`),
+        ...(report.solana
+            ? [`| solana (${report.solana.oftType}) | | ${report.solana.oftStore} | | ${fdfi(report.solana.supply)} |`]
+            : []),
+        "",
+        `- Remote supply: ${fdfi(report.remoteSupply)} FDFI`,
+        `- Queued for release by the adapter: ${fdfi(report.home.queued)} FDFI`,
+        `- Bridge fees held by the adapter (not locked): ${fdfi(report.home.fees)} FDFI`,
+        `- Sent to the adapter directly, rescuable (not locked): ${fdfi(report.home.rescuable)} FDFI`,
+        `- Locked - queued - remote: ${fdfi(report.difference)} FDFI (tolerance ${fdfi(report.tolerance)} FDFI)`,
+        `- Home token total supply: ${fdfi(report.home.tokenTotalSupply)} FDFI`,
+    ];
+    return lines.join("\n") + "\n";
+}
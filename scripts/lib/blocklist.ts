@@ -0,0 +1,218 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { CONFIG_DIR, loadDeployments } from "./manifest";
+import { MeshNode, signerOf } from "./mesh";
+import { PolicyApplyResult } from "./rateLimits";
+import { buildSafeBatch, SafeBatch, SafeTransaction } from "./safe";
+
+const BLOCKLIST_ABI = [
+    "event BlockedSet(address indexed account, bool blocked)",
+    "function isBlocked(address account) view returns (bool)",
+    "function setBlocked(address[] accounts, bool blocked)",
+    "function blocklister() view returns (address)",
+    "function owner() view returns (address)",
+];
+const GUARDED_ABI = [
+    "function blocklist() view returns (address)",
+    "function setBlocklist(address blocklist)",
+    "function owner() view returns (address)",
+];
+
+/// FDFIBlocklist of one mesh network and the contracts that should consult it
+export interface BlocklistTarget {
+    network: string;
+    address: string;
+    /// Block of the FDFIBlocklist deployment, where the BlockedSet scan starts
+    fromBlock: number;
+    /// FDFIToken and FDFIOFTAdapter on home, FDFIOFTUpgradeable on satellites
+    guarded: { name: string; address: string }[];
+    provider: ethers.Provider;
+    /// From the mesh node; only applyBlocklist needs it
+    signer?: ethers.Signer;
+}
+
+export type BlocklistChange =
+    | { network: string; kind: "block" | "unblock"; account: string }
+    /// Token / adapter / OFT not pointing at the network's FDFIBlocklist (owner call)
+    | { network: string; kind: "setBlocklist"; contract: string; address: string; current: string; desired: string };
+
+/**
+ * Accounts of a list file: one address per line, `#` starts a comment (e.g. the sanctions reference).
+ * Every problem is reported at once.
+ */
+export function parseBlocklist(source: string, file: string): string[] {
+    const problems: string[] = [];
+    const accounts: string[] = [];
+    source.split(/\r?\n/).forEach((raw, i) => {
+        const line = raw.replace(/#.*$/, "").trim();
+        if (line === "") return;
+        let account: string;
+        try {
+            account = ethers.getAddress(line);
+        } catch {
+            problems.push(`line ${i + 1}: "${line}" is not an address`);
+            return;
+        }
+        if (account === ethers.ZeroAddress) problems.push(`line ${i + 1}: the zero address cannot be blocked`);
+        else if (accounts.includes(account)) problems.push(`line ${i + 1}: duplicate ${account}`);
+        else accounts.push(account);
+    });
+    if (problems.length > 0) throw new Error(`Invalid blocklist ${file}:\n  - ${problems.join("\n  - ")}`);
+    return accounts;
+}
+
+/// List file of a mesh: deploy-config/blocklist/<mesh>.txt
+export function blocklistPath(mesh: string, dir: string = path.join(CONFIG_DIR, "blocklist")): string {
+    return path.join(dir, `${mesh}.txt`);
+}
+
+export function loadBlocklist(file: string): string[] {
+    if (!fs.existsSync(file)) throw new Error(`No blocklist file ${file}`);
+    return parseBlocklist(fs.readFileSync(file, "utf8"), path.basename(file));
+}
+
+/// FDFIBlocklist and guarded contracts of every mesh node, from the deployments files
+export async function resolveBlocklistTargets(nodes: MeshNode[], deploymentsDir?: string): Promise<BlocklistTarget[]> {
+    return Promise.all(nodes.map(async (node) => {
+        const deployments = loadDeployments(node.network, deploymentsDir);
+        const record = deployments?.contracts.FDFIBlocklist;
+        if (!deployments || !record) {
+            throw new Error(`No FDFIBlocklist recorded in deployments/${node.network}.json; add blocklist to its manifest and deploy`);
+        }
+        const receipt = record.txHash ? await node.provider.getTransactionReceipt(record.txHash) : null;
+        const guarded: BlocklistTarget["guarded"] = [{ name: node.contractName, address: node.address }];
+        if (deployments.contracts.FDFIToken) guarded.unshift({ name: "FDFIToken", address: deployments.contracts.FDFIToken.address });
+        return { network: node.network, address: record.address, fromBlock: receipt?.blockNumber ?? 0, guarded, provider: node.provider, signer: node.signer };
+    }));
+}
+
+/**
+ * Diffs the list against every network's FDFIBlocklist. Accounts blocked on-chain are found through BlockedSet
+ * events since its deployment; those missing from the list are unblocked. Also reports guarded contracts whose
+ * blocklist() is not the network's FDFIBlocklist.
+ */
+export async function planBlocklist(targets: BlocklistTarget[], accounts: string[]): Promise<BlocklistChange[]> {
+    const changes: BlocklistChange[] = [];
+    for (const target of targets) {
+        const blocklist = new ethers.Contract(target.address, BLOCKLIST_ABI, target.provider);
+        for (const contract of target.guarded) {
+            const current: string = await new ethers.Contract(contract.address, GUARDED_ABI, target.provider).blocklist();
+            if (current.toLowerCase() !== target.address.toLowerCase()) {
+                changes.push({ network: target.network, kind: "setBlocklist", contract: contract.name, address: contract.address, current, desired: target.address });
+            }
+        }
+
+        const seen = (await blocklist.queryFilter(blocklist.filters.BlockedSet(), target.fromBlock))
+            .map((e) => ethers.getAddress((e as ethers.EventLog).args.account));
+        for (const account of new Set([...accounts, ...seen])) {
+            const wanted = accounts.includes(account);
+            if ((await blocklist.isBlocked(account)) !== wanted) {
+                changes.push({ network: target.network, kind: wanted ? "block" : "unblock", account });
+            }
+        }
+    }
+    return changes;
+}
+
+export function formatBlocklistChange(change: BlocklistChange): string {
+    if (change.kind === "setBlocklist") return `[${change.network}] ${change.contract}.setBlocklist: ${change.current} -> ${change.desired}`;
+    return `[${change.network}] ${change.kind} ${change.account}`;
+}
+
+/// setBlocked calls of one network (blocklister or owner): at most one to block and one to unblock
+export function blocklistCalls(target: BlocklistTarget, changes: BlocklistChange[]): SafeTransaction[] {
+    const iface = new ethers.Interface(BLOCKLIST_ABI);
+    const calls = [];
+    for (const kind of ["block", "unblock"] as const) {
+        const accounts = changes.flatMap((c) => (c.network === target.network && c.kind === kind ? [c.account] : []));
+        if (accounts.length === 0) continue;
+        calls.push({ to: target.address, value: "0", data: iface.encodeFunctionData("setBlocked", [accounts, kind === "block"]) });
+    }
+    return calls;
+}
+
+/// setBlocklist calls of one network (owner of each guarded contract)
+export function blocklistWiringCalls(target: BlocklistTarget, changes: BlocklistChange[]): SafeTransaction[] {
+    const iface = new ethers.Interface(GUARDED_ABI);
+    return changes.flatMap((c) =>
+        c.network === target.network && c.kind === "setBlocklist"
+            ? [{ to: c.address, value: "0", data: iface.encodeFunctionData("setBlocklist", [c.desired]) }]
+            : []
+    );
+}
+
+/**
+ * Safe Transaction Builder batches per network: `blocklist-<network>.json` for the blocklister and
+ * `blocklist-wiring-<network>.json` for the owner, when there is anything to send.
+ */
+export async function blocklistSafeBatches(
+    targets: BlocklistTarget[],
+    changes: BlocklistChange[]
+): Promise<{ network: string; file: string; batch: SafeBatch }[]> {
+    const batches = [];
+    for (const target of targets) {
+        const { chainId } = await target.provider.getNetwork();
+        const blocklist = new ethers.Contract(target.address, BLOCKLIST_ABI, target.provider);
+        const calls = blocklistCalls(target, changes);
+        if (calls.length > 0) {
+            const blocklister: string = await blocklist.blocklister();
+            const safe = blocklister === ethers.ZeroAddress ? await blocklist.owner() : blocklister;
+            batches.push({
+                network: target.network,
+                file: `blocklist-${target.network}.json`,
+                batch: buildSafeBatch(chainId, `FDFI blocklist (${target.network})`, "Sync the blocklist with the list file", calls, safe),
+            });
+        }
+        const wiring = blocklistWiringCalls(target, changes);
+        if (wiring.length > 0) {
+            batches.push({
+                network: target.network,
+                file: `blocklist-wiring-${target.network}.json`,
+                batch: buildSafeBatch(chainId, `FDFI blocklist wiring (${target.network})`, "Point the FDFI contracts at the blocklist", wiring),
+            });
+        }
+    }
+    return batches;
+}
+
+/**
+ * Sends the calls of every network with its signer: setBlocked as blocklister (or owner), setBlocklist as owner of
+ * the guarded contracts. A network where the signer lacks a role is reported as unauthorized and, like the rate
+ * limit sync, one failing network does not stop the others.
+ */
+export async function applyBlocklist(targets: BlocklistTarget[], changes: BlocklistChange[]): Promise<PolicyApplyResult[]> {
+    const results: PolicyApplyResult[] = [];
+    for (const target of targets) {
+        const calls = blocklistCalls(target, changes);
+        const wiring = blocklistWiringCalls(target, changes);
+        if (calls.length === 0 && wiring.length === 0) continue;
+        try {
+            const signer = signerOf(target);
+            const from = (await signer.getAddress()).toLowerCase();
+            const blocklist = new ethers.Contract(target.address, BLOCKLIST_ABI, signer);
+            const managers: string[] = [await blocklist.blocklister(), await blocklist.owner()];
+            let unauthorized = calls.length > 0 && !managers.some((a) => a.toLowerCase() === from)
+                ? `signer is neither blocklister (${managers[0]}) nor owner`
+                : undefined;
+            for (const call of wiring) {
+                const owner: string = await new ethers.Contract(call.to, GUARDED_ABI, signer).owner();
+                if (owner.toLowerCase() !== from) unauthorized ??= `signer does not own ${call.to} (owner ${owner})`;
+            }
+            if (unauthorized) {
+                results.push({ network: target.network, outcome: "unauthorized", error: unauthorized });
+                continue;
+            }
+            const txHashes = [];
+            for (const call of [...wiring, ...calls]) {
+                const tx = await signer.sendTransaction({ to: call.to, data: call.data });
+                await tx.wait();
+                txHashes.push(tx.hash);
+            }
+            results.push({ network: target.network, outcome: "done", txHashes });
+        } catch (e) {
+            results.push({ network: target.network, outcome: "failed", error: (e as Error).message });
+        }
+    }
+    return results;
+}
@@ -0,0 +1,100 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveAuditTargets, SupplyAuditTarget } from "./audit";
+import { DEPLOYMENTS_DIR, loadNetworkManifest } from "./manifest";
+
+const CAPACITY_ABI = [
+    "function getLaneCapacities(uint32[] eids) view returns (tuple(uint32 eid, tuple(uint256 limit, uint64 window, uint256 amountInFlight, uint256 remaining) outbound, tuple(uint256 limit, uint64 window, uint256 amountInFlight, uint256 remaining) inbound)[])",
+    "function getAmountCanBeReceived(uint32 srcEid) view returns (uint256 currentAmountInFlight, uint256 amountCanBeReceived)",
+];
+
+/// Adapter / OFT of a network and the remote eids its manifest configures limits for
+export interface CapacityTarget extends SupplyAuditTarget {
+    lanes: number[];
+}
+
+/// One direction of a lane; amounts in wei
+export interface LaneCapacityRow {
+    network: string;
+    remoteEid: number;
+    direction: "outbound" | "inbound";
+    limit: bigint;
+    window: number;
+    amountInFlight: bigint;
+    remaining: bigint;
+    /// Inbound only: no limit was ever set for the source eid, so nothing caps it
+    unlimited?: boolean;
+}
+
+/// Resolves every network's adapter / OFT like the supply audit, with the eids of its rateLimits / inboundRateLimits
+export function resolveCapacityTargets(
+    hre: HardhatRuntimeEnvironment,
+    networks: string[],
+    deploymentsDir: string = DEPLOYMENTS_DIR
+): CapacityTarget[] {
+    return resolveAuditTargets(hre, networks, deploymentsDir).map((target) => {
+        const manifest = loadNetworkManifest(target.network);
+        const eids = [...manifest.rateLimits, ...(manifest.inboundRateLimits ?? [])].map((rl) => rl.eid);
+        return { ...target, lanes: [...new Set(eids)] };
+    });
+}
+
+/// Reads all lanes of each network with one getLaneCapacities call per network
+export async function readLaneCapacities(targets: CapacityTarget[]): Promise<LaneCapacityRow[]> {
+    const rows: LaneCapacityRow[] = [];
+    for (const target of targets) {
+        if (target.lanes.length === 0) continue;
+        const oapp = new ethers.Contract(target.address, CAPACITY_ABI, target.provider);
+        for (const lane of await oapp.getLaneCapacities(target.lanes)) {
+            for (const direction of ["outbound", "inbound"] as const) {
+                const c = lane[direction];
+                // getLaneCapacities shows an unset inbound limit as 0; getAmountCanBeReceived tells it from a 0 limit
+                const unlimited = direction === "inbound" && c.limit === 0n &&
+                    (await oapp.getAmountCanBeReceived(lane.eid))[1] === ethers.MaxUint256;
+                rows.push({
+                    network: target.network,
+                    remoteEid: Number(lane.eid),
+                    direction,
+                    limit: c.limit,
+                    window: Number(c.window),
+                    amountInFlight: c.amountInFlight,
+                    remaining: unlimited ? ethers.MaxUint256 : c.remaining,
+                    ...(unlimited && { unlimited }),
+                });
+            }
+        }
+    }
+    return rows;
+}
+
+/// Remaining capacity in percent of the limit (0 for a zero outbound limit, 100 for an unlimited inbound lane)
+export function remainingPercent(row: LaneCapacityRow): number {
+    if (row.unlimited) return 100;
+    return row.limit === 0n ? 0 : Number((row.remaining * 10000n) / row.limit) / 100;
+}
+
+/// Rows below `thresholdPercent` remaining; a zero limit (nothing can pass) always alerts, an unlimited lane never
+export function capacityAlerts(rows: LaneCapacityRow[], thresholdPercent: number): LaneCapacityRow[] {
+    return rows.filter((row) => !row.unlimited && (row.limit === 0n || remainingPercent(row) < thresholdPercent));
+}
+
+export function formatCapacityTable(rows: LaneCapacityRow[], thresholdPercent: number): string {
+    const fdfi = (wei: bigint) => Number(ethers.formatUnits(wei, 18)).toLocaleString("en-US", { maximumFractionDigits: 2 });
+    const alerts = new Set(capacityAlerts(rows, thresholdPercent));
+    const table = [
+        ["Network", "Lane", "Direction", "Limit (FDFI)", "Window (s)", "In flight", "Remaining", "%", ""],
+        ...rows.map((row) => [
+            row.network,
+            String(row.remoteEid),
+            row.direction,
+            row.unlimited ? "unlimited" : fdfi(row.limit),
+            String(row.window),
+            fdfi(row.amountInFlight),
+            row.unlimited ? "unlimited" : fdfi(row.remaining),
+            remainingPercent(row).toFixed(1),
+            alerts.has(row) ? "ALERT" : "",
+        ]),
+    ];
+    const widths = table[0].map((_, i) => Math.max(...table.map((cells) => cells[i].length)));
+    return table.map((cells) => cells.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd()).join("\n") + "\n";
+}
@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+
+/// FDFIComposer.Action
+export enum ComposeAction {
+    Forward = 0,
+    Delegate = 1,
+    Stake = 2,
+}
+
+/// Payload FDFIComposer reads from SendParam.composeMsg
+export interface ComposePayload {
+    action: ComposeAction;
+    recipient: string;
+    /// Receives the amount on the destination chain if the action fails
+    refundAddress: string;
+    /// Action-specific, abi-encoded (see the helpers below)
+    params: string;
+}
+
+/// delegateBySig arguments signed by the recipient on the destination vote contract (FDFIVoteReporter)
+export interface DelegationSignature {
+    delegatee: string;
+    nonce: bigint;
+    expiry: bigint;
+    v: number;
+    r: string;
+    s: string;
+}
+
+/// lzCompose message built by OFTCore from a received composed transfer (OFTComposeMsgCodec)
+export interface OFTComposeMessage {
+    nonce: bigint;
+    srcEid: number;
+    amountLD: bigint;
+    /// Sender on the source chain, as bytes32
+    composeFrom: string;
+    composeMsg: string;
+}
+
+const PAYLOAD_TYPES = ["uint8", "address", "address", "bytes"];
+const DELEGATION_TYPES = ["address", "uint256", "uint256", "uint8", "bytes32", "bytes32"];
+const VOTES_ABI = [
+    "function nonces(address owner) view returns (uint256)",
+    "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+];
+
+export function encodeComposeMsg(payload: ComposePayload): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode(PAYLOAD_TYPES, [
+        payload.action,
+        ethers.getAddress(payload.recipient),
+        ethers.getAddress(payload.refundAddress),
+        payload.params,
+    ]);
+}
+
+export function decodeComposeMsg(composeMsg: string): ComposePayload {
+    const [action, recipient, refundAddress, params] = ethers.AbiCoder.defaultAbiCoder().decode(PAYLOAD_TYPES, composeMsg);
+    return { action: Number(action), recipient, refundAddress, params };
+}
+
+/// Credit `recipient` (refunds go to `refundAddress`, by default the recipient)
+export function forwardComposeMsg(recipient: string, refundAddress: string = recipient): string {
+    return encodeComposeMsg({ action: ComposeAction.Forward, recipient, refundAddress, params: "0x" });
+}
+
+/// Credit `recipient` and delegate their votes with a signature from signDelegation()
+export function delegateComposeMsg(recipient: string, delegation: DelegationSignature, refundAddress: string = recipient): string {
+    const params = ethers.AbiCoder.defaultAbiCoder().encode(DELEGATION_TYPES, [
+        delegation.delegatee,
+        delegation.nonce,
+        delegation.expiry,
+        delegation.v,
+        delegation.r,
+        delegation.s,
+    ]);
+    return encodeComposeMsg({ action: ComposeAction.Delegate, recipient, refundAddress, params });
+}
+
+/// Deposit into `staking` (IFDFIStaking.stakeFor) on behalf of `recipient`
+export function stakeComposeMsg(recipient: string, staking: string, refundAddress: string = recipient): string {
+    const params = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [staking]);
+    return encodeComposeMsg({ action: ComposeAction.Stake, recipient, refundAddress, params });
+}
+
+/**
+ * Signs an ERC-5805 Delegation on the destination vote contract. The nonce and EIP-712 domain are read through
+ * `runner`, which must be connected to the destination chain when the signer is connected to the source chain.
+ */
+export async function signDelegation(
+    signer: ethers.Signer,
+    votes: string,
+    delegatee: string,
+    expiry: bigint,
+    runner: ethers.ContractRunner = signer
+): Promise<DelegationSignature> {
+    const contract = new ethers.Contract(votes, VOTES_ABI, runner);
+    const [, name, version, chainId, verifyingContract] = await contract.eip712Domain();
+    const nonce: bigint = await contract.nonces(await signer.getAddress());
+    const types = {
+        Delegation: [
+            { name: "delegatee", type: "address" },
+            { name: "nonce", type: "uint256" },
+            { name: "expiry", type: "uint256" },
+        ],
+    };
+    const signature = await signer.signTypedData({ name, version, chainId, verifyingContract }, types, { delegatee, nonce, expiry });
+    const { v, r, s } = ethers.Signature.from(signature);
+    return { delegatee, nonce, expiry, v, r, s };
+}
+
+/// Splits an lzCompose message (nonce, srcEid, amountLD, composeFrom, composeMsg), e.g. from ComposeSent
+export function decodeOFTComposeMessage(message: string): OFTComposeMessage {
+    return {
+        nonce: BigInt(ethers.dataSlice(message, 0, 8)),
+        srcEid: Number(ethers.dataSlice(message, 8, 12)),
+        amountLD: BigInt(ethers.dataSlice(message, 12, 44)),
+        composeFrom: ethers.dataSlice(message, 44, 76),
+        composeMsg: ethers.dataSlice(message, 76),
+    };
+}
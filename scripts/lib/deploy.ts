@@ -0,0 +1,250 @@
+import { ethers, network, upgrades } from "hardhat";
+import {
+    ContractRecord,
+    DEPLOYMENTS_DIR,
+    DEPLOYMENTS_VERSION,
+    DeploymentsFile,
+    NetworkManifest,
+    loadDeployments,
+    saveDeployments,
+} from "./manifest";
+import { OFT_UNSAFE_ALLOW } from "./upgrade";
+import { inboundRateLimitConfigs, inboundRateLimitDiff, toRateLimitConfigs } from "./rateLimits";
+
+/// Chain ids of throwaway dev chains where a mock endpoint may be deployed
+const LOCAL_CHAIN_IDS = [31337, 1337];
+
+/**
+ * Deploys every contract the manifest asks for on the current hardhat network.
+ * Contracts already recorded in the deployments file (and still holding code) are skipped,
+ * so the command can be re-run after a partial failure.
+ */
+export async function deployNetwork(
+    manifest: NetworkManifest,
+    deploymentsDir: string = DEPLOYMENTS_DIR
+): Promise<DeploymentsFile> {
+    const [deployer] = await ethers.getSigners();
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const owner = manifest.owner ?? deployer.address;
+
+    const deployments: DeploymentsFile = loadDeployments(network.name, deploymentsDir) ?? {
+        version: DEPLOYMENTS_VERSION,
+        network: network.name,
+        chainId,
+        eid: manifest.eid,
+        contracts: {},
+    };
+    if (deployments.chainId !== chainId) {
+        throw new Error(`deployments/${network.name}.json was written for chainId ${deployments.chainId}, connected to ${chainId}`);
+    }
+
+    // Runs a deploy step unless its record already points at live code; persists after every step
+    const step = async (name: string, deploy: () => Promise<Omit<ContractRecord, "deployedAt">>) => {
+        const existing = deployments.contracts[name];
+        if (existing && (await ethers.provider.getCode(existing.address)) !== "0x") {
+            console.log(`  ${name}: already deployed at ${existing.address}, skipping`);
+            return existing.address;
+        }
+        const record = { ...(await deploy()), deployedAt: new Date().toISOString() };
+        deployments.contracts[name] = record;
+        saveDeployments(deployments, deploymentsDir);
+        console.log(`  ${name}: deployed at ${record.address}`);
+        return record.address;
+    };
+
+    console.log(`Deploying ${manifest.role} contracts to ${network.name} (eid ${manifest.eid}) as ${deployer.address}`);
+
+    const endpoint = manifest.endpoint ?? (await step("LayerZeroEndpoint", async () => {
+        if (!LOCAL_CHAIN_IDS.includes(chainId)) {
+            throw new Error(`Manifest for ${network.name} has no endpoint; mock endpoints are only deployed on local chains`);
+        }
+        const Mock = await ethers.getContractFactory("contracts/mocks/MockLayerZeroEndpoint.sol:MockLayerZeroEndpoint");
+        const mock = await Mock.deploy(manifest.eid);
+        await mock.waitForDeployment();
+        return { address: await mock.getAddress(), txHash: mock.deploymentTransaction()?.hash };
+    }));
+    const rateLimitConfigs = toRateLimitConfigs(manifest.rateLimits);
+
+    if (manifest.role === "home") {
+        const token = await step("FDFIToken", async () => {
+            const FDFIToken = await ethers.getContractFactory("FDFIToken");
+            const proxy = await upgrades.deployProxy(FDFIToken, [owner], { initializer: "initialize" });
+            await proxy.waitForDeployment();
+            const address = await proxy.getAddress();
+            return {
+                address,
+                implementation: await upgrades.erc1967.getImplementationAddress(address),
+                txHash: proxy.deploymentTransaction()?.hash,
+            };
+        });
+
+        const adapter = await step("FDFIOFTAdapter", async () => {
+            const Adapter = await ethers.getContractFactory("FDFIOFTAdapter");
+            const adapter = await Adapter.deploy(token, endpoint, owner, rateLimitConfigs);
+            await adapter.waitForDeployment();
+            return { address: await adapter.getAddress(), txHash: adapter.deploymentTransaction()?.hash };
+        });
+
+        if (manifest.bridgeRouter) {
+            await step("FDFIBridgeRouter", async () => {
+                const Router = await ethers.getContractFactory("FDFIBridgeRouter");
+                const router = await Router.deploy(adapter);
+                await router.waitForDeployment();
+                return { address: await router.getAddress(), txHash: router.deploymentTransaction()?.hash };
+            });
+        }
+    } else {
+        await step("FDFIOFTUpgradeable", async () => {
+            const OFT = await ethers.getContractFactory("FDFIOFTUpgradeable");
+            const proxy = await upgrades.deployProxy(
+                OFT,
+                [rateLimitConfigs, manifest.name ?? "FDFI Token", manifest.symbol ?? "FDFI", owner],
+                { initializer: "initialize", constructorArgs: [endpoint], unsafeAllow: OFT_UNSAFE_ALLOW }
+            );
+            await proxy.waitForDeployment();
+            const address = await proxy.getAddress();
+            return {
+                address,
+                implementation: await upgrades.erc1967.getImplementationAddress(address),
+                txHash: proxy.deploymentTransaction()?.hash,
+            };
+        });
+    }
+
+    if (manifest.blocklist) await deployBlocklist(manifest, deployments, owner, step);
+
+    // The adapter / OFT start with rateLimits in both directions; separate inbound limits are set afterwards
+    if (manifest.inboundRateLimits) {
+        const name = manifest.role === "home" ? "FDFIOFTAdapter" : "FDFIOFTUpgradeable";
+        const address = deployments.contracts[name].address;
+        const diff = await inboundRateLimitDiff(deployer, address, inboundRateLimitConfigs(manifest));
+        if (diff.length > 0 && owner.toLowerCase() === deployer.address.toLowerCase()) {
+            const oapp = await ethers.getContractAt(name, address);
+            await (await oapp.setInboundRateLimits(diff)).wait();
+            console.log(`  ${name}: inbound rate limits set (${diff.length} entries)`);
+        } else if (diff.length > 0) {
+            console.log(`  ${name}: inbound rate limits differ from the manifest; run scripts/migrate-rate-limits.ts as the owner`);
+        }
+    }
+
+    if (manifest.governance) await deployGovernance(manifest, deployments, endpoint, owner, step);
+
+    // After governance so delegate-on-arrival can use the FDFIVoteReporter
+    if (manifest.composer) {
+        await step("FDFIComposer", async () => {
+            const Composer = await ethers.getContractFactory("FDFIComposer");
+            const votes = deployments.contracts.FDFIVoteReporter?.address ?? ethers.ZeroAddress;
+            const composer = await Composer.deploy(endpoint, deployments.contracts.FDFIOFTUpgradeable.address, votes);
+            await composer.waitForDeployment();
+            return { address: await composer.getAddress(), txHash: composer.deploymentTransaction()?.hash };
+        });
+    }
+
+    return deployments;
+}
+
+/**
+ * FDFIBlocklist, set on the token and adapter (home) or the OFT (satellite) when the deployer still owns them;
+ * otherwise blocklist:sync reports the missing setBlocklist calls for the owner.
+ */
+async function deployBlocklist(
+    manifest: NetworkManifest,
+    deployments: DeploymentsFile,
+    owner: string,
+    step: (name: string, deploy: () => Promise<Omit<ContractRecord, "deployedAt">>) => Promise<string>
+): Promise<void> {
+    const { quarantine, blocklister } = manifest.blocklist!;
+    const address = await step("FDFIBlocklist", async () => {
+        const Blocklist = await ethers.getContractFactory("FDFIBlocklist");
+        const blocklist = await Blocklist.deploy(owner, blocklister ?? ethers.ZeroAddress, quarantine);
+        await blocklist.waitForDeployment();
+        return { address: await blocklist.getAddress(), txHash: blocklist.deploymentTransaction()?.hash };
+    });
+
+    const [deployer] = await ethers.getSigners();
+    const names = manifest.role === "home" ? (["FDFIToken", "FDFIOFTAdapter"] as const) : (["FDFIOFTUpgradeable"] as const);
+    for (const name of names) {
+        const guarded = await ethers.getContractAt(name, deployments.contracts[name].address);
+        if ((await guarded.blocklist()).toLowerCase() === address.toLowerCase()) continue;
+        if ((await guarded.owner()).toLowerCase() !== deployer.address.toLowerCase()) {
+            console.log(`  ${name}: blocklist not set; run blocklist:sync as the owner`);
+            continue;
+        }
+        await (await guarded.setBlocklist(address)).wait();
+        console.log(`  ${name}: blocklist set`);
+    }
+}
+
+/**
+ * FDFITimelock on every network plus FDFIGovernor on the home chain. The home timelock is deployed with the
+ * deployer as temporary admin so the governor can be made its only proposer / canceller; the admin role is
+ * renounced right after. Ownership of the other contracts is moved separately (scripts/migrate-ownership.ts).
+ * With voteAggregation, home gets an FDFIVoteAggregator handed to the governor and satellites an FDFIVoteReporter;
+ * mesh:wire peers them and sets the reporter on the OFT.
+ */
+async function deployGovernance(
+    manifest: NetworkManifest,
+    deployments: DeploymentsFile,
+    endpoint: string,
+    owner: string,
+    step: (name: string, deploy: () => Promise<Omit<ContractRecord, "deployedAt">>) => Promise<string>
+) {
+    const gov = manifest.governance!;
+    const [deployer] = await ethers.getSigners();
+    const isHome = manifest.role === "home";
+
+    const timelockAddress = await step("FDFITimelock", async () => {
+        const Timelock = await ethers.getContractFactory("FDFITimelock");
+        const proposers = isHome ? [] : gov.proposers!;
+        const admin = isHome ? deployer.address : ethers.ZeroAddress;
+        const timelock = await Timelock.deploy(gov.timelockDelay, proposers, [ethers.ZeroAddress], admin);
+        await timelock.waitForDeployment();
+        return { address: await timelock.getAddress(), txHash: timelock.deploymentTransaction()?.hash };
+    });
+    if (!isHome) {
+        if (gov.voteAggregation) {
+            await step("FDFIVoteReporter", async () => {
+                const Reporter = await ethers.getContractFactory("FDFIVoteReporter");
+                const reporter = await Reporter.deploy(deployments.contracts.FDFIOFTUpgradeable.address, endpoint, owner);
+                await reporter.waitForDeployment();
+                return { address: await reporter.getAddress(), txHash: reporter.deploymentTransaction()?.hash };
+            });
+        }
+        return;
+    }
+
+    const aggregatorAddress = gov.voteAggregation
+        ? await step("FDFIVoteAggregator", async () => {
+            const Aggregator = await ethers.getContractFactory("FDFIVoteAggregator");
+            const aggregator = await Aggregator.deploy(endpoint, owner);
+            await aggregator.waitForDeployment();
+            return { address: await aggregator.getAddress(), txHash: aggregator.deploymentTransaction()?.hash };
+        })
+        : ethers.ZeroAddress;
+
+    const governorAddress = await step("FDFIGovernor", async () => {
+        const Governor = await ethers.getContractFactory("FDFIGovernor");
+        const governor = await Governor.deploy(
+            deployments.contracts.FDFIToken.address,
+            timelockAddress,
+            gov.votingDelay!,
+            gov.votingPeriod!,
+            ethers.parseUnits(gov.proposalThreshold ?? "0", 18),
+            gov.quorumPercent!,
+            aggregatorAddress,
+            gov.secondsPerBlock ?? 12
+        );
+        await governor.waitForDeployment();
+        return { address: await governor.getAddress(), txHash: governor.deploymentTransaction()?.hash };
+    });
+
+    const timelock = await ethers.getContractAt("FDFITimelock", timelockAddress);
+    for (const role of [await timelock.PROPOSER_ROLE(), await timelock.CANCELLER_ROLE()]) {
+        if (!(await timelock.hasRole(role, governorAddress))) await (await timelock.grantRole(role, governorAddress)).wait();
+    }
+    const adminRole = await timelock.DEFAULT_ADMIN_ROLE();
+    if (await timelock.hasRole(adminRole, deployer.address)) {
+        await (await timelock.renounceRole(adminRole, deployer.address)).wait();
+        console.log("  FDFITimelock: governor set as proposer, deployer admin role renounced");
+    }
+}
@@ -0,0 +1,206 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeploymentsFile } from "./manifest";
+import { buildExecutorOptions } from "./options";
+
+/// Contracts handed over to the timelock, when recorded on the network
+export const GOVERNED_CONTRACTS = [
+    "FDFIToken",
+    "FDFIOFTAdapter",
+    "FDFIOFTUpgradeable",
+    "FDFIVestingVault",
+    "FDFIVoteAggregator",
+    "FDFIVoteReporter",
+] as const;
+const OAPPS: readonly string[] = ["FDFIOFTAdapter", "FDFIOFTUpgradeable", "FDFIVoteAggregator", "FDFIVoteReporter"];
+
+const OWNABLE_ABI = [
+    "function owner() view returns (address)",
+    "function pendingOwner() view returns (address)",
+    "function transferOwnership(address newOwner)",
+    "function acceptOwnership()",
+];
+const OAPP_ABI = ["function endpoint() view returns (address)", "function setDelegate(address delegate)"];
+const ENDPOINT_ABI = ["function delegates(address oapp) view returns (address)"];
+const GOVERNOR_ABI = [
+    "function proposalSnapshot(uint256 proposalId) view returns (uint256)",
+    "function snapshotTimestamps(uint256 snapshot) view returns (uint48)",
+];
+const REPORTER_ABI = [
+    "event DelegateVotesChanged(address indexed delegate, uint256 previousVotes, uint256 newVotes)",
+    "function getPastVotes(address account, uint256 timepoint) view returns (uint256)",
+    "function quoteReportVotes(uint32 dstEid, uint48 timepoint, address[] accounts, bytes options) view returns (tuple(uint256 nativeFee, uint256 lzTokenFee))",
+    "function reportVotes(uint32 dstEid, uint48 timepoint, address[] accounts, bytes options) payable",
+];
+
+export type OwnershipState = "migrated" | "pending-accept" | "to-transfer";
+
+export interface OwnershipStatus {
+    name: string;
+    address: string;
+    owner: string;
+    /// Ownable2Step contracts need acceptOwnership() from the timelock; FDFIOFTAdapter is plain Ownable
+    twoStep: boolean;
+    state: OwnershipState;
+}
+
+/// Batched call list in the shape Governor.propose / TimelockController.scheduleBatch expect
+export interface CallBatch {
+    targets: string[];
+    values: bigint[];
+    calldatas: string[];
+}
+
+function timelockOf(deployments: DeploymentsFile): string {
+    const record = deployments.contracts.FDFITimelock;
+    if (!record) throw new Error(`No FDFITimelock recorded in deployments/${deployments.network}.json; add governance to the manifest and deploy`);
+    return record.address;
+}
+
+async function isTwoStep(provider: ethers.Provider, address: string): Promise<boolean> {
+    try {
+        await new ethers.Contract(address, OWNABLE_ABI, provider).pendingOwner();
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/// Ownership of every governed contract on the current network relative to its timelock
+export async function ownershipStatus(hre: HardhatRuntimeEnvironment, deployments: DeploymentsFile): Promise<OwnershipStatus[]> {
+    const timelock = timelockOf(deployments).toLowerCase();
+    const provider = hre.ethers.provider;
+    const statuses: OwnershipStatus[] = [];
+    for (const name of GOVERNED_CONTRACTS) {
+        const record = deployments.contracts[name];
+        if (!record) continue;
+        const ownable = new ethers.Contract(record.address, OWNABLE_ABI, provider);
+        const owner: string = await ownable.owner();
+        const twoStep = await isTwoStep(provider, record.address);
+        let state: OwnershipState = "to-transfer";
+        if (owner.toLowerCase() === timelock) {
+            state = "migrated";
+        } else if (twoStep && (await ownable.pendingOwner()).toLowerCase() === timelock) {
+            state = "pending-accept";
+        }
+        statuses.push({ name, address: record.address, owner, twoStep, state });
+    }
+    return statuses;
+}
+
+/**
+ * Hands every governed contract still owned by the signer over to the timelock. OApps first get the timelock as
+ * their LayerZero endpoint delegate, since that needs the current owner. Ownable2Step contracts end up pending
+ * until the timelock calls acceptOwnership (see acceptOwnershipCalls); plain Ownable ones move immediately.
+ */
+export async function startOwnershipMigration(hre: HardhatRuntimeEnvironment, deployments: DeploymentsFile): Promise<OwnershipStatus[]> {
+    const timelock = timelockOf(deployments);
+    const [signer] = await hre.ethers.getSigners();
+
+    for (const status of await ownershipStatus(hre, deployments)) {
+        if (status.state !== "to-transfer") continue;
+        if (status.owner.toLowerCase() !== signer.address.toLowerCase()) {
+            throw new Error(`${status.name} is owned by ${status.owner}, not the signer ${signer.address}`);
+        }
+
+        if (OAPPS.includes(status.name)) {
+            const oapp = new ethers.Contract(status.address, OAPP_ABI, signer);
+            const endpoint = new ethers.Contract(await oapp.endpoint(), ENDPOINT_ABI, signer);
+            if ((await endpoint.delegates(status.address)).toLowerCase() !== timelock.toLowerCase()) {
+                await (await oapp.setDelegate(timelock)).wait();
+                console.log(`  ${status.name}: endpoint delegate set to the timelock`);
+            }
+        }
+
+        const ownable = new ethers.Contract(status.address, OWNABLE_ABI, signer);
+        await (await ownable.transferOwnership(timelock)).wait();
+        console.log(`  ${status.name}: ${status.twoStep ? "ownership offered to" : "ownership transferred to"} the timelock`);
+    }
+    return ownershipStatus(hre, deployments);
+}
+
+/// acceptOwnership() for every contract waiting on the timelock
+export function acceptOwnershipCalls(statuses: OwnershipStatus[]): CallBatch {
+    const iface = new ethers.Interface(OWNABLE_ABI);
+    const pending = statuses.filter((s) => s.state === "pending-accept");
+    return {
+        targets: pending.map((s) => s.address),
+        values: pending.map(() => 0n),
+        calldatas: pending.map(() => iface.encodeFunctionData("acceptOwnership")),
+    };
+}
+
+/// Calldata for a satellite timelock proposer: scheduleBatch now, executeBatch once the delay has passed
+export function timelockBatchCalldata(batch: CallBatch, delay: bigint, salt: string = ethers.ZeroHash) {
+    const iface = new ethers.Interface([
+        "function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)",
+        "function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt)",
+    ]);
+    return {
+        schedule: iface.encodeFunctionData("scheduleBatch", [batch.targets, batch.values, batch.calldatas, ethers.ZeroHash, salt, delay]),
+        execute: iface.encodeFunctionData("executeBatch", [batch.targets, batch.values, batch.calldatas, ethers.ZeroHash, salt]),
+    };
+}
+
+/// Submits a batch as a governor proposal from the signer (needs proposalThreshold votes); returns the proposal id
+export async function proposeBatch(
+    hre: HardhatRuntimeEnvironment,
+    deployments: DeploymentsFile,
+    batch: CallBatch,
+    description: string
+): Promise<bigint> {
+    const record = deployments.contracts.FDFIGovernor;
+    if (!record) throw new Error(`No FDFIGovernor recorded in deployments/${deployments.network}.json`);
+    const [signer] = await hre.ethers.getSigners();
+    const governor = await hre.ethers.getContractAt("FDFIGovernor", record.address, signer);
+    await (await governor.propose(batch.targets, batch.values, batch.calldatas, description)).wait();
+    return governor.hashProposal(batch.targets, batch.values, batch.calldatas, ethers.id(description));
+}
+
+/// lzReceive gas for one FDFIVoteAggregator report: two storage writes and an event per account
+export function reportVotesGas(accounts: number): bigint {
+    return 60_000n + 60_000n * BigInt(accounts);
+}
+
+/// Satellite timepoint of a proposal: the timestamp FDFIGovernor recorded for its snapshot block
+export async function proposalTimepoint(runner: ethers.ContractRunner, governor: string, proposalId: bigint): Promise<number> {
+    const contract = new ethers.Contract(governor, GOVERNOR_ABI, runner);
+    const timestamp = Number(await contract.snapshotTimestamps(await contract.proposalSnapshot(proposalId)));
+    if (timestamp === 0) throw new Error(`Proposal ${proposalId} has no snapshot timestamp; no such proposal on ${governor}`);
+    return timestamp;
+}
+
+/// Delegates with votes on a satellite FDFIVoteReporter at `timepoint`, found through DelegateVotesChanged events
+export async function satelliteDelegates(
+    runner: ethers.ContractRunner,
+    reporter: string,
+    timepoint: number,
+    fromBlock = 0
+): Promise<string[]> {
+    const contract = new ethers.Contract(reporter, REPORTER_ABI, runner);
+    const events = await contract.queryFilter(contract.filters.DelegateVotesChanged(), fromBlock);
+    const delegates = [...new Set(events.map((e) => ethers.getAddress((e as ethers.EventLog).args.delegate)))];
+    const votes = await Promise.all(delegates.map((d) => contract.getPastVotes(d, timepoint)));
+    return delegates.filter((_, i) => votes[i] > 0n);
+}
+
+/// Sends FDFIVoteReporter.reportVotes for `accounts` to the home eid in batches, paying the quoted fee; returns the receipts
+export async function reportSatelliteVotes(
+    signer: ethers.Signer,
+    reporter: string,
+    homeEid: number,
+    timepoint: number,
+    accounts: string[],
+    batchSize = 50
+): Promise<ethers.TransactionReceipt[]> {
+    const contract = new ethers.Contract(reporter, REPORTER_ABI, signer);
+    const receipts: ethers.TransactionReceipt[] = [];
+    for (let i = 0; i < accounts.length; i += batchSize) {
+        const batch = accounts.slice(i, i + batchSize);
+        const options = buildExecutorOptions({ lzReceiveGas: reportVotesGas(batch.length) });
+        const fee = await contract.quoteReportVotes(homeEid, timepoint, batch, options);
+        const tx = await contract.reportVotes(homeEid, timepoint, batch, options, { value: fee.nativeFee });
+        receipts.push((await tx.wait())!);
+    }
+    return receipts;
+}
@@ -0,0 +1,301 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { CONFIG_DIR, DEPLOYMENTS_DIR, DeploymentsFile, loadDeployments, loadNetworkManifest } from "./manifest";
+import { parseWindow } from "./rateLimits";
+
+/// ERC-1967 slots: bytes32(uint256(keccak256("eip1967.proxy.implementation" / "eip1967.proxy.admin")) - 1)
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+export const ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+
+const HEALTH_ABI = [
+    "function owner() view returns (address)",
+    "function pendingOwner() view returns (address)",
+    "function MAX_SUPPLY() view returns (uint256)",
+    "function transfersEnabled() view returns (bool)",
+    "function CLOCK_MODE() view returns (string)",
+    "function token() view returns (address)",
+    "function peers(uint32 eid) view returns (bytes32)",
+    "function rateLimits(uint32 dstEid) view returns (uint192 amountInFlight, uint64 lastUpdated, uint192 limit, uint64 window)",
+    "function inboundRateLimits(uint32 srcEid) view returns (tuple(uint192 amountInFlight, uint64 lastUpdated, uint192 limit, uint64 window))",
+];
+
+/// Expected limit of one lane; `limit` in whole FDFI, `window` in seconds or as a duration like 1d
+export interface ExpectedRateLimit {
+    eid: number;
+    limit: string;
+    window: number | string;
+}
+
+/**
+ * Expected state of one deployed contract. Only the fields given are checked, except the proxy slots, which are
+ * always checked on records with an implementation. Addresses may be given as deployments record names.
+ */
+export interface ExpectedContractState {
+    owner?: string;
+    /// Zero address when no ownership transfer should be pending
+    pendingOwner?: string;
+    /// Defaults to the implementation recorded in the deployments file
+    implementation?: string;
+    /// ERC-1967 admin slot; defaults to the zero address (UUPS proxies have no admin)
+    proxyAdmin?: string;
+    /// Whole FDFI
+    maxSupply?: string;
+    transfersEnabled?: boolean;
+    /// ERC-6372 CLOCK_MODE(), e.g. "mode=blocknumber&from=default"
+    clockMode?: string;
+    /// Adapter only: the FDFIToken it locks
+    token?: string;
+    /// Keyed by remote eid: an address / bytes32, or a network name whose adapter / OFT is the peer
+    peers?: Record<string, string>;
+    rateLimits?: ExpectedRateLimit[];
+    inboundRateLimits?: ExpectedRateLimit[];
+}
+
+/// deploy-config/expected/<network>.json, keyed by deployments record name
+export type ExpectedState = Record<string, ExpectedContractState>;
+
+export interface HealthCheckResult {
+    contract: string;
+    address: string;
+    check: string;
+    expected: string;
+    actual: string;
+    ok: boolean;
+}
+
+export interface HealthReport {
+    network: string;
+    chainId: number;
+    generatedAt: string;
+    status: "pass" | "fail";
+    checks: HealthCheckResult[];
+}
+
+const EXPECTED_KEYS = [
+    "owner",
+    "pendingOwner",
+    "implementation",
+    "proxyAdmin",
+    "maxSupply",
+    "transfersEnabled",
+    "clockMode",
+    "token",
+    "peers",
+    "rateLimits",
+    "inboundRateLimits",
+];
+
+export function expectedStatePath(network: string, dir: string = path.join(CONFIG_DIR, "expected")): string {
+    return path.join(dir, `${network}.json`);
+}
+
+/// Reads an expected-state file, rejecting unknown fields so a typo cannot silently skip a check
+export function loadExpectedState(file: string): ExpectedState {
+    if (!fs.existsSync(file)) throw new Error(`No expected-state file ${file}`);
+    const state = JSON.parse(fs.readFileSync(file, "utf8")) as ExpectedState;
+    const problems: string[] = [];
+    for (const [contract, expected] of Object.entries(state)) {
+        for (const key of Object.keys(expected)) {
+            if (!EXPECTED_KEYS.includes(key)) problems.push(`${contract}.${key} is not a known check`);
+        }
+        for (const key of ["rateLimits", "inboundRateLimits"] as const) {
+            (expected[key] ?? []).forEach((rl, i) => {
+                if (!Number.isInteger(rl.eid) || rl.eid <= 0) problems.push(`${contract}.${key}[${i}]: eid must be a positive integer`);
+                try {
+                    parseWindow(rl.window);
+                } catch (e) {
+                    problems.push(`${contract}.${key}[${i}]: ${(e as Error).message}`);
+                }
+            });
+        }
+    }
+    if (problems.length > 0) throw new Error(`Invalid expected-state file ${file}:\n  - ${problems.join("\n  - ")}`);
+    return state;
+}
+
+function resolveAddress(value: string, deployments: DeploymentsFile): string {
+    if (ethers.isAddress(value)) return ethers.getAddress(value);
+    const record = deployments.contracts[value];
+    if (!record) throw new Error(`"${value}" is neither an address nor recorded in deployments/${deployments.network}.json`);
+    return ethers.getAddress(record.address);
+}
+
+/// Peer as bytes32: an address, a bytes32 (non-EVM peers) or the adapter / OFT of another network
+function resolvePeer(value: string, deploymentsDir: string): string {
+    if (ethers.isHexString(value, 32)) return value.toLowerCase();
+    if (ethers.isAddress(value)) return ethers.zeroPadValue(value, 32).toLowerCase();
+    const contractName = loadNetworkManifest(value).role === "home" ? "FDFIOFTAdapter" : "FDFIOFTUpgradeable";
+    const record = loadDeployments(value, deploymentsDir)?.contracts[contractName];
+    if (!record) throw new Error(`Peer "${value}": no ${contractName} recorded in deployments/${value}.json`);
+    return ethers.zeroPadValue(record.address, 32).toLowerCase();
+}
+
+function slotAddress(word: string): string {
+    return ethers.getAddress(ethers.dataSlice(word, 12));
+}
+
+/**
+ * Reads every contract of the expected-state file on the network and compares it. Read-only: only eth_call,
+ * eth_getCode and eth_getStorageAt are used. A call that reverts fails its check instead of aborting the run.
+ */
+export async function checkDeploymentHealth(
+    provider: ethers.Provider,
+    deployments: DeploymentsFile,
+    expected: ExpectedState,
+    deploymentsDir: string = DEPLOYMENTS_DIR
+): Promise<HealthReport> {
+    const checks: HealthCheckResult[] = [];
+    for (const [name, want] of Object.entries(expected)) {
+        const record = deployments.contracts[name];
+        const address = record?.address ?? "";
+        const check = async (label: string, expectedValue: () => string, read: () => Promise<string>) => {
+            let wanted: string;
+            let actual: string;
+            try {
+                wanted = expectedValue();
+            } catch (e) {
+                checks.push({ contract: name, address, check: label, expected: "?", actual: (e as Error).message, ok: false });
+                return;
+            }
+            try {
+                actual = await read();
+            } catch (e) {
+                actual = `error: ${(e as Error).message.split("\n")[0].slice(0, 120)}`;
+            }
+            checks.push({ contract: name, address, check: label, expected: wanted, actual, ok: actual.toLowerCase() === wanted.toLowerCase() });
+        };
+
+        if (!record) {
+            checks.push({ contract: name, address, check: "deployed", expected: "recorded", actual: "missing", ok: false });
+            continue;
+        }
+        const code = await provider.getCode(address);
+        checks.push({ contract: name, address, check: "deployed", expected: "code", actual: code === "0x" ? "no code" : "code", ok: code !== "0x" });
+        if (code === "0x") continue;
+        const contract = new ethers.Contract(address, HEALTH_ABI, provider);
+
+        if (record.implementation || want.implementation) {
+            await check("implementation", () => resolveAddress(want.implementation ?? record.implementation!, deployments), async () => {
+                const implementation = slotAddress(await provider.getStorage(address, IMPLEMENTATION_SLOT));
+                if ((await provider.getCode(implementation)) === "0x") return `${implementation} (no code)`;
+                return implementation;
+            });
+            await check("proxyAdmin", () => resolveAddress(want.proxyAdmin ?? ethers.ZeroAddress, deployments), async () =>
+                slotAddress(await provider.getStorage(address, ADMIN_SLOT)));
+        }
+        if (want.owner) await check("owner", () => resolveAddress(want.owner!, deployments), () => contract.owner());
+        if (want.pendingOwner) await check("pendingOwner", () => resolveAddress(want.pendingOwner!, deployments), () => contract.pendingOwner());
+        if (want.maxSupply) {
+            await check("MAX_SUPPLY", () => ethers.parseUnits(want.maxSupply!, 18).toString(), async () => (await contract.MAX_SUPPLY()).toString());
+        }
+        if (want.transfersEnabled !== undefined) {
+            await check("transfersEnabled", () => String(want.transfersEnabled), async () => String(await contract.transfersEnabled()));
+        }
+        if (want.clockMode) await check("CLOCK_MODE", () => want.clockMode!, () => contract.CLOCK_MODE());
+        if (want.token) await check("token", () => resolveAddress(want.token!, deployments), () => contract.token());
+        for (const [eid, peer] of Object.entries(want.peers ?? {})) {
+            await check(`peers(${eid})`, () => resolvePeer(peer, deploymentsDir), async () => (await contract.peers(Number(eid))).toLowerCase());
+        }
+        for (const rl of want.rateLimits ?? []) {
+            await check(`rateLimits(${rl.eid})`, () => `${ethers.parseUnits(rl.limit, 18)} / ${parseWindow(rl.window)}s`, async () => {
+                const { limit, window } = await contract.rateLimits(rl.eid);
+                return `${limit} / ${window}s`;
+            });
+        }
+        for (const rl of want.inboundRateLimits ?? []) {
+            await check(`inboundRateLimits(${rl.eid})`, () => `${ethers.parseUnits(rl.limit, 18)} / ${parseWindow(rl.window)}s`, async () => {
+                const { limit, window } = await contract.inboundRateLimits(rl.eid);
+                return `${limit} / ${window}s`;
+            });
+        }
+    }
+    return {
+        network: deployments.network,
+        chainId: Number((await provider.getNetwork()).chainId),
+        generatedAt: new Date().toISOString(),
+        status: checks.every((c) => c.ok) ? "pass" : "fail",
+        checks,
+    };
+}
+
+export function formatHealthReport(report: HealthReport): string {
+    const lines = [`Health check of ${report.network} (chain ${report.chainId}) at ${report.generatedAt}`];
+    let contract = "";
+    for (const c of report.checks) {
+        if (c.contract !== contract) {
+            contract = c.contract;
+            lines.push(`${c.contract} ${c.address}`);
+        }
+        lines.push(`  ${c.ok ? "PASS" : "FAIL"} ${c.check}: ${c.ok ? c.actual : `expected ${c.expected}, got ${c.actual}`}`);
+    }
+    const failed = report.checks.filter((c) => !c.ok).length;
+    lines.push(`${report.status.toUpperCase()}: ${report.checks.length - failed} passed, ${failed} failed`);
+    return lines.join("\n") + "\n";
+}
+
+const SMOKE_ABI = [
+    "function owner() view returns (address)",
+    "function MAX_SUPPLY() view returns (uint256)",
+    "function totalSupply() view returns (uint256)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function transfersEnabled() view returns (bool)",
+    "function isTransferAllowed(address from, address to) view returns (bool)",
+    "function mintTo(address to, uint256 amount)",
+    "function enableTransfers()",
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function delegate(address delegatee)",
+    "function getVotes(address account) view returns (uint256)",
+];
+const SMOKE_RECIPIENT = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Refuses to run state-changing smoke tests anywhere but the in-process hardhat network forked from a live chain
+ * (FORK_RPC), so they can never reach a real deployment.
+ */
+export function assertLocalFork(networkName: string, forking?: { enabled?: boolean; url?: string }): void {
+    if (networkName !== "hardhat" || !forking?.url || forking.enabled === false) {
+        throw new Error(`Smoke tests change state and only run on a local fork: set FORK_RPC and use --network hardhat (got ${networkName})`);
+    }
+}
+
+/**
+ * The former scripts/test-deployed.ts checks, run as the token owner: mint, gated transfer, enableTransfers,
+ * transfer and self-delegation. Returns the log lines; throws on the first failed step.
+ */
+export async function runTokenSmokeTest(owner: ethers.Signer, token: string): Promise<string[]> {
+    const contract = new ethers.Contract(token, SMOKE_ABI, owner);
+    const account = await owner.getAddress();
+    const log: string[] = [];
+    const amount = ethers.parseUnits("1000", 18);
+
+    if ((await contract.MAX_SUPPLY()) - (await contract.totalSupply()) < amount) throw new Error("No MAX_SUPPLY headroom to mint 1000 FDFI");
+    await (await contract.mintTo(account, amount)).wait();
+    log.push(`mintTo: minted 1000 FDFI to ${account}`);
+
+    if (!(await contract.transfersEnabled())) {
+        if (!(await contract.isTransferAllowed(account, SMOKE_RECIPIENT))) {
+            let blocked = false;
+            try {
+                await contract.transfer.staticCall(SMOKE_RECIPIENT, 1n);
+            } catch {
+                blocked = true;
+            }
+            if (!blocked) throw new Error("Transfer succeeded while transfers are disabled");
+            log.push("transfer: blocked while transfers are disabled");
+        }
+        await (await contract.enableTransfers()).wait();
+        log.push("enableTransfers: transfers enabled");
+    }
+
+    const before: bigint = await contract.balanceOf(SMOKE_RECIPIENT);
+    await (await contract.transfer(SMOKE_RECIPIENT, ethers.parseUnits("1", 18))).wait();
+    if ((await contract.balanceOf(SMOKE_RECIPIENT)) - before !== ethers.parseUnits("1", 18)) throw new Error("Transfer did not move 1 FDFI");
+    log.push(`transfer: moved 1 FDFI to ${SMOKE_RECIPIENT}`);
+
+    await (await contract.delegate(account)).wait();
+    const votes: bigint = await contract.getVotes(account);
+    if (votes < (await contract.balanceOf(account))) throw new Error(`Self-delegation gave ${votes} votes, less than the balance`);
+    log.push(`delegate: ${ethers.formatUnits(votes, 18)} votes after self-delegation`);
+    return log;
+}
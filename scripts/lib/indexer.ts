@@ -0,0 +1,474 @@
+import * as fs from "fs";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveAuditTargets, SupplyAuditTarget } from "./audit";
+import { DEPLOYMENTS_DIR, loadDeployments } from "./manifest";
+
+const RATE_LIMIT_CONFIG = "tuple(uint32 dstEid, uint192 limit, uint64 window)[] rateLimitConfigs";
+const INDEXED_ABI = [
+    "event OFTSent(bytes32 indexed guid, uint32 dstEid, address indexed fromAddress, uint256 amountSentLD, uint256 amountReceivedLD)",
+    "event OFTReceived(bytes32 indexed guid, uint32 srcEid, address indexed toAddress, uint256 amountReceivedLD)",
+    "event OutflowRateConsumed(uint32 indexed dstEid, uint256 amountLD, uint256 remainingCapacity)",
+    "event InflowRateConsumed(uint32 indexed srcEid, uint256 amountLD, uint256 remainingCapacity)",
+    `event RateLimitsChanged(${RATE_LIMIT_CONFIG})`,
+    `event InboundRateLimitsChanged(${RATE_LIMIT_CONFIG})`,
+    "event RateLimiterSet(address indexed newRateLimiter)",
+    "event InboundQueued(address indexed to, uint256 indexed index, uint32 srcEid, uint256 amountLD)",
+    "event QueuedInboundReleased(address indexed to, uint256 indexed index, uint256 amountLD, bool early)",
+    "event QueuedInboundCancelled(address indexed to, uint256 indexed index, uint256 amountLD, string reason)",
+];
+const RATE_LIMIT_EVENTS = ["OutflowRateConsumed", "InflowRateConsumed", "RateLimitsChanged", "InboundRateLimitsChanged", "RateLimiterSet"];
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoints (
+    network TEXT PRIMARY KEY,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+    network TEXT NOT NULL,
+    eid INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    guid TEXT,
+    account TEXT,
+    remote_eid INTEGER,
+    amount TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (network, tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_guid ON events (guid);
+CREATE INDEX IF NOT EXISTS events_account ON events (account);
+CREATE INDEX IF NOT EXISTS events_block ON events (network, block_number);
+`;
+
+/// Adapter / OFT of one network and the block its history starts at
+export interface IndexerTarget extends SupplyAuditTarget {
+    startBlock: number;
+}
+
+export interface IndexerOptions {
+    /// Blocks behind the head left unindexed until they are unlikely to be reorged
+    confirmations?: number;
+    /// Blocks per eth_getLogs request
+    batchSize?: number;
+}
+
+export interface SyncResult {
+    network: string;
+    fromBlock: number;
+    toBlock: number;
+    events: number;
+    /// Blocks dropped because the checkpoint was no longer on the canonical chain
+    rewound: number;
+}
+
+/// One indexed log; addresses and GUIDs are lowercase, amounts decimal strings in wei
+export interface IndexedEvent {
+    network: string;
+    eid: number;
+    contract: string;
+    blockNumber: number;
+    timestamp: number;
+    txHash: string;
+    logIndex: number;
+    name: string;
+    guid?: string;
+    account?: string;
+    remoteEid?: number;
+    amount?: string;
+    args: Record<string, unknown>;
+}
+
+/// An OFT transfer: OFTSent on the source chain matched by GUID with OFTReceived on the destination
+export interface BridgeTransfer {
+    guid: string;
+    /**
+     * "in-flight" until the destination credit is indexed; "received" when the source chain is not indexed;
+     * "queued" while the adapter holds it in its inbound queue, "cancelled" when the owner dropped it from there
+     */
+    status: "delivered" | "in-flight" | "received" | "queued" | "cancelled";
+    srcEid?: number;
+    dstEid?: number;
+    sent?: { network: string; from: string; amountSent: string; amountReceived: string; txHash: string; timestamp: number };
+    /// `amount` is 0 for a delivery the adapter queued; the queued amount is in `queue`
+    received?: { network: string; to: string; amount: string; txHash: string; timestamp: number };
+    /// Entry `index` of the recipient's inbound queue on the adapter, and how it left the queue
+    queue?: {
+        index: string;
+        amount: string;
+        outcome?: { event: "QueuedInboundReleased" | "QueuedInboundCancelled"; early?: boolean; reason?: string; txHash: string; timestamp: number };
+    };
+}
+
+export interface HistoryFilter {
+    /// Sender or recipient (transfers), subject of the event (rate limiter events)
+    address?: string;
+    guid?: string;
+    /// Either end of the transfer or lane
+    eid?: number;
+}
+
+/// Default database of a mesh: bridge-history/<mesh>.sqlite
+export function bridgeIndexPath(mesh: string, dir: string = path.join(process.cwd(), "bridge-history")): string {
+    return path.join(dir, `${mesh}.sqlite`);
+}
+
+/// Opens (creating if needed) the SQLite history file
+export function openBridgeIndex(file: string): Database.Database {
+    if (file !== ":memory:") fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    db.pragma("journal_mode = WAL");
+    db.exec(SCHEMA);
+    return db;
+}
+
+/// Resolves the adapter / OFT of every network like the supply audit; history starts at their deployment block
+export async function resolveIndexerTargets(
+    hre: HardhatRuntimeEnvironment,
+    networks: string[],
+    deploymentsDir: string = DEPLOYMENTS_DIR
+): Promise<IndexerTarget[]> {
+    return Promise.all(resolveAuditTargets(hre, networks, deploymentsDir).map(async (target) => {
+        const contractName = target.role === "home" ? "FDFIOFTAdapter" : "FDFIOFTUpgradeable";
+        const txHash = loadDeployments(target.network, deploymentsDir)!.contracts[contractName].txHash;
+        const receipt = txHash ? await target.provider.getTransactionReceipt(txHash) : null;
+        return { ...target, startBlock: receipt?.blockNumber ?? 0 };
+    }));
+}
+
+/// ABI values as JSON: eids as numbers, other integers as decimal strings, tuples as objects keyed by component name
+function plain(value: unknown, param: ethers.ParamType): unknown {
+    if (param.isArray()) return (value as unknown[]).map((v) => plain(v, param.arrayChildren));
+    if (param.isTuple()) {
+        return Object.fromEntries(param.components.map((c, i) => [c.name, plain((value as unknown[])[i], c)]));
+    }
+    if (typeof value === "bigint") return param.type === "uint32" ? Number(value) : value.toString();
+    if (typeof value === "string" && param.type === "address") return value.toLowerCase();
+    return value;
+}
+
+function toRow(target: IndexerTarget, log: ethers.Log, parsed: ethers.LogDescription, timestamp: number) {
+    const args = Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, plain(parsed.args[i], input)]));
+    const columns: { guid?: string; account?: string; remoteEid?: number; amount?: string } = {};
+    switch (parsed.name) {
+        case "OFTSent":
+            Object.assign(columns, { guid: args.guid, account: args.fromAddress, remoteEid: args.dstEid, amount: args.amountSentLD });
+            break;
+        case "OFTReceived":
+            Object.assign(columns, { guid: args.guid, account: args.toAddress, remoteEid: args.srcEid, amount: args.amountReceivedLD });
+            break;
+        case "OutflowRateConsumed":
+            Object.assign(columns, { remoteEid: args.dstEid, amount: args.amountLD });
+            break;
+        case "InflowRateConsumed":
+            Object.assign(columns, { remoteEid: args.srcEid, amount: args.amountLD });
+            break;
+        case "RateLimiterSet":
+            columns.account = args.newRateLimiter as string;
+            break;
+        // The GUID of queue events is filled in by linkQueueEvents
+        case "InboundQueued":
+            Object.assign(columns, { account: args.to, remoteEid: args.srcEid, amount: args.amountLD });
+            break;
+        case "QueuedInboundReleased":
+        case "QueuedInboundCancelled":
+            Object.assign(columns, { account: args.to, amount: args.amountLD });
+            break;
+    }
+    return {
+        network: target.network,
+        eid: target.eid,
+        contract: target.address.toLowerCase(),
+        block_number: log.blockNumber,
+        block_hash: log.blockHash,
+        timestamp,
+        tx_hash: log.transactionHash,
+        log_index: log.index,
+        name: parsed.name,
+        guid: columns.guid ?? null,
+        account: columns.account ?? null,
+        remote_eid: columns.remoteEid ?? null,
+        amount: columns.amount ?? null,
+        args: JSON.stringify(args),
+    };
+}
+
+type EventRow = ReturnType<typeof toRow>;
+
+/**
+ * Gives queue events the GUID of their transfer. InboundQueued is emitted in the delivery transaction, before the
+ * OFTReceived (with amount 0) for the same recipient; a release or cancel names the recipient and queue index of an
+ * InboundQueued from the same batch or an earlier one.
+ */
+function linkQueueEvents(db: Database.Database, rows: EventRow[]): void {
+    const queued = new Map<string, string | null>();
+    const findQueued = db.prepare(
+        "SELECT guid FROM events WHERE network = ? AND name = 'InboundQueued' AND account = ? AND json_extract(args, '$.index') = ?"
+    );
+    for (const row of rows) {
+        const index = (JSON.parse(row.args) as { index?: string }).index;
+        const key = `${row.account}:${index}`;
+        if (row.name === "InboundQueued") {
+            const received = rows.find((r) => r.name === "OFTReceived" && r.tx_hash === row.tx_hash && r.account === row.account && r.log_index > row.log_index);
+            row.guid = received?.guid ?? null;
+            queued.set(key, row.guid);
+        } else if (row.name === "QueuedInboundReleased" || row.name === "QueuedInboundCancelled") {
+            const found = queued.get(key) ?? (findQueued.get(row.network, row.account, index) as { guid: string | null } | undefined)?.guid;
+            row.guid = found ?? null;
+        }
+    }
+}
+
+/**
+ * Finds the newest indexed block still on the canonical chain and drops everything after it. Returns the block to
+ * resume from.
+ */
+async function rewind(db: Database.Database, target: IndexerTarget): Promise<number> {
+    const blocks = db
+        .prepare("SELECT DISTINCT block_number, block_hash FROM events WHERE network = ? ORDER BY block_number DESC")
+        .all(target.network) as { block_number: number; block_hash: string }[];
+    let ancestor = target.startBlock - 1;
+    for (const block of blocks) {
+        if ((await target.provider.getBlock(block.block_number))?.hash === block.block_hash) {
+            ancestor = block.block_number;
+            break;
+        }
+    }
+    db.prepare("DELETE FROM events WHERE network = ? AND block_number > ?").run(target.network, ancestor);
+    return ancestor + 1;
+}
+
+/**
+ * Indexes every target up to `head - confirmations`, in batches that each commit their events together with the
+ * checkpoint (number and hash of the batch's last block). When the checkpointed block is no longer canonical (a
+ * reorg deeper than `confirmations`), the events of the orphaned blocks are dropped and indexed again.
+ */
+export async function syncBridgeIndex(db: Database.Database, targets: IndexerTarget[], opts: IndexerOptions = {}): Promise<SyncResult[]> {
+    const confirmations = opts.confirmations ?? 12;
+    const batchSize = opts.batchSize ?? 2_000;
+    const iface = new ethers.Interface(INDEXED_ABI);
+    const topics = iface.fragments.flatMap((f) => (f.type === "event" ? [(f as ethers.EventFragment).topicHash] : []));
+    const insert = db.prepare(`
+        INSERT OR REPLACE INTO events (network, eid, contract, block_number, block_hash, timestamp, tx_hash, log_index, name, guid, account, remote_eid, amount, args)
+        VALUES (@network, @eid, @contract, @block_number, @block_hash, @timestamp, @tx_hash, @log_index, @name, @guid, @account, @remote_eid, @amount, @args)
+    `);
+    const checkpoint = db.prepare("INSERT OR REPLACE INTO checkpoints (network, block_number, block_hash) VALUES (?, ?, ?)");
+    const commit = db.transaction((rows: EventRow[], network: string, block: ethers.Block) => {
+        for (const row of rows) insert.run(row);
+        checkpoint.run(network, block.number, block.hash);
+    });
+
+    const results: SyncResult[] = [];
+    for (const target of targets) {
+        const saved = db.prepare("SELECT block_number, block_hash FROM checkpoints WHERE network = ?").get(target.network) as
+            | { block_number: number; block_hash: string }
+            | undefined;
+        let fromBlock = saved ? saved.block_number + 1 : target.startBlock;
+        let rewound = 0;
+        if (saved && (await target.provider.getBlock(saved.block_number))?.hash !== saved.block_hash) {
+            fromBlock = await rewind(db, target);
+            rewound = saved.block_number + 1 - fromBlock;
+        }
+
+        const head = (await target.provider.getBlockNumber()) - confirmations;
+        const result = { network: target.network, fromBlock, toBlock: fromBlock - 1, events: 0, rewound };
+        for (let from = fromBlock; from <= head; from += batchSize) {
+            const to = Math.min(from + batchSize - 1, head);
+            const logs = await target.provider.getLogs({ address: target.address, topics: [topics], fromBlock: from, toBlock: to });
+            const timestamps = new Map<number, number>();
+            const rows = [];
+            for (const log of logs) {
+                const parsed = iface.parseLog(log);
+                if (!parsed) continue;
+                if (!timestamps.has(log.blockNumber)) timestamps.set(log.blockNumber, (await target.provider.getBlock(log.blockNumber))!.timestamp);
+                rows.push(toRow(target, log, parsed, timestamps.get(log.blockNumber)!));
+            }
+            linkQueueEvents(db, rows);
+            const last = await target.provider.getBlock(to);
+            if (!last?.hash) throw new Error(`[${target.network}] block ${to} not found`);
+            commit(rows, target.network, last);
+            result.toBlock = to;
+            result.events += rows.length;
+        }
+        results.push(result);
+    }
+    return results;
+}
+
+interface TransferRow {
+    guid: string;
+    s_network: string | null;
+    s_eid: number | null;
+    s_remote_eid: number | null;
+    s_account: string | null;
+    s_amount: string | null;
+    s_args: string | null;
+    s_tx: string | null;
+    s_time: number | null;
+    r_network: string | null;
+    r_eid: number | null;
+    r_remote_eid: number | null;
+    r_account: string | null;
+    r_amount: string | null;
+    r_tx: string | null;
+    r_time: number | null;
+    q_index: string | null;
+    q_amount: string | null;
+    x_name: "QueuedInboundReleased" | "QueuedInboundCancelled" | null;
+    x_args: string | null;
+    x_tx: string | null;
+    x_time: number | null;
+}
+
+/// Transfers matching every given filter, oldest first
+export function queryTransfers(db: Database.Database, filter: HistoryFilter = {}): BridgeTransfer[] {
+    const rows = db.prepare(`
+        WITH g AS (SELECT DISTINCT guid FROM events WHERE name IN ('OFTSent', 'OFTReceived'))
+        SELECT g.guid,
+            s.network AS s_network, s.eid AS s_eid, s.remote_eid AS s_remote_eid, s.account AS s_account, s.amount AS s_amount,
+            s.args AS s_args, s.tx_hash AS s_tx, s.timestamp AS s_time,
+            r.network AS r_network, r.eid AS r_eid, r.remote_eid AS r_remote_eid, r.account AS r_account, r.amount AS r_amount,
+            r.tx_hash AS r_tx, r.timestamp AS r_time,
+            json_extract(q.args, '$.index') AS q_index, q.amount AS q_amount,
+            x.name AS x_name, x.args AS x_args, x.tx_hash AS x_tx, x.timestamp AS x_time
+        FROM g
+        LEFT JOIN events s ON s.guid = g.guid AND s.name = 'OFTSent'
+        LEFT JOIN events r ON r.guid = g.guid AND r.name = 'OFTReceived'
+        LEFT JOIN events q ON q.guid = g.guid AND q.name = 'InboundQueued'
+        LEFT JOIN events x ON x.guid = g.guid AND x.name IN ('QueuedInboundReleased', 'QueuedInboundCancelled')
+        WHERE (@address IS NULL OR s.account = @address OR r.account = @address)
+            AND (@guid IS NULL OR g.guid = @guid)
+            AND (@eid IS NULL OR @eid IN (s.eid, s.remote_eid, r.eid, r.remote_eid))
+        ORDER BY COALESCE(s.timestamp, r.timestamp), COALESCE(s.log_index, r.log_index)
+    `).all({
+        address: filter.address?.toLowerCase() ?? null,
+        guid: filter.guid?.toLowerCase() ?? null,
+        eid: filter.eid ?? null,
+    }) as TransferRow[];
+
+    const status = (row: TransferRow): BridgeTransfer["status"] => {
+        if (!row.r_tx) return "in-flight";
+        if (row.q_amount && !row.x_tx) return "queued";
+        if (row.x_name === "QueuedInboundCancelled") return "cancelled";
+        return row.s_tx ? "delivered" : "received";
+    };
+    const outcome = (row: TransferRow): NonNullable<BridgeTransfer["queue"]>["outcome"] => {
+        if (!row.x_tx) return undefined;
+        const args = JSON.parse(row.x_args!) as { early?: boolean; reason?: string };
+        return { event: row.x_name!, early: args.early, reason: args.reason, txHash: row.x_tx, timestamp: row.x_time! };
+    };
+    return rows.map((row) => ({
+        guid: row.guid,
+        status: status(row),
+        srcEid: row.s_eid ?? row.r_remote_eid ?? undefined,
+        dstEid: row.s_remote_eid ?? row.r_eid ?? undefined,
+        sent: row.s_tx ? {
+            network: row.s_network!,
+            from: row.s_account!,
+            amountSent: row.s_amount!,
+            amountReceived: JSON.parse(row.s_args!).amountReceivedLD,
+            txHash: row.s_tx,
+            timestamp: row.s_time!,
+        } : undefined,
+        received: row.r_tx ? {
+            network: row.r_network!,
+            to: row.r_account!,
+            amount: row.r_amount!,
+            txHash: row.r_tx,
+            timestamp: row.r_time!,
+        } : undefined,
+        queue: row.q_amount ? { index: row.q_index!, amount: row.q_amount, outcome: outcome(row) } : undefined,
+    }));
+}
+
+interface RateLimitEventRow {
+    network: string;
+    eid: number;
+    contract: string;
+    block_number: number;
+    timestamp: number;
+    tx_hash: string;
+    log_index: number;
+    name: string;
+    guid: string | null;
+    account: string | null;
+    remote_eid: number | null;
+    amount: string | null;
+    args: string;
+}
+
+/// Rate limit consumption and configuration events matching every given filter, oldest first
+export function queryRateLimitEvents(db: Database.Database, filter: Omit<HistoryFilter, "guid"> = {}): IndexedEvent[] {
+    const rows = db.prepare(`
+        SELECT network, eid, contract, block_number, timestamp, tx_hash, log_index, name, guid, account, remote_eid, amount, args
+        FROM events
+        WHERE name IN (${RATE_LIMIT_EVENTS.map((n) => `'${n}'`).join(", ")})
+            AND (@address IS NULL OR account = @address)
+            AND (@eid IS NULL OR eid = @eid OR remote_eid = @eid)
+        ORDER BY timestamp, log_index
+    `).all({ address: filter.address?.toLowerCase() ?? null, eid: filter.eid ?? null }) as RateLimitEventRow[];
+    return rows.map((row) => ({
+        network: row.network,
+        eid: row.eid,
+        contract: row.contract,
+        blockNumber: row.block_number,
+        timestamp: row.timestamp,
+        txHash: row.tx_hash,
+        logIndex: row.log_index,
+        name: row.name,
+        guid: row.guid ?? undefined,
+        account: row.account ?? undefined,
+        remoteEid: row.remote_eid ?? undefined,
+        amount: row.amount ?? undefined,
+        args: JSON.parse(row.args) as Record<string, unknown>,
+    }));
+}
+
+export function formatTransfer(t: BridgeTransfer): string {
+    const lines = [`${t.guid} ${t.srcEid ?? "?"} -> ${t.dstEid ?? "?"} [${t.status}]`];
+    if (t.sent) {
+        lines.push(
+            `  sent     ${new Date(t.sent.timestamp * 1000).toISOString()} ${t.sent.network} from ${ethers.getAddress(t.sent.from)} ` +
+            `${ethers.formatUnits(t.sent.amountSent, 18)} FDFI (${ethers.formatUnits(t.sent.amountReceived, 18)} after fees) tx ${t.sent.txHash}`
+        );
+    }
+    if (t.received) {
+        lines.push(
+            `  received ${new Date(t.received.timestamp * 1000).toISOString()} ${t.received.network} to ${ethers.getAddress(t.received.to)} ` +
+            `${ethers.formatUnits(t.received.amount, 18)} FDFI tx ${t.received.txHash}`
+        );
+    }
+    if (t.queue) {
+        const { index, amount, outcome } = t.queue;
+        let state = "waiting for inbound capacity";
+        if (outcome?.event === "QueuedInboundReleased") state = `released${outcome.early ? " early" : ""} tx ${outcome.txHash}`;
+        if (outcome?.event === "QueuedInboundCancelled") state = `cancelled (${outcome.reason}) tx ${outcome.txHash}`;
+        lines.push(`  queued   #${index} ${ethers.formatUnits(amount, 18)} FDFI, ${state}`);
+    }
+    return lines.join("\n");
+}
+
+export function formatRateLimitEvent(e: IndexedEvent): string {
+    const at = `${new Date(e.timestamp * 1000).toISOString()} ${e.network}`;
+    switch (e.name) {
+        case "OutflowRateConsumed":
+        case "InflowRateConsumed":
+            return `${at} ${e.name}(${e.remoteEid}) ${ethers.formatUnits(e.amount!, 18)} FDFI, ` +
+                `${ethers.formatUnits(e.args.remainingCapacity as string, 18)} remaining tx ${e.txHash}`;
+        case "RateLimiterSet":
+            return `${at} RateLimiterSet ${ethers.getAddress(e.account!)} tx ${e.txHash}`;
+        default: {
+            const configs = (e.args.rateLimitConfigs as { dstEid: number; limit: string; window: string }[])
+                .map((c) => `${c.dstEid}: ${ethers.formatUnits(c.limit, 18)} / ${c.window}s`);
+            return `${at} ${e.name} ${configs.join(", ")} tx ${e.txHash}`;
+        }
+    }
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+
+/// Root folders for per-network inputs (deploy-config) and outputs (deployments)
+export const CONFIG_DIR = path.join(__dirname, "..", "..", "deploy-config");
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+/// Bump when the shape of DeploymentsFile changes in a non-additive way
+export const DEPLOYMENTS_VERSION = 1;
+
+export type NetworkRole = "home" | "satellite";
+
+/// Rate limit entry as written in a manifest (limit in whole FDFI, window in seconds)
+export interface ManifestRateLimit {
+    eid: number;
+    limit: string;
+    window: number;
+}
+
+/// Per-network deployment input read from deploy-config/<network>.json
+export interface NetworkManifest {
+    role: NetworkRole;
+    /// LayerZero endpoint id of this chain
+    eid: number;
+    /// LayerZero EndpointV2 address; omitted on local chains to deploy MockLayerZeroEndpoint
+    endpoint?: string;
+    /// Owner / delegate of every deployed contract; defaults to the deployer
+    owner?: string;
+    /// Satellite token metadata; defaults to FDFI Token / FDFI
+    name?: string;
+    symbol?: string;
+    /// Outbound limits keyed by destination eid
+    rateLimits: ManifestRateLimit[];
+    /// Inbound limits keyed by source eid; rateLimits applies to both directions when omitted
+    inboundRateLimits?: ManifestRateLimit[];
+    /// Home only: deploy FDFIBridgeRouter for permit sends and relayed intents
+    bridgeRouter?: boolean;
+    /// Satellites only: deploy FDFIComposer for bridge-and-call transfers (delegating via FDFIVoteReporter if deployed)
+    composer?: boolean;
+    /// FDFIBlocklist for the token / adapter (home) or OFT (satellite); the list itself is synced with blocklist:sync
+    blocklist?: BlocklistConfig;
+    /// Home only: accounts exempt from FDFIToken's transfer gate before launch (addresses or deployments record names)
+    transferAllowlist?: TransferAllowlist;
+    /// Timelock (every network) and Governor (home) parameters; no governance contracts are deployed when omitted
+    governance?: GovernanceConfig;
+}
+
+export interface GovernanceConfig {
+    /// FDFITimelock minimum delay in seconds
+    timelockDelay: number;
+    /// Home only: FDFIGovernor settings (delay / period in blocks, threshold in whole FDFI)
+    votingDelay?: number;
+    votingPeriod?: number;
+    quorumPercent?: number;
+    proposalThreshold?: string;
+    /// Home only: block time in seconds, to estimate snapshot timestamps for satellite votes; defaults to 12 (Ethereum)
+    secondsPerBlock?: number;
+    /// Count satellite votes on home: FDFIVoteAggregator on home, FDFIVoteReporter on satellites
+    voteAggregation?: boolean;
+    /// Satellites only: accounts allowed to schedule on the timelock (e.g. a multisig relaying governance decisions)
+    proposers?: string[];
+}
+
+export interface BlocklistConfig {
+    /// Receives bridge credits addressed to blocked accounts
+    quarantine: string;
+    /// Compliance account managing the list besides the owner
+    blocklister?: string;
+}
+
+export interface TransferAllowlist {
+    senders?: string[];
+    receivers?: string[];
+}
+
+export interface ContractRecord {
+    address: string;
+    /// Implementation behind the proxy (upgradeable contracts only)
+    implementation?: string;
+    txHash?: string;
+    deployedAt: string;
+}
+
+/// Per-network deployment output written to deployments/<network>.json
+export interface DeploymentsFile {
+    version: number;
+    network: string;
+    chainId: number;
+    eid: number;
+    contracts: Record<string, ContractRecord>;
+}
+
+export function loadNetworkManifest(network: string, dir: string = CONFIG_DIR): NetworkManifest {
+    const file = path.join(dir, `${network}.json`);
+    if (!fs.existsSync(file)) throw new Error(`No deploy manifest for network "${network}" (expected ${file})`);
+    const manifest = JSON.parse(fs.readFileSync(file, "utf8")) as NetworkManifest;
+    if (manifest.role !== "home" && manifest.role !== "satellite") {
+        throw new Error(`${file}: role must be "home" or "satellite"`);
+    }
+    if (!Number.isInteger(manifest.eid) || manifest.eid <= 0) throw new Error(`${file}: eid must be a positive integer`);
+    manifest.rateLimits = manifest.rateLimits ?? [];
+    if (manifest.transferAllowlist && manifest.role !== "home") {
+        throw new Error(`${file}: transferAllowlist only applies to the home network`);
+    }
+    if (manifest.bridgeRouter && manifest.role !== "home") {
+        throw new Error(`${file}: bridgeRouter only applies to the home network`);
+    }
+    if (manifest.composer && manifest.role !== "satellite") {
+        throw new Error(`${file}: composer only applies to satellite networks`);
+    }
+    if (manifest.blocklist) {
+        const { quarantine, blocklister } = manifest.blocklist;
+        if (!ethers.isAddress(quarantine) || quarantine === ethers.ZeroAddress) throw new Error(`${file}: blocklist.quarantine must be a non-zero address`);
+        if (blocklister !== undefined && !ethers.isAddress(blocklister)) throw new Error(`${file}: blocklist.blocklister must be an address`);
+    }
+    const gov = manifest.governance;
+    if (gov) {
+        if (!Number.isInteger(gov.timelockDelay) || gov.timelockDelay < 0) throw new Error(`${file}: governance.timelockDelay must be seconds`);
+        if (manifest.role === "home" && (!gov.votingPeriod || gov.votingDelay === undefined || !gov.quorumPercent)) {
+            throw new Error(`${file}: governance on the home network needs votingDelay, votingPeriod and quorumPercent`);
+        }
+        if (gov.secondsPerBlock !== undefined && (!Number.isInteger(gov.secondsPerBlock) || gov.secondsPerBlock <= 0)) {
+            throw new Error(`${file}: governance.secondsPerBlock must be a positive number of seconds`);
+        }
+        if (manifest.role === "satellite" && !gov.proposers?.length) {
+            throw new Error(`${file}: governance on a satellite needs at least one timelock proposer`);
+        }
+    }
+    return manifest;
+}
+
+export function loadDeployments(network: string, dir: string = DEPLOYMENTS_DIR): DeploymentsFile | undefined {
+    const file = path.join(dir, `${network}.json`);
+    if (!fs.existsSync(file)) return undefined;
+    const deployments = JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentsFile;
+    if (deployments.version !== DEPLOYMENTS_VERSION) {
+        throw new Error(`${file}: unsupported deployments version ${deployments.version} (expected ${DEPLOYMENTS_VERSION})`);
+    }
+    return deployments;
+}
+
+export function saveDeployments(deployments: DeploymentsFile, dir: string = DEPLOYMENTS_DIR): string {
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, `${deployments.network}.json`);
+    fs.writeFileSync(file, JSON.stringify(deployments, null, 4) + "\n");
+    return file;
+}
@@ -0,0 +1,245 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { loadDeployments, loadNetworkManifest } from "./manifest";
+import { connectNetwork, connectProvider } from "./networks";
+import { ExecutorOptionsSpec, MsgType, buildExecutorOptions } from "./options";
+
+export interface EnforcedOptionSpec extends ExecutorOptionsSpec {
+    msgType: MsgType;
+}
+
+/// Desired wiring of the EVM mesh: the adapter on the home chain and an OFT on every satellite
+export interface MeshConfig {
+    /// Networks in the mesh; each needs deploy-config/<network>.json and deployments/<network>.json
+    networks: string[];
+    /// Enforced options set on every pathway
+    enforcedOptions: EnforcedOptionSpec[];
+    /// Replaces enforcedOptions for specific pathways (from = sending network, to = receiving network)
+    pathwayOverrides?: { from: string; to: string; enforcedOptions: EnforcedOptionSpec[] }[];
+    /// Endpoint delegate expected on every OApp; left unchecked when omitted
+    delegate?: string;
+    /// Pauser / unpauser expected on every adapter / OFT (see bridge:pause); left unchecked when omitted
+    pauser?: string;
+    unpauser?: string;
+}
+
+export interface MeshNode {
+    network: string;
+    eid: number;
+    contractName: "FDFIOFTAdapter" | "FDFIOFTUpgradeable";
+    address: string;
+    /// Home only: FDFIVoteAggregator, when governance.voteAggregation deployed one
+    voteAggregator?: string;
+    /// Satellite only: FDFIVoteReporter, when governance.voteAggregation deployed one
+    voteReporter?: string;
+    /// Enough to plan and report; needs no key
+    provider: ethers.Provider;
+    /// Only set by connectMeshSigners, for the paths that send transactions
+    signer?: ethers.Signer;
+}
+
+export type WiringChange =
+    | { network: string; kind: "peer"; eid: number; current: string; desired: string }
+    | { network: string; kind: "enforcedOptions"; eid: number; msgType: MsgType; current: string; desired: string }
+    | { network: string; kind: "delegate"; current: string; desired: string }
+    | { network: string; kind: "pauser" | "unpauser"; current: string; desired: string }
+    | { network: string; kind: "aggregatorPeer"; eid: number; current: string; desired: string }
+    | { network: string; kind: "reporterPeer"; eid: number; current: string; desired: string }
+    | { network: string; kind: "voteReporter"; current: string; desired: string };
+
+/// Resolves the OApp of every mesh network from its deploy manifest and deployments file, connected read-only
+export async function resolveMeshNodes(hre: HardhatRuntimeEnvironment, mesh: MeshConfig): Promise<MeshNode[]> {
+    return Promise.all(mesh.networks.map(async (network) => {
+        const contractName = loadNetworkManifest(network).role === "home" ? "FDFIOFTAdapter" : "FDFIOFTUpgradeable";
+        const deployments = loadDeployments(network);
+        const record = deployments?.contracts[contractName];
+        if (!deployments || !record) throw new Error(`No ${contractName} recorded in deployments/${network}.json`);
+        const provider = connectProvider(hre, network);
+        const voteAggregator = deployments.contracts.FDFIVoteAggregator?.address;
+        const voteReporter = deployments.contracts.FDFIVoteReporter?.address;
+        return { network, eid: deployments.eid, contractName, address: record.address, voteAggregator, voteReporter, provider };
+    }));
+}
+
+/// Adds each network's signer to the nodes before applying changes; throws without PRIVATE_KEY (or node accounts)
+export async function connectMeshSigners(hre: HardhatRuntimeEnvironment, nodes: MeshNode[]): Promise<MeshNode[]> {
+    return Promise.all(nodes.map(async (node) => ({ ...node, signer: (await connectNetwork(hre, node.network)).signer })));
+}
+
+/// `contract` (from getContractAt) on a node's provider instead of the selected network's signer
+export function readOnly<T extends ethers.BaseContract>(contract: T, provider: ethers.Provider): T {
+    return contract.connect(provider) as T;
+}
+
+/// Signer of a node (or anything resolved from one) on an apply path
+export function signerOf(node: { network: string; signer?: ethers.Signer }): ethers.Signer {
+    if (!node.signer) throw new Error(`${node.network}: no signer connected (see connectMeshSigners)`);
+    return node.signer;
+}
+
+function enforcedOptionsFor(mesh: MeshConfig, from: string, to: string): EnforcedOptionSpec[] {
+    const override = mesh.pathwayOverrides?.find((o) => o.from === from && o.to === to);
+    return override ? override.enforcedOptions : mesh.enforcedOptions;
+}
+
+/**
+ * Compares desired against on-chain peers, enforced options, delegates and pause roles; returns only what differs.
+ * When the home network has an FDFIVoteAggregator, it and the satellite FDFIVoteReporters are peered with each
+ * other and every reporter is set on its satellite OFT.
+ */
+export async function planMeshWiring(
+    hre: HardhatRuntimeEnvironment,
+    nodes: MeshNode[],
+    mesh: MeshConfig
+): Promise<WiringChange[]> {
+    const changes: WiringChange[] = [];
+    const home = nodes.find((n) => n.voteAggregator);
+    for (const node of nodes) {
+        const oapp = readOnly(await hre.ethers.getContractAt(node.contractName, node.address), node.provider);
+
+        for (const remote of nodes) {
+            if (remote === node) continue;
+            const desiredPeer = ethers.zeroPadValue(remote.address, 32).toLowerCase();
+            const currentPeer = (await oapp.peers(remote.eid)).toLowerCase();
+            if (currentPeer !== desiredPeer) {
+                changes.push({ network: node.network, kind: "peer", eid: remote.eid, current: currentPeer, desired: desiredPeer });
+            }
+
+            for (const spec of enforcedOptionsFor(mesh, node.network, remote.network)) {
+                const desired = buildExecutorOptions(spec).toLowerCase();
+                const current = (await oapp.enforcedOptions(remote.eid, spec.msgType)).toLowerCase();
+                if (current !== desired) {
+                    changes.push({ network: node.network, kind: "enforcedOptions", eid: remote.eid, msgType: spec.msgType, current, desired });
+                }
+            }
+        }
+
+        if (mesh.delegate) {
+            const endpoint = new ethers.Contract(
+                await oapp.endpoint(),
+                ["function delegates(address oapp) view returns (address)"],
+                node.provider
+            );
+            const current: string = await endpoint.delegates(node.address);
+            if (current.toLowerCase() !== mesh.delegate.toLowerCase()) {
+                changes.push({ network: node.network, kind: "delegate", current, desired: mesh.delegate });
+            }
+        }
+
+        for (const kind of ["pauser", "unpauser"] as const) {
+            const desired = mesh[kind];
+            if (!desired) continue;
+            const current = await oapp[kind]();
+            if (current.toLowerCase() !== desired.toLowerCase()) changes.push({ network: node.network, kind, current, desired });
+        }
+
+        if (!home) continue;
+        if (node === home) {
+            const aggregator = readOnly(await hre.ethers.getContractAt("FDFIVoteAggregator", home.voteAggregator!), node.provider);
+            for (const remote of nodes) {
+                if (!remote.voteReporter) continue;
+                const desired = ethers.zeroPadValue(remote.voteReporter, 32).toLowerCase();
+                const current = (await aggregator.peers(remote.eid)).toLowerCase();
+                if (current !== desired) changes.push({ network: node.network, kind: "aggregatorPeer", eid: remote.eid, current, desired });
+            }
+        } else if (node.voteReporter) {
+            const reporter = readOnly(await hre.ethers.getContractAt("FDFIVoteReporter", node.voteReporter), node.provider);
+            const desiredPeer = ethers.zeroPadValue(home.voteAggregator!, 32).toLowerCase();
+            const currentPeer = (await reporter.peers(home.eid)).toLowerCase();
+            if (currentPeer !== desiredPeer) {
+                changes.push({ network: node.network, kind: "reporterPeer", eid: home.eid, current: currentPeer, desired: desiredPeer });
+            }
+            const oft = readOnly(await hre.ethers.getContractAt("FDFIOFTUpgradeable", node.address), node.provider);
+            const current = await oft.voteReporter();
+            if (current.toLowerCase() !== node.voteReporter.toLowerCase()) {
+                // setVoteReporter reverts once a reporter is set: its checkpoints cannot carry over to another one
+                if (current !== ethers.ZeroAddress) {
+                    throw new Error(`[${node.network}] ${node.contractName} already reports votes to ${current}; it cannot switch to ${node.voteReporter}`);
+                }
+                changes.push({ network: node.network, kind: "voteReporter", current, desired: node.voteReporter });
+            }
+        }
+    }
+    return changes;
+}
+
+export function formatWiringChange(change: WiringChange): string {
+    switch (change.kind) {
+        case "peer":
+            return `[${change.network}] setPeer(${change.eid}): ${change.current} -> ${change.desired}`;
+        case "enforcedOptions":
+            return `[${change.network}] enforcedOptions(${change.eid}, ${MsgType[change.msgType]}): ${change.current} -> ${change.desired}`;
+        case "delegate":
+            return `[${change.network}] setDelegate: ${change.current} -> ${change.desired}`;
+        case "pauser":
+            return `[${change.network}] setPauser: ${change.current} -> ${change.desired}`;
+        case "unpauser":
+            return `[${change.network}] setUnpauser: ${change.current} -> ${change.desired}`;
+        case "aggregatorPeer":
+            return `[${change.network}] FDFIVoteAggregator.setPeer(${change.eid}): ${change.current} -> ${change.desired}`;
+        case "reporterPeer":
+            return `[${change.network}] FDFIVoteReporter.setPeer(${change.eid}): ${change.current} -> ${change.desired}`;
+        case "voteReporter":
+            return `[${change.network}] setVoteReporter: ${change.current} -> ${change.desired}`;
+    }
+}
+
+/// Sends the transactions for a plan: one setPeer per peer, one batched setEnforcedOptions per network
+export async function applyMeshWiring(
+    hre: HardhatRuntimeEnvironment,
+    nodes: MeshNode[],
+    changes: WiringChange[]
+): Promise<void> {
+    for (const node of nodes) {
+        const nodeChanges = changes.filter((c) => c.network === node.network);
+        if (nodeChanges.length === 0) continue;
+        const signer = signerOf(node);
+        const oapp = await hre.ethers.getContractAt(node.contractName, node.address, signer);
+
+        for (const change of nodeChanges) {
+            if (change.kind !== "peer") continue;
+            await (await oapp.setPeer(change.eid, change.desired)).wait();
+            console.log(`  [${node.network}] setPeer(${change.eid}) done`);
+        }
+
+        const options = nodeChanges.flatMap((c) =>
+            c.kind === "enforcedOptions" ? [{ eid: c.eid, msgType: c.msgType, options: c.desired }] : []
+        );
+        if (options.length > 0) {
+            await (await oapp.setEnforcedOptions(options)).wait();
+            console.log(`  [${node.network}] setEnforcedOptions (${options.length} entries) done`);
+        }
+
+        const delegate = nodeChanges.find((c) => c.kind === "delegate");
+        if (delegate) {
+            await (await oapp.setDelegate(delegate.desired)).wait();
+            console.log(`  [${node.network}] setDelegate done`);
+        }
+
+        for (const change of nodeChanges) {
+            if (change.kind === "pauser") {
+                await (await oapp.setPauser(change.desired)).wait();
+                console.log(`  [${node.network}] setPauser done`);
+            } else if (change.kind === "unpauser") {
+                await (await oapp.setUnpauser(change.desired)).wait();
+                console.log(`  [${node.network}] setUnpauser done`);
+            }
+        }
+
+        for (const change of nodeChanges) {
+            if (change.kind === "aggregatorPeer") {
+                const aggregator = await hre.ethers.getContractAt("FDFIVoteAggregator", node.voteAggregator!, signer);
+                await (await aggregator.setPeer(change.eid, change.desired)).wait();
+                console.log(`  [${node.network}] FDFIVoteAggregator.setPeer(${change.eid}) done`);
+            } else if (change.kind === "reporterPeer") {
+                const reporter = await hre.ethers.getContractAt("FDFIVoteReporter", node.voteReporter!, signer);
+                await (await reporter.setPeer(change.eid, change.desired)).wait();
+                console.log(`  [${node.network}] FDFIVoteReporter.setPeer(${change.eid}) done`);
+            } else if (change.kind === "voteReporter") {
+                const oft = await hre.ethers.getContractAt("FDFIOFTUpgradeable", node.address, signer);
+                await (await oft.setVoteReporter(change.desired)).wait();
+                console.log(`  [${node.network}] setVoteReporter done`);
+            }
+        }
+    }
+}
@@ -0,0 +1,207 @@
+import { ethers } from "ethers";
+import { MeshNode, signerOf } from "./mesh";
+
+const EMPTY_PAYLOAD_HASH = ethers.ZeroHash;
+const NIL_PAYLOAD_HASH = ethers.toBeHex(ethers.MaxUint256);
+
+const ORIGIN = "tuple(uint32 srcEid, bytes32 sender, uint64 nonce)";
+const ENDPOINT_ABI = [
+    "event PacketSent(bytes encodedPayload, bytes options, address sendLibrary)",
+    "function inboundPayloadHash(address receiver, uint32 srcEid, bytes32 sender, uint64 nonce) view returns (bytes32)",
+    "function lazyInboundNonce(address receiver, uint32 srcEid, bytes32 sender) view returns (uint64)",
+    "function inboundNonce(address receiver, uint32 srcEid, bytes32 sender) view returns (uint64)",
+    `function lzReceive(${ORIGIN} origin, address receiver, bytes32 guid, bytes message, bytes extraData) payable`,
+    `function clear(address oapp, ${ORIGIN} origin, bytes32 guid, bytes message)`,
+    "function skip(address oapp, uint32 srcEid, bytes32 sender, uint64 nonce)",
+];
+const OAPP_ABI = ["function endpoint() view returns (address)"];
+
+/// Errors a delivery to the adapter / OFT or vote contracts typically reverts with, decoded for the status report
+const DELIVERY_ERRORS = new ethers.Interface([
+    "error EnforcedPause()",
+    "error RateLimitExceeded()",
+    "error OnlyPeer(uint32 eid, bytes32 sender)",
+    "error InvalidReport()",
+    "error LZ_InvalidNonce(uint64 nonce)",
+    "error LZ_PayloadHashNotFound(bytes32 expected, bytes32 actual)",
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+]);
+
+/// Blocks per eth_getLogs request when scanning PacketSent
+const LOG_CHUNK = 10_000;
+
+/// An OApp of ours on one network: adapter / OFT, vote aggregator or reporter
+export interface MessagingApp {
+    network: string;
+    eid: number;
+    address: string;
+    provider: ethers.Provider;
+    /// Only driveMessage sends transactions
+    signer?: ethers.Signer;
+}
+
+/**
+ * - pending: sent, not verified on the destination yet (DVNs); blocks later nonces until verified or skipped
+ * - executable: verified and lzReceive would succeed (the executor has not run it yet)
+ * - failed: verified but lzReceive reverts (see reason); retry once the cause is fixed, or clear it
+ * - delivered: executed, cleared or skipped
+ * - nilified: verification revoked with nilify()
+ */
+export type MessageStatus = "pending" | "executable" | "failed" | "delivered" | "nilified";
+
+export interface InboundMessage {
+    srcNetwork: string;
+    dstNetwork: string;
+    srcEid: number;
+    dstEid: number;
+    sender: string;
+    receiver: string;
+    nonce: bigint;
+    guid: string;
+    message: string;
+    txHash: string;
+    status: MessageStatus;
+    reason?: string;
+}
+
+export type MessageAction = "retry" | "clear" | "skip";
+
+function decodePacket(encoded: string) {
+    return {
+        nonce: BigInt(ethers.dataSlice(encoded, 1, 9)),
+        srcEid: Number(ethers.dataSlice(encoded, 9, 13)),
+        sender: ethers.getAddress(ethers.dataSlice(encoded, 25, 45)),
+        dstEid: Number(ethers.dataSlice(encoded, 45, 49)),
+        receiver: ethers.getAddress(ethers.dataSlice(encoded, 61, 81)),
+        guid: ethers.dataSlice(encoded, 81, 113),
+        message: ethers.dataSlice(encoded, 113),
+    };
+}
+
+function origin(message: InboundMessage) {
+    return { srcEid: message.srcEid, sender: ethers.zeroPadValue(message.sender, 32), nonce: message.nonce };
+}
+
+/// Custom error or revert string of a failed call; unknown custom errors are shown as raw revert data
+function revertReason(e: unknown): string {
+    const error = e as { reason?: string; shortMessage?: string; message: string; data?: string };
+    if (error.reason) return error.reason;
+    if (error.data && error.data !== "0x") {
+        const parsed = DELIVERY_ERRORS.parseError(error.data);
+        return parsed ? `${parsed.name}(${parsed.args.join(", ")})` : error.data;
+    }
+    return error.shortMessage ?? error.message;
+}
+
+/// The adapter / OFT of every mesh node plus its vote aggregator or reporter, if deployed
+export function meshMessagingApps(nodes: MeshNode[]): MessagingApp[] {
+    return nodes.flatMap((node) => [
+        { network: node.network, eid: node.eid, address: node.address, provider: node.provider, signer: node.signer },
+        ...[node.voteAggregator, node.voteReporter]
+            .filter((address): address is string => !!address)
+            .map((address) => ({ network: node.network, eid: node.eid, address, provider: node.provider, signer: node.signer })),
+    ]);
+}
+
+async function endpointOf(app: MessagingApp, runner: ethers.ContractRunner = app.provider): Promise<ethers.Contract> {
+    const endpoint: string = await new ethers.Contract(app.address, OAPP_ABI, app.provider).endpoint();
+    return new ethers.Contract(endpoint, ENDPOINT_ABI, runner);
+}
+
+/**
+ * Messages sent between `apps` in the last `lookback` blocks of each source chain, with their state on the destination
+ * endpoint. Verified messages are simulated with lzReceive to tell executable from failed ones.
+ */
+export async function readInboundMessages(apps: MessagingApp[], lookback: number = 50_000): Promise<InboundMessage[]> {
+    const endpoints = new Map<MessagingApp, ethers.Contract>();
+    for (const app of apps) endpoints.set(app, await endpointOf(app));
+    const find = (eid: number, address: string) => apps.find((a) => a.eid === eid && a.address.toLowerCase() === address.toLowerCase());
+
+    const messages: InboundMessage[] = [];
+    const scanned = new Set<string>();
+    for (const src of apps) {
+        const endpoint = endpoints.get(src)!;
+        const key = `${src.network}:${(await endpoint.getAddress()).toLowerCase()}`;
+        if (scanned.has(key)) continue;
+        scanned.add(key);
+
+        const latest = await src.provider.getBlockNumber();
+        for (let from = Math.max(0, latest - lookback); from <= latest; from += LOG_CHUNK) {
+            const logs = await endpoint.queryFilter(endpoint.filters.PacketSent(), from, Math.min(latest, from + LOG_CHUNK - 1));
+            for (const log of logs) {
+                const packet = decodePacket((log as ethers.EventLog).args.encodedPayload);
+                const sender = find(packet.srcEid, packet.sender);
+                const receiver = find(packet.dstEid, packet.receiver);
+                if (!sender || !receiver) continue;
+                messages.push({
+                    ...packet,
+                    srcNetwork: sender.network,
+                    dstNetwork: receiver.network,
+                    txHash: log.transactionHash,
+                    status: "pending",
+                });
+            }
+        }
+    }
+
+    for (const message of messages) {
+        const app = find(message.dstEid, message.receiver)!;
+        const endpoint = endpoints.get(app)!;
+        const sender = ethers.zeroPadValue(message.sender, 32);
+        const hash: string = await endpoint.inboundPayloadHash(message.receiver, message.srcEid, sender, message.nonce);
+        if (hash === EMPTY_PAYLOAD_HASH) {
+            const lazy: bigint = await endpoint.lazyInboundNonce(message.receiver, message.srcEid, sender);
+            message.status = message.nonce <= lazy ? "delivered" : "pending";
+        } else if (hash === NIL_PAYLOAD_HASH) {
+            message.status = "nilified";
+        } else {
+            try {
+                await endpoint.lzReceive.staticCall(origin(message), message.receiver, message.guid, message.message, "0x");
+                message.status = "executable";
+            } catch (e) {
+                message.status = "failed";
+                message.reason = revertReason(e);
+            }
+        }
+    }
+    return messages.sort((a, b) => a.dstEid - b.dstEid || a.srcEid - b.srcEid || Number(a.nonce - b.nonce));
+}
+
+/**
+ * Drives a message on its destination endpoint with the receiving app's signer:
+ * - retry: lzReceive again (anyone), for failed or executable messages
+ * - clear: drop a verified message without executing it (OApp delegate); an OFT transfer cleared this way is lost
+ * - skip: skip a nonce that was never verified so later ones can execute (OApp delegate; next nonce only)
+ */
+export async function driveMessage(apps: MessagingApp[], message: InboundMessage, action: MessageAction): Promise<string> {
+    const app = apps.find((a) => a.eid === message.dstEid && a.address.toLowerCase() === message.receiver.toLowerCase());
+    if (!app) throw new Error(`No app for receiver ${message.receiver} on eid ${message.dstEid}`);
+    const allowed: Record<MessageAction, MessageStatus[]> = {
+        retry: ["failed", "executable"],
+        clear: ["failed", "executable"],
+        skip: ["pending"],
+    };
+    if (!allowed[action].includes(message.status)) {
+        throw new Error(`Cannot ${action} a ${message.status} message (expected ${allowed[action].join(" or ")})`);
+    }
+
+    const endpoint = await endpointOf(app, signerOf(app));
+    let tx: ethers.ContractTransactionResponse;
+    if (action === "retry") {
+        tx = await endpoint.lzReceive(origin(message), message.receiver, message.guid, message.message, "0x");
+    } else if (action === "clear") {
+        tx = await endpoint.clear(message.receiver, origin(message), message.guid, message.message);
+    } else {
+        const sender = ethers.zeroPadValue(message.sender, 32);
+        const next = (await endpoint.inboundNonce(message.receiver, message.srcEid, sender)) + 1n;
+        if (message.nonce !== next) throw new Error(`Only nonce ${next} of this pathway can be skipped, not ${message.nonce}`);
+        tx = await endpoint.skip(message.receiver, message.srcEid, sender, message.nonce);
+    }
+    await tx.wait();
+    return tx.hash;
+}
+
+export function formatInboundMessage(m: InboundMessage): string {
+    const detail = m.reason ? ` (${m.reason})` : "";
+    return `${m.srcNetwork} -> ${m.dstNetwork} nonce ${m.nonce} ${m.guid} ${m.status}${detail}`;
+}
@@ -0,0 +1,43 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types";
+
+export interface NetworkConnection {
+    name: string;
+    provider: ethers.Provider;
+    signer: ethers.Signer;
+}
+
+/**
+ * Connects to any network declared in hardhat.config.ts, not just the one selected with --network.
+ * Used by tooling that has to read (or write) every chain of the mesh in one run.
+ */
+export async function connectNetwork(hre: HardhatRuntimeEnvironment, name: string): Promise<NetworkConnection> {
+    if (name === hre.network.name) {
+        const [signer] = await hre.ethers.getSigners();
+        return { name, provider: hre.ethers.provider, signer };
+    }
+
+    const config = httpConfig(hre, name);
+    const provider = new ethers.JsonRpcProvider(config.url, undefined, { staticNetwork: true });
+    if (Array.isArray(config.accounts) && config.accounts.length > 0) {
+        return { name, provider, signer: new ethers.Wallet(config.accounts[0], provider) };
+    }
+    if (config.accounts === "remote") {
+        // Local nodes expose unlocked accounts over RPC
+        return { name, provider, signer: await provider.getSigner(0) };
+    }
+    throw new Error(`Network "${name}" has no usable accounts (set PRIVATE_KEY)`);
+}
+
+/// Read-only variant of connectNetwork for tooling that never signs (no PRIVATE_KEY needed)
+export function connectProvider(hre: HardhatRuntimeEnvironment, name: string): ethers.Provider {
+    if (name === hre.network.name) return hre.ethers.provider;
+    return new ethers.JsonRpcProvider(httpConfig(hre, name).url, undefined, { staticNetwork: true });
+}
+
+function httpConfig(hre: HardhatRuntimeEnvironment, name: string): HttpNetworkConfig {
+    const config = hre.config.networks[name] as HttpNetworkConfig | undefined;
+    if (!config) throw new Error(`Unknown network "${name}" (not declared in hardhat.config.ts)`);
+    if (!config.url) throw new Error(`Network "${name}" has no RPC url configured`);
+    return config;
+}
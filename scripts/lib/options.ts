@@ -0,0 +1,53 @@
+import { ethers } from "ethers";
+
+/// LayerZero OFT message types (see OFTCore.SEND / SEND_AND_CALL)
+export enum MsgType {
+    SEND = 1,
+    SEND_AND_CALL = 2,
+}
+
+const OPTIONS_TYPE_3 = 3;
+const EXECUTOR_WORKER_ID = 1;
+const OPTION_TYPE_LZRECEIVE = 1;
+const OPTION_TYPE_LZCOMPOSE = 3;
+
+/// Executor gas/value settings encoded into type-3 options (mirrors OptionsBuilder.sol)
+export interface ExecutorOptionsSpec {
+    lzReceiveGas: bigint | number;
+    lzReceiveValue?: bigint | number;
+    /// Gas for lzCompose index 0; only meaningful for SEND_AND_CALL
+    lzComposeGas?: bigint | number;
+    lzComposeValue?: bigint | number;
+}
+
+function executorOption(optionType: number, option: string): string {
+    return ethers.solidityPacked(
+        ["uint8", "uint16", "uint8", "bytes"],
+        [EXECUTOR_WORKER_ID, ethers.dataLength(option) + 1, optionType, option]
+    );
+}
+
+/// Encodes executor options exactly as OptionsBuilder.addExecutorLzReceiveOption / addExecutorLzComposeOption would
+export function buildExecutorOptions(spec: ExecutorOptionsSpec): string {
+    const parts = [ethers.solidityPacked(["uint16"], [OPTIONS_TYPE_3])];
+
+    const receiveValue = BigInt(spec.lzReceiveValue ?? 0);
+    parts.push(executorOption(
+        OPTION_TYPE_LZRECEIVE,
+        receiveValue === 0n
+            ? ethers.solidityPacked(["uint128"], [spec.lzReceiveGas])
+            : ethers.solidityPacked(["uint128", "uint128"], [spec.lzReceiveGas, receiveValue])
+    ));
+
+    if (spec.lzComposeGas !== undefined) {
+        const composeValue = BigInt(spec.lzComposeValue ?? 0);
+        parts.push(executorOption(
+            OPTION_TYPE_LZCOMPOSE,
+            composeValue === 0n
+                ? ethers.solidityPacked(["uint16", "uint128"], [0, spec.lzComposeGas])
+                : ethers.solidityPacked(["uint16", "uint128", "uint128"], [0, spec.lzComposeGas, composeValue])
+        ));
+    }
+
+    return ethers.concat(parts);
+}
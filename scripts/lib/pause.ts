@@ -0,0 +1,63 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { MeshNode, readOnly, signerOf } from "./mesh";
+
+export interface PauseStatus {
+    network: string;
+    contractName: MeshNode["contractName"];
+    address: string;
+    paused: boolean;
+    pauser: string;
+    unpauser: string;
+}
+
+export type PauseOutcome = "done" | "unchanged" | "unauthorized" | "failed";
+
+export interface PauseResult {
+    network: string;
+    outcome: PauseOutcome;
+    txHash?: string;
+    error?: string;
+}
+
+/// Pause state and roles of every adapter / OFT in the mesh
+export async function readPauseStatus(hre: HardhatRuntimeEnvironment, nodes: MeshNode[]): Promise<PauseStatus[]> {
+    return Promise.all(nodes.map(async (node) => {
+        const oapp = readOnly(await hre.ethers.getContractAt(node.contractName, node.address), node.provider);
+        const [paused, pauser, unpauser] = await Promise.all([oapp.paused(), oapp.pauser(), oapp.unpauser()]);
+        return { network: node.network, contractName: node.contractName, address: node.address, paused, pauser, unpauser };
+    }));
+}
+
+/**
+ * Pauses (or unpauses) every adapter / OFT in the mesh with each network's signer.
+ * Networks are handled one after another and a failure on one does not stop the rest, so an emergency stop
+ * pauses whatever it can; callers report the per-network outcome.
+ */
+export async function setMeshPaused(
+    hre: HardhatRuntimeEnvironment,
+    nodes: MeshNode[],
+    paused: boolean
+): Promise<PauseResult[]> {
+    const results: PauseResult[] = [];
+    for (const node of nodes) {
+        try {
+            const signer = signerOf(node);
+            const oapp = await hre.ethers.getContractAt(node.contractName, node.address, signer);
+            if ((await oapp.paused()) === paused) {
+                results.push({ network: node.network, outcome: "unchanged" });
+                continue;
+            }
+            const role = paused ? await oapp.pauser() : await oapp.unpauser();
+            if (role.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+                results.push({ network: node.network, outcome: "unauthorized", error: `signer is not the ${paused ? "pauser" : "unpauser"} (${role})` });
+                continue;
+            }
+            const tx = paused ? await oapp.pause() : await oapp.unpause();
+            await tx.wait();
+            results.push({ network: node.network, outcome: "done", txHash: tx.hash });
+        } catch (e) {
+            results.push({ network: node.network, outcome: "failed", error: (e as Error).message });
+        }
+    }
+    return results;
+}
@@ -0,0 +1,87 @@
+import { ethers } from "ethers";
+
+const QUEUE_ABI = [
+    "event InboundQueued(address indexed to, uint256 indexed index, uint32 srcEid, uint256 amountLD)",
+    "function queuedInbound(address to) view returns (tuple(uint256 amountLD, uint32 srcEid, uint64 queuedAt)[])",
+    "function getAmountCanBeReceived(uint32 srcEid) view returns (uint256 currentAmountInFlight, uint256 amountCanBeReceived)",
+    "function paused() view returns (bool)",
+    "function releaseQueued(address to, uint256 index)",
+];
+
+/// A pending entry of FDFIOFTAdapter's inbound queue
+export interface QueuedTransfer {
+    to: string;
+    index: number;
+    srcEid: number;
+    amountLD: bigint;
+    queuedAt: number;
+}
+
+export type ReleaseOutcome = "released" | "waiting" | "failed";
+
+export interface ReleaseResult extends QueuedTransfer {
+    outcome: ReleaseOutcome;
+    txHash?: string;
+    error?: string;
+}
+
+/// Pending (not yet released or cancelled) queue entries of every recipient seen in InboundQueued since `fromBlock`, oldest first
+export async function readInboundQueue(
+    runner: ethers.ContractRunner,
+    adapter: string,
+    fromBlock: number = 0
+): Promise<QueuedTransfer[]> {
+    const contract = new ethers.Contract(adapter, QUEUE_ABI, runner);
+    const events = await contract.queryFilter(contract.filters.InboundQueued(), fromBlock);
+    const recipients = [...new Set(events.map((e) => ethers.getAddress((e as ethers.EventLog).args.to)))];
+
+    const pending: QueuedTransfer[] = [];
+    for (const to of recipients) {
+        const entries = await contract.queuedInbound(to);
+        entries.forEach((entry: { amountLD: bigint; srcEid: bigint; queuedAt: bigint }, index: number) => {
+            if (entry.amountLD === 0n) return;
+            pending.push({ to, index, srcEid: Number(entry.srcEid), amountLD: entry.amountLD, queuedAt: Number(entry.queuedAt) });
+        });
+    }
+    return pending.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/**
+ * One keeper pass: releases pending entries oldest first while the inbound limit of their source eid has capacity.
+ * An entry that does not fit leaves the later ones of the same source eid waiting too, so the queue drains in order;
+ * a failed release is reported and does not stop the others. Nothing is sent while the adapter is paused.
+ */
+export async function processInboundQueue(
+    signer: ethers.Signer,
+    adapter: string,
+    fromBlock: number = 0
+): Promise<ReleaseResult[]> {
+    const contract = new ethers.Contract(adapter, QUEUE_ABI, signer);
+    const pending = await readInboundQueue(signer, adapter, fromBlock);
+    if (await contract.paused()) return pending.map((entry) => ({ ...entry, outcome: "waiting" }));
+
+    const capacity = new Map<number, bigint>();
+    const blocked = new Set<number>();
+    const results: ReleaseResult[] = [];
+    for (const entry of pending) {
+        if (!capacity.has(entry.srcEid)) {
+            const [, amountCanBeReceived] = await contract.getAmountCanBeReceived(entry.srcEid);
+            capacity.set(entry.srcEid, amountCanBeReceived);
+        }
+        const available = capacity.get(entry.srcEid)!;
+        if (blocked.has(entry.srcEid) || entry.amountLD > available) {
+            blocked.add(entry.srcEid);
+            results.push({ ...entry, outcome: "waiting" });
+            continue;
+        }
+        try {
+            const tx = await contract.releaseQueued(entry.to, entry.index);
+            await tx.wait();
+            capacity.set(entry.srcEid, available - entry.amountLD);
+            results.push({ ...entry, outcome: "released", txHash: tx.hash });
+        } catch (e) {
+            results.push({ ...entry, outcome: "failed", error: (e as Error).message });
+        }
+    }
+    return results;
+}
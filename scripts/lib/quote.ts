@@ -0,0 +1,84 @@
+import { ethers } from "ethers";
+
+const SEND_PARAM = "tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd)";
+const OFT_ABI = [
+    `function quoteOFT(${SEND_PARAM} sendParam) view returns (tuple(uint256 minAmountLD, uint256 maxAmountLD) limit, tuple(int256 feeAmountLD, string description)[] oftFeeDetails, tuple(uint256 amountSentLD, uint256 amountReceivedLD) receipt)`,
+    `function quoteSend(${SEND_PARAM} sendParam, bool payInLzToken) view returns (tuple(uint256 nativeFee, uint256 lzTokenFee))`,
+];
+
+/// IOFT SendParam
+export interface SendParam {
+    dstEid: number;
+    to: string;
+    amountLD: bigint;
+    minAmountLD: bigint;
+    extraOptions: string;
+    composeMsg: string;
+    oftCmd: string;
+}
+
+export interface TransferRequest {
+    dstEid: number;
+    /// EVM address or 32-byte recipient (e.g. a Solana account)
+    to: string;
+    amountLD: bigint;
+    /// Accepted drop below the quoted amount received, e.g. if the fee is raised before the send lands; defaults to 0
+    slippageBps?: number;
+    extraOptions?: string;
+    composeMsg?: string;
+    payInLzToken?: boolean;
+}
+
+export interface TransferQuote {
+    /// Ready for send(): minAmountLD is the quoted amount received less slippage
+    sendParam: SendParam;
+    amountSentLD: bigint;
+    amountReceivedLD: bigint;
+    /// Sum of oftFeeDetails: the bridge fee, including dust
+    bridgeFeeLD: bigint;
+    feeDetails: { feeAmountLD: bigint; description: string }[];
+    messagingFee: { nativeFee: bigint; lzTokenFee: bigint };
+}
+
+/// Recipient as bytes32: EVM addresses are left-padded, 32-byte values are kept
+export function toBytes32(to: string): string {
+    return ethers.dataLength(to) === 32 ? ethers.hexlify(to) : ethers.zeroPadValue(ethers.getAddress(to), 32);
+}
+
+export function buildSendParam(request: TransferRequest, minAmountLD: bigint): SendParam {
+    return {
+        dstEid: request.dstEid,
+        to: toBytes32(request.to),
+        amountLD: request.amountLD,
+        minAmountLD,
+        extraOptions: request.extraOptions ?? "0x",
+        composeMsg: request.composeMsg ?? "0x",
+        oftCmd: "0x",
+    };
+}
+
+/**
+ * Quotes a transfer through the adapter / OFT at `oapp`: quoteOFT for the bridge fee and amount received (fees and
+ * dust come off the amount sent), then quoteSend for the LayerZero messaging fee of the resulting SendParam.
+ */
+export async function quoteTransfer(runner: ethers.ContractRunner, oapp: string, request: TransferRequest): Promise<TransferQuote> {
+    const contract = new ethers.Contract(oapp, OFT_ABI, runner);
+    const [, oftFeeDetails, receipt] = await contract.quoteOFT(buildSendParam(request, 0n));
+    const amountReceivedLD: bigint = receipt.amountReceivedLD;
+    const minAmountLD = amountReceivedLD - (amountReceivedLD * BigInt(request.slippageBps ?? 0)) / 10_000n;
+
+    const sendParam = buildSendParam(request, minAmountLD);
+    const fee = await contract.quoteSend(sendParam, request.payInLzToken ?? false);
+    const feeDetails = oftFeeDetails.map((d: { feeAmountLD: bigint; description: string }) => ({
+        feeAmountLD: d.feeAmountLD,
+        description: d.description,
+    }));
+    return {
+        sendParam,
+        amountSentLD: receipt.amountSentLD,
+        amountReceivedLD,
+        bridgeFeeLD: feeDetails.reduce((sum: bigint, d: { feeAmountLD: bigint }) => sum + d.feeAmountLD, 0n),
+        feeDetails,
+        messagingFee: { nativeFee: fee.nativeFee, lzTokenFee: fee.lzTokenFee },
+    };
+}
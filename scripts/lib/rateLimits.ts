@@ -0,0 +1,361 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { load as loadYaml } from "js-yaml";
+import { CONFIG_DIR, DEPLOYMENTS_DIR, DeploymentsFile, ManifestRateLimit, NetworkManifest } from "./manifest";
+import { MeshNode, signerOf } from "./mesh";
+import { buildSafeBatch, SafeBatch } from "./safe";
+import { PreparedUpgrade, upgradeContract } from "./upgrade";
+
+/// RateLimitConfig as taken by setRateLimits / setInboundRateLimits (`dstEid` is the source eid for inbound limits)
+export interface RateLimitConfig {
+    dstEid: number;
+    limit: bigint;
+    window: number;
+}
+
+const RATE_LIMITS_ABI = [
+    "function rateLimits(uint32 dstEid) view returns (uint192 amountInFlight, uint64 lastUpdated, uint192 limit, uint64 window)",
+    "function inboundRateLimits(uint32 srcEid) view returns (tuple(uint192 amountInFlight, uint64 lastUpdated, uint192 limit, uint64 window))",
+    "function setRateLimits(tuple(uint32 dstEid, uint192 limit, uint64 window)[] configs)",
+    "function setInboundRateLimits(tuple(uint32 dstEid, uint192 limit, uint64 window)[] configs)",
+    "function owner() view returns (address)",
+    "function rateLimiter() view returns (address)",
+];
+
+export type RateLimitDirection = "outbound" | "inbound";
+
+export type InboundMigration =
+    | { action: "none"; contract: string }
+    /// Outbound-only OFT proxy upgraded with setInboundRateLimits as the upgradeToAndCall data
+    | { action: "upgraded"; contract: string; newImplementation: string; configs: RateLimitConfig[] }
+    | { action: "prepared"; contract: string; prepared: PreparedUpgrade; configs: RateLimitConfig[] }
+    /// setInboundRateLimits sent by the signer (owner or rateLimiter)
+    | { action: "set"; contract: string; configs: RateLimitConfig[] }
+    /// Signer holds neither role: the transaction for whoever does
+    | { action: "calldata"; contract: string; to: string; data: string; configs: RateLimitConfig[] };
+
+export function toRateLimitConfigs(rateLimits: ManifestRateLimit[]): RateLimitConfig[] {
+    return rateLimits.map((rl) => ({
+        dstEid: rl.eid,
+        limit: ethers.parseUnits(rl.limit, 18),
+        window: rl.window,
+    }));
+}
+
+/// Inbound limits of a manifest: inboundRateLimits, or rateLimits when the manifest keeps both directions equal
+export function inboundRateLimitConfigs(manifest: NetworkManifest): RateLimitConfig[] {
+    return toRateLimitConfigs(manifest.inboundRateLimits ?? manifest.rateLimits);
+}
+
+/// False for adapters / OFT implementations from before separate inbound limits (no inboundRateLimits view)
+export async function supportsInboundRateLimits(runner: ethers.ContractRunner, oapp: string): Promise<boolean> {
+    try {
+        await new ethers.Contract(oapp, RATE_LIMITS_ABI, runner).inboundRateLimits(0);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/// Desired inbound configs whose limit or window differs from the adapter / OFT at `oapp`
+export async function inboundRateLimitDiff(
+    runner: ethers.ContractRunner,
+    oapp: string,
+    desired: RateLimitConfig[]
+): Promise<RateLimitConfig[]> {
+    return (await rateLimitDrift(runner, oapp, "inbound", desired)).map((drift) => drift.desired);
+}
+
+/// Desired configs of one direction whose limit or window differs from the adapter / OFT at `oapp`
+export async function rateLimitDrift(
+    runner: ethers.ContractRunner,
+    oapp: string,
+    direction: RateLimitDirection,
+    desired: RateLimitConfig[]
+): Promise<{ eid: number; current: { limit: bigint; window: number }; desired: RateLimitConfig }[]> {
+    const contract = new ethers.Contract(oapp, RATE_LIMITS_ABI, runner);
+    const drift = [];
+    for (const config of desired) {
+        const rl = direction === "outbound"
+            ? await contract.rateLimits(config.dstEid)
+            : await contract.inboundRateLimits(config.dstEid);
+        const current = { limit: rl.limit as bigint, window: Number(rl.window) };
+        if (current.limit !== config.limit || current.window !== config.window) drift.push({ eid: config.dstEid, current, desired: config });
+    }
+    return drift;
+}
+
+/**
+ * Brings the adapter / OFT of a network to the manifest's inbound limits. An OFT proxy from before separate inbound
+ * limits is upgraded to the current FDFIOFTUpgradeable with setInboundRateLimits in the same upgradeToAndCall, so it
+ * never runs without inbound limits (which would reject every delivery). FDFIOFTAdapter is not upgradeable: one
+ * from before separate limits is reported as needing a redeploy.
+ */
+export async function migrateInboundRateLimits(
+    hre: HardhatRuntimeEnvironment,
+    manifest: NetworkManifest,
+    deployments: DeploymentsFile,
+    opts: { prepareOnly?: boolean; deploymentsDir?: string } = {}
+): Promise<InboundMigration> {
+    const contract = manifest.role === "home" ? "FDFIOFTAdapter" : "FDFIOFTUpgradeable";
+    const record = deployments.contracts[contract];
+    if (!record) throw new Error(`No ${contract} recorded in deployments/${deployments.network}.json`);
+    const [signer] = await hre.ethers.getSigners();
+    const desired = inboundRateLimitConfigs(manifest);
+
+    if (!(await supportsInboundRateLimits(signer, record.address))) {
+        if (contract === "FDFIOFTAdapter") {
+            throw new Error(
+                `FDFIOFTAdapter at ${record.address} predates separate inbound limits and is not upgradeable; ` +
+                "deploy a new adapter and move the mesh to it"
+            );
+        }
+        const call = { fn: "setInboundRateLimits", args: [desired] };
+        const result = await upgradeContract(
+            hre,
+            { contractName: contract, proxy: record.address, prepareOnly: opts.prepareOnly, call },
+            opts.deploymentsDir ?? DEPLOYMENTS_DIR
+        );
+        return result.prepared
+            ? { action: "prepared", contract, prepared: result.prepared, configs: desired }
+            : { action: "upgraded", contract, newImplementation: result.newImplementation, configs: desired };
+    }
+
+    const configs = await inboundRateLimitDiff(signer, record.address, desired);
+    if (configs.length === 0) return { action: "none", contract };
+
+    const oapp = new ethers.Contract(record.address, RATE_LIMITS_ABI, signer);
+    const roles = [await oapp.owner(), await oapp.rateLimiter()].map((a: string) => a.toLowerCase());
+    if (opts.prepareOnly || !roles.includes(signer.address.toLowerCase())) {
+        const data = oapp.interface.encodeFunctionData("setInboundRateLimits", [configs]);
+        return { action: "calldata", contract, to: record.address, data, configs };
+    }
+    await (await oapp.setInboundRateLimits(configs)).wait();
+    return { action: "set", contract, configs };
+}
+
+/*//////////////////////////////////////////////////////////////////
+                        DECLARATIVE POLICY FILES
+//////////////////////////////////////////////////////////////////*/
+
+/// Rate limit entry of a policy file: limit in whole FDFI, window in seconds or human units ("90m", "12h", "1d")
+export interface PolicyRateLimit {
+    eid: number;
+    limit: string | number;
+    window: string | number;
+}
+
+/// deploy-config/rate-limits/<mesh>.yaml (or .json): limits per network of a mesh; inbound defaults to outbound
+export interface RateLimitPolicyFile {
+    networks: Record<string, { outbound: PolicyRateLimit[]; inbound?: PolicyRateLimit[] }>;
+}
+
+/// Validated policy: setRateLimits / setInboundRateLimits configs per network
+export type RateLimitPolicy = Record<string, Record<RateLimitDirection, RateLimitConfig[]>>;
+
+export interface RateLimitPolicyDrift {
+    network: string;
+    address: string;
+    direction: RateLimitDirection;
+    eid: number;
+    current: { limit: bigint; window: number };
+    desired: RateLimitConfig;
+}
+
+export type PolicyApplyOutcome = "done" | "unauthorized" | "failed";
+
+export interface PolicyApplyResult {
+    network: string;
+    outcome: PolicyApplyOutcome;
+    txHashes?: string[];
+    error?: string;
+}
+
+const WINDOW_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+const MAX_UINT64 = 2n ** 64n - 1n;
+const MAX_UINT192 = 2n ** 192n - 1n;
+
+/// Seconds of a window given as seconds or as units ("45s", "30m", "12h", "1d", "1w", "1d12h")
+export function parseWindow(value: string | number): number {
+    if (typeof value === "number") {
+        if (!Number.isSafeInteger(value)) throw new Error(`window ${value} is not a whole number of seconds`);
+        return value;
+    }
+    const text = value.trim();
+    if (/^\d+$/.test(text)) return Number(text);
+    if (!/^(\d+[smhdw])+$/.test(text)) throw new Error(`window "${value}" is not seconds or a duration like 12h / 1d`);
+    let seconds = 0;
+    for (const [, amount, unit] of text.matchAll(/(\d+)([smhdw])/g)) seconds += Number(amount) * WINDOW_UNITS[unit];
+    return seconds;
+}
+
+function parsePolicyEntries(entries: unknown, where: string, problems: string[]): RateLimitConfig[] {
+    if (!Array.isArray(entries)) {
+        problems.push(`${where}: expected a list of { eid, limit, window }`);
+        return [];
+    }
+    const configs: RateLimitConfig[] = [];
+    const seen = new Set<number>();
+    entries.forEach((entry: Partial<PolicyRateLimit>, i) => {
+        const at = `${where}[${i}]`;
+        if (!Number.isInteger(entry?.eid) || (entry.eid as number) <= 0 || (entry.eid as number) > 0xffffffff) {
+            problems.push(`${at}: eid must be a positive uint32`);
+            return;
+        }
+        const eid = entry.eid as number;
+        if (seen.has(eid)) problems.push(`${at}: duplicate eid ${eid}`);
+        seen.add(eid);
+
+        let limit: bigint;
+        let window: number;
+        try {
+            limit = ethers.parseUnits(String(entry.limit).replace(/_/g, ""), 18);
+            if (limit < 0n || limit > MAX_UINT192) throw new Error("out of range");
+        } catch {
+            problems.push(`${at}: limit "${entry.limit}" is not an amount of whole FDFI`);
+            return;
+        }
+        try {
+            if (entry.window === undefined) throw new Error("window is missing");
+            window = parseWindow(entry.window);
+            if (window <= 0 || BigInt(window) > MAX_UINT64) throw new Error(`window ${entry.window} must be positive`);
+        } catch (e) {
+            problems.push(`${at}: ${(e as Error).message}`);
+            return;
+        }
+        configs.push({ dstEid: eid, limit, window });
+    });
+    return configs;
+}
+
+/// Validates a parsed policy file, reporting every problem at once
+export function parseRateLimitPolicy(raw: unknown, source: string): RateLimitPolicy {
+    const problems: string[] = [];
+    const policy: RateLimitPolicy = {};
+    const networks = (raw as Partial<RateLimitPolicyFile> | undefined)?.networks;
+    if (!networks || typeof networks !== "object") {
+        problems.push("expected a top-level `networks` map");
+    } else {
+        for (const [network, spec] of Object.entries(networks)) {
+            const outbound = parsePolicyEntries(spec?.outbound, `${network}.outbound`, problems);
+            const inbound = spec?.inbound === undefined ? outbound : parsePolicyEntries(spec.inbound, `${network}.inbound`, problems);
+            policy[network] = { outbound, inbound };
+        }
+    }
+    if (problems.length > 0) throw new Error(`Invalid rate limit policy ${source}:\n  - ${problems.join("\n  - ")}`);
+    return policy;
+}
+
+/// Policy file of a mesh: deploy-config/rate-limits/<mesh>.yaml, .yml or .json
+export function rateLimitPolicyPath(mesh: string, dir: string = path.join(CONFIG_DIR, "rate-limits")): string {
+    const candidates = [".yaml", ".yml", ".json"].map((ext) => path.join(dir, `${mesh}${ext}`));
+    const found = candidates.find((file) => fs.existsSync(file));
+    if (!found) throw new Error(`No rate limit policy for mesh "${mesh}" (looked for ${candidates.map((f) => path.basename(f)).join(", ")})`);
+    return found;
+}
+
+export function loadRateLimitPolicy(file: string): RateLimitPolicy {
+    const source = fs.readFileSync(file, "utf8");
+    const raw = file.endsWith(".json") ? JSON.parse(source) : loadYaml(source);
+    return parseRateLimitPolicy(raw, path.basename(file));
+}
+
+/**
+ * Diffs the policy against on-chain rateLimits / inboundRateLimits of every mesh node it covers.
+ * Throws for policy networks outside the mesh, lanes keyed by the node's own eid, and inbound entries on contracts
+ * from before separate inbound limits (run scripts/migrate-rate-limits.ts first).
+ */
+export async function planRateLimitPolicy(nodes: MeshNode[], policy: RateLimitPolicy): Promise<RateLimitPolicyDrift[]> {
+    const unknown = Object.keys(policy).filter((network) => !nodes.some((n) => n.network === network));
+    if (unknown.length > 0) throw new Error(`Rate limit policy covers networks outside the mesh: ${unknown.join(", ")}`);
+
+    const drift: RateLimitPolicyDrift[] = [];
+    for (const node of nodes) {
+        const desired = policy[node.network];
+        if (!desired) continue;
+        const own = [...desired.outbound, ...desired.inbound].find((c) => c.dstEid === node.eid);
+        if (own) throw new Error(`${node.network}: rate limit policy has a lane to its own eid ${node.eid}`);
+        if (desired.inbound.length > 0 && !(await supportsInboundRateLimits(node.provider, node.address))) {
+            throw new Error(`${node.network}: ${node.contractName} predates separate inbound limits; run scripts/migrate-rate-limits.ts first`);
+        }
+        for (const direction of ["outbound", "inbound"] as const) {
+            for (const d of await rateLimitDrift(node.provider, node.address, direction, desired[direction])) {
+                drift.push({ network: node.network, address: node.address, direction, ...d });
+            }
+        }
+    }
+    return drift;
+}
+
+export function formatRateLimitDrift(d: RateLimitPolicyDrift): string {
+    const fdfi = (wei: bigint) => ethers.formatUnits(wei, 18);
+    return `[${d.network}] ${d.direction} ${d.eid}: ${fdfi(d.current.limit)} FDFI / ${d.current.window}s -> ` +
+        `${fdfi(d.desired.limit)} FDFI / ${d.desired.window}s`;
+}
+
+/// setRateLimits / setInboundRateLimits calls that resolve the drift of one network (at most one per direction)
+export function rateLimitPolicyCalls(drift: RateLimitPolicyDrift[], network: string): { to: string; value: string; data: string }[] {
+    const iface = new ethers.Interface(RATE_LIMITS_ABI);
+    const calls = [];
+    for (const direction of ["outbound", "inbound"] as const) {
+        const entries = drift.filter((d) => d.network === network && d.direction === direction);
+        if (entries.length === 0) continue;
+        const fn = direction === "outbound" ? "setRateLimits" : "setInboundRateLimits";
+        calls.push({ to: entries[0].address, value: "0", data: iface.encodeFunctionData(fn, [entries.map((d) => d.desired)]) });
+    }
+    return calls;
+}
+
+/// One Safe Transaction Builder batch per network with drift, for the owner / rateLimiter Safe to import
+export async function rateLimitPolicySafeBatches(
+    nodes: MeshNode[],
+    drift: RateLimitPolicyDrift[]
+): Promise<{ network: string; batch: SafeBatch }[]> {
+    const batches = [];
+    for (const node of nodes) {
+        const calls = rateLimitPolicyCalls(drift, node.network);
+        if (calls.length === 0) continue;
+        const { chainId } = await node.provider.getNetwork();
+        const rateLimiter: string = await new ethers.Contract(node.address, RATE_LIMITS_ABI, node.provider).rateLimiter();
+        batches.push({
+            network: node.network,
+            batch: buildSafeBatch(chainId, `FDFI rate limits (${node.network})`, "Sync rate limits with the policy file", calls, rateLimiter),
+        });
+    }
+    return batches;
+}
+
+/**
+ * Sends the calls resolving the drift with each network's signer, which must be the rateLimiter (or owner).
+ * A network the signer holds neither role on is reported as unauthorized; like the emergency stop, one failing
+ * network does not stop the others.
+ */
+export async function applyRateLimitPolicy(nodes: MeshNode[], drift: RateLimitPolicyDrift[]): Promise<PolicyApplyResult[]> {
+    const results: PolicyApplyResult[] = [];
+    for (const node of nodes) {
+        const calls = rateLimitPolicyCalls(drift, node.network);
+        if (calls.length === 0) continue;
+        try {
+            const signer = signerOf(node);
+            const oapp = new ethers.Contract(node.address, RATE_LIMITS_ABI, signer);
+            const from = (await signer.getAddress()).toLowerCase();
+            const [rateLimiter, owner]: string[] = [await oapp.rateLimiter(), await oapp.owner()];
+            if (![rateLimiter, owner].some((a) => a.toLowerCase() === from)) {
+                results.push({ network: node.network, outcome: "unauthorized", error: `signer is neither rateLimiter (${rateLimiter}) nor owner` });
+                continue;
+            }
+            const txHashes = [];
+            for (const call of calls) {
+                const tx = await signer.sendTransaction({ to: call.to, data: call.data });
+                await tx.wait();
+                txHashes.push(tx.hash);
+            }
+            results.push({ network: node.network, outcome: "done", txHashes });
+        } catch (e) {
+            results.push({ network: node.network, outcome: "failed", error: (e as Error).message });
+        }
+    }
+    return results;
+}
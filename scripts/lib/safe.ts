@@ -0,0 +1,31 @@
+/// A call for the Safe Transaction Builder
+export interface SafeTransaction {
+    to: string;
+    value: string;
+    data: string;
+}
+
+/// Batch file in the Safe{Wallet} Transaction Builder format ("Import batch" / drag and drop)
+export interface SafeBatch {
+    version: "1.0";
+    chainId: string;
+    createdAt: number;
+    meta: { name: string; description: string; createdFromSafeAddress?: string };
+    transactions: SafeTransaction[];
+}
+
+export function buildSafeBatch(
+    chainId: bigint | number,
+    name: string,
+    description: string,
+    transactions: SafeTransaction[],
+    safe?: string
+): SafeBatch {
+    return {
+        version: "1.0",
+        chainId: chainId.toString(),
+        createdAt: Date.now(),
+        meta: { name, description, ...(safe ? { createdFromSafeAddress: safe } : {}) },
+        transactions,
+    };
+}
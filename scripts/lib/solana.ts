@@ -0,0 +1,66 @@
+import { ethers } from "ethers";
+
+/// Decimals FDFI uses on EVM chains; Solana amounts are scaled up to this for comparisons
+const EVM_DECIMALS = 18;
+
+export type SolanaOftType = "Native" | "Adapter";
+
+/// Fields of the solana-oft OFTStore account needed by off-chain tooling (see programs/oft/src/state/oft.rs)
+export interface SolanaOftStore {
+    address: string;
+    oftType: SolanaOftType;
+    ld2sdRate: bigint;
+    tokenMint: string;
+    tokenEscrow: string;
+    /// Total value locked in the escrow, in the mint's local decimals (always 0 for Native OFTs)
+    tvlLd: bigint;
+}
+
+async function rpc<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+    const res = await fetch(rpcUrl, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    });
+    if (!res.ok) throw new Error(`Solana RPC ${method} failed: HTTP ${res.status}`);
+    const body = (await res.json()) as { result?: T; error?: { message: string } };
+    if (body.error) throw new Error(`Solana RPC ${method} failed: ${body.error.message}`);
+    return body.result as T;
+}
+
+/**
+ * Reads an OFTStore account over plain JSON-RPC. Layout (Anchor, Borsh): 8-byte discriminator, oft_type (u8),
+ * ld2sd_rate (u64 LE), token_mint, token_escrow, endpoint_program (32 bytes each), bump (u8), tvl_ld (u64 LE).
+ */
+export async function readSolanaOftStore(rpcUrl: string, oftStore: string): Promise<SolanaOftStore> {
+    const result = await rpc<{ value: { data: [string, string] } | null }>(rpcUrl, "getAccountInfo", [
+        oftStore,
+        { encoding: "base64", commitment: "finalized" },
+    ]);
+    if (!result.value) throw new Error(`OFTStore ${oftStore} not found`);
+
+    const data = Buffer.from(result.value.data[0], "base64");
+    const pubkey = (offset: number) => ethers.encodeBase58(data.subarray(offset, offset + 32));
+    return {
+        address: oftStore,
+        oftType: data[8] === 0 ? "Native" : "Adapter",
+        ld2sdRate: data.readBigUInt64LE(9),
+        tokenMint: pubkey(17),
+        tokenEscrow: pubkey(49),
+        tvlLd: data.readBigUInt64LE(114),
+    };
+}
+
+/// SPL mint supply and decimals
+export async function readSolanaMintSupply(rpcUrl: string, mint: string): Promise<{ amount: bigint; decimals: number }> {
+    const result = await rpc<{ value: { amount: string; decimals: number } }>(rpcUrl, "getTokenSupply", [
+        mint,
+        { commitment: "finalized" },
+    ]);
+    return { amount: BigInt(result.value.amount), decimals: result.value.decimals };
+}
+
+/// Scales an amount in the mint's local decimals to EVM (18) decimals
+export function toEvmDecimals(amount: bigint, decimals: number): bigint {
+    return amount * 10n ** BigInt(EVM_DECIMALS - decimals);
+}
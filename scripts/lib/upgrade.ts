@@ -0,0 +1,122 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractFactory } from "ethers";
+import { DEPLOYMENTS_DIR, loadDeployments, saveDeployments } from "./manifest";
+
+/**
+ * FDFIOFTUpgradeable keeps the LayerZero endpoint in an immutable set by its constructor, and the LayerZero
+ * OAppSender/OAppReceiver bases have no initializers of their own (Ownable is set via _transferOwnership).
+ */
+export const OFT_UNSAFE_ALLOW: (
+    "constructor" | "state-variable-immutable" | "missing-initializer-call" | "incorrect-initializer-order"
+)[] = ["constructor", "state-variable-immutable", "missing-initializer-call", "incorrect-initializer-order"];
+
+export interface UpgradeRequest {
+    /// Contract name of the new implementation (e.g. FDFITokenV2)
+    contractName: string;
+    /// Proxy address, or the name of a record in deployments/<network>.json
+    proxy: string;
+    /// Deploy the implementation and return the upgradeToAndCall transaction instead of sending it
+    prepareOnly?: boolean;
+    /// Contract name to validate against when the upgrades plugin has no layout recorded for the current implementation
+    reference?: string;
+    /// Function (name or signature) of the new implementation to call during the upgrade, with its arguments
+    call?: { fn: string; args: unknown[] };
+}
+
+/// Transaction a multisig has to execute to finish a prepared upgrade
+export interface PreparedUpgrade {
+    to: string;
+    value: string;
+    data: string;
+    newImplementation: string;
+}
+
+export interface UpgradeResult {
+    proxy: string;
+    previousImplementation: string;
+    newImplementation: string;
+    /// Set in --prepare-only mode; the proxy is left untouched
+    prepared?: PreparedUpgrade;
+}
+
+/**
+ * Upgrades-plugin options for a contract. OApp-based implementations take the endpoint as their only constructor
+ * argument; it is read back from the live proxy so the new implementation binds to the same endpoint.
+ */
+export async function upgradeOptionsFor(hre: HardhatRuntimeEnvironment, factory: ContractFactory, proxy: string) {
+    if (!factory.interface.getFunction("endpoint")) return { kind: "uups" as const };
+
+    const oapp = new hre.ethers.Contract(proxy, ["function endpoint() view returns (address)"], hre.ethers.provider);
+    const endpoint: string = await oapp.endpoint();
+    return { kind: "uups" as const, constructorArgs: [endpoint], unsafeAllow: OFT_UNSAFE_ALLOW };
+}
+
+/// Resolves a proxy given as an address or as a deployments record name on the current network
+export function resolveProxy(hre: HardhatRuntimeEnvironment, proxy: string, deploymentsDir: string = DEPLOYMENTS_DIR): string {
+    if (hre.ethers.isAddress(proxy)) return hre.ethers.getAddress(proxy);
+
+    const record = loadDeployments(hre.network.name, deploymentsDir)?.contracts[proxy];
+    if (!record) throw new Error(`"${proxy}" is neither an address nor a contract recorded in deployments/${hre.network.name}.json`);
+    return record.address;
+}
+
+/**
+ * Checks the new implementation against the one the proxy currently points to, then either upgrades the proxy
+ * or (prepareOnly) deploys the implementation and returns the upgradeToAndCall calldata for the owner multisig.
+ * The deployments record of the proxy, if any, is refreshed after a direct upgrade.
+ */
+export async function upgradeContract(
+    hre: HardhatRuntimeEnvironment,
+    request: UpgradeRequest,
+    deploymentsDir: string = DEPLOYMENTS_DIR
+): Promise<UpgradeResult> {
+    const { ethers, upgrades } = hre;
+    const proxy = resolveProxy(hre, request.proxy, deploymentsDir);
+    const previousImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+
+    const factory = await ethers.getContractFactory(request.contractName);
+    const opts = await upgradeOptionsFor(hre, factory, proxy);
+
+    // Fails with the offending storage slots when the layouts are incompatible
+    if (request.reference) {
+        await upgrades.validateUpgrade(await ethers.getContractFactory(request.reference), factory, opts);
+    } else {
+        await upgrades.validateUpgrade(proxy, factory, opts);
+    }
+
+    const callData = request.call ? factory.interface.encodeFunctionData(request.call.fn, request.call.args) : "0x";
+
+    if (request.prepareOnly) {
+        const prepared = await upgrades.prepareUpgrade(proxy, factory, { ...opts, getTxResponse: false });
+        const newImplementation = ethers.getAddress(prepared as string);
+        const data = factory.interface.encodeFunctionData("upgradeToAndCall", [newImplementation, callData]);
+        return {
+            proxy,
+            previousImplementation,
+            newImplementation,
+            prepared: { to: proxy, value: "0", data, newImplementation },
+        };
+    }
+
+    const upgraded = await upgrades.upgradeProxy(proxy, factory, {
+        ...opts,
+        ...(request.call ? { call: { fn: request.call.fn, args: request.call.args } } : {}),
+    });
+    await upgraded.waitForDeployment();
+    const newImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+    recordImplementation(hre, proxy, newImplementation, deploymentsDir);
+
+    return { proxy, previousImplementation, newImplementation };
+}
+
+/// Points the deployments record of `proxy` (if the network has one) at its new implementation
+function recordImplementation(hre: HardhatRuntimeEnvironment, proxy: string, implementation: string, deploymentsDir: string) {
+    const deployments = loadDeployments(hre.network.name, deploymentsDir);
+    if (!deployments) return;
+
+    for (const record of Object.values(deployments.contracts)) {
+        if (record.address.toLowerCase() !== proxy.toLowerCase()) continue;
+        record.implementation = implementation;
+        saveDeployments(deployments, deploymentsDir);
+    }
+}
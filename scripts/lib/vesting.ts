@@ -0,0 +1,199 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEPLOYMENTS_DIR, loadDeployments, saveDeployments } from "./manifest";
+
+const DAY = 86_400;
+/// Schedules per createSchedules transaction (each clones and funds an escrow)
+const BATCH_SIZE = 25;
+
+/// One row of the allocation sheet, parsed
+export interface VestingAllocation {
+    beneficiary: string;
+    /// 18 decimals
+    amount: bigint;
+    /// Unix seconds
+    start: number;
+    /// Seconds after start
+    cliff: number;
+    duration: number;
+    /// Free-form label from the sheet (team, advisors, ...)
+    label?: string;
+}
+
+export interface VestingPlan {
+    vault: string;
+    /// Allocations without an on-chain schedule yet
+    pending: VestingAllocation[];
+    /// Allocations already scheduled with identical parameters
+    existing: VestingAllocation[];
+    /// Tokens to mint into the vault so every pending schedule can be funded
+    toMint: bigint;
+    headroom: bigint;
+}
+
+/**
+ * Parses an allocation sheet with the header `beneficiary,amount,start,cliff_days,duration_days[,label]`.
+ * `amount` is in whole FDFI (decimals allowed); `start` is a unix timestamp or an ISO-8601 date.
+ * Throws with the offending line number on the first invalid row.
+ */
+export function parseVestingCsv(content: string): VestingAllocation[] {
+    const lines = content.split(/\r?\n/).map((l) => l.trim());
+    const header = lines[0]?.split(",").map((h) => h.trim().toLowerCase());
+    const expected = ["beneficiary", "amount", "start", "cliff_days", "duration_days"];
+    if (!header || expected.some((h, i) => header[i] !== h)) {
+        throw new Error(`Allocation sheet must start with the header ${expected.join(",")}[,label]`);
+    }
+
+    const allocations: VestingAllocation[] = [];
+    const seen = new Set<string>();
+    lines.slice(1).forEach((line, i) => {
+        if (line === "" || line.startsWith("#")) return;
+        const lineNo = i + 2;
+        const [beneficiary, amount, start, cliffDays, durationDays, label] = line.split(",").map((c) => c.trim());
+        const fail = (reason: string): never => {
+            throw new Error(`Line ${lineNo}: ${reason}`);
+        };
+
+        if (!ethers.isAddress(beneficiary) || beneficiary === ethers.ZeroAddress) fail(`invalid beneficiary "${beneficiary}"`);
+        const address = ethers.getAddress(beneficiary);
+        if (seen.has(address)) fail(`duplicate beneficiary ${address} (one schedule per beneficiary)`);
+        seen.add(address);
+
+        let parsedAmount = 0n;
+        try {
+            parsedAmount = ethers.parseUnits(amount, 18);
+        } catch {
+            fail(`invalid amount "${amount}"`);
+        }
+        if (parsedAmount <= 0n) fail("amount must be positive");
+
+        const startTs = /^\d+$/.test(start) ? Number(start) : Math.floor(Date.parse(start) / 1000);
+        if (!Number.isFinite(startTs)) fail(`invalid start "${start}"`);
+        const cliff = Number(cliffDays) * DAY;
+        const duration = Number(durationDays) * DAY;
+        if (!Number.isInteger(cliff) || cliff < 0) fail(`invalid cliff_days "${cliffDays}"`);
+        if (!Number.isInteger(duration) || duration <= 0) fail(`invalid duration_days "${durationDays}"`);
+        if (cliff > duration) fail("cliff is longer than the vesting duration");
+
+        allocations.push({ beneficiary: address, amount: parsedAmount, start: startTs, cliff, duration, label: label || undefined });
+    });
+    if (allocations.length === 0) throw new Error("Allocation sheet has no rows");
+    return allocations;
+}
+
+export function loadVestingCsv(file: string): VestingAllocation[] {
+    return parseVestingCsv(fs.readFileSync(file, "utf8"));
+}
+
+async function vaultContract(hre: HardhatRuntimeEnvironment, address: string) {
+    const [signer] = await hre.ethers.getSigners();
+    return hre.ethers.getContractAt("FDFIVestingVault", address, signer);
+}
+
+/**
+ * Compares the sheet with the vault's schedules and checks that minting the shortfall stays within MAX_SUPPLY.
+ * Rows already scheduled on-chain are skipped so the script can be re-run; a row that conflicts with its
+ * on-chain schedule is an error.
+ */
+export async function planVesting(
+    hre: HardhatRuntimeEnvironment,
+    tokenAddress: string,
+    vaultAddress: string,
+    allocations: VestingAllocation[]
+): Promise<VestingPlan> {
+    const token = await hre.ethers.getContractAt("FDFIToken", tokenAddress);
+    const vault = await vaultContract(hre, vaultAddress);
+
+    const pending: VestingAllocation[] = [];
+    const existing: VestingAllocation[] = [];
+    for (const allocation of allocations) {
+        const schedule = await vault.schedules(allocation.beneficiary);
+        if (schedule.escrow === ethers.ZeroAddress) {
+            pending.push(allocation);
+            continue;
+        }
+        if (
+            schedule.total !== allocation.amount ||
+            Number(schedule.start) !== allocation.start ||
+            Number(schedule.cliff) !== allocation.cliff ||
+            Number(schedule.duration) !== allocation.duration
+        ) {
+            throw new Error(`${allocation.beneficiary} already has a different schedule on-chain`);
+        }
+        existing.push(allocation);
+    }
+
+    const required = pending.reduce((sum, a) => sum + a.amount, 0n);
+    const unallocated = await vault.unallocated();
+    const toMint = required > unallocated ? required - unallocated : 0n;
+    const headroom = (await token.MAX_SUPPLY()) - (await token.totalSupply());
+    if (toMint > headroom) {
+        throw new Error(
+            `Allocations need ${ethers.formatUnits(toMint, 18)} FDFI minted but only ` +
+            `${ethers.formatUnits(headroom, 18)} FDFI of MAX_SUPPLY headroom is left`
+        );
+    }
+    return { vault: vaultAddress, pending, existing, toMint, headroom };
+}
+
+/**
+ * Deploys FDFIVestingVault on the current network if deployments/<network>.json has none, registers it as the
+ * token's vesting vault, mints the shortfall into it and creates every pending schedule in batches.
+ */
+export async function distributeVesting(
+    hre: HardhatRuntimeEnvironment,
+    allocations: VestingAllocation[],
+    opts: { dryRun?: boolean; deploymentsDir?: string } = {}
+): Promise<VestingPlan> {
+    const { ethers, upgrades, network } = hre;
+    const deploymentsDir = opts.deploymentsDir ?? DEPLOYMENTS_DIR;
+    const deployments = loadDeployments(network.name, deploymentsDir);
+    const tokenRecord = deployments?.contracts.FDFIToken;
+    if (!deployments || !tokenRecord) throw new Error(`No FDFIToken recorded in deployments/${network.name}.json`);
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("FDFIToken", tokenRecord.address, signer);
+
+    let vaultAddress = deployments.contracts.FDFIVestingVault?.address;
+    if (!vaultAddress || (await ethers.provider.getCode(vaultAddress)) === "0x") {
+        if (opts.dryRun) throw new Error("Dry run needs an existing FDFIVestingVault; run without --dry-run to deploy it");
+        const Vault = await ethers.getContractFactory("FDFIVestingVault");
+        const proxy = await upgrades.deployProxy(Vault, [tokenRecord.address, await token.owner()], { initializer: "initialize" });
+        await proxy.waitForDeployment();
+        vaultAddress = await proxy.getAddress();
+        deployments.contracts.FDFIVestingVault = {
+            address: vaultAddress,
+            implementation: await upgrades.erc1967.getImplementationAddress(vaultAddress),
+            txHash: proxy.deploymentTransaction()?.hash,
+            deployedAt: new Date().toISOString(),
+        };
+        saveDeployments(deployments, deploymentsDir);
+        console.log(`  FDFIVestingVault: deployed at ${vaultAddress}`);
+    }
+
+    const plan = await planVesting(hre, tokenRecord.address, vaultAddress, allocations);
+    if (opts.dryRun) return plan;
+
+    if ((await token.vestingVault()).toLowerCase() !== vaultAddress.toLowerCase()) {
+        await (await token.setVestingVault(vaultAddress)).wait();
+        console.log(`  FDFIToken.setVestingVault(${vaultAddress}) done`);
+    }
+    if (plan.toMint > 0n) {
+        await (await token.mintTo(vaultAddress, plan.toMint)).wait();
+        console.log(`  Minted ${ethers.formatUnits(plan.toMint, 18)} FDFI to the vault`);
+    }
+
+    const vault = await vaultContract(hre, vaultAddress);
+    for (let i = 0; i < plan.pending.length; i += BATCH_SIZE) {
+        const batch = plan.pending.slice(i, i + BATCH_SIZE);
+        await (await vault.createSchedules(batch.map((a) => ({
+            beneficiary: a.beneficiary,
+            amount: a.amount,
+            start: a.start,
+            cliff: a.cliff,
+            duration: a.duration,
+        })))).wait();
+        console.log(`  Created schedules ${i + 1}-${i + batch.length} of ${plan.pending.length}`);
+    }
+    return plan;
+}
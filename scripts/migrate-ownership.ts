@@ -0,0 +1,46 @@
+import hre from "hardhat";
+import { loadDeployments, loadNetworkManifest } from "./lib/manifest";
+import { acceptOwnershipCalls, proposeBatch, startOwnershipMigration, timelockBatchCalldata } from "./lib/governance";
+
+const DESCRIPTION = "Accept ownership of the FDFI contracts by the timelock";
+
+// Moves ownership of FDFIToken, FDFIOFTAdapter, the OFT proxy, the vesting vault and the vote aggregator / reporter on the --network chain to its
+// FDFITimelock. Ownable2Step contracts still need acceptOwnership() from the timelock afterwards:
+//   home:      PROPOSE=true submits the governor proposal; otherwise the proposal arguments are printed
+//   satellite: prints scheduleBatch / executeBatch calldata for a timelock proposer
+async function main() {
+    const network = hre.network.name;
+    const manifest = loadNetworkManifest(network);
+    const deployments = loadDeployments(network);
+    if (!deployments) throw new Error(`No deployments/${network}.json; deploy first`);
+
+    const statuses = await startOwnershipMigration(hre, deployments);
+    for (const s of statuses) console.log(`${s.name} (${s.address}): ${s.state}`);
+
+    const batch = acceptOwnershipCalls(statuses);
+    if (batch.targets.length === 0) {
+        console.log("\nEvery contract is owned by the timelock.");
+        return;
+    }
+
+    if (manifest.role === "home") {
+        if (process.env.PROPOSE === "true") {
+            const id = await proposeBatch(hre, deployments, batch, DESCRIPTION);
+            console.log(`\nProposal ${id} created; vote, queue and execute it to finish the migration.`);
+        } else {
+            console.log("\nPropose on FDFIGovernor:");
+            console.log(JSON.stringify({ ...batch, values: batch.values.map(String), description: DESCRIPTION }, null, 2));
+        }
+        return;
+    }
+
+    const calldata = timelockBatchCalldata(batch, BigInt(manifest.governance?.timelockDelay ?? 0));
+    console.log(`\nFrom a timelock proposer, call FDFITimelock (${deployments.contracts.FDFITimelock.address}):`);
+    console.log(`  scheduleBatch: ${calldata.schedule}`);
+    console.log(`  then after the delay, executeBatch: ${calldata.execute}`);
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
@@ -0,0 +1,45 @@
+import hre from "hardhat";
+import { loadDeployments, loadNetworkManifest } from "./lib/manifest";
+import { migrateInboundRateLimits } from "./lib/rateLimits";
+
+// Moves the --network adapter / OFT to separate inbound rate limits (inboundRateLimits in deploy-config/<network>.json,
+// or rateLimits when omitted):
+//   outbound-only OFT proxy: upgrades it and sets inbound limits in the same upgradeToAndCall
+//                            (PREPARE_ONLY=true deploys the implementation and prints the transaction instead)
+//   separate limits already: sends setInboundRateLimits for the entries that differ, or prints its calldata when the
+//                            signer is neither owner nor rateLimiter
+async function main() {
+    const network = hre.network.name;
+    const manifest = loadNetworkManifest(network);
+    const deployments = loadDeployments(network);
+    if (!deployments) throw new Error(`No deployments/${network}.json; deploy first`);
+
+    const result = await migrateInboundRateLimits(hre, manifest, deployments, { prepareOnly: process.env.PREPARE_ONLY === "true" });
+    const configs = "configs" in result
+        ? result.configs.map((c) => `${c.dstEid}: ${hre.ethers.formatUnits(c.limit, 18)} FDFI / ${c.window}s`).join(", ")
+        : "";
+    switch (result.action) {
+        case "none":
+            console.log(`${result.contract}: inbound rate limits match the manifest.`);
+            break;
+        case "upgraded":
+            console.log(`${result.contract}: upgraded to ${result.newImplementation} with inbound limits ${configs}`);
+            break;
+        case "prepared":
+            console.log(`${result.contract}: implementation deployed; submit from the proxy owner (inbound limits ${configs}):`);
+            console.log(JSON.stringify(result.prepared, null, 2));
+            break;
+        case "set":
+            console.log(`${result.contract}: inbound limits set: ${configs}`);
+            break;
+        case "calldata":
+            console.log(`${result.contract}: submit from the owner or rateLimiter (inbound limits ${configs}):`);
+            console.log(JSON.stringify({ to: result.to, value: "0", data: result.data }, null, 2));
+            break;
+    }
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
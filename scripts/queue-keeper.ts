@@ -0,0 +1,38 @@
+import hre from "hardhat";
+import { loadDeployments } from "./lib/manifest";
+import { processInboundQueue } from "./lib/queue";
+
+// Releases FDFIOFTAdapter's queued inbound transfers (deliveries that exceeded the inbound limit) as capacity refills.
+// Runs one pass by default; WATCH=true keeps polling every INTERVAL seconds (default 300).
+// FROM_BLOCK limits the InboundQueued scan (defaults to the adapter's deployment block).
+async function main() {
+    const network = hre.network.name;
+    const deployments = loadDeployments(network);
+    const record = deployments?.contracts.FDFIOFTAdapter;
+    if (!record) throw new Error(`No FDFIOFTAdapter recorded in deployments/${network}.json; the queue only exists on the home chain`);
+
+    const [signer] = await hre.ethers.getSigners();
+    let fromBlock = Number(process.env.FROM_BLOCK ?? 0);
+    if (!process.env.FROM_BLOCK && record.txHash) {
+        fromBlock = (await hre.ethers.provider.getTransactionReceipt(record.txHash))?.blockNumber ?? 0;
+    }
+    const interval = Number(process.env.INTERVAL ?? 300);
+
+    for (;;) {
+        const results = await processInboundQueue(signer, record.address, fromBlock);
+        const fdfi = (wei: bigint) => hre.ethers.formatUnits(wei, 18);
+        console.log(`[${new Date().toISOString()}] ${results.length} queued transfer(s)`);
+        for (const r of results) {
+            const detail = r.txHash ?? r.error ?? "waiting for inbound capacity";
+            console.log(`  ${r.to} #${r.index} from ${r.srcEid}: ${fdfi(r.amountLD)} FDFI ${r.outcome} (${detail})`);
+        }
+        if (results.some((r) => r.outcome === "failed")) process.exitCode = 1;
+        if (process.env.WATCH !== "true") return;
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
@@ -1,13 +1,22 @@
-import { ethers, upgrades } from "hardhat";
+import hre from "hardhat";
+import { upgradeContract } from "./lib/upgrade";
 
-// UPGRADE_ADDRESS should be the existing proxy address
+// PROXY_ADDRESS is the existing proxy (or its deployments record name); CONTRACT defaults to FDFIToken.
+// Prefer `npx hardhat upgrade:proxy`, which also supports --call and --out.
 async function main() {
-    const proxyAddress = process.env.PROXY_ADDRESS;
-    if (!proxyAddress) throw new Error("PROXY_ADDRESS env var required");
+    const proxy = process.env.PROXY_ADDRESS;
+    if (!proxy) throw new Error("PROXY_ADDRESS env var required");
 
-    const FDFIToken = await ethers.getContractFactory("FDFIToken");
-    const upgraded = await upgrades.upgradeProxy(proxyAddress, FDFIToken);
-    console.log("Upgraded implementation, proxy still at:", await upgraded.getAddress());
+    const result = await upgradeContract(hre, {
+        contractName: process.env.CONTRACT ?? "FDFIToken",
+        proxy,
+        prepareOnly: process.env.PREPARE_ONLY === "true",
+    });
+    if (result.prepared) {
+        console.log("Prepared implementation, submit from the proxy owner:", JSON.stringify(result.prepared, null, 2));
+    } else {
+        console.log("Upgraded implementation, proxy still at:", result.proxy);
+    }
 }
 
 main().catch((e) => {
@@ -0,0 +1,26 @@
+import hre from "hardhat";
+import { ethers } from "ethers";
+import { distributeVesting, loadVestingCsv } from "./lib/vesting";
+
+// Creates the vesting schedules of an allocation sheet (VESTING_CSV) on the --network chain.
+// DRY_RUN=true only validates the sheet against the vault and MAX_SUPPLY headroom.
+async function main() {
+    const file = process.env.VESTING_CSV;
+    if (!file) throw new Error("VESTING_CSV env var required");
+    const allocations = loadVestingCsv(file);
+    const dryRun = process.env.DRY_RUN === "true";
+
+    console.log(`${allocations.length} allocation(s) in ${file}${dryRun ? " (dry run)" : ""}`);
+    const plan = await distributeVesting(hre, allocations, { dryRun });
+
+    console.log(`\nVault: ${plan.vault}`);
+    console.log(`  Already scheduled: ${plan.existing.length}`);
+    console.log(`  ${dryRun ? "To schedule" : "Scheduled"}: ${plan.pending.length}`);
+    console.log(`  ${dryRun ? "To mint" : "Minted"}: ${ethers.formatUnits(plan.toMint, 18)} FDFI`);
+    console.log(`  MAX_SUPPLY headroom before minting: ${ethers.formatUnits(plan.headroom, 18)} FDFI`);
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
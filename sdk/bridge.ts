@@ -0,0 +1,152 @@
+import { ethers } from "ethers";
+import { ExecutorOptionsSpec, buildExecutorOptions } from "../scripts/lib/options";
+import { TransferQuote, quoteTransfer } from "../scripts/lib/quote";
+import { FDFIOFTAdapter__factory, FDFIToken, FDFIToken__factory, IOFT__factory } from "../typechain-types";
+import { decodeOFTEvents } from "./events";
+import { BridgeRoute, assertRouteWired } from "./routes";
+
+export interface BridgeRequest {
+    /// Recipient on the destination chain: EVM address or 32-byte account (e.g. Solana)
+    to: string;
+    amountLD: bigint;
+    /// Accepted drop below the quoted amount received (bridge fee changes); defaults to 0
+    slippageBps?: number;
+    /// Executor options added to the enforced ones, e.g. more lzReceive gas or a native drop
+    executor?: ExecutorOptionsSpec;
+    composeMsg?: string;
+    payInLzToken?: boolean;
+}
+
+export interface BridgeQuote extends TransferQuote {
+    route: BridgeRoute;
+}
+
+export interface BridgeSendResult {
+    txHash: string;
+    /// LayerZero message GUID: matches OFTReceived on the destination and LayerZero Scan
+    guid: string;
+    amountSentLD: bigint;
+    amountReceivedLD: bigint;
+    receipt: ethers.TransactionReceipt;
+}
+
+export interface PermitSignature {
+    value: bigint;
+    deadline: bigint;
+    v: number;
+    r: string;
+    s: string;
+}
+
+/// Quotes a transfer along a wired route: amount received after bridge fees, minAmountLD and the native fee
+export async function quoteBridge(runner: ethers.ContractRunner, route: BridgeRoute, request: BridgeRequest): Promise<BridgeQuote> {
+    await assertRouteWired(runner, route);
+    const quote = await quoteTransfer(runner, route.src.oapp, {
+        dstEid: route.dst.eid,
+        to: request.to,
+        amountLD: request.amountLD,
+        slippageBps: request.slippageBps,
+        extraOptions: request.executor ? buildExecutorOptions(request.executor) : "0x",
+        composeMsg: request.composeMsg,
+        payInLzToken: request.payInLzToken,
+    });
+    return { ...quote, route };
+}
+
+/// The canonical FDFIToken behind the adapter of `route.src`, or null when sending from a satellite OFT (no approval)
+export async function canonicalToken(runner: ethers.ContractRunner, route: BridgeRoute): Promise<FDFIToken | null> {
+    if (route.src.kind !== "adapter") return null;
+    const token = await FDFIOFTAdapter__factory.connect(route.src.oapp, runner).token();
+    return FDFIToken__factory.connect(token, runner);
+}
+
+/**
+ * Signs an EIP-2612 permit of `value` for `spender` on FDFIToken. The domain comes from the token's eip712Domain();
+ * the deadline defaults to one hour after the latest block (chain time, not wall-clock time).
+ */
+export async function signPermit(
+    signer: ethers.Signer,
+    token: FDFIToken,
+    spender: string,
+    value: bigint,
+    deadline?: bigint
+): Promise<PermitSignature> {
+    const owner = await signer.getAddress();
+    const [, name, version, chainId, verifyingContract] = await token.eip712Domain();
+    if (deadline === undefined) {
+        const latest = await signer.provider!.getBlock("latest");
+        deadline = BigInt(latest!.timestamp + 3600);
+    }
+    const types = {
+        Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+        ],
+    };
+    const message = { owner, spender, value, nonce: await token.nonces(owner), deadline };
+    const signature = await signer.signTypedData({ name, version, chainId, verifyingContract }, types, message);
+    const { v, r, s } = ethers.Signature.from(signature);
+    return { value, deadline, v, r, s };
+}
+
+/**
+ * Makes sure the adapter may pull `amountLD` of the signer's FDFI: nothing when sending from a satellite or the
+ * allowance suffices, otherwise approve() or, with `permit`, a signed permit submitted through token.permit().
+ * Returns the transaction sent, if any, after it is mined.
+ */
+export async function ensureAllowance(
+    signer: ethers.Signer,
+    route: BridgeRoute,
+    amountLD: bigint,
+    opts: { permit?: boolean } = {}
+): Promise<ethers.ContractTransactionResponse | null> {
+    const token = await canonicalToken(signer, route);
+    if (!token) return null;
+    const owner = await signer.getAddress();
+    if ((await token.allowance(owner, route.src.oapp)) >= amountLD) return null;
+
+    let tx: ethers.ContractTransactionResponse;
+    if (opts.permit) {
+        const p = await signPermit(signer, token, route.src.oapp, amountLD);
+        tx = await token.connect(signer).permit(owner, route.src.oapp, p.value, p.deadline, p.v, p.r, p.s);
+    } else {
+        tx = await token.connect(signer).approve(route.src.oapp, amountLD);
+    }
+    await tx.wait();
+    return tx;
+}
+
+/// Sends a quoted transfer (allowance must be in place) and returns its GUID from the OFTSent event
+export async function sendBridge(
+    signer: ethers.Signer,
+    quote: BridgeQuote,
+    opts: { refundAddress?: string } = {}
+): Promise<BridgeSendResult> {
+    const oapp = IOFT__factory.connect(quote.route.src.oapp, signer);
+    const refundAddress = opts.refundAddress ?? (await signer.getAddress());
+    const tx = await oapp.send(quote.sendParam, quote.messagingFee, refundAddress, { value: quote.messagingFee.nativeFee });
+    return sendResult(tx, quote.route);
+}
+
+/// Waits for a send (direct or through the router) and reads its GUID and amounts from the source OApp's OFTSent
+export async function sendResult(tx: ethers.ContractTransactionResponse, route: BridgeRoute): Promise<BridgeSendResult> {
+    const receipt = await tx.wait();
+    const sent = decodeOFTEvents(receipt!.logs).find((e) => e.type === "sent" && e.address.toLowerCase() === route.src.oapp.toLowerCase());
+    if (!sent || sent.type !== "sent") throw new Error(`No OFTSent in ${tx.hash}`);
+    return { txHash: tx.hash, guid: sent.guid, amountSentLD: sent.amountSentLD, amountReceivedLD: sent.amountReceivedLD, receipt: receipt! };
+}
+
+/// Quote, allowance and send in one go
+export async function bridge(
+    signer: ethers.Signer,
+    route: BridgeRoute,
+    request: BridgeRequest,
+    opts: { permit?: boolean; refundAddress?: string } = {}
+): Promise<BridgeSendResult> {
+    const quote = await quoteBridge(signer, route, request);
+    await ensureAllowance(signer, route, quote.amountSentLD, opts);
+    return sendBridge(signer, quote, opts);
+}
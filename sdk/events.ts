@@ -0,0 +1,54 @@
+import { ethers } from "ethers";
+import { IOFT__factory } from "../typechain-types";
+
+export interface OFTSentEvent {
+    type: "sent";
+    address: string;
+    txHash: string;
+    logIndex: number;
+    guid: string;
+    dstEid: number;
+    from: string;
+    amountSentLD: bigint;
+    amountReceivedLD: bigint;
+}
+
+export interface OFTReceivedEvent {
+    type: "received";
+    address: string;
+    txHash: string;
+    logIndex: number;
+    guid: string;
+    srcEid: number;
+    to: string;
+    amountReceivedLD: bigint;
+}
+
+export type OFTEvent = OFTSentEvent | OFTReceivedEvent;
+
+const IOFT = IOFT__factory.createInterface();
+
+/**
+ * Decodes OFTSent / OFTReceived from transaction logs of any FDFI adapter / OFT; other logs are skipped.
+ * Match a send to its delivery by `guid`. An adapter delivery queued over the inbound limit reports 0 received.
+ */
+export function decodeOFTEvents(logs: readonly ethers.Log[]): OFTEvent[] {
+    const events: OFTEvent[] = [];
+    for (const log of logs) {
+        let parsed: ethers.LogDescription | null;
+        try {
+            parsed = IOFT.parseLog(log);
+        } catch {
+            continue;
+        }
+        const base = { address: log.address, txHash: log.transactionHash, logIndex: log.index };
+        if (parsed?.name === "OFTSent") {
+            const [guid, dstEid, from, amountSentLD, amountReceivedLD] = parsed.args;
+            events.push({ type: "sent", ...base, guid, dstEid: Number(dstEid), from, amountSentLD, amountReceivedLD });
+        } else if (parsed?.name === "OFTReceived") {
+            const [guid, srcEid, to, amountReceivedLD] = parsed.args;
+            events.push({ type: "received", ...base, guid, srcEid: Number(srcEid), to, amountReceivedLD });
+        }
+    }
+    return events;
+}
@@ -0,0 +1,26 @@
+// FDFI bridge SDK: routes between the adapter / OFTs of the mesh, quoting, approval / permit, sending and events
+export { BridgeChain, BridgeRoute, assertRouteWired, loadBridgeChains, resolveRoute } from "./routes";
+export {
+    BridgeQuote,
+    BridgeRequest,
+    BridgeSendResult,
+    PermitSignature,
+    bridge,
+    canonicalToken,
+    ensureAllowance,
+    quoteBridge,
+    sendBridge,
+    sendResult,
+    signPermit,
+} from "./bridge";
+export {
+    BridgeIntent,
+    NO_PERMIT,
+    SignedBridgeIntent,
+    bridgeRouter,
+    relayIntent,
+    sendWithPermit,
+    signBridgeIntent,
+} from "./router";
+export { OFTEvent, OFTReceivedEvent, OFTSentEvent, decodeOFTEvents } from "./events";
+export { ExecutorOptionsSpec, buildExecutorOptions } from "../scripts/lib/options";
@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+import { FDFIBridgeRouter, FDFIBridgeRouter__factory, IOFT__factory } from "../typechain-types";
+import { BridgeQuote, BridgeSendResult, PermitSignature, canonicalToken, sendResult, signPermit } from "./bridge";
+import { BridgeRoute } from "./routes";
+
+/// FDFIBridgeRouter.BridgeIntent
+export interface BridgeIntent {
+    owner: string;
+    dstEid: number;
+    to: string;
+    amountLD: bigint;
+    minAmountLD: bigint;
+    extraOptions: string;
+    relayerFeeLD: bigint;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+/// What the owner hands to a relayer: the intent, its signature and usually a permit covering amount plus relayer fee
+export interface SignedBridgeIntent {
+    intent: BridgeIntent;
+    signature: string;
+    permit: PermitSignature;
+}
+
+/// Router Permit argument meaning "no permit, use the existing allowance"
+export const NO_PERMIT: PermitSignature = { value: 0n, deadline: 0n, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash };
+
+const BRIDGE_INTENT_TYPES = {
+    BridgeIntent: [
+        { name: "owner", type: "address" },
+        { name: "dstEid", type: "uint32" },
+        { name: "to", type: "bytes32" },
+        { name: "amountLD", type: "uint256" },
+        { name: "minAmountLD", type: "uint256" },
+        { name: "extraOptions", type: "bytes" },
+        { name: "relayerFeeLD", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+export function bridgeRouter(runner: ethers.ContractRunner, route: BridgeRoute): FDFIBridgeRouter {
+    if (route.src.kind !== "adapter" || !route.src.router) {
+        throw new Error(`No FDFIBridgeRouter on ${route.src.name}: permit sends and intents only exist on the home chain`);
+    }
+    return FDFIBridgeRouter__factory.connect(route.src.router, runner);
+}
+
+/// Sends a quoted transfer through the router with a fresh permit: no separate approve() transaction
+export async function sendWithPermit(
+    signer: ethers.Signer,
+    quote: BridgeQuote,
+    opts: { refundAddress?: string; deadline?: bigint } = {}
+): Promise<BridgeSendResult> {
+    const router = bridgeRouter(signer, quote.route);
+    const token = (await canonicalToken(signer, quote.route))!;
+    const permit = await signPermit(signer, token, await router.getAddress(), quote.sendParam.amountLD, opts.deadline);
+    const refundAddress = opts.refundAddress ?? (await signer.getAddress());
+    const tx = await router.sendWithPermit(quote.sendParam, quote.messagingFee, refundAddress, permit, {
+        value: quote.messagingFee.nativeFee,
+    });
+    return sendResult(tx, quote.route);
+}
+
+/**
+ * Signs a BridgeIntent for a quoted transfer, plus a permit for amount + relayerFeeLD unless `permit` is false.
+ * The nonce defaults to the router's next nonce for the owner and both deadlines to one hour after the latest block.
+ * Compose messages are not supported through intents.
+ */
+export async function signBridgeIntent(
+    owner: ethers.Signer,
+    quote: BridgeQuote,
+    opts: { relayerFeeLD: bigint; nonce?: bigint; deadline?: bigint; permit?: boolean }
+): Promise<SignedBridgeIntent> {
+    if (quote.sendParam.composeMsg !== "0x") throw new Error("Bridge intents do not carry compose messages");
+    const router = bridgeRouter(owner, quote.route);
+    const ownerAddress = await owner.getAddress();
+    let deadline = opts.deadline;
+    if (deadline === undefined) {
+        const latest = await owner.provider!.getBlock("latest");
+        deadline = BigInt(latest!.timestamp + 3600);
+    }
+    const intent: BridgeIntent = {
+        owner: ownerAddress,
+        dstEid: quote.sendParam.dstEid,
+        to: quote.sendParam.to,
+        amountLD: quote.sendParam.amountLD,
+        minAmountLD: quote.sendParam.minAmountLD,
+        extraOptions: quote.sendParam.extraOptions,
+        relayerFeeLD: opts.relayerFeeLD,
+        nonce: opts.nonce ?? (await router.nonces(ownerAddress)),
+        deadline,
+    };
+    const [, name, version, chainId, verifyingContract] = await router.eip712Domain();
+    const signature = await owner.signTypedData({ name, version, chainId, verifyingContract }, BRIDGE_INTENT_TYPES, intent);
+
+    const permit = opts.permit === false
+        ? NO_PERMIT
+        : await signPermit(owner, (await canonicalToken(owner, quote.route))!, verifyingContract, intent.amountLD + intent.relayerFeeLD, deadline);
+    return { intent, signature, permit };
+}
+
+/// Relays a signed intent: quotes the native fee for its SendParam, pays it and collects the FDFI relayer fee
+export async function relayIntent(relayer: ethers.Signer, route: BridgeRoute, signed: SignedBridgeIntent): Promise<BridgeSendResult> {
+    const router = bridgeRouter(relayer, route);
+    const { intent } = signed;
+    const sendParam = {
+        dstEid: intent.dstEid,
+        to: intent.to,
+        amountLD: intent.amountLD,
+        minAmountLD: intent.minAmountLD,
+        extraOptions: intent.extraOptions,
+        composeMsg: "0x",
+        oftCmd: "0x",
+    };
+    const fee = await IOFT__factory.connect(route.src.oapp, relayer).quoteSend(sendParam, false);
+    const tx = await router.sendWithIntent(intent, signed.signature, signed.permit, { value: fee.nativeFee });
+    return sendResult(tx, route);
+}
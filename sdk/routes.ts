@@ -0,0 +1,52 @@
+import { ethers } from "ethers";
+import { DEPLOYMENTS_DIR, loadDeployments } from "../scripts/lib/manifest";
+import { IOAppCore__factory } from "../typechain-types";
+
+/// One chain of the FDFI mesh: FDFIOFTAdapter on the home chain, FDFIOFTUpgradeable on satellites
+export interface BridgeChain {
+    name: string;
+    eid: number;
+    kind: "adapter" | "oft";
+    oapp: string;
+    /// FDFIBridgeRouter (home chain only) for permit sends and relayed intents
+    router?: string;
+}
+
+export interface BridgeRoute {
+    src: BridgeChain;
+    dst: BridgeChain;
+}
+
+/// Chains of `networks` as recorded in deployments/<network>.json (backends; frontends can list chains statically)
+export function loadBridgeChains(networks: string[], deploymentsDir: string = DEPLOYMENTS_DIR): BridgeChain[] {
+    return networks.map((name) => {
+        const deployments = loadDeployments(name, deploymentsDir);
+        const adapter = deployments?.contracts.FDFIOFTAdapter;
+        const oft = deployments?.contracts.FDFIOFTUpgradeable;
+        if (!deployments || (!adapter && !oft)) throw new Error(`No FDFIOFTAdapter / FDFIOFTUpgradeable recorded in deployments/${name}.json`);
+        return adapter
+            ? { name, eid: deployments.eid, kind: "adapter", oapp: adapter.address, router: deployments.contracts.FDFIBridgeRouter?.address }
+            : { name, eid: deployments.eid, kind: "oft", oapp: oft!.address };
+    });
+}
+
+/// Route from srcChain to dstChain (by chain name or eid)
+export function resolveRoute(chains: BridgeChain[], srcChain: string | number, dstChain: string | number): BridgeRoute {
+    const find = (key: string | number) => {
+        const chain = chains.find((c) => c.name === key || c.eid === key);
+        if (!chain) throw new Error(`Unknown chain ${key} (expected one of ${chains.map((c) => c.name).join(", ")})`);
+        return chain;
+    };
+    const src = find(srcChain);
+    const dst = find(dstChain);
+    if (src.eid === dst.eid) throw new Error(`Route ${src.name} -> ${dst.name} does not cross chains`);
+    return { src, dst };
+}
+
+/// Throws unless the source OApp has the destination OApp as its peer (the route is wired)
+export async function assertRouteWired(runner: ethers.ContractRunner, route: BridgeRoute): Promise<void> {
+    const peer = await IOAppCore__factory.connect(route.src.oapp, runner).peers(route.dst.eid);
+    if (peer.toLowerCase() !== ethers.zeroPadValue(route.dst.oapp, 32).toLowerCase()) {
+        throw new Error(`Route ${route.src.name} -> ${route.dst.name} is not wired (peer for eid ${route.dst.eid} is ${peer})`);
+    }
+}
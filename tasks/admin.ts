@@ -0,0 +1,119 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+    AdminAction,
+    adminSafeBatch,
+    defaultOApp,
+    planAcceptOwnership,
+    planEnableTransfers,
+    planMint,
+    planSetPeer,
+    planSetRateLimiter,
+    planSetRateLimits,
+    planTransferOwnership,
+    resolveAdminTarget,
+    sendAdminAction,
+} from "../scripts/lib/admin";
+import { parseWindow } from "../scripts/lib/rateLimits";
+
+const SAFE_HELP = "Write a Safe Transaction Builder batch to this directory instead of sending";
+
+/// Prints the action, then sends it with the --network signer or writes it as admin-<operation>-<network>.json
+async function runAdminAction(hre: HardhatRuntimeEnvironment, operation: string, action: AdminAction, safe?: string): Promise<void> {
+    console.log(`[${action.network}] ${action.description} on ${action.to}`);
+    for (const note of action.notes) console.log(`  ${note}`);
+
+    if (safe) {
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        fs.mkdirSync(safe, { recursive: true });
+        const out = path.join(safe, `admin-${operation}-${action.network}.json`);
+        fs.writeFileSync(out, JSON.stringify(adminSafeBatch(chainId, action), null, 2) + "\n");
+        console.log(`  Safe batch for ${action.senders[0]} -> ${out}`);
+        return;
+    }
+    const [signer] = await hre.ethers.getSigners();
+    console.log(`  done: ${await sendAdminAction(signer, action)}`);
+}
+
+task("admin:mint", "Mints FDFI with FDFIToken.mintTo, within the MAX_SUPPLY headroom")
+    .addParam("to", "Recipient")
+    .addParam("amount", "Whole FDFI (decimals allowed)")
+    .addOptionalParam("safe", SAFE_HELP)
+    .setAction(async (params: { to: string; amount: string; safe?: string }, hre) => {
+        const network = hre.network.name;
+        const token = resolveAdminTarget(network, "FDFIToken");
+        const action = await planMint(hre.ethers.provider, network, token, params.to, ethers.parseUnits(params.amount, 18));
+        await runAdminAction(hre, "mint", action, params.safe);
+    });
+
+task("admin:enable-transfers", "Enables FDFIToken transfers for every holder; irreversible")
+    .addFlag("confirm", "Required: enableTransfers cannot be undone")
+    .addOptionalParam("safe", SAFE_HELP)
+    .setAction(async (params: { confirm: boolean; safe?: string }, hre) => {
+        const network = hre.network.name;
+        const action = await planEnableTransfers(hre.ethers.provider, network, resolveAdminTarget(network, "FDFIToken"), params.confirm);
+        await runAdminAction(hre, "enable-transfers", action, params.safe);
+    });
+
+task("admin:transfer-ownership", "Starts an ownership transfer (completed by admin:accept-ownership on Ownable2Step contracts)")
+    .addParam("contract", "Deployments record name or address (FDFIToken, FDFIOFTAdapter, FDFIOFTUpgradeable, ...)")
+    .addParam("newOwner", "New owner")
+    .addFlag("confirm", "Required for single-step Ownable contracts (the adapter), where ownership moves at once")
+    .addOptionalParam("safe", SAFE_HELP)
+    .setAction(async (params: { contract: string; newOwner: string; confirm: boolean; safe?: string }, hre) => {
+        const network = hre.network.name;
+        const address = resolveAdminTarget(network, params.contract);
+        const action = await planTransferOwnership(hre.ethers.provider, network, params.contract, address, params.newOwner, params.confirm);
+        await runAdminAction(hre, "transfer-ownership", action, params.safe);
+    });
+
+task("admin:accept-ownership", "Accepts a pending ownership transfer as the pending owner")
+    .addParam("contract", "Deployments record name or address")
+    .addOptionalParam("safe", SAFE_HELP)
+    .setAction(async (params: { contract: string; safe?: string }, hre) => {
+        const network = hre.network.name;
+        const address = resolveAdminTarget(network, params.contract);
+        const action = await planAcceptOwnership(hre.ethers.provider, network, params.contract, address);
+        await runAdminAction(hre, "accept-ownership", action, params.safe);
+    });
+
+task("admin:set-rate-limiter", "Sets the rateLimiter role of the adapter / OFT")
+    .addParam("rateLimiter", "New rateLimiter")
+    .addOptionalParam("contract", "Deployments record name or address (defaults to the network's adapter / OFT)")
+    .addOptionalParam("safe", SAFE_HELP)
+    .setAction(async (params: { rateLimiter: string; contract?: string; safe?: string }, hre) => {
+        const network = hre.network.name;
+        const name = params.contract ?? defaultOApp(network);
+        const action = await planSetRateLimiter(hre.ethers.provider, network, name, resolveAdminTarget(network, name), params.rateLimiter);
+        await runAdminAction(hre, "set-rate-limiter", action, params.safe);
+    });
+
+task("admin:set-rate-limits", "Sets the outbound (or --inbound) rate limit of one lane on the adapter / OFT")
+    .addParam("eid", "Remote endpoint id")
+    .addParam("limit", "Whole FDFI per window")
+    .addParam("window", "Seconds or a duration like 12h / 1d")
+    .addFlag("inbound", "Set the inbound limit (setInboundRateLimits) instead")
+    .addOptionalParam("contract", "Deployments record name or address (defaults to the network's adapter / OFT)")
+    .addOptionalParam("safe", SAFE_HELP)
+    .setAction(async (params: { eid: string; limit: string; window: string; inbound: boolean; contract?: string; safe?: string }, hre) => {
+        const network = hre.network.name;
+        const name = params.contract ?? defaultOApp(network);
+        const config = { dstEid: Number(params.eid), limit: ethers.parseUnits(params.limit, 18), window: parseWindow(params.window) };
+        const action = await planSetRateLimits(hre.ethers.provider, network, name, resolveAdminTarget(network, name), config, params.inbound);
+        await runAdminAction(hre, "set-rate-limits", action, params.safe);
+    });
+
+task("admin:set-peer", "Sets the peer of the adapter / OFT for a remote eid")
+    .addParam("eid", "Remote endpoint id")
+    .addParam("peer", "Remote OApp address, or bytes32 for non-EVM chains (zero bytes32 unsets the peer)")
+    .addOptionalParam("contract", "Deployments record name or address (defaults to the network's adapter / OFT)")
+    .addOptionalParam("safe", SAFE_HELP)
+    .setAction(async (params: { eid: string; peer: string; contract?: string; safe?: string }, hre) => {
+        const network = hre.network.name;
+        const name = params.contract ?? defaultOApp(network);
+        const action = await planSetPeer(hre.ethers.provider, network, name, resolveAdminTarget(network, name), Number(params.eid), params.peer);
+        await runAdminAction(hre, "set-peer", action, params.safe);
+    });
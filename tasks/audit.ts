@@ -0,0 +1,50 @@
+import { writeFileSync } from "fs";
+import { ethers } from "ethers";
+import { task } from "hardhat/config";
+import { meshes } from "../deploy-config/mesh";
+import { auditSupply, formatSupplyReportMarkdown, resolveAuditTargets } from "../scripts/lib/audit";
+
+task("audit:supply", "Reconciles FDFI locked in the adapter against the supply of every satellite OFT")
+    .addOptionalParam("mesh", `Mesh whose networks to audit (${Object.keys(meshes).join(", ")})`)
+    .addOptionalParam("networks", "Comma-separated networks to audit instead of a mesh")
+    .addOptionalParam("tolerance", "Accepted surplus locked in the adapter, in whole FDFI (messages in flight)", "0")
+    .addOptionalParam("format", "Report format: markdown or json", "markdown")
+    .addOptionalParam("out", "Also write the report to this file")
+    .addOptionalParam("solanaRpc", "Solana RPC url (defaults to SOLANA_RPC_URL)")
+    .addOptionalParam("solanaOftStore", "OFTStore account of the Solana OFT; Solana is skipped when omitted")
+    .setAction(async (params: {
+        mesh?: string;
+        networks?: string;
+        tolerance: string;
+        format: string;
+        out?: string;
+        solanaRpc?: string;
+        solanaOftStore?: string;
+    }, hre) => {
+        let networks: string[];
+        if (params.networks) {
+            networks = params.networks.split(",").map((n) => n.trim()).filter(Boolean);
+        } else if (params.mesh && meshes[params.mesh]) {
+            networks = meshes[params.mesh].networks;
+        } else {
+            throw new Error(`Pass --networks or --mesh (one of ${Object.keys(meshes).join(", ")})`);
+        }
+        if (params.format !== "markdown" && params.format !== "json") throw new Error(`Unknown format "${params.format}"`);
+
+        let solana;
+        if (params.solanaOftStore) {
+            const rpcUrl = params.solanaRpc ?? process.env.SOLANA_RPC_URL;
+            if (!rpcUrl) throw new Error("--solana-oft-store needs --solana-rpc or SOLANA_RPC_URL");
+            solana = { rpcUrl, oftStore: params.solanaOftStore };
+        }
+
+        const report = await auditSupply(resolveAuditTargets(hre, networks), {
+            tolerance: ethers.parseUnits(params.tolerance, 18),
+            solana,
+        });
+        const output = params.format === "json" ? JSON.stringify(report, null, 2) + "\n" : formatSupplyReportMarkdown(report);
+        process.stdout.write(output);
+        if (params.out) writeFileSync(params.out, output);
+
+        if (report.status !== "ok") process.exitCode = 1;
+    });
@@ -0,0 +1,62 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+import { meshes } from "../deploy-config/mesh";
+import { connectMeshSigners, resolveMeshNodes } from "../scripts/lib/mesh";
+import {
+    applyBlocklist,
+    blocklistPath,
+    blocklistSafeBatches,
+    formatBlocklistChange,
+    loadBlocklist,
+    planBlocklist,
+    resolveBlocklistTargets,
+} from "../scripts/lib/blocklist";
+
+task("blocklist:sync", "Applies the blocklist file of a mesh to the FDFIBlocklist of every network")
+    .addParam("mesh", `Mesh to sync (${Object.keys(meshes).join(", ")})`)
+    .addOptionalParam("list", "List file (defaults to deploy-config/blocklist/<mesh>.txt)")
+    .addFlag("check", "Only report the differences; exit non-zero when a chain differs from the list")
+    .addOptionalParam("safe", "Write Safe Transaction Builder batches to this directory instead of sending")
+    .setAction(async (params: { mesh: string; list?: string; check: boolean; safe?: string }, hre) => {
+        const mesh = meshes[params.mesh];
+        if (!mesh) throw new Error(`Unknown mesh "${params.mesh}" (expected one of ${Object.keys(meshes).join(", ")})`);
+        const file = params.list ?? blocklistPath(params.mesh);
+        const accounts = loadBlocklist(file);
+        console.log(`List ${file}: ${accounts.length} account(s)`);
+
+        const nodes = await resolveMeshNodes(hre, mesh);
+        const targets = await resolveBlocklistTargets(nodes);
+        const changes = await planBlocklist(targets, accounts);
+        if (changes.length === 0) {
+            console.log("\nEvery network matches the list.");
+            return;
+        }
+        console.log(`\n${changes.length} difference(s):`);
+        for (const change of changes) console.log(`  ${formatBlocklistChange(change)}`);
+
+        if (params.check) {
+            console.error("\nThe on-chain blocklists differ from the list file.");
+            process.exitCode = 1;
+            return;
+        }
+
+        if (params.safe) {
+            fs.mkdirSync(params.safe, { recursive: true });
+            for (const { network, file, batch } of await blocklistSafeBatches(targets, changes)) {
+                const out = path.join(params.safe, file);
+                fs.writeFileSync(out, JSON.stringify(batch, null, 2) + "\n");
+                console.log(`  [${network}] ${batch.transactions.length} transaction(s) -> ${out}`);
+            }
+            return;
+        }
+
+        console.log("\nApplying...");
+        const signed = await connectMeshSigners(hre, nodes);
+        const results = await applyBlocklist(targets.map((t, i) => ({ ...t, signer: signed[i].signer })), changes);
+        for (const r of results) console.log(`  [${r.network}] ${r.outcome}: ${r.txHashes?.join(", ") ?? r.error}`);
+        if (results.some((r) => r.outcome !== "done")) {
+            console.error("\nNot every network was synced; use --safe for networks managed by a Safe.");
+            process.exitCode = 1;
+        }
+    });
@@ -0,0 +1,97 @@
+import { task } from "hardhat/config";
+import { meshes } from "../deploy-config/mesh";
+import { capacityAlerts, formatCapacityTable, readLaneCapacities, resolveCapacityTargets } from "../scripts/lib/capacity";
+import { connectMeshSigners, resolveMeshNodes } from "../scripts/lib/mesh";
+import { MessageAction, driveMessage, formatInboundMessage, meshMessagingApps, readInboundMessages } from "../scripts/lib/messages";
+import { readPauseStatus, setMeshPaused } from "../scripts/lib/pause";
+
+task("bridge:pause", "Emergency stop: pauses sends and receives on every adapter / OFT of the mesh")
+    .addParam("mesh", `Mesh to pause (${Object.keys(meshes).join(", ")})`)
+    .addFlag("unpause", "Resume bridging instead (needs the unpauser key)")
+    .addFlag("status", "Only print pause state and roles")
+    .setAction(async ({ mesh: meshName, unpause, status }: { mesh: string; unpause: boolean; status: boolean }, hre) => {
+        const mesh = meshes[meshName];
+        if (!mesh) throw new Error(`Unknown mesh "${meshName}" (expected one of ${Object.keys(meshes).join(", ")})`);
+        const nodes = await resolveMeshNodes(hre, mesh);
+
+        if (status) {
+            for (const s of await readPauseStatus(hre, nodes)) {
+                console.log(`${s.network}: ${s.contractName} ${s.address} ${s.paused ? "PAUSED" : "active"} (pauser ${s.pauser}, unpauser ${s.unpauser})`);
+            }
+            return;
+        }
+
+        console.log(`${unpause ? "Unpausing" : "Pausing"} ${nodes.length} bridge endpoint(s) of mesh "${meshName}"...`);
+        const results = await setMeshPaused(hre, await connectMeshSigners(hre, nodes), !unpause);
+        for (const r of results) {
+            const detail = r.txHash ?? r.error ?? (unpause ? "already active" : "already paused");
+            console.log(`  [${r.network}] ${r.outcome}: ${detail}`);
+        }
+        if (results.some((r) => r.outcome === "unauthorized" || r.outcome === "failed")) {
+            console.error(`\nNot every endpoint was ${unpause ? "unpaused" : "paused"}.`);
+            process.exitCode = 1;
+        }
+    });
+
+task("bridge:limits", "Prints outbound / inbound rate limit capacity of every configured lane")
+    .addOptionalParam("mesh", `Mesh whose networks to read (${Object.keys(meshes).join(", ")})`)
+    .addOptionalParam("networks", "Comma-separated networks to read instead of a mesh")
+    .addOptionalParam("alert", "Flag lanes with less than this percent of their limit remaining", "10")
+    .addFlag("watch", "Keep polling and print the table every --interval seconds")
+    .addOptionalParam("interval", "Polling interval in seconds for --watch", "60")
+    .setAction(async (params: { mesh?: string; networks?: string; alert: string; watch: boolean; interval: string }, hre) => {
+        let networks: string[];
+        if (params.networks) {
+            networks = params.networks.split(",").map((n) => n.trim()).filter(Boolean);
+        } else if (params.mesh && meshes[params.mesh]) {
+            networks = meshes[params.mesh].networks;
+        } else {
+            throw new Error(`Pass --networks or --mesh (one of ${Object.keys(meshes).join(", ")})`);
+        }
+        const threshold = Number(params.alert);
+        const targets = resolveCapacityTargets(hre, networks);
+
+        for (;;) {
+            const rows = await readLaneCapacities(targets);
+            if (params.watch) console.log(`\n[${new Date().toISOString()}]`);
+            process.stdout.write(formatCapacityTable(rows, threshold));
+            const alerts = capacityAlerts(rows, threshold);
+            for (const row of alerts) {
+                console.error(`ALERT ${row.network} ${row.direction} ${row.remoteEid}: under ${threshold}% of the limit remaining`);
+            }
+            if (!params.watch) {
+                if (alerts.length > 0) process.exitCode = 1;
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, Number(params.interval) * 1000));
+        }
+    });
+
+task("bridge:messages", "Lists stuck / failed inbound LayerZero messages between the mesh OApps and retries, clears or skips one")
+    .addParam("mesh", `Mesh to inspect (${Object.keys(meshes).join(", ")})`)
+    .addOptionalParam("lookback", "Blocks of PacketSent history to scan on each source chain", "50000")
+    .addFlag("all", "Also list delivered messages")
+    .addOptionalParam("guid", "Message to act on")
+    .addOptionalParam("action", "retry | clear | skip (with --guid)")
+    .setAction(async (params: { mesh: string; lookback: string; all: boolean; guid?: string; action?: string }, hre) => {
+        const mesh = meshes[params.mesh];
+        if (!mesh) throw new Error(`Unknown mesh "${params.mesh}" (expected one of ${Object.keys(meshes).join(", ")})`);
+        if (!!params.guid !== !!params.action) throw new Error("--guid and --action go together");
+        if (params.action && !["retry", "clear", "skip"].includes(params.action)) throw new Error(`Unknown action "${params.action}"`);
+
+        const nodes = await resolveMeshNodes(hre, mesh);
+        const messages = await readInboundMessages(meshMessagingApps(nodes), Number(params.lookback));
+
+        if (params.guid) {
+            const message = messages.find((m) => m.guid.toLowerCase() === params.guid!.toLowerCase());
+            if (!message) throw new Error(`No message ${params.guid} in the scanned range (raise --lookback)`);
+            const txHash = await driveMessage(meshMessagingApps(await connectMeshSigners(hre, nodes)), message, params.action as MessageAction);
+            console.log(`${params.action} ${message.guid} on ${message.dstNetwork}: ${txHash}`);
+            return;
+        }
+
+        const shown = params.all ? messages : messages.filter((m) => m.status !== "delivered");
+        for (const m of shown) console.log(formatInboundMessage(m));
+        console.log(`${shown.length} of ${messages.length} message(s) shown`);
+        if (messages.some((m) => m.status === "failed")) process.exitCode = 1;
+    });
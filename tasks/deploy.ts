@@ -0,0 +1,23 @@
+import { spawnSync } from "child_process";
+import { task } from "hardhat/config";
+import { loadNetworkManifest } from "../scripts/lib/manifest";
+
+task("deploy:mesh", "Deploys token, adapter and satellite OFTs to every network with a deploy manifest")
+    .addParam("networks", "Comma-separated networks to deploy, each with a deploy-config/<network>.json")
+    .setAction(async ({ networks }: { networks: string }, hre) => {
+        const targets = networks.split(",").map((n) => n.trim()).filter(Boolean);
+        // Validate every manifest up front and deploy the home chain first
+        const roles = new Map(targets.map((n) => [n, loadNetworkManifest(n).role]));
+        targets.sort((a, b) => Number(roles.get(a) !== "home") - Number(roles.get(b) !== "home"));
+
+        // Each network runs in its own hardhat process so the upgrades plugin binds to the right chain
+        for (const target of targets) {
+            console.log(`\n=== ${target} ===`);
+            const result = spawnSync(
+                "npx",
+                ["hardhat", "--config", hre.config.paths.configFile, "run", "scripts/deploy.ts", "--network", target],
+                { cwd: hre.config.paths.root, stdio: "inherit" }
+            );
+            if (result.status !== 0) throw new Error(`Deployment to ${target} failed (exit code ${result.status})`);
+        }
+    });
@@ -0,0 +1,45 @@
+import { task } from "hardhat/config";
+import { loadDeployments } from "../scripts/lib/manifest";
+import { connectNetwork, connectProvider } from "../scripts/lib/networks";
+import { proposalTimepoint, reportSatelliteVotes, satelliteDelegates } from "../scripts/lib/governance";
+
+task("governance:report-votes", "Reports satellite votes at a proposal's snapshot to the home FDFIVoteAggregator")
+    .addParam("proposal", "Proposal id on the home FDFIGovernor")
+    .addParam("home", "Home network (FDFIGovernor)")
+    .addParam("satellites", "Comma-separated satellite networks to report from")
+    .addOptionalParam("accounts", "Comma-separated delegates to report; defaults to every delegate with votes")
+    .addOptionalParam("batchSize", "Accounts per LayerZero message", "50")
+    .setAction(async (params: { proposal: string; home: string; satellites: string; accounts?: string; batchSize: string }, hre) => {
+        const homeDeployments = loadDeployments(params.home);
+        const governor = homeDeployments?.contracts.FDFIGovernor;
+        if (!governor) throw new Error(`No FDFIGovernor recorded in deployments/${params.home}.json`);
+        const home = connectProvider(hre, params.home);
+        const timepoint = await proposalTimepoint(home, governor.address, BigInt(params.proposal));
+        const at = new Date(timepoint * 1000).toISOString();
+        console.log(`Proposal ${params.proposal}: satellite votes at ${timepoint} (${at})`);
+        if (timepoint >= (await home.getBlock("latest"))!.timestamp) {
+            throw new Error(`The snapshot timestamp has not passed yet; report once ${at} is behind the home chain`);
+        }
+
+        for (const network of params.satellites.split(",").map((n) => n.trim()).filter(Boolean)) {
+            const reporter = loadDeployments(network)?.contracts.FDFIVoteReporter;
+            if (!reporter) throw new Error(`No FDFIVoteReporter recorded in deployments/${network}.json`);
+            const { provider, signer } = await connectNetwork(hre, network);
+
+            let accounts: string[];
+            if (params.accounts) {
+                accounts = params.accounts.split(",").map((a) => a.trim()).filter(Boolean);
+            } else {
+                const receipt = reporter.txHash ? await provider.getTransactionReceipt(reporter.txHash) : null;
+                accounts = await satelliteDelegates(provider, reporter.address, timepoint, receipt?.blockNumber ?? 0);
+            }
+            if (accounts.length === 0) {
+                console.log(`  [${network}] no delegates with votes`);
+                continue;
+            }
+
+            const receipts = await reportSatelliteVotes(signer, reporter.address, homeDeployments!.eid, timepoint, accounts, Number(params.batchSize));
+            for (const receipt of receipts) console.log(`  [${network}] reported in ${receipt.hash}`);
+            console.log(`  [${network}] ${accounts.length} delegate(s) reported; votes count once the messages are delivered`);
+        }
+    });
@@ -0,0 +1,42 @@
+import { writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import {
+    assertLocalFork,
+    checkDeploymentHealth,
+    expectedStatePath,
+    formatHealthReport,
+    loadExpectedState,
+    runTokenSmokeTest,
+} from "../scripts/lib/health";
+import { loadDeployments } from "../scripts/lib/manifest";
+
+task("health:check", "Read-only check of the --network deployment against its expected-state file")
+    .addOptionalParam("expected", "Expected-state file (defaults to deploy-config/expected/<network>.json)")
+    .addOptionalParam("deployments", "Deployments network name (defaults to --network; use the forked network's name on a fork)")
+    .addOptionalParam("json", "Also write the report as JSON to this file")
+    .setAction(async (params: { expected?: string; deployments?: string; json?: string }, hre) => {
+        const network = params.deployments ?? hre.network.name;
+        const deployments = loadDeployments(network);
+        if (!deployments) throw new Error(`No deployments/${network}.json`);
+        const expected = loadExpectedState(params.expected ?? expectedStatePath(network));
+
+        const report = await checkDeploymentHealth(hre.ethers.provider, deployments, expected);
+        process.stdout.write(formatHealthReport(report));
+        if (params.json) writeFileSync(params.json, JSON.stringify(report, null, 2) + "\n");
+        if (report.status !== "pass") process.exitCode = 1;
+    });
+
+task("health:smoke", "State-changing token smoke test (mint, transfer, enableTransfers, delegate); local fork only")
+    .addParam("deployments", "Network whose deployment is forked (FORK_RPC must point at it)")
+    .setAction(async (params: { deployments: string }, hre) => {
+        assertLocalFork(hre.network.name, (hre.network.config as { forking?: { enabled?: boolean; url?: string } }).forking);
+        const token = loadDeployments(params.deployments)?.contracts.FDFIToken;
+        if (!token) throw new Error(`No FDFIToken recorded in deployments/${params.deployments}.json`);
+
+        // Act as the real owner on the fork, whatever kind of account (EOA, Safe, timelock) it is
+        const owner: string = await (await hre.ethers.getContractAt(["function owner() view returns (address)"], token.address)).owner();
+        await hre.network.provider.send("hardhat_impersonateAccount", [owner]);
+        await hre.network.provider.send("hardhat_setBalance", [owner, "0x56BC75E2D63100000"]);
+        for (const line of await runTokenSmokeTest(await hre.ethers.getSigner(owner), token.address)) console.log(`  ✓ ${line}`);
+        console.log(`Smoke test passed on a fork of ${params.deployments}`);
+    });
@@ -0,0 +1,67 @@
+import { task } from "hardhat/config";
+import { meshes } from "../deploy-config/mesh";
+import {
+    bridgeIndexPath,
+    formatRateLimitEvent,
+    formatTransfer,
+    openBridgeIndex,
+    queryRateLimitEvents,
+    queryTransfers,
+    resolveIndexerTargets,
+    syncBridgeIndex,
+} from "../scripts/lib/indexer";
+
+task("bridge:index", "Indexes OFT transfers and rate limit events of every mesh network into a local SQLite file")
+    .addParam("mesh", `Mesh to index (${Object.keys(meshes).join(", ")})`)
+    .addOptionalParam("db", "SQLite file (defaults to bridge-history/<mesh>.sqlite)")
+    .addOptionalParam("confirmations", "Blocks behind the head left unindexed", "12")
+    .addOptionalParam("batch", "Blocks per eth_getLogs request", "2000")
+    .addFlag("watch", "Keep indexing every --interval seconds")
+    .addOptionalParam("interval", "Polling interval in seconds for --watch", "30")
+    .setAction(async (params: { mesh: string; db?: string; confirmations: string; batch: string; watch: boolean; interval: string }, hre) => {
+        const mesh = meshes[params.mesh];
+        if (!mesh) throw new Error(`Unknown mesh "${params.mesh}" (expected one of ${Object.keys(meshes).join(", ")})`);
+        const file = params.db ?? bridgeIndexPath(params.mesh);
+        const db = openBridgeIndex(file);
+        const targets = await resolveIndexerTargets(hre, mesh.networks);
+
+        try {
+            for (;;) {
+                const results = await syncBridgeIndex(db, targets, { confirmations: Number(params.confirmations), batchSize: Number(params.batch) });
+                for (const r of results) {
+                    if (r.rewound > 0) console.log(`[${r.network}] reorg: dropped ${r.rewound} block(s)`);
+                    if (r.toBlock >= r.fromBlock) console.log(`[${r.network}] blocks ${r.fromBlock}-${r.toBlock}: ${r.events} event(s)`);
+                }
+                if (!params.watch) break;
+                await new Promise((resolve) => setTimeout(resolve, Number(params.interval) * 1000));
+            }
+        } finally {
+            db.close();
+        }
+        console.log(`Index: ${file}`);
+    });
+
+task("bridge:history", "Queries the bridge history indexed by bridge:index")
+    .addParam("mesh", `Mesh whose index to read (${Object.keys(meshes).join(", ")})`)
+    .addOptionalParam("db", "SQLite file (defaults to bridge-history/<mesh>.sqlite)")
+    .addOptionalParam("address", "Sender or recipient")
+    .addOptionalParam("guid", "LayerZero message GUID")
+    .addOptionalParam("eid", "Source or destination endpoint id")
+    .addFlag("limits", "List rate limit events (consumption, changes, rateLimiter) instead of transfers")
+    .setAction(async (params: { mesh: string; db?: string; address?: string; guid?: string; eid?: string; limits: boolean }) => {
+        const db = openBridgeIndex(params.db ?? bridgeIndexPath(params.mesh));
+        try {
+            const filter = { address: params.address, guid: params.guid, eid: params.eid ? Number(params.eid) : undefined };
+            if (params.limits) {
+                const events = queryRateLimitEvents(db, filter);
+                for (const e of events) console.log(formatRateLimitEvent(e));
+                console.log(`${events.length} event(s)`);
+            } else {
+                const transfers = queryTransfers(db, filter);
+                for (const t of transfers) console.log(formatTransfer(t));
+                console.log(`${transfers.length} transfer(s)`);
+            }
+        } finally {
+            db.close();
+        }
+    });
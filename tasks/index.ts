@@ -0,0 +1,11 @@
+import "./admin";
+import "./audit";
+import "./blocklist";
+import "./bridge";
+import "./deploy";
+import "./governance";
+import "./health";
+import "./history";
+import "./limits";
+import "./mesh";
+import "./upgrade";
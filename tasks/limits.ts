@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+import { meshes } from "../deploy-config/mesh";
+import { connectMeshSigners, resolveMeshNodes } from "../scripts/lib/mesh";
+import {
+    applyRateLimitPolicy,
+    formatRateLimitDrift,
+    loadRateLimitPolicy,
+    planRateLimitPolicy,
+    rateLimitPolicyPath,
+    rateLimitPolicySafeBatches,
+} from "../scripts/lib/rateLimits";
+
+task("limits:sync", "Diffs the rate limit policy file of a mesh against on-chain limits and applies the drift")
+    .addParam("mesh", `Mesh to sync (${Object.keys(meshes).join(", ")})`)
+    .addOptionalParam("policy", "Policy file (defaults to deploy-config/rate-limits/<mesh>.yaml)")
+    .addFlag("check", "Only validate and report the drift; exit non-zero when limits differ from the policy")
+    .addOptionalParam("safe", "Write Safe Transaction Builder batches to this directory instead of sending")
+    .setAction(async (params: { mesh: string; policy?: string; check: boolean; safe?: string }, hre) => {
+        const mesh = meshes[params.mesh];
+        if (!mesh) throw new Error(`Unknown mesh "${params.mesh}" (expected one of ${Object.keys(meshes).join(", ")})`);
+        const file = params.policy ?? rateLimitPolicyPath(params.mesh);
+        const policy = loadRateLimitPolicy(file);
+        console.log(`Policy ${file}: ${Object.keys(policy).join(", ")}`);
+
+        const nodes = await resolveMeshNodes(hre, mesh);
+        const drift = await planRateLimitPolicy(nodes, policy);
+        if (drift.length === 0) {
+            console.log("\nOn-chain rate limits match the policy.");
+            return;
+        }
+        console.log(`\n${drift.length} difference(s):`);
+        for (const d of drift) console.log(`  ${formatRateLimitDrift(d)}`);
+
+        if (params.check) {
+            console.error("\nRate limits drifted from the policy.");
+            process.exitCode = 1;
+            return;
+        }
+
+        if (params.safe) {
+            fs.mkdirSync(params.safe, { recursive: true });
+            for (const { network, batch } of await rateLimitPolicySafeBatches(nodes, drift)) {
+                const out = path.join(params.safe, `rate-limits-${network}.json`);
+                fs.writeFileSync(out, JSON.stringify(batch, null, 2) + "\n");
+                console.log(`  [${network}] ${batch.transactions.length} transaction(s) -> ${out}`);
+            }
+            return;
+        }
+
+        console.log("\nApplying...");
+        const results = await applyRateLimitPolicy(await connectMeshSigners(hre, nodes), drift);
+        for (const r of results) console.log(`  [${r.network}] ${r.outcome}: ${r.txHashes?.join(", ") ?? r.error}`);
+        if (results.some((r) => r.outcome !== "done")) {
+            console.error("\nNot every network was synced; use --safe for networks whose rateLimiter is a Safe.");
+            process.exitCode = 1;
+        }
+    });
@@ -0,0 +1,31 @@
+import { task } from "hardhat/config";
+import { meshes } from "../deploy-config/mesh";
+import { applyMeshWiring, connectMeshSigners, formatWiringChange, planMeshWiring, resolveMeshNodes } from "../scripts/lib/mesh";
+
+task("mesh:wire", "Diffs desired vs on-chain peers / enforced options of the OFT mesh and applies what is missing")
+    .addParam("mesh", `Mesh to wire (${Object.keys(meshes).join(", ")})`)
+    .addFlag("check", "Only report the diff; exit non-zero when the mesh is mis-wired")
+    .setAction(async ({ mesh: meshName, check }: { mesh: string; check: boolean }, hre) => {
+        const mesh = meshes[meshName];
+        if (!mesh) throw new Error(`Unknown mesh "${meshName}" (expected one of ${Object.keys(meshes).join(", ")})`);
+
+        const nodes = await resolveMeshNodes(hre, mesh);
+        for (const node of nodes) console.log(`${node.network} (eid ${node.eid}): ${node.contractName} ${node.address}`);
+
+        const changes = await planMeshWiring(hre, nodes, mesh);
+        if (changes.length === 0) {
+            console.log(`\nMesh "${meshName}" is fully wired.`);
+            return;
+        }
+        console.log(`\n${changes.length} difference(s):`);
+        for (const change of changes) console.log(`  ${formatWiringChange(change)}`);
+
+        if (check) {
+            console.error(`\nMesh "${meshName}" is mis-wired.`);
+            process.exitCode = 1;
+            return;
+        }
+
+        console.log("\nApplying...");
+        await applyMeshWiring(hre, await connectMeshSigners(hre, nodes), changes);
+    });
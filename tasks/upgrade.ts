@@ -0,0 +1,44 @@
+import { writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import { upgradeContract } from "../scripts/lib/upgrade";
+
+task("upgrade:proxy", "Validates the storage layout of a new implementation and upgrades (or prepares the upgrade of) a UUPS proxy")
+    .addParam("contract", "Contract name of the new implementation (e.g. FDFITokenV2, FDFIOFTUpgradeable)")
+    .addParam("proxy", "Proxy address, or the contract name it is recorded under in deployments/<network>.json")
+    .addFlag("prepareOnly", "Deploy the implementation only and print the upgradeToAndCall transaction for the multisig")
+    .addOptionalParam("reference", "Contract name to validate against when the current implementation's layout is not recorded")
+    .addOptionalParam("call", "Function of the new implementation to call during the upgrade (e.g. initializeV2)")
+    .addOptionalParam("args", "JSON array of arguments for --call", "[]")
+    .addOptionalParam("out", "Write the prepared transaction as JSON to this file (with --prepare-only)")
+    .setAction(async (params: {
+        contract: string;
+        proxy: string;
+        prepareOnly: boolean;
+        reference?: string;
+        call?: string;
+        args: string;
+        out?: string;
+    }, hre) => {
+        const result = await upgradeContract(hre, {
+            contractName: params.contract,
+            proxy: params.proxy,
+            prepareOnly: params.prepareOnly,
+            reference: params.reference,
+            call: params.call ? { fn: params.call, args: JSON.parse(params.args) } : undefined,
+        });
+
+        console.log(`Proxy:                   ${result.proxy}`);
+        console.log(`Previous implementation: ${result.previousImplementation}`);
+        console.log(`New implementation:      ${result.newImplementation}`);
+        if (!result.prepared) {
+            console.log(`\nUpgraded ${result.proxy} to ${params.contract}.`);
+            return;
+        }
+
+        const json = JSON.stringify(result.prepared, null, 2);
+        console.log(`\nStorage layout is compatible. Submit this transaction from the proxy owner:\n${json}`);
+        if (params.out) {
+            writeFileSync(params.out, json + "\n");
+            console.log(`\nWritten to ${params.out}`);
+        }
+    });
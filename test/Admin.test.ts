@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import {
+    adminSafeBatch,
+    planAcceptOwnership,
+    planEnableTransfers,
+    planMint,
+    planSetPeer,
+    planSetRateLimiter,
+    planSetRateLimits,
+    planTransferOwnership,
+    sendAdminAction
+} from "../scripts/lib/admin";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture } from "./helpers/bridgeFixture";
+
+describe("Admin tasks", function () {
+    let deployer: Signer;
+    let safe: Signer;
+    let other: Signer;
+    let deployerAddr: string;
+    let safeAddr: string;
+    let otherAddr: string;
+    let f: BridgeFixture;
+    let token: string;
+    let adapter: string;
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+    const provider = () => ethers.provider;
+
+    async function rejection(promise: Promise<unknown>): Promise<string | undefined> {
+        try {
+            await promise;
+        } catch (e) {
+            return (e as Error).message;
+        }
+        return undefined;
+    }
+
+    beforeEach(async function () {
+        [deployer, safe, other] = await ethers.getSigners();
+        [deployerAddr, safeAddr, otherAddr] = await Promise.all([deployer, safe, other].map((s) => s.getAddress()));
+        f = await deployBridgeFixture({ enableTransfers: false });
+        token = await f.token.getAddress();
+        adapter = await f.adapter.getAddress();
+    });
+
+    it("mints within the MAX_SUPPLY headroom and only from an allowed sender", async function () {
+        const headroom = (await f.token.MAX_SUPPLY()) - (await f.token.totalSupply());
+        expect(await rejection(planMint(provider(), "home", token, otherAddr, headroom + 1n))).to.match(/exceeds the MAX_SUPPLY headroom/);
+        expect(await rejection(planMint(provider(), "home", token, ethers.ZeroAddress, 1n))).to.match(/not a non-zero address/);
+
+        const mint = await planMint(provider(), "home", token, otherAddr, units(500));
+        expect(mint.description).to.equal(`FDFIToken.mintTo(${otherAddr}, 500.0 FDFI)`);
+        expect(await rejection(sendAdminAction(other, mint))).to.match(/cannot call FDFIToken.mintTo.*use --safe/);
+        await sendAdminAction(deployer, mint);
+        expect(await f.token.balanceOf(otherAddr)).to.equal(units(500));
+    });
+
+    it("refuses enableTransfers without confirmation and writes it as a Safe batch for the owner", async function () {
+        expect(await rejection(planEnableTransfers(provider(), "home", token, false))).to.match(/cannot be undone; pass --confirm/);
+
+        await f.token.transferOwnership(safeAddr);
+        await f.token.connect(safe).acceptOwnership();
+        const enable = await planEnableTransfers(provider(), "home", token, true);
+        const batch = adminSafeBatch(31337, enable);
+        expect(batch.meta).to.deep.equal({ name: "FDFI admin (home)", description: "FDFIToken.enableTransfers()", createdFromSafeAddress: safeAddr });
+        expect(batch.transactions).to.deep.equal([{ to: token, value: "0", data: f.token.interface.encodeFunctionData("enableTransfers") }]);
+
+        await safe.sendTransaction({ to: batch.transactions[0].to, data: batch.transactions[0].data });
+        expect(await rejection(planEnableTransfers(provider(), "home", token, true))).to.match(/already enabled/);
+    });
+
+    it("transfers ownership in two steps, or at once on the adapter only with confirmation", async function () {
+        const transfer = await planTransferOwnership(provider(), "home", "FDFIToken", token, safeAddr, false);
+        expect(transfer.notes[0]).to.match(/pending owner and must call acceptOwnership/);
+        await sendAdminAction(deployer, transfer);
+        const accept = await planAcceptOwnership(provider(), "home", "FDFIToken", token);
+        expect(accept.senders).to.deep.equal([safeAddr]);
+        expect(await rejection(sendAdminAction(deployer, accept))).to.match(/cannot call FDFIToken.acceptOwnership/);
+        await sendAdminAction(safe, accept);
+        expect(await f.token.owner()).to.equal(safeAddr);
+
+        expect(await rejection(planTransferOwnership(provider(), "home", "FDFIOFTAdapter", adapter, safeAddr, false))).to.match(/not Ownable2Step/);
+        expect(await rejection(planAcceptOwnership(provider(), "home", "FDFIOFTAdapter", adapter))).to.match(/nothing to accept/);
+        await sendAdminAction(deployer, await planTransferOwnership(provider(), "home", "FDFIOFTAdapter", adapter, safeAddr, true));
+        expect(await f.adapter.owner()).to.equal(safeAddr);
+    });
+
+    it("sets the rate limiter, lane limits and peers with validation", async function () {
+        await sendAdminAction(deployer, await planSetRateLimiter(provider(), "home", "FDFIOFTAdapter", adapter, otherAddr));
+        expect(await rejection(planSetRateLimiter(provider(), "home", "FDFIOFTAdapter", adapter, otherAddr))).to.match(/already the rateLimiter/);
+
+        const lane = { dstEid: SATELLITE_EID, limit: units(2500), window: 86400 };
+        expect(await rejection(planSetRateLimits(provider(), "home", "FDFIOFTAdapter", adapter, { ...lane, window: 0 }, false))).to.match(/Window 0/);
+        expect(await rejection(planSetRateLimits(provider(), "home", "FDFIOFTAdapter", adapter, { ...lane, dstEid: 0 }, true))).to.match(/eid 0/);
+        const limits = await planSetRateLimits(provider(), "home", "FDFIOFTAdapter", adapter, lane, true);
+        expect(limits.senders).to.deep.equal([otherAddr, deployerAddr]);
+        await sendAdminAction(other, limits);
+        expect((await f.adapter.inboundRateLimits(SATELLITE_EID)).limit).to.equal(units(2500));
+
+        const oft = await f.oft.getAddress();
+        expect(await rejection(planSetPeer(provider(), "home", "FDFIOFTAdapter", adapter, SATELLITE_EID, oft))).to.match(/already has peer/);
+        expect(await rejection(planSetPeer(provider(), "home", "FDFIOFTAdapter", adapter, SATELLITE_EID, "0x1234"))).to.match(/neither an address nor a bytes32/);
+        const solanaPeer = ethers.hexlify(ethers.randomBytes(32));
+        await sendAdminAction(deployer, await planSetPeer(provider(), "home", "FDFIOFTAdapter", adapter, 30168, solanaPeer));
+        expect(await f.adapter.peers(30168)).to.equal(solanaPeer);
+        const unset = await planSetPeer(provider(), "satellite", "FDFIOFTUpgradeable", oft, HOME_EID, ethers.ZeroHash);
+        expect(unset.notes).to.deep.equal([`Unsets the peer: messages to and from eid ${HOME_EID} stop`]);
+    });
+});
@@ -0,0 +1,201 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { FDFIBlocklist } from "../typechain-types";
+import { BlocklistTarget, applyBlocklist, blocklistSafeBatches, parseBlocklist, planBlocklist } from "../scripts/lib/blocklist";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Blocklist", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let user2: Signer;
+    let quarantine: Signer;
+    let compliance: Signer;
+    let deployerAddr: string;
+    let user1Addr: string;
+    let user2Addr: string;
+    let quarantineAddr: string;
+    let complianceAddr: string;
+    let f: BridgeFixture;
+    let homeList: FDFIBlocklist;
+    let satelliteList: FDFIBlocklist;
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+    const noFee = { nativeFee: 0n, lzTokenFee: 0n };
+
+    async function deployBlocklist(): Promise<FDFIBlocklist> {
+        return (await ethers.getContractFactory("FDFIBlocklist")).deploy(deployerAddr, complianceAddr, quarantineAddr);
+    }
+
+    beforeEach(async function () {
+        [deployer, user1, user2, quarantine, compliance] = await ethers.getSigners();
+        [deployerAddr, user1Addr, user2Addr, quarantineAddr, complianceAddr] = await Promise.all(
+            [deployer, user1, user2, quarantine, compliance].map((s) => s.getAddress())
+        );
+        f = await deployBridgeFixture();
+        homeList = await deployBlocklist();
+        satelliteList = await deployBlocklist();
+    });
+
+    describe("token and OFT transfers", function () {
+        beforeEach(async function () {
+            await f.token.setBlocklist(await homeList.getAddress());
+            await f.adapter.setBlocklist(await homeList.getAddress());
+            await f.oft.setBlocklist(await satelliteList.getAddress());
+            await f.token.transfer(user1Addr, units(100));
+        });
+
+        it("stops blocked accounts from sending and receiving until unblocked", async function () {
+            await homeList.connect(compliance).setBlocked([user1Addr], true);
+            await expect(f.token.connect(user1).transfer(user2Addr, units(1)))
+                .to.be.revertedWithCustomError(homeList, "AccountBlocked")
+                .withArgs(user1Addr);
+            await expect(f.token.transfer(user1Addr, units(1)))
+                .to.be.revertedWithCustomError(homeList, "AccountBlocked")
+                .withArgs(user1Addr);
+            await expect(f.token.connect(user1).burn(units(1))).to.be.revertedWithCustomError(homeList, "AccountBlocked");
+
+            await homeList.setBlocked([user1Addr], false);
+            await f.token.connect(user1).transfer(user2Addr, units(1));
+            expect(await f.token.balanceOf(user2Addr)).to.equal(units(1));
+        });
+
+        it("restricts who manages the list and protects the quarantine", async function () {
+            await expect(homeList.connect(user1).setBlocked([user2Addr], true)).to.be.revertedWithCustomError(homeList, "OnlyBlocklister");
+            await expect(homeList.setBlocked([quarantineAddr], true))
+                .to.be.revertedWithCustomError(homeList, "CannotBlock")
+                .withArgs(quarantineAddr);
+            await expect(homeList.setBlocked([ethers.ZeroAddress], true)).to.be.revertedWithCustomError(homeList, "CannotBlock");
+
+            await homeList.setBlocked([user2Addr], true);
+            await expect(homeList.setQuarantine(user2Addr)).to.be.revertedWithCustomError(homeList, "InvalidQuarantine");
+            await expect(homeList.connect(compliance).setQuarantine(user1Addr)).to.be.revertedWithCustomError(homeList, "OwnableUnauthorizedAccount");
+            await expect(f.oft.connect(user1).setBlocklist(ethers.ZeroAddress)).to.be.revertedWithCustomError(f.oft, "OwnableUnauthorizedAccount");
+        });
+
+        it("stops blocked accounts from bridging out on both sides", async function () {
+            await f.token.connect(user1).approve(await f.adapter.getAddress(), units(100));
+            await homeList.setBlocked([user1Addr], true);
+            await expect(f.adapter.connect(user1).send(sendParam(SATELLITE_EID, user1Addr, units(10)), noFee, user1Addr))
+                .to.be.revertedWithCustomError(homeList, "AccountBlocked")
+                .withArgs(user1Addr);
+            await homeList.setBlocked([user1Addr], false);
+
+            await f.sim.capture(await f.adapter.connect(user1).send(sendParam(SATELLITE_EID, user1Addr, units(10)), noFee, user1Addr));
+            await f.sim.deliverAll();
+            await satelliteList.setBlocked([user1Addr], true);
+            await expect(f.oft.connect(user1).send(sendParam(HOME_EID, user1Addr, units(10)), noFee, user1Addr))
+                .to.be.revertedWithCustomError(satelliteList, "AccountBlocked");
+            await expect(f.oft.connect(user1).transfer(user2Addr, units(1))).to.be.revertedWithCustomError(satelliteList, "AccountBlocked");
+        });
+
+        it("quarantines credits to blocked recipients instead of failing the message", async function () {
+            await f.token.approve(await f.adapter.getAddress(), ethers.MaxUint256);
+            await satelliteList.setBlocked([user2Addr], true);
+            const [toSatellite] = await f.sim.capture(await f.adapter.send(sendParam(SATELLITE_EID, user2Addr, units(300)), noFee, deployerAddr));
+            await expect(f.sim.deliver(toSatellite))
+                .to.emit(f.oft, "CreditQuarantined")
+                .withArgs(user2Addr, quarantineAddr, units(300));
+            expect(await f.oft.balanceOf(quarantineAddr)).to.equal(units(300));
+            expect(await f.oft.balanceOf(user2Addr)).to.equal(0n);
+
+            // Home: immediate credits and queued releases alike
+            await f.adapter.setInboundRateLimits([{ dstEid: SATELLITE_EID, limit: units(100), window: 3600 }]);
+            await homeList.setBlocked([user2Addr], true);
+            for (const amount of [50, 200]) {
+                await f.sim.capture(await f.oft.connect(quarantine).send(sendParam(HOME_EID, user2Addr, units(amount)), noFee, quarantineAddr));
+            }
+            await f.sim.deliverAll();
+            expect(await f.token.balanceOf(quarantineAddr)).to.equal(units(50));
+            await expect(f.adapter.releaseQueuedEarly(user2Addr, 0))
+                .to.emit(f.adapter, "CreditQuarantined")
+                .withArgs(user2Addr, quarantineAddr, units(200));
+            expect(await f.token.balanceOf(quarantineAddr)).to.equal(units(250));
+            expect(await f.token.balanceOf(user2Addr)).to.equal(0n);
+        });
+    });
+
+    describe("sync", function () {
+        let targets: BlocklistTarget[];
+
+        beforeEach(async function () {
+            targets = [
+                {
+                    network: "home",
+                    address: await homeList.getAddress(),
+                    fromBlock: 0,
+                    guarded: [
+                        { name: "FDFIToken", address: await f.token.getAddress() },
+                        { name: "FDFIOFTAdapter", address: await f.adapter.getAddress() }
+                    ],
+                    provider: ethers.provider,
+                    signer: deployer
+                },
+                {
+                    network: "satellite",
+                    address: await satelliteList.getAddress(),
+                    fromBlock: 0,
+                    guarded: [{ name: "FDFIOFTUpgradeable", address: await f.oft.getAddress() }],
+                    provider: ethers.provider,
+                    signer: deployer
+                }
+            ];
+        });
+
+        it("parses list files and reports every problem", function () {
+            const source = `# OFAC\n${user1Addr.toLowerCase()}  # SDN entry\n\n${user2Addr}\n`;
+            expect(parseBlocklist(source, "test.txt")).to.deep.equal([user1Addr, user2Addr]);
+            expect(() => parseBlocklist(`0x1234\n${user1Addr}\n${user1Addr}\n${ethers.ZeroAddress}`, "bad.txt")).to.throw(
+                /line 1: "0x1234" is not an address\n {2}- line 3: duplicate .*\n {2}- line 4: the zero address cannot be blocked/
+            );
+        });
+
+        it("wires, blocks and unblocks every network to match the list", async function () {
+            let changes = await planBlocklist(targets, [user1Addr, user2Addr]);
+            expect(changes.map((c) => `${c.network} ${c.kind}`)).to.deep.equal([
+                "home setBlocklist",
+                "home setBlocklist",
+                "home block",
+                "home block",
+                "satellite setBlocklist",
+                "satellite block",
+                "satellite block"
+            ]);
+            const results = await applyBlocklist(targets, changes);
+            expect(results.map((r) => [r.network, r.outcome, r.txHashes?.length])).to.deep.equal([
+                ["home", "done", 3],
+                ["satellite", "done", 2]
+            ]);
+            expect(await f.oft.blocklist()).to.equal(await satelliteList.getAddress());
+            expect(await homeList.isBlocked(user2Addr)).to.equal(true);
+            expect(await planBlocklist(targets, [user1Addr, user2Addr])).to.deep.equal([]);
+
+            // Dropped from the list: unblocked, found through BlockedSet
+            changes = await planBlocklist(targets, [user1Addr]);
+            expect(changes).to.deep.equal([
+                { network: "home", kind: "unblock", account: user2Addr },
+                { network: "satellite", kind: "unblock", account: user2Addr }
+            ]);
+            await applyBlocklist(targets, changes);
+            expect(await satelliteList.isBlocked(user2Addr)).to.equal(false);
+        });
+
+        it("writes Safe batches for the blocklister and the owner", async function () {
+            const changes = await planBlocklist(targets, [user1Addr]);
+            const batches = await blocklistSafeBatches(targets, changes);
+            expect(batches.map((b) => [b.file, b.batch.transactions.length, b.batch.meta.createdFromSafeAddress])).to.deep.equal([
+                ["blocklist-home.json", 1, complianceAddr],
+                ["blocklist-wiring-home.json", 2, undefined],
+                ["blocklist-satellite.json", 1, complianceAddr],
+                ["blocklist-wiring-satellite.json", 1, undefined]
+            ]);
+
+            // The compliance key can sync the list, not the owner-only wiring
+            const asCompliance = targets.map((t) => ({ ...t, signer: compliance }));
+            const results = await applyBlocklist(asCompliance, changes);
+            expect(results.map((r) => r.outcome)).to.deep.equal(["unauthorized", "unauthorized"]);
+            const listOnly = changes.filter((c) => c.kind !== "setBlocklist");
+            expect((await applyBlocklist(asCompliance, listOnly)).map((r) => r.outcome)).to.deep.equal(["done", "done"]);
+        });
+    });
+});
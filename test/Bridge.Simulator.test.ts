@@ -0,0 +1,310 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { SnapshotRestorer, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Bridge round trips through the LayerZero simulator", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let deployerAddr: string;
+    let user1Addr: string;
+    let f: BridgeFixture;
+
+    const LIMIT = ethers.parseUnits("10000", 18);
+    const WINDOW = 3600;
+    let snapshot: SnapshotRestorer;
+
+    async function bridgeOut(from: Signer, to: string, amount: bigint) {
+        await f.token.connect(from).approve(await f.adapter.getAddress(), amount);
+        const param = sendParam(SATELLITE_EID, to, amount);
+        const { nativeFee } = await f.adapter.quoteSend(param, false);
+        const tx = await f.adapter.connect(from).send(param, { nativeFee, lzTokenFee: 0 }, await from.getAddress(), { value: nativeFee });
+        const [packet] = await f.sim.capture(tx);
+        return packet;
+    }
+
+    async function bridgeBack(from: Signer, to: string, amount: bigint) {
+        const param = sendParam(HOME_EID, to, amount);
+        const { nativeFee } = await f.oft.quoteSend(param, false);
+        const tx = await f.oft.connect(from).send(param, { nativeFee, lzTokenFee: 0 }, await from.getAddress(), { value: nativeFee });
+        const [packet] = await f.sim.capture(tx);
+        return packet;
+    }
+
+    // The window and delivery-delay cases move the shared clock forward; rewind it so later test files
+    // (permit deadlines derived from Date.now()) see the time they started with
+    before(async function () {
+        snapshot = await takeSnapshot();
+    });
+
+    after(async function () {
+        await snapshot.restore();
+    });
+
+    beforeEach(async function () {
+        [deployer, user1] = await ethers.getSigners();
+        deployerAddr = await deployer.getAddress();
+        user1Addr = await user1.getAddress();
+        f = await deployBridgeFixture({ limit: LIMIT, window: WINDOW });
+    });
+
+    describe("Lock / mint / burn / unlock", function () {
+        it("locks on the adapter and mints on the satellite only once delivered", async function () {
+            const amount = ethers.parseUnits("1000", 18);
+            const packet = await bridgeOut(deployer, user1Addr, amount);
+
+            expect(packet.srcEid).to.equal(HOME_EID);
+            expect(packet.dstEid).to.equal(SATELLITE_EID);
+            expect(packet.nonce).to.equal(1n);
+            expect(await f.token.balanceOf(await f.adapter.getAddress())).to.equal(amount);
+            expect(await f.oft.totalSupply()).to.equal(0n);
+
+            await expect(f.sim.deliver(packet))
+                .to.emit(f.oft, "OFTReceived")
+                .withArgs(packet.guid, HOME_EID, user1Addr, amount);
+            expect(await f.oft.balanceOf(user1Addr)).to.equal(amount);
+            expect(f.sim.pending()).to.be.empty;
+        });
+
+        it("burns on the satellite and unlocks from the adapter", async function () {
+            const amount = ethers.parseUnits("1000", 18);
+            await f.sim.deliver(await bridgeOut(deployer, user1Addr, amount));
+
+            const back = ethers.parseUnits("400", 18);
+            const packet = await bridgeBack(user1, user1Addr, back);
+            expect(await f.oft.totalSupply()).to.equal(amount - back);
+
+            await expect(f.sim.deliver(packet))
+                .to.emit(f.adapter, "InflowRateConsumed")
+                .and.to.emit(f.adapter, "OFTReceived")
+                .withArgs(packet.guid, SATELLITE_EID, user1Addr, back);
+            expect(await f.token.balanceOf(user1Addr)).to.equal(back);
+            expect(await f.token.balanceOf(await f.adapter.getAddress())).to.equal(amount - back);
+        });
+
+        it("charges the endpoint native fee quoted by quoteSend", async function () {
+            const fee = ethers.parseEther("0.01");
+            await f.sim.endpoint(HOME_EID).setNativeFee(fee);
+
+            const param = sendParam(SATELLITE_EID, user1Addr, ethers.parseUnits("1", 18));
+            await f.token.approve(await f.adapter.getAddress(), param.amountLD);
+            const { nativeFee } = await f.adapter.quoteSend(param, false);
+            expect(nativeFee).to.equal(fee);
+
+            await expect(f.adapter.send(param, { nativeFee, lzTokenFee: 0 }, deployerAddr, { value: 0 }))
+                .to.be.revertedWithCustomError(f.adapter, "NotEnoughNative");
+            await expect(f.adapter.send(param, { nativeFee, lzTokenFee: 0 }, deployerAddr, { value: fee }))
+                .to.changeEtherBalance(await f.sim.endpointAddress(HOME_EID), fee);
+        });
+    });
+
+    describe("Rate limits", function () {
+        it("reverts adapter sends above the outbound limit and refills over the window", async function () {
+            // Capacity decays back at limit/window per second, so overshoot by more than a few seconds' worth
+            const overshoot = ethers.parseUnits("100", 18);
+            await bridgeOut(deployer, user1Addr, LIMIT);
+            await f.token.approve(await f.adapter.getAddress(), overshoot);
+            await expect(
+                f.adapter.send(sendParam(SATELLITE_EID, user1Addr, overshoot), { nativeFee: 0, lzTokenFee: 0 }, deployerAddr)
+            ).to.be.revertedWithCustomError(f.adapter, "RateLimitExceeded");
+
+            await time.increase(WINDOW / 2);
+            const [, available] = await f.adapter.getAmountCanBeSent(SATELLITE_EID);
+            expect(available).to.be.closeTo(LIMIT / 2n, ethers.parseUnits("10", 18));
+            await bridgeOut(deployer, user1Addr, ethers.parseUnits("4000", 18));
+        });
+
+        it("emits OutflowRateConsumed with the remaining capacity", async function () {
+            const amount = ethers.parseUnits("2500", 18);
+            await f.token.approve(await f.adapter.getAddress(), amount);
+            await expect(f.adapter.send(sendParam(SATELLITE_EID, user1Addr, amount), { nativeFee: 0, lzTokenFee: 0 }, deployerAddr))
+                .to.emit(f.adapter, "OutflowRateConsumed")
+                .withArgs(SATELLITE_EID, amount, LIMIT - amount);
+        });
+
+        it("enforces the satellite outbound limit on burns", async function () {
+            await f.sim.deliver(await bridgeOut(deployer, user1Addr, LIMIT));
+            await time.increase(WINDOW);
+
+            await f.sim.deliver(await bridgeOut(deployer, user1Addr, ethers.parseUnits("100", 18)));
+
+            await bridgeBack(user1, user1Addr, LIMIT);
+            await expect(
+                f.oft.connect(user1).send(sendParam(HOME_EID, user1Addr, ethers.parseUnits("100", 18)), { nativeFee: 0, lzTokenFee: 0 }, user1Addr)
+            ).to.be.revertedWithCustomError(f.oft, "RateLimitExceeded");
+        });
+
+        it("enforces the satellite inbound limit per source eid, separately from the outbound one", async function () {
+            const inbound = ethers.parseUnits("4000", 18);
+            await f.oft.setInboundRateLimits([{ dstEid: HOME_EID, limit: inbound, window: WINDOW }]);
+            expect((await f.oft.rateLimits(HOME_EID)).limit).to.equal(LIMIT);
+
+            const first = ethers.parseUnits("3000", 18);
+            await expect(f.sim.deliver(await bridgeOut(deployer, user1Addr, first)))
+                .to.emit(f.oft, "InflowRateConsumed")
+                .withArgs(HOME_EID, first, inbound - first);
+
+            const packet = await bridgeOut(deployer, user1Addr, ethers.parseUnits("2000", 18));
+            await f.sim.verify(packet);
+            await expect(f.sim.execute(packet)).to.be.revertedWithCustomError(f.oft, "RateLimitExceeded");
+
+            // Stays retryable on the endpoint and goes through once capacity refills
+            await time.increase(WINDOW);
+            await f.sim.execute(packet);
+            expect(await f.oft.balanceOf(user1Addr)).to.equal(first + ethers.parseUnits("2000", 18));
+
+            await expect(f.oft.connect(user1).send(sendParam(HOME_EID, user1Addr, first), { nativeFee: 0, lzTokenFee: 0 }, user1Addr))
+                .to.emit(f.oft, "OutflowRateConsumed")
+                .withArgs(HOME_EID, first, LIMIT - first);
+            await expect(f.oft.connect(user1).setInboundRateLimits([])).to.be.revertedWithCustomError(f.oft, "OnlyRateLimiter");
+        });
+
+        it("keeps adapter inbound and outbound limits separate, with asymmetric configs", async function () {
+            await f.sim.deliver(await bridgeOut(deployer, user1Addr, LIMIT));
+            const [inFlightBefore] = await f.adapter.getAmountCanBeSent(SATELLITE_EID);
+
+            // Inflows neither refund the outbound budget nor draw on it
+            const back = ethers.parseUnits("3000", 18);
+            await f.sim.deliver(await bridgeBack(user1, user1Addr, back));
+            const [inFlightAfter] = await f.adapter.getAmountCanBeSent(SATELLITE_EID);
+            expect(inFlightAfter).to.be.closeTo(inFlightBefore, ethers.parseUnits("100", 18));
+            const [inboundInFlight] = await f.adapter.getAmountCanBeReceived(SATELLITE_EID);
+            expect(inboundInFlight).to.be.closeTo(back, ethers.parseUnits("100", 18));
+
+            // Tighten inbound only: outbound keeps its own limit and window
+            const inbound = ethers.parseUnits("4000", 18);
+            await expect(f.adapter.setInboundRateLimits([{ dstEid: SATELLITE_EID, limit: inbound, window: WINDOW * 24 }]))
+                .to.emit(f.adapter, "InboundRateLimitsChanged");
+            expect((await f.adapter.rateLimits(SATELLITE_EID)).window).to.equal(WINDOW);
+            expect((await f.adapter.inboundRateLimits(SATELLITE_EID)).window).to.equal(WINDOW * 24);
+
+            // Over the inbound limit: queued for user1 instead of reverting (see InboundQueue.test.ts)
+            const over = ethers.parseUnits("2000", 18);
+            await expect(f.sim.deliver(await bridgeBack(user1, user1Addr, over)))
+                .to.emit(f.adapter, "InboundQueued")
+                .withArgs(user1Addr, 0, SATELLITE_EID, over);
+            await expect(f.adapter.connect(user1).setInboundRateLimits([])).to.be.revertedWithCustomError(f.adapter, "OnlyRateLimiter");
+        });
+
+        describe("source eid without an inbound limit", function () {
+            // A peer added without inbound limits (e.g. a later lane); the deployer stands in for its OApp
+            const OTHER_EID = 40999;
+
+            async function packetFrom(receiver: string, dstEid: number, nonce: bigint, amount: bigint) {
+                return {
+                    nonce,
+                    srcEid: OTHER_EID,
+                    sender: deployerAddr,
+                    dstEid,
+                    receiver,
+                    guid: ethers.id(`other-${receiver}-${nonce}`),
+                    message: ethers.solidityPacked(["bytes32", "uint64"], [ethers.zeroPadValue(user1Addr, 32), amount / 10n ** 12n]),
+                    options: "0x"
+                };
+            }
+
+            it("mints on the satellite without limit until one is set, and receives nothing under a zero limit", async function () {
+                const oftAddr = await f.oft.getAddress();
+                await f.oft.setPeer(OTHER_EID, ethers.zeroPadValue(deployerAddr, 32));
+                expect(await f.oft.getAmountCanBeReceived(OTHER_EID)).to.deep.equal([0n, ethers.MaxUint256]);
+
+                const amount = LIMIT * 3n;
+                await expect(f.sim.deliver(await packetFrom(oftAddr, SATELLITE_EID, 1n, amount)))
+                    .to.emit(f.oft, "OFTReceived")
+                    .and.not.to.emit(f.oft, "InflowRateConsumed");
+                expect(await f.oft.balanceOf(user1Addr)).to.equal(amount);
+
+                await f.oft.setInboundRateLimits([{ dstEid: OTHER_EID, limit: 0, window: WINDOW }]);
+                expect(await f.oft.getAmountCanBeReceived(OTHER_EID)).to.deep.equal([0n, 0n]);
+                const blocked = await packetFrom(oftAddr, SATELLITE_EID, 2n, ethers.parseUnits("1", 18));
+                await f.sim.verify(blocked);
+                await expect(f.sim.execute(blocked)).to.be.revertedWithCustomError(f.oft, "RateLimitExceeded");
+            });
+
+            it("unlocks on the adapter without queueing until a limit is set, and queues everything under a zero limit", async function () {
+                const adapterAddr = await f.adapter.getAddress();
+                await f.sim.deliver(await bridgeOut(deployer, user1Addr, LIMIT));
+                await f.adapter.setPeer(OTHER_EID, ethers.zeroPadValue(deployerAddr, 32));
+
+                const amount = LIMIT / 2n;
+                await expect(f.sim.deliver(await packetFrom(adapterAddr, HOME_EID, 1n, amount)))
+                    .to.emit(f.adapter, "OFTReceived")
+                    .withArgs(ethers.id(`other-${adapterAddr}-1`), OTHER_EID, user1Addr, amount)
+                    .and.not.to.emit(f.adapter, "InboundQueued");
+                expect(await f.token.balanceOf(user1Addr)).to.equal(amount);
+
+                await f.adapter.setInboundRateLimits([{ dstEid: OTHER_EID, limit: 0, window: WINDOW }]);
+                await expect(f.sim.deliver(await packetFrom(adapterAddr, HOME_EID, 2n, amount)))
+                    .to.emit(f.adapter, "InboundQueued")
+                    .withArgs(user1Addr, 0, OTHER_EID, amount);
+                expect(await f.token.balanceOf(user1Addr)).to.equal(amount);
+            });
+        });
+    });
+
+    describe("Delivery semantics", function () {
+        it("executes out-of-order packets only after every earlier nonce is verified", async function () {
+            const first = await bridgeOut(deployer, user1Addr, ethers.parseUnits("1", 18));
+            const second = await bridgeOut(deployer, user1Addr, ethers.parseUnits("2", 18));
+            expect(second.nonce).to.equal(first.nonce + 1n);
+
+            await f.sim.verify(second);
+            await expect(f.sim.execute(second))
+                .to.be.revertedWithCustomError(f.sim.endpoint(SATELLITE_EID), "LZ_InvalidNonce")
+                .withArgs(first.nonce);
+
+            await f.sim.deliver(first);
+            await f.sim.execute(second);
+            expect(await f.oft.balanceOf(user1Addr)).to.equal(ethers.parseUnits("3", 18));
+        });
+
+        it("rejects replaying a delivered packet", async function () {
+            const packet = await bridgeOut(deployer, user1Addr, ethers.parseUnits("5", 18));
+            await f.sim.deliver(packet);
+
+            const endpoint = f.sim.endpoint(SATELLITE_EID);
+            await expect(f.sim.execute(packet)).to.be.revertedWithCustomError(endpoint, "LZ_PayloadHashNotFound");
+            await expect(f.sim.verify(packet)).to.be.revertedWithCustomError(endpoint, "LZ_InvalidNonce");
+            expect(await f.oft.balanceOf(user1Addr)).to.equal(ethers.parseUnits("5", 18));
+        });
+
+        it("rejects packets from an address that is not the configured peer", async function () {
+            const packet = await bridgeOut(deployer, user1Addr, ethers.parseUnits("5", 18));
+            const spoofed = { ...packet, sender: user1Addr };
+            await f.sim.verify(spoofed);
+            await expect(f.sim.execute(spoofed)).to.be.revertedWithCustomError(f.oft, "OnlyPeer");
+            expect(await f.oft.totalSupply()).to.equal(0n);
+        });
+
+        it("keeps later packets blocked behind a dropped one until it is skipped", async function () {
+            const lost = await bridgeOut(deployer, user1Addr, ethers.parseUnits("1", 18));
+            const next = await bridgeOut(deployer, user1Addr, ethers.parseUnits("2", 18));
+            f.sim.drop(lost);
+            expect(f.sim.pending()).to.have.length(1);
+
+            await f.sim.verify(next);
+            await expect(f.sim.execute(next)).to.be.revertedWithCustomError(f.sim.endpoint(SATELLITE_EID), "LZ_InvalidNonce");
+
+            // The OFT owner is its endpoint delegate and can skip the lost nonce
+            await f.sim.endpoint(SATELLITE_EID).skip(
+                await f.oft.getAddress(),
+                HOME_EID,
+                ethers.zeroPadValue(await f.adapter.getAddress(), 32),
+                lost.nonce
+            );
+            await f.sim.execute(next);
+            expect(await f.oft.balanceOf(user1Addr)).to.equal(ethers.parseUnits("2", 18));
+            // Tokens of the dropped packet remain locked on the home chain
+            expect(await f.token.balanceOf(await f.adapter.getAddress())).to.equal(ethers.parseUnits("3", 18));
+        });
+
+        it("delivers delayed packets after the outbound window has elapsed", async function () {
+            const packet = await bridgeOut(deployer, user1Addr, ethers.parseUnits("7", 18));
+            await time.increase(7 * 24 * 3600);
+            await f.sim.deliverAll();
+            expect(await f.oft.balanceOf(user1Addr)).to.equal(ethers.parseUnits("7", 18));
+            expect(f.sim.pending().map((p) => p.guid)).to.not.include(packet.guid);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { auditSupply } from "../scripts/lib/audit";
+import { quoteTransfer } from "../scripts/lib/quote";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Bridge fees", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let treasury: Signer;
+    let deployerAddr: string;
+    let user1Addr: string;
+    let treasuryAddr: string;
+    let f: BridgeFixture;
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+    const noFee = { nativeFee: 0n, lzTokenFee: 0n };
+
+    beforeEach(async function () {
+        [deployer, user1, treasury] = await ethers.getSigners();
+        [deployerAddr, user1Addr, treasuryAddr] = await Promise.all([deployer, user1, treasury].map((s) => s.getAddress()));
+        f = await deployBridgeFixture();
+        await f.token.approve(await f.adapter.getAddress(), ethers.MaxUint256);
+    });
+
+    it("applies the default fee unless a destination override is enabled, and reports it in quoteOFT", async function () {
+        const adapter = await f.adapter.getAddress();
+        expect((await quoteTransfer(deployer, adapter, { dstEid: SATELLITE_EID, to: user1Addr, amountLD: units(1000) })).feeDetails)
+            .to.deep.equal([]);
+
+        await expect(f.adapter.setDefaultFeeBps(50)).to.emit(f.adapter, "DefaultFeeBpsSet").withArgs(50);
+        // Dust below the 6 shared decimals goes to the fee as well
+        const amount = units(1000) + 123n;
+        const quote = await quoteTransfer(deployer, adapter, { dstEid: SATELLITE_EID, to: user1Addr, amountLD: amount });
+        expect([quote.amountSentLD, quote.amountReceivedLD, quote.bridgeFeeLD]).to.deep.equal([amount, units(995), units(5) + 123n]);
+        expect(quote.feeDetails[0].description).to.equal("FDFI bridge fee");
+
+        await f.adapter.setFeeBps(SATELLITE_EID, 10, true);
+        expect(await f.adapter.getFee(SATELLITE_EID, units(1000))).to.equal(units(1));
+        await f.adapter.setFeeBps(SATELLITE_EID, 10, false);
+        expect(await f.adapter.getFee(SATELLITE_EID, units(1000))).to.equal(units(5));
+
+        await expect(f.adapter.setDefaultFeeBps(10_001)).to.be.revertedWithCustomError(f.adapter, "InvalidBps");
+        await expect(f.oft.connect(user1).setFeeBps(HOME_EID, 10, true)).to.be.revertedWithCustomError(f.oft, "OwnableUnauthorizedAccount");
+    });
+
+    it("deducts the fee on both sides; sends whose minAmountLD ignores it fail the slippage check", async function () {
+        await f.adapter.setDefaultFeeBps(100);
+        await expect(f.adapter.send(sendParam(SATELLITE_EID, user1Addr, units(1000)), noFee, deployerAddr))
+            .to.be.revertedWithCustomError(f.adapter, "SlippageExceeded")
+            .withArgs(units(990), units(1000));
+
+        const out = await quoteTransfer(deployer, await f.adapter.getAddress(), { dstEid: SATELLITE_EID, to: user1Addr, amountLD: units(1000) });
+        expect(out.sendParam.minAmountLD).to.equal(units(990));
+        const [packet] = await f.sim.capture(await f.adapter.send(out.sendParam, out.messagingFee, deployerAddr));
+        await f.sim.deliver(packet);
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(units(990));
+        expect(await f.adapter.feeBalance()).to.equal(units(10));
+
+        // Satellite side: the fee is moved to the OFT itself, only the rest is burned
+        await f.oft.setFeeBps(HOME_EID, 50, true);
+        const back = await quoteTransfer(user1, await f.oft.getAddress(), { dstEid: HOME_EID, to: user1Addr, amountLD: units(500) });
+        await f.sim.deliver((await f.sim.capture(await f.oft.connect(user1).send(back.sendParam, back.messagingFee, user1Addr)))[0]);
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(497.5));
+        expect(await f.oft.balanceOf(await f.oft.getAddress())).to.equal(units(2.5));
+        expect(await f.oft.feeBalance()).to.equal(units(2.5));
+
+        // Adapter fees back nothing remotely: the supply audit nets them out
+        const report = await auditSupply(
+            [
+                { network: "home", eid: HOME_EID, role: "home", address: await f.adapter.getAddress(), provider: ethers.provider },
+                { network: "satellite", eid: SATELLITE_EID, role: "satellite", address: await f.oft.getAddress(), provider: ethers.provider }
+            ],
+            { tolerance: 0n }
+        );
+        expect([report.status, report.home.fees]).to.deep.equal(["ok", units(10).toString()]);
+    });
+
+    it("tolerates a fee increase within the quoted slippage", async function () {
+        await f.adapter.setDefaultFeeBps(50);
+        const quote = await quoteTransfer(deployer, await f.adapter.getAddress(), {
+            dstEid: SATELLITE_EID,
+            to: user1Addr,
+            amountLD: units(1000),
+            slippageBps: 20
+        });
+        expect(quote.sendParam.minAmountLD).to.equal(units(995) - units(1.99));
+
+        await f.adapter.setDefaultFeeBps(100);
+        await expect(f.adapter.send(quote.sendParam, quote.messagingFee, deployerAddr)).to.be.revertedWithCustomError(f.adapter, "SlippageExceeded");
+        await f.adapter.setDefaultFeeBps(65);
+        await expect(f.adapter.send(quote.sendParam, quote.messagingFee, deployerAddr)).to.emit(f.adapter, "OFTSent");
+    });
+
+    it("lets the fee withdrawer (or owner) claim accrued fees", async function () {
+        await f.adapter.setDefaultFeeBps(100);
+        await f.adapter.send(sendParam(SATELLITE_EID, user1Addr, units(1000), units(990)), noFee, deployerAddr);
+
+        await expect(f.adapter.connect(user1).withdrawFees(user1Addr)).to.be.revertedWithCustomError(f.adapter, "OnlyFeeWithdrawer");
+        await expect(f.adapter.setFeeWithdrawer(treasuryAddr)).to.emit(f.adapter, "FeeWithdrawerSet").withArgs(treasuryAddr);
+        await expect(f.adapter.connect(treasury).withdrawFees(treasuryAddr))
+            .to.emit(f.adapter, "FeeWithdrawn")
+            .withArgs(treasuryAddr, units(10));
+        expect(await f.token.balanceOf(treasuryAddr)).to.equal(units(10));
+        expect(await f.token.balanceOf(await f.adapter.getAddress())).to.equal(units(990));
+        await expect(f.adapter.withdrawFees(treasuryAddr)).to.be.revertedWithCustomError(f.adapter, "NoFeesToWithdraw");
+    });
+});
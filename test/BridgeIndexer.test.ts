@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { Signer } from "ethers";
+import type Database from "better-sqlite3";
+import { formatTransfer, IndexerTarget, openBridgeIndex, queryRateLimitEvents, queryTransfers, syncBridgeIndex } from "../scripts/lib/indexer";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Bridge history indexer", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let deployerAddr: string;
+    let user1Addr: string;
+    let f: BridgeFixture;
+    let db: Database.Database;
+    let targets: IndexerTarget[];
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+    const noFee = { nativeFee: 0n, lzTokenFee: 0n };
+
+    async function bridgeToSatellite(to: string, amount: bigint) {
+        const [message] = await f.sim.capture(await f.adapter.send(sendParam(SATELLITE_EID, to, amount), noFee, deployerAddr));
+        return message;
+    }
+
+    beforeEach(async function () {
+        [deployer, user1] = await ethers.getSigners();
+        [deployerAddr, user1Addr] = await Promise.all([deployer, user1].map((s) => s.getAddress()));
+        f = await deployBridgeFixture();
+        await f.token.approve(await f.adapter.getAddress(), ethers.MaxUint256);
+
+        const startBlock = await ethers.provider.getBlockNumber();
+        targets = [
+            { network: "home", eid: HOME_EID, role: "home", address: await f.adapter.getAddress(), provider: ethers.provider, startBlock },
+            { network: "satellite", eid: SATELLITE_EID, role: "satellite", address: await f.oft.getAddress(), provider: ethers.provider, startBlock }
+        ];
+        db = openBridgeIndex(":memory:");
+    });
+
+    afterEach(function () {
+        db.close();
+    });
+
+    it("matches sends to receives by GUID and answers queries by address, GUID and eid", async function () {
+        const first = await bridgeToSatellite(user1Addr, units(100));
+        await f.sim.deliver(first);
+        const second = await bridgeToSatellite(deployerAddr, units(40));
+
+        await syncBridgeIndex(db, targets, { confirmations: 0 });
+        const transfers = queryTransfers(db);
+        expect(transfers.map((t) => [t.guid, t.status, t.srcEid, t.dstEid])).to.deep.equal([
+            [first.guid.toLowerCase(), "delivered", HOME_EID, SATELLITE_EID],
+            [second.guid.toLowerCase(), "in-flight", HOME_EID, SATELLITE_EID]
+        ]);
+        expect(transfers[0].sent).to.include({ network: "home", from: deployerAddr.toLowerCase(), amountSent: units(100).toString() });
+        expect(transfers[0].received).to.include({ network: "satellite", to: user1Addr.toLowerCase(), amount: units(100).toString() });
+
+        expect(queryTransfers(db, { address: user1Addr }).map((t) => t.guid)).to.deep.equal([first.guid.toLowerCase()]);
+        expect(queryTransfers(db, { guid: second.guid })).to.have.length(1);
+        expect(queryTransfers(db, { eid: SATELLITE_EID })).to.have.length(2);
+        expect(queryTransfers(db, { eid: 30101 })).to.have.length(0);
+
+        // The next sync starts from the checkpoint and completes the in-flight transfer
+        await f.sim.deliver(second);
+        const [home, satellite] = await syncBridgeIndex(db, targets, { confirmations: 0 });
+        expect([home.events, satellite.events]).to.deep.equal([0, 2]);
+        expect(queryTransfers(db, { guid: second.guid })[0].status).to.equal("delivered");
+    });
+
+    it("records rate limit consumption and configuration changes", async function () {
+        await f.adapter.setRateLimiter(user1Addr);
+        await f.adapter.connect(user1).setRateLimits([{ dstEid: SATELLITE_EID, limit: units(5000), window: 600 }]);
+        await f.sim.deliver(await bridgeToSatellite(user1Addr, units(100)));
+
+        await syncBridgeIndex(db, targets, { confirmations: 0, batchSize: 3 });
+        expect(queryRateLimitEvents(db).map((e) => `${e.network} ${e.name}`)).to.deep.equal([
+            "home RateLimiterSet",
+            "home RateLimitsChanged",
+            "home OutflowRateConsumed",
+            "satellite InflowRateConsumed"
+        ]);
+        const [changed] = queryRateLimitEvents(db, { eid: HOME_EID }).filter((e) => e.name === "RateLimitsChanged");
+        expect(changed.args.rateLimitConfigs).to.deep.equal([{ dstEid: SATELLITE_EID, limit: units(5000).toString(), window: "600" }]);
+        expect(queryRateLimitEvents(db, { address: user1Addr }).map((e) => e.name)).to.deep.equal(["RateLimiterSet"]);
+        const [outflow] = queryRateLimitEvents(db, { eid: SATELLITE_EID }).filter((e) => e.network === "home");
+        expect([outflow.amount, outflow.args.remainingCapacity]).to.deep.equal([units(100).toString(), units(4900).toString()]);
+    });
+
+    it("reports transfers held in the adapter's inbound queue until they are released or cancelled", async function () {
+        await f.adapter.setInboundRateLimits([{ dstEid: SATELLITE_EID, limit: units(50), window: 3600 }]);
+        await f.sim.deliver(await bridgeToSatellite(user1Addr, units(100)));
+        const bridgeBack = async (amount: bigint) => {
+            const tx = await f.oft.connect(user1).send(sendParam(HOME_EID, user1Addr, amount), noFee, user1Addr);
+            const [message] = await f.sim.capture(tx);
+            await f.sim.deliver(message);
+            return message.guid.toLowerCase();
+        };
+        const credited = await bridgeBack(units(30));
+        const released = await bridgeBack(units(40));
+        const cancelled = await bridgeBack(units(25));
+
+        // Small batches: the release / cancel below are linked through rows committed in an earlier batch
+        await syncBridgeIndex(db, targets, { confirmations: 0, batchSize: 2 });
+        const queued = queryTransfers(db, { eid: HOME_EID }).filter((t) => t.srcEid === SATELLITE_EID);
+        expect(queued.map((t) => [t.guid, t.status, t.received?.amount, t.queue?.amount])).to.deep.equal([
+            [credited, "delivered", units(30).toString(), undefined],
+            [released, "queued", "0", units(40).toString()],
+            [cancelled, "queued", "0", units(25).toString()]
+        ]);
+        expect(formatTransfer(queued[1])).to.contain("queued   #0 40.0 FDFI, waiting for inbound capacity");
+
+        await f.adapter.releaseQueuedEarly(user1Addr, 0);
+        await f.adapter.cancelQueued(user1Addr, 1, "forged");
+        await syncBridgeIndex(db, targets, { confirmations: 0, batchSize: 2 });
+        const [releasedTransfer, cancelledTransfer] = [released, cancelled].map((guid) => queryTransfers(db, { guid })[0]);
+        expect([releasedTransfer.status, releasedTransfer.queue?.outcome?.early]).to.deep.equal(["delivered", true]);
+        expect([cancelledTransfer.status, cancelledTransfer.queue?.outcome?.reason]).to.deep.equal(["cancelled", "forged"]);
+        expect(formatTransfer(cancelledTransfer)).to.contain("queued   #1 25.0 FDFI, cancelled (forged)");
+        expect(queryRateLimitEvents(db).map((e) => e.name)).to.not.include("InboundQueued");
+    });
+
+    it("waits for confirmations and re-indexes blocks dropped by a reorg", async function () {
+        const kept = await bridgeToSatellite(user1Addr, units(10));
+        await syncBridgeIndex(db, targets, { confirmations: 3 });
+        expect(queryTransfers(db)).to.have.length(0);
+        await network.provider.send("hardhat_mine", ["0x3"]);
+        await syncBridgeIndex(db, targets, { confirmations: 3 });
+        expect(queryTransfers(db)).to.have.length(1);
+
+        // Index a send, then replace its block with a different one
+        const snapshot = await network.provider.send("evm_snapshot");
+        await bridgeToSatellite(user1Addr, units(20));
+        await syncBridgeIndex(db, targets, { confirmations: 0 });
+        expect(queryTransfers(db)).to.have.length(2);
+        await network.provider.send("evm_revert", [snapshot]);
+        const replacement = await bridgeToSatellite(deployerAddr, units(30));
+
+        const [home] = await syncBridgeIndex(db, targets, { confirmations: 0 });
+        expect(home.rewound).to.be.greaterThan(0);
+        // Same nonce, hence the same GUID as the orphaned send: only the replacement's data is left
+        const transfers = queryTransfers(db);
+        expect(transfers.map((t) => t.guid)).to.deep.equal([kept.guid, replacement.guid].map((g) => g.toLowerCase()));
+        expect(transfers[1].sent?.amountSent).to.equal(units(30).toString());
+        expect(queryRateLimitEvents(db).map((e) => e.amount)).to.deep.equal([units(10), units(30)].map(String));
+    });
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { SnapshotRestorer, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FDFIBridgeRouter } from "../typechain-types";
+import { BridgeRoute, decodeOFTEvents, quoteBridge, relayIntent, resolveRoute, sendWithPermit, signBridgeIntent, signPermit } from "../sdk";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture } from "./helpers/bridgeFixture";
+
+describe("FDFIBridgeRouter", function () {
+    let user1: Signer;
+    let relayer: Signer;
+    let user1Addr: string;
+    let relayerAddr: string;
+    let f: BridgeFixture;
+    let router: FDFIBridgeRouter;
+    let route: BridgeRoute;
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+    const nativeFee = ethers.parseEther("0.01");
+
+    async function revertReason(promise: Promise<unknown>): Promise<string> {
+        try {
+            await promise;
+        } catch (e) {
+            return (e as Error).message;
+        }
+        throw new Error("expected a revert");
+    }
+
+    // The expiry cases move the clock past their deadlines; restore it afterwards
+    let snapshot: SnapshotRestorer;
+    before(async function () {
+        snapshot = await takeSnapshot();
+    });
+    after(async function () {
+        await snapshot.restore();
+    });
+
+    beforeEach(async function () {
+        [, user1, relayer] = await ethers.getSigners();
+        [user1Addr, relayerAddr] = await Promise.all([user1.getAddress(), relayer.getAddress()]);
+        f = await deployBridgeFixture();
+        router = await (await ethers.getContractFactory("FDFIBridgeRouter")).deploy(await f.adapter.getAddress());
+        await f.sim.endpoint(HOME_EID).setNativeFee(nativeFee);
+        await f.token.transfer(user1Addr, units(1000));
+        route = resolveRoute(
+            [
+                { name: "home", eid: HOME_EID, kind: "adapter", oapp: await f.adapter.getAddress(), router: await router.getAddress() },
+                { name: "satellite", eid: SATELLITE_EID, kind: "oft", oapp: await f.oft.getAddress() }
+            ],
+            "home",
+            "satellite"
+        );
+    });
+
+    it("bridges with a permit in one transaction and returns the dust", async function () {
+        const amount = units(100) + 123n;
+        const quote = await quoteBridge(user1, route, { to: user1Addr, amountLD: amount });
+        const sent = await sendWithPermit(user1, quote);
+
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(900));
+        expect(await f.token.balanceOf(await router.getAddress())).to.equal(0n);
+        const [routed] = sent.receipt.logs
+            .filter((log) => log.address === route.src.router)
+            .map((log) => router.interface.parseLog(log)!);
+        expect([routed.name, routed.args.guid, routed.args.owner, routed.args.relayer])
+            .to.deep.equal(["RoutedSend", sent.guid, user1Addr, ethers.ZeroAddress]);
+
+        const delivery = await (await f.sim.deliver((await f.sim.capture(sent.receipt))[0])).wait();
+        expect(decodeOFTEvents(delivery!.logs)[0]).to.deep.include({ guid: sent.guid, to: user1Addr, amountReceivedLD: units(100) });
+    });
+
+    it("rejects expired and replayed permits", async function () {
+        const token = f.token.connect(user1);
+        const quote = await quoteBridge(user1, route, { to: user1Addr, amountLD: units(10) });
+        const send = (permit: { value: bigint; deadline: bigint; v: number; r: string; s: string }) =>
+            router.connect(user1).sendWithPermit(quote.sendParam, quote.messagingFee, user1Addr, permit, { value: nativeFee });
+
+        const expiring = await signPermit(user1, token, await router.getAddress(), units(10), BigInt(await time.latest()) + 60n);
+        await time.increase(120);
+        expect(await revertReason(send(expiring))).to.contain("ERC20InsufficientAllowance");
+
+        const permit = await signPermit(user1, token, await router.getAddress(), units(10));
+        await send(permit);
+        // The nonce is spent: the second permit fails and the consumed allowance no longer covers the pull
+        expect(await revertReason(send(permit))).to.contain("ERC20InsufficientAllowance");
+        expect(await f.token.nonces(user1Addr)).to.equal(1n);
+    });
+
+    it("lets a relayer pay the LayerZero fee for a signed intent and take its FDFI fee", async function () {
+        const quote = await quoteBridge(user1, route, { to: user1Addr, amountLD: units(100) });
+        const signed = await signBridgeIntent(user1, quote, { relayerFeeLD: units(2) });
+        const ethBefore = await ethers.provider.getBalance(user1Addr);
+
+        const sent = await relayIntent(relayer, route, signed);
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(898));
+        expect(await f.token.balanceOf(relayerAddr)).to.equal(units(2));
+        expect(await ethers.provider.getBalance(user1Addr)).to.equal(ethBefore);
+        expect(await router.nonces(user1Addr)).to.equal(1n);
+
+        await f.sim.deliver((await f.sim.capture(sent.receipt))[0]);
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(units(100));
+
+        // Replaying the same intent (and permit) hits the used nonce
+        expect(await revertReason(relayIntent(relayer, route, signed))).to.contain("InvalidAccountNonce");
+    });
+
+    it("rejects expired, tampered and withdrawn intents", async function () {
+        const quote = await quoteBridge(user1, route, { to: user1Addr, amountLD: units(100) });
+        const expiring = await signBridgeIntent(user1, quote, { relayerFeeLD: units(1), deadline: BigInt(await time.latest()) + 60n });
+        await time.increase(120);
+        expect(await revertReason(relayIntent(relayer, route, expiring))).to.contain("IntentExpired");
+
+        const signed = await signBridgeIntent(user1, quote, { relayerFeeLD: units(1) });
+        const tampered = { ...signed, intent: { ...signed.intent, relayerFeeLD: units(50) } };
+        expect(await revertReason(relayIntent(relayer, route, tampered))).to.contain("InvalidIntentSignature");
+
+        await router.connect(user1).invalidateNonce();
+        expect(await revertReason(relayIntent(relayer, route, signed))).to.contain("InvalidAccountNonce");
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(1000));
+    });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { buildExecutorOptions } from "../scripts/lib/options";
+import { BridgeChain, bridge, decodeOFTEvents, ensureAllowance, quoteBridge, resolveRoute, sendBridge } from "../sdk";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, deploySatelliteOFT } from "./helpers/bridgeFixture";
+
+describe("Bridge SDK", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let user1Addr: string;
+    let f: BridgeFixture;
+    let chains: BridgeChain[];
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+
+    function expectThrows(fn: () => unknown): string {
+        try {
+            fn();
+        } catch (e) {
+            return (e as Error).message;
+        }
+        throw new Error("expected an error");
+    }
+
+    beforeEach(async function () {
+        [deployer, user1] = await ethers.getSigners();
+        user1Addr = await user1.getAddress();
+        f = await deployBridgeFixture();
+        chains = [
+            { name: "home", eid: HOME_EID, kind: "adapter", oapp: await f.adapter.getAddress() },
+            { name: "satellite", eid: SATELLITE_EID, kind: "oft", oapp: await f.oft.getAddress() }
+        ];
+    });
+
+    it("resolves routes by chain name or eid", async function () {
+        const route = resolveRoute(chains, "home", SATELLITE_EID);
+        expect([route.src.name, route.dst.name]).to.deep.equal(["home", "satellite"]);
+        expect(expectThrows(() => resolveRoute(chains, "home", "mainnet"))).to.match(/Unknown chain mainnet/);
+        expect(expectThrows(() => resolveRoute(chains, HOME_EID, "home"))).to.match(/does not cross chains/);
+    });
+
+    it("quotes with executor options and the bridge fee, approves, and sends; the GUID matches the delivery", async function () {
+        await f.adapter.setDefaultFeeBps(100);
+        const route = resolveRoute(chains, "home", "satellite");
+        const quote = await quoteBridge(deployer, route, { to: user1Addr, amountLD: units(1000), executor: { lzReceiveGas: 250_000 } });
+        expect(quote.sendParam.extraOptions).to.equal(buildExecutorOptions({ lzReceiveGas: 250_000 }));
+        expect([quote.amountReceivedLD, quote.sendParam.minAmountLD, quote.bridgeFeeLD]).to.deep.equal([units(990), units(990), units(10)]);
+
+        await f.token.approve(route.src.oapp, 0n);
+        expect(await ensureAllowance(deployer, route, quote.amountSentLD)).to.not.equal(null);
+        expect(await ensureAllowance(deployer, route, quote.amountSentLD)).to.equal(null);
+
+        const sent = await sendBridge(deployer, quote);
+        expect([sent.amountSentLD, sent.amountReceivedLD]).to.deep.equal([units(1000), units(990)]);
+        const [packet] = await f.sim.capture(sent.receipt);
+        expect(packet.guid).to.equal(sent.guid);
+
+        const delivery = await (await f.sim.deliver(packet)).wait();
+        const [received] = decodeOFTEvents(delivery!.logs);
+        expect(received).to.deep.include({ type: "received", guid: sent.guid, srcEid: HOME_EID, to: user1Addr, amountReceivedLD: units(990) });
+        expect(received.address).to.equal(route.dst.oapp);
+    });
+
+    it("uses a permit instead of approve() on the home chain and needs no allowance on satellites", async function () {
+        const out = resolveRoute(chains, "home", "satellite");
+        await f.token.transfer(user1Addr, units(100));
+        const sent = await bridge(user1, out, { to: user1Addr, amountLD: units(100) }, { permit: true });
+        expect(await f.token.nonces(user1Addr)).to.equal(1n);
+        expect(await f.token.allowance(user1Addr, out.src.oapp)).to.equal(0n);
+        await f.sim.deliver((await f.sim.capture(sent.receipt))[0]);
+
+        const back = resolveRoute(chains, "satellite", "home");
+        const returned = await bridge(user1, back, { to: user1Addr, amountLD: units(40) });
+        await f.sim.deliver((await f.sim.capture(returned.receipt))[0]);
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(40));
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(units(60));
+    });
+
+    it("refuses to quote a route that is not wired", async function () {
+        // Satellite OFT deployed but not yet peered with the adapter
+        const stale = await deploySatelliteOFT(f.sim, SATELLITE_EID, []);
+        const route = resolveRoute([chains[0], { ...chains[1], name: "third", oapp: await stale.getAddress() }], "home", "third");
+        let error: Error | undefined;
+        try {
+            await quoteBridge(deployer, route, { to: user1Addr, amountLD: units(1) });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/home -> third is not wired/);
+    });
+});
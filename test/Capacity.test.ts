@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { capacityAlerts, CapacityTarget, formatCapacityTable, readLaneCapacities } from "../scripts/lib/capacity";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Rate limit capacity", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let user1Addr: string;
+    let f: BridgeFixture;
+
+    const LIMIT = ethers.parseUnits("10000", 18);
+    const UNSET_EID = 40999;
+
+    beforeEach(async function () {
+        [deployer, user1] = await ethers.getSigners();
+        user1Addr = await user1.getAddress();
+        f = await deployBridgeFixture({ limit: LIMIT, window: 86400 });
+
+        const amount = ethers.parseUnits("9500", 18);
+        await f.token.approve(await f.adapter.getAddress(), amount);
+        const tx = await f.adapter.send(sendParam(SATELLITE_EID, user1Addr, amount), { nativeFee: 0n, lzTokenFee: 0n }, await deployer.getAddress());
+        await f.sim.deliver((await f.sim.capture(tx))[0]);
+    });
+
+    it("returns outbound and inbound state of several lanes in one call", async function () {
+        const [lane, unset] = await f.adapter.getLaneCapacities([SATELLITE_EID, UNSET_EID]);
+        expect(lane.eid).to.equal(BigInt(SATELLITE_EID));
+        expect([lane.outbound.limit, lane.outbound.window]).to.deep.equal([LIMIT, 86400n]);
+        expect(lane.outbound.amountInFlight + lane.outbound.remaining).to.equal(LIMIT);
+        expect(lane.outbound.remaining).to.be.closeTo(ethers.parseUnits("500", 18), ethers.parseUnits("1", 18));
+        expect([lane.inbound.amountInFlight, lane.inbound.remaining]).to.deep.equal([0n, LIMIT]);
+        expect([unset.outbound.limit, unset.inbound.limit]).to.deep.equal([0n, 0n]);
+
+        const [oftLane] = await f.oft.getLaneCapacities([HOME_EID]);
+        expect(oftLane.inbound.remaining).to.be.closeTo(ethers.parseUnits("500", 18), ethers.parseUnits("1", 18));
+        expect(oftLane.outbound.remaining).to.equal(LIMIT);
+    });
+
+    it("tabulates every configured lane and flags those under the alert threshold", async function () {
+        const targets: CapacityTarget[] = [
+            { network: "home", eid: HOME_EID, role: "home", address: await f.adapter.getAddress(), provider: ethers.provider, lanes: [SATELLITE_EID] },
+            { network: "satellite", eid: SATELLITE_EID, role: "satellite", address: await f.oft.getAddress(), provider: ethers.provider, lanes: [HOME_EID, UNSET_EID] }
+        ];
+        const rows = await readLaneCapacities(targets);
+        expect(rows.map((r) => `${r.network}:${r.direction}:${r.remoteEid}`)).to.deep.equal([
+            `home:outbound:${SATELLITE_EID}`,
+            `home:inbound:${SATELLITE_EID}`,
+            `satellite:outbound:${HOME_EID}`,
+            `satellite:inbound:${HOME_EID}`,
+            `satellite:outbound:${UNSET_EID}`,
+            `satellite:inbound:${UNSET_EID}`
+        ]);
+
+        // ~5% left on the home outbound / satellite inbound lanes; the unset eid can send nothing but receives without limit
+        const alerts = capacityAlerts(rows, 10).map((r) => `${r.network}:${r.direction}:${r.remoteEid}`);
+        expect(alerts).to.deep.equal([
+            `home:outbound:${SATELLITE_EID}`,
+            `satellite:inbound:${HOME_EID}`,
+            `satellite:outbound:${UNSET_EID}`
+        ]);
+        expect(capacityAlerts(rows, 1)).to.have.length(1);
+        expect(rows[5]).to.deep.include({ unlimited: true, remaining: ethers.MaxUint256 });
+
+        const table = formatCapacityTable(rows, 10);
+        expect(table.split("\n")[0]).to.match(/^Network\s+Lane\s+Direction/);
+        expect(table).to.contain("10,000").and.to.contain("ALERT").and.to.contain("unlimited");
+    });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FDFIComposer, FDFIVoteReporter, MockStaking } from "../typechain-types";
+import {
+    ComposeAction,
+    decodeComposeMsg,
+    decodeOFTComposeMessage,
+    delegateComposeMsg,
+    forwardComposeMsg,
+    signDelegation,
+    stakeComposeMsg
+} from "../scripts/lib/compose";
+import { quoteTransfer } from "../scripts/lib/quote";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture } from "./helpers/bridgeFixture";
+
+describe("FDFIComposer", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let user2: Signer;
+    let deployerAddr: string;
+    let user1Addr: string;
+    let user2Addr: string;
+    let f: BridgeFixture;
+    let composer: FDFIComposer;
+    let reporter: FDFIVoteReporter;
+    let staking: MockStaking;
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+
+    /// Bridges `amountLD` from home to the composer with `composeMsg` and delivers the packet (not the compose)
+    async function bridgeAndCall(amountLD: bigint, composeMsg: string) {
+        const quote = await quoteTransfer(deployer, await f.adapter.getAddress(), {
+            dstEid: SATELLITE_EID,
+            to: await composer.getAddress(),
+            amountLD,
+            composeMsg
+        });
+        const [packet] = await f.sim.capture(await f.adapter.send(quote.sendParam, quote.messagingFee, deployerAddr));
+        await f.sim.deliver(packet);
+        const [compose] = f.sim.pendingComposes();
+        return compose;
+    }
+
+    async function revertReason(promise: Promise<unknown>): Promise<string> {
+        try {
+            await promise;
+        } catch (e) {
+            return (e as Error).message;
+        }
+        throw new Error("expected a revert");
+    }
+
+    beforeEach(async function () {
+        [deployer, user1, user2] = await ethers.getSigners();
+        [deployerAddr, user1Addr, user2Addr] = await Promise.all([deployer, user1, user2].map((s) => s.getAddress()));
+        f = await deployBridgeFixture();
+        await f.token.approve(await f.adapter.getAddress(), ethers.MaxUint256);
+
+        const oft = await f.oft.getAddress();
+        reporter = await (await ethers.getContractFactory("FDFIVoteReporter"))
+            .deploy(oft, await f.sim.endpointAddress(SATELLITE_EID), deployerAddr);
+        await f.oft.setVoteReporter(await reporter.getAddress());
+        composer = await (await ethers.getContractFactory("FDFIComposer"))
+            .deploy(await f.sim.endpointAddress(SATELLITE_EID), oft, await reporter.getAddress());
+        staking = await (await ethers.getContractFactory("MockStaking")).deploy(oft);
+    });
+
+    it("forwards to the recipient or stakes on their behalf", async function () {
+        const payload = forwardComposeMsg(user1Addr);
+        expect(decodeComposeMsg(payload)).to.deep.equal({
+            action: ComposeAction.Forward,
+            recipient: user1Addr,
+            refundAddress: user1Addr,
+            params: "0x"
+        });
+
+        const compose = await bridgeAndCall(units(100), payload);
+        const message = decodeOFTComposeMessage(compose.message);
+        expect([message.srcEid, message.amountLD, message.composeFrom, message.composeMsg])
+            .to.deep.equal([HOME_EID, units(100), ethers.zeroPadValue(deployerAddr, 32), payload]);
+        await expect(f.sim.deliverCompose(compose))
+            .to.emit(composer, "ComposeExecuted")
+            .withArgs(compose.guid, ComposeAction.Forward, user1Addr, units(100));
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(units(100));
+
+        await f.sim.deliverCompose(await bridgeAndCall(units(40), stakeComposeMsg(user2Addr, await staking.getAddress())));
+        expect(await staking.staked(user2Addr)).to.equal(units(40));
+        expect(await f.oft.balanceOf(await composer.getAddress())).to.equal(0n);
+        expect(await f.oft.allowance(await composer.getAddress(), await staking.getAddress())).to.equal(0n);
+    });
+
+    it("delegates the recipient's satellite votes on arrival", async function () {
+        const expiry = BigInt(await time.latest()) + 86400n;
+        const delegation = await signDelegation(user1, await reporter.getAddress(), user2Addr, expiry);
+        await f.sim.deliverCompose(await bridgeAndCall(units(250), delegateComposeMsg(user1Addr, delegation)));
+
+        expect(await reporter.delegates(user1Addr)).to.equal(user2Addr);
+        expect(await reporter.getVotes(user2Addr)).to.equal(units(250));
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(units(250));
+    });
+
+    it("refunds on this chain when the action fails", async function () {
+        await staking.setClosed(true);
+        const staked = await bridgeAndCall(units(30), stakeComposeMsg(user1Addr, await staking.getAddress(), user2Addr));
+        await expect(f.sim.deliverCompose(staked))
+            .to.emit(composer, "ComposeRefunded")
+            .withArgs(staked.guid, ComposeAction.Stake, user2Addr, units(30), staking.interface.encodeErrorResult("StakingClosed"));
+        expect(await f.oft.balanceOf(user2Addr)).to.equal(units(30));
+
+        // Delegation signed by someone other than the recipient: the forward is rolled back with it
+        const forged = await signDelegation(user2, await reporter.getAddress(), user2Addr, BigInt(await time.latest()) + 86400n);
+        await f.sim.deliverCompose(await bridgeAndCall(units(20), delegateComposeMsg(user1Addr, forged, user2Addr)));
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(0n);
+        expect(await f.oft.balanceOf(user2Addr)).to.equal(units(50));
+        expect(await reporter.delegates(user1Addr)).to.equal(ethers.ZeroAddress);
+    });
+
+    it("reverts for native value, foreign senders and direct calls, leaving the compose retryable", async function () {
+        const compose = await bridgeAndCall(units(10), forwardComposeMsg(user1Addr));
+        expect(await revertReason(f.sim.deliverCompose(compose, { value: 1n }))).to.contain("NativeValueNotSupported");
+        await f.sim.deliverCompose(compose);
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(units(10));
+
+        // Anyone can queue a compose on the endpoint from their own address; the composer only trusts the OFT
+        const endpoint = f.sim.endpoint(SATELLITE_EID);
+        const spoofed = compose.message;
+        await endpoint.connect(user2).sendCompose(await composer.getAddress(), compose.guid, 1, spoofed);
+        const reason = await revertReason(endpoint.connect(user2).lzCompose(user2Addr, await composer.getAddress(), compose.guid, 1, spoofed, "0x"));
+        expect(reason).to.contain("OnlyOApp");
+
+        expect(await revertReason(composer.connect(user2).lzCompose(await f.oft.getAddress(), compose.guid, spoofed, user2Addr, "0x")))
+            .to.contain("OnlyEndpoint");
+        expect(await revertReason(composer.handleCompose(ComposeAction.Forward, user2Addr, 1n, "0x"))).to.contain("OnlySelf");
+    });
+});
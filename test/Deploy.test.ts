@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { deployNetwork } from "../scripts/lib/deploy";
+import { NetworkManifest, loadDeployments } from "../scripts/lib/manifest";
+
+describe("Deployment orchestrator", function () {
+    let deploymentsDir: string;
+
+    const HOME_EID = 40161;
+    const SATELLITE_EID = 40102;
+
+    const homeManifest: NetworkManifest = {
+        role: "home",
+        eid: HOME_EID,
+        rateLimits: [{ eid: SATELLITE_EID, limit: "10000", window: 3600 }]
+    };
+    const satelliteManifest: NetworkManifest = {
+        role: "satellite",
+        eid: SATELLITE_EID,
+        rateLimits: [{ eid: HOME_EID, limit: "5000", window: 7200 }]
+    };
+
+    beforeEach(function () {
+        deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-deployments-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    it("deploys token, adapter and mock endpoint on the home chain", async function () {
+        const [deployer] = await ethers.getSigners();
+        const deployments = await deployNetwork(homeManifest, deploymentsDir);
+
+        const { FDFIToken, FDFIOFTAdapter, LayerZeroEndpoint } = deployments.contracts;
+        expect(FDFIToken.implementation).to.be.properAddress;
+
+        const token = await ethers.getContractAt("FDFIToken", FDFIToken.address);
+        expect(await token.owner()).to.equal(deployer.address);
+
+        const adapter = await ethers.getContractAt("FDFIOFTAdapter", FDFIOFTAdapter.address);
+        expect(await adapter.token()).to.equal(FDFIToken.address);
+        expect(await adapter.endpoint()).to.equal(LayerZeroEndpoint.address);
+        const rateLimit = await adapter.rateLimits(SATELLITE_EID);
+        expect(rateLimit.limit).to.equal(ethers.parseUnits("10000", 18));
+        expect(rateLimit.window).to.equal(3600n);
+
+        // Written to disk with the schema version and chain metadata
+        const written = loadDeployments("hardhat", deploymentsDir)!;
+        expect(written.version).to.equal(1);
+        expect(written.eid).to.equal(HOME_EID);
+        expect(written.contracts.FDFIOFTAdapter.address).to.equal(FDFIOFTAdapter.address);
+    });
+
+    it("skips steps that are already deployed when re-run", async function () {
+        const first = await deployNetwork(homeManifest, deploymentsDir);
+        const blockBefore = await ethers.provider.getBlockNumber();
+
+        const second = await deployNetwork(homeManifest, deploymentsDir);
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+        expect(second.contracts).to.deep.equal(first.contracts);
+    });
+
+    it("redeploys a recorded contract whose address has no code", async function () {
+        const first = await deployNetwork(homeManifest, deploymentsDir);
+        const file = path.join(deploymentsDir, "hardhat.json");
+        const stale = JSON.parse(fs.readFileSync(file, "utf8"));
+        stale.contracts.FDFIOFTAdapter.address = ethers.Wallet.createRandom().address;
+        fs.writeFileSync(file, JSON.stringify(stale));
+
+        const second = await deployNetwork(homeManifest, deploymentsDir);
+        expect(second.contracts.FDFIToken.address).to.equal(first.contracts.FDFIToken.address);
+        expect(second.contracts.FDFIOFTAdapter.address).to.not.equal(stale.contracts.FDFIOFTAdapter.address);
+        expect(await ethers.provider.getCode(second.contracts.FDFIOFTAdapter.address)).to.not.equal("0x");
+    });
+
+    it("deploys the OFT proxy on a satellite chain", async function () {
+        const [deployer] = await ethers.getSigners();
+        const deployments = await deployNetwork(satelliteManifest, deploymentsDir);
+
+        const { FDFIOFTUpgradeable, LayerZeroEndpoint } = deployments.contracts;
+        expect(deployments.contracts.FDFIToken).to.be.undefined;
+        expect(FDFIOFTUpgradeable.implementation).to.be.properAddress;
+
+        const oft = await ethers.getContractAt("FDFIOFTUpgradeable", FDFIOFTUpgradeable.address);
+        expect(await oft.name()).to.equal("FDFI Token");
+        expect(await oft.symbol()).to.equal("FDFI");
+        expect(await oft.owner()).to.equal(deployer.address);
+        expect(await oft.endpoint()).to.equal(LayerZeroEndpoint.address);
+        expect((await oft.rateLimits(HOME_EID)).limit).to.equal(ethers.parseUnits("5000", 18));
+        expect((await oft.inboundRateLimits(HOME_EID)).limit).to.equal(ethers.parseUnits("5000", 18));
+    });
+
+    it("deploys the composer for the satellite OFT when asked", async function () {
+        const deployments = await deployNetwork({ ...satelliteManifest, composer: true }, deploymentsDir);
+        const { FDFIComposer, FDFIOFTUpgradeable, LayerZeroEndpoint } = deployments.contracts;
+
+        const composer = await ethers.getContractAt("FDFIComposer", FDFIComposer.address);
+        expect([await composer.oApp(), await composer.token(), await composer.endpoint(), await composer.votes()])
+            .to.deep.equal([FDFIOFTUpgradeable.address, FDFIOFTUpgradeable.address, LayerZeroEndpoint.address, ethers.ZeroAddress]);
+    });
+
+    it("deploys the blocklist and sets it on the token and adapter", async function () {
+        const [, compliance, quarantine] = await ethers.getSigners();
+        const blocklist = { quarantine: quarantine.address, blocklister: compliance.address };
+        const deployments = await deployNetwork({ ...homeManifest, blocklist }, deploymentsDir);
+        const { FDFIBlocklist, FDFIToken, FDFIOFTAdapter } = deployments.contracts;
+
+        const list = await ethers.getContractAt("FDFIBlocklist", FDFIBlocklist.address);
+        expect([await list.quarantine(), await list.blocklister()]).to.deep.equal([quarantine.address, compliance.address]);
+        expect(await (await ethers.getContractAt("FDFIToken", FDFIToken.address)).blocklist()).to.equal(FDFIBlocklist.address);
+        expect(await (await ethers.getContractAt("FDFIOFTAdapter", FDFIOFTAdapter.address)).blocklist()).to.equal(FDFIBlocklist.address);
+    });
+
+    it("applies separate inbound limits from the manifest", async function () {
+        const manifest = { ...homeManifest, inboundRateLimits: [{ eid: SATELLITE_EID, limit: "2500", window: 86400 }] };
+        const deployments = await deployNetwork(manifest, deploymentsDir);
+
+        const adapter = await ethers.getContractAt("FDFIOFTAdapter", deployments.contracts.FDFIOFTAdapter.address);
+        expect((await adapter.rateLimits(SATELLITE_EID)).limit).to.equal(ethers.parseUnits("10000", 18));
+        const inbound = await adapter.inboundRateLimits(SATELLITE_EID);
+        expect([inbound.limit, inbound.window]).to.deep.equal([ethers.parseUnits("2500", 18), 86400n]);
+
+        // Re-running sends nothing once the limits match
+        const blockBefore = await ethers.provider.getBlockNumber();
+        await deployNetwork(manifest, deploymentsDir);
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+    });
+});
@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { Signer } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SnapshotRestorer, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FDFIMerkleDistributor, FDFIToken } from "../typechain-types";
+import { applyTransferAllowlist, planTransferAllowlist } from "../scripts/lib/allowlist";
+import { deployNetwork } from "../scripts/lib/deploy";
+import { loadDeployments } from "../scripts/lib/manifest";
+import { signDelegation } from "../scripts/lib/compose";
+import {
+    MerkleDistribution,
+    buildMerkleDistribution,
+    distributeAirdrop,
+    parseAirdropCsv,
+    verifyAirdropProof
+} from "../scripts/lib/airdrop";
+
+describe("FDFIMerkleDistributor", function () {
+    let owner: Signer;
+    let alice: Signer;
+    let bob: Signer;
+    let carol: Signer;
+    let ownerAddr: string;
+    let aliceAddr: string;
+    let bobAddr: string;
+    let carolAddr: string;
+    let token: FDFIToken;
+    let distributor: FDFIMerkleDistributor;
+    let tree: MerkleDistribution;
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+    const WEEK = 7 * 24 * 3600;
+
+    async function deployDistributor(claimDeadline = 0): Promise<FDFIMerkleDistributor> {
+        const Distributor = await ethers.getContractFactory("FDFIMerkleDistributor");
+        const contract = await Distributor.deploy(await token.getAddress(), tree.merkleRoot, claimDeadline, ownerAddr);
+        await token.setAllowedSender(await contract.getAddress(), true);
+        await token.mintTo(await contract.getAddress(), tree.total);
+        return contract;
+    }
+
+    // The claim-deadline case jumps a week ahead; roll the chain back once the distributor tests finish
+    let snapshot: SnapshotRestorer;
+    before(async function () {
+        snapshot = await takeSnapshot();
+    });
+    after(async function () {
+        await snapshot.restore();
+    });
+
+    beforeEach(async function () {
+        [owner, alice, bob, carol] = await ethers.getSigners();
+        [ownerAddr, aliceAddr, bobAddr, carolAddr] = await Promise.all([owner, alice, bob, carol].map((s) => s.getAddress()));
+
+        const Token = await ethers.getContractFactory("FDFIToken");
+        token = (await upgrades.deployProxy(Token, [ownerAddr], { initializer: "initialize" })) as any;
+        tree = buildMerkleDistribution([
+            { account: aliceAddr, amount: units(100) },
+            { account: bobAddr, amount: units(250) },
+            { account: carolAddr, amount: units(50) }
+        ]);
+        distributor = await deployDistributor();
+    });
+
+    it("pays each claim once, to the claimer, while transfers are disabled", async function () {
+        expect(await token.transfersEnabled()).to.equal(false);
+        const { amount, proof } = tree.claims[aliceAddr];
+        await expect(distributor.connect(alice).claim(amount, proof))
+            .to.emit(distributor, "Claimed")
+            .withArgs(aliceAddr, amount, ethers.ZeroAddress);
+        expect(await token.balanceOf(aliceAddr)).to.equal(units(100));
+        expect(await distributor.totalClaimed()).to.equal(units(100));
+
+        await expect(distributor.connect(alice).claim(amount, proof))
+            .to.be.revertedWithCustomError(distributor, "AlreadyClaimed")
+            .withArgs(aliceAddr);
+        // Someone else's proof, or an inflated amount, does not verify for the caller
+        await expect(distributor.connect(carol).claim(amount, proof)).to.be.revertedWithCustomError(distributor, "InvalidProof");
+        await expect(distributor.connect(bob).claim(units(251), tree.claims[bobAddr].proof)).to.be.revertedWithCustomError(distributor, "InvalidProof");
+
+        // Claimed tokens stay gated for the claimer until launch
+        await expect(token.connect(alice).transfer(bobAddr, 1n)).to.be.revertedWith("Transfers disabled");
+    });
+
+    it("claims and delegates the claimer's votes in one transaction", async function () {
+        const expiry = BigInt(await time.latest()) + 3600n;
+        const delegation = await signDelegation(bob, await token.getAddress(), carolAddr, expiry);
+        const { amount, proof } = tree.claims[bobAddr];
+
+        await expect(distributor.connect(bob).claimAndDelegate(amount, proof, delegation))
+            .to.emit(distributor, "Claimed")
+            .withArgs(bobAddr, amount, carolAddr);
+        expect(await token.delegates(bobAddr)).to.equal(carolAddr);
+        expect(await token.getVotes(carolAddr)).to.equal(units(250));
+
+        // A signature from another account cannot be passed off as the claimer's
+        const forged = await signDelegation(carol, await token.getAddress(), carolAddr, expiry);
+        const claim = tree.claims[aliceAddr];
+        await expect(distributor.connect(alice).claimAndDelegate(claim.amount, claim.proof, forged))
+            .to.be.revertedWithCustomError(distributor, "DelegationFailed")
+            .withArgs(aliceAddr, carolAddr);
+    });
+
+    it("stops claims at the deadline and after a clawback", async function () {
+        const deadline = (await time.latest()) + WEEK;
+        const expiring = await deployDistributor(deadline);
+        await expiring.connect(alice).claim(tree.claims[aliceAddr].amount, tree.claims[aliceAddr].proof);
+        await time.increaseTo(deadline + 1);
+        expect(await expiring.isOpen()).to.equal(false);
+        await expect(expiring.connect(bob).claim(tree.claims[bobAddr].amount, tree.claims[bobAddr].proof))
+            .to.be.revertedWithCustomError(expiring, "ClaimsClosed");
+
+        await expect(distributor.connect(alice).clawback(aliceAddr)).to.be.revertedWithCustomError(distributor, "OwnableUnauthorizedAccount");
+        await expect(distributor.clawback(ownerAddr))
+            .to.emit(distributor, "ClawedBack")
+            .withArgs(ownerAddr, tree.total);
+        await expect(distributor.connect(carol).claim(tree.claims[carolAddr].amount, tree.claims[carolAddr].proof))
+            .to.be.revertedWithCustomError(distributor, "ClaimsClosed");
+    });
+
+    describe("airdrop sheet", function () {
+        let deploymentsDir: string;
+
+        beforeEach(function () {
+            deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-deployments-"));
+        });
+
+        afterEach(function () {
+            fs.rmSync(deploymentsDir, { recursive: true, force: true });
+        });
+
+        it("parses amounts, rejects bad rows with their line number and builds verifiable proofs", function () {
+            const rows = parseAirdropCsv(`account,amount,label\n${aliceAddr.toLowerCase()},1000.5,community\n`);
+            expect(rows).to.deep.equal([{ account: aliceAddr, amount: ethers.parseUnits("1000.5", 18), label: "community" }]);
+            expect(() => parseAirdropCsv(`account,amount\n${aliceAddr},1\n${aliceAddr},2\n`)).to.throw(/Line 3: duplicate account/);
+            expect(() => parseAirdropCsv(`account,amount\n${aliceAddr},0\n`)).to.throw(/Line 2: amount must be positive/);
+
+            // A single-leaf tree has the leaf as root and an empty proof
+            expect(buildMerkleDistribution(rows).claims[aliceAddr].proof).to.deep.equal([]);
+            for (const [account, { amount, proof }] of Object.entries(tree.claims)) {
+                expect(verifyAirdropProof(tree.merkleRoot, account, amount, proof)).to.equal(true);
+                expect(verifyAirdropProof(tree.merkleRoot, account, amount + 1n, proof)).to.equal(false);
+            }
+        });
+
+        it("deploys and funds the distributor with one mint and is idempotent on re-runs", async function () {
+            await deployNetwork({ role: "home", eid: 40161, rateLimits: [] }, deploymentsDir);
+            const allocations = parseAirdropCsv(`account,amount\n${aliceAddr},1000\n${bobAddr},500\n`);
+
+            const plan = await distributeAirdrop(hre, "s1", allocations, { deploymentsDir });
+            expect(plan.toMint).to.equal(units(1500));
+            const deployments = loadDeployments("hardhat", deploymentsDir)!;
+            const deployed = await ethers.getContractAt("FDFIMerkleDistributor", deployments.contracts["FDFIMerkleDistributor-s1"].address);
+            const deployedToken = await ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address);
+            expect(await deployedToken.balanceOf(await deployed.getAddress())).to.equal(units(1500));
+            expect(await deployedToken.allowedSenders(await deployed.getAddress())).to.equal(true);
+
+            await deployed.connect(bob).claim(units(500), plan.distribution.claims[bobAddr].proof);
+            const rerun = await distributeAirdrop(hre, "s1", allocations, { deploymentsDir });
+            expect(rerun.distributor).to.equal(await deployed.getAddress());
+            expect(rerun.toMint).to.equal(0n);
+
+            // Same campaign name with a different sheet
+            let error: Error | undefined;
+            try {
+                await distributeAirdrop(hre, "s1", allocations.slice(1), { deploymentsDir });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.match(/different tree/);
+        });
+
+        it("keeps the distributor an allowed sender when the allowlist sync runs after the airdrop", async function () {
+            await deployNetwork({ role: "home", eid: 40161, rateLimits: [] }, deploymentsDir);
+            const allocations = parseAirdropCsv(`account,amount\n${aliceAddr},1000\n`);
+            const { distributor } = await distributeAirdrop(hre, "s1", allocations, { deploymentsDir });
+            const deployments = loadDeployments("hardhat", deploymentsDir)!;
+            const deployedToken = await ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address);
+            await deployedToken.setAllowedSender(bobAddr, true); // stale entry, not in the manifest
+
+            const changes = await planTransferAllowlist(hre, { senders: [] }, deployments);
+            expect(changes.map((c) => [c.account, c.allowed])).to.deep.equal([[bobAddr, false]]);
+            await applyTransferAllowlist(hre, deployments, changes);
+            expect(await deployedToken.allowedSenders(distributor!)).to.equal(true);
+
+            const deployed = await ethers.getContractAt("FDFIMerkleDistributor", distributor!);
+            await deployed.connect(alice).claim(units(1000), buildMerkleDistribution(allocations).claims[aliceAddr].proof);
+            expect(await deployedToken.balanceOf(aliceAddr)).to.equal(units(1000));
+        });
+
+        it("refuses campaigns above the MAX_SUPPLY headroom", async function () {
+            await deployNetwork({ role: "home", eid: 40161, rateLimits: [] }, deploymentsDir);
+            const allocations = parseAirdropCsv(`account,amount\n${aliceAddr},2000000000.000000000000000001\n`);
+            let error: Error | undefined;
+            try {
+                await distributeAirdrop(hre, "s1", allocations, { deploymentsDir, dryRun: true });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.match(/MAX_SUPPLY headroom/);
+        });
+    });
+});
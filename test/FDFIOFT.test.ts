@@ -18,7 +18,7 @@ describe("FDFI OFT and Adapter Basic Coverage", function () {
         
         // Deploy a mock endpoint for testing
         const MockEndpointFactory = await ethers.getContractFactory("contracts/mocks/MockLayerZeroEndpoint.sol:MockLayerZeroEndpoint");
-        const mockEndpointContract = await MockEndpointFactory.deploy();
+        const mockEndpointContract = await MockEndpointFactory.deploy(40161); // Sepolia eid
         await mockEndpointContract.waitForDeployment();
         mockEndpoint = await mockEndpointContract.getAddress();
 
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { Signer } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SnapshotRestorer, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FDFIToken, FDFIVestingVault } from "../typechain-types";
+import { deployNetwork } from "../scripts/lib/deploy";
+import { loadDeployments } from "../scripts/lib/manifest";
+import { distributeVesting, parseVestingCsv } from "../scripts/lib/vesting";
+
+describe("FDFIVestingVault", function () {
+    let owner: Signer;
+    let alice: Signer;
+    let bob: Signer;
+    let aliceAddr: string;
+    let bobAddr: string;
+    let token: FDFIToken;
+    let vault: FDFIVestingVault;
+
+    const AMOUNT = ethers.parseUnits("1200", 18);
+    const YEAR = 365 * 24 * 3600;
+
+    async function schedule(beneficiary: string, cliff = YEAR / 4, duration = YEAR) {
+        const start = await time.latest();
+        await vault.createSchedule({ beneficiary, amount: AMOUNT, start, cliff, duration });
+        return start;
+    }
+
+    // Cliffs and release schedules advance the clock by months; rewind it once the vault tests are done
+    let snapshot: SnapshotRestorer;
+    before(async function () {
+        snapshot = await takeSnapshot();
+    });
+    after(async function () {
+        await snapshot.restore();
+    });
+
+    beforeEach(async function () {
+        [owner, alice, bob] = await ethers.getSigners();
+        aliceAddr = await alice.getAddress();
+        bobAddr = await bob.getAddress();
+
+        const Token = await ethers.getContractFactory("FDFIToken");
+        token = (await upgrades.deployProxy(Token, [await owner.getAddress()], { initializer: "initialize" })) as any;
+        const Vault = await ethers.getContractFactory("FDFIVestingVault");
+        vault = (await upgrades.deployProxy(Vault, [await token.getAddress(), await owner.getAddress()], { initializer: "initialize" })) as any;
+
+        await token.setVestingVault(await vault.getAddress());
+        await token.mintTo(await vault.getAddress(), AMOUNT * 2n);
+    });
+
+    it("funds a per-beneficiary escrow whose votes are delegated to the beneficiary", async function () {
+        await schedule(aliceAddr);
+        const { escrow } = await vault.schedules(aliceAddr);
+
+        expect(await token.balanceOf(escrow)).to.equal(AMOUNT);
+        expect(await token.getVotes(aliceAddr)).to.equal(AMOUNT);
+        expect(await vault.unallocated()).to.equal(AMOUNT);
+        expect(await vault.totalAllocated()).to.equal(AMOUNT);
+    });
+
+    it("releases nothing before the cliff, then linearly, while transfers are disabled", async function () {
+        const start = await schedule(aliceAddr);
+        expect(await token.transfersEnabled()).to.equal(false);
+
+        await time.increaseTo(start + YEAR / 4 - 10);
+        expect(await vault.releasable(aliceAddr)).to.equal(0n);
+
+        await time.increaseTo(start + YEAR / 2 - 1);
+        await vault.release(aliceAddr); // mined at start + YEAR / 2
+        expect(await token.balanceOf(aliceAddr)).to.equal(AMOUNT / 2n);
+
+        await time.increaseTo(start + YEAR * 2);
+        await expect(vault.release(aliceAddr))
+            .to.emit(vault, "Released")
+            .withArgs(aliceAddr, AMOUNT / 2n);
+        expect(await token.balanceOf(aliceAddr)).to.equal(AMOUNT);
+        // Votes follow the tokens once alice delegates to herself
+        await token.connect(alice).delegate(aliceAddr);
+        expect(await token.getVotes(aliceAddr)).to.equal(AMOUNT);
+    });
+
+    it("keeps released tokens gated for the beneficiary until transfers are enabled", async function () {
+        const start = await schedule(aliceAddr, 0, YEAR);
+        await time.increaseTo(start + YEAR);
+        await vault.release(aliceAddr);
+
+        await expect(token.connect(alice).transfer(bobAddr, 1n)).to.be.revertedWith("Transfers disabled");
+        await token.enableTransfers();
+        await token.connect(alice).transfer(bobAddr, 1n);
+    });
+
+    it("lets only the beneficiary re-delegate the escrowed votes", async function () {
+        await schedule(aliceAddr);
+        const escrow = await ethers.getContractAt("FDFIVestingEscrow", (await vault.schedules(aliceAddr)).escrow);
+
+        await expect(escrow.connect(bob).delegate(bobAddr)).to.be.revertedWithCustomError(escrow, "OnlyBeneficiary");
+        await escrow.connect(alice).delegate(bobAddr);
+        expect(await token.getVotes(bobAddr)).to.equal(AMOUNT);
+        expect(await token.getVotes(aliceAddr)).to.equal(0n);
+    });
+
+    it("rejects invalid, duplicate, unfunded and non-owner schedules", async function () {
+        const start = await time.latest();
+        await expect(vault.createSchedule({ beneficiary: aliceAddr, amount: AMOUNT, start, cliff: YEAR + 1, duration: YEAR }))
+            .to.be.revertedWithCustomError(vault, "InvalidSchedule");
+        await expect(vault.connect(alice).createSchedule({ beneficiary: aliceAddr, amount: AMOUNT, start, cliff: 0, duration: YEAR }))
+            .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+
+        await schedule(aliceAddr);
+        await expect(vault.createSchedule({ beneficiary: aliceAddr, amount: 1n, start, cliff: 0, duration: YEAR }))
+            .to.be.revertedWithCustomError(vault, "ScheduleExists");
+        await expect(vault.createSchedule({ beneficiary: bobAddr, amount: AMOUNT + 1n, start, cliff: 0, duration: YEAR }))
+            .to.be.revertedWithCustomError(vault, "InsufficientUnallocated")
+            .withArgs(AMOUNT + 1n, AMOUNT);
+    });
+
+    it("cannot fund escrows before it is registered as the token's vesting vault", async function () {
+        await token.setVestingVault(ethers.ZeroAddress);
+        await expect(schedule(aliceAddr)).to.be.revertedWith("Transfers disabled");
+    });
+
+    describe("allocation sheet", function () {
+        let deploymentsDir: string;
+
+        beforeEach(function () {
+            deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-deployments-"));
+        });
+
+        afterEach(function () {
+            fs.rmSync(deploymentsDir, { recursive: true, force: true });
+        });
+
+        it("parses amounts, dates and day counts and rejects bad rows with their line number", function () {
+            const [row] = parseVestingCsv(`beneficiary,amount,start,cliff_days,duration_days,label\n${aliceAddr},1000.5,2026-01-01,30,365,team\n`);
+            expect(row.amount).to.equal(ethers.parseUnits("1000.5", 18));
+            expect(row.start).to.equal(Date.UTC(2026, 0, 1) / 1000);
+            expect(row.cliff).to.equal(30 * 86_400);
+            expect(row.label).to.equal("team");
+
+            expect(() => parseVestingCsv(`beneficiary,amount,start,cliff_days,duration_days\n${aliceAddr},1,0,400,365\n`))
+                .to.throw(/Line 2: cliff is longer/);
+            expect(() => parseVestingCsv(`beneficiary,amount,start,cliff_days,duration_days\n${aliceAddr},1,0,0,1\n${aliceAddr},1,0,0,1\n`))
+                .to.throw(/Line 3: duplicate beneficiary/);
+        });
+
+        it("deploys the vault, mints the shortfall and is idempotent on re-runs", async function () {
+            await deployNetwork({ role: "home", eid: 40161, rateLimits: [] }, deploymentsDir);
+            const allocations = parseVestingCsv(
+                `beneficiary,amount,start,cliff_days,duration_days\n${aliceAddr},1000,0,0,365\n${bobAddr},500,0,30,365\n`
+            );
+
+            const plan = await distributeVesting(hre, allocations, { deploymentsDir });
+            expect(plan.pending).to.have.length(2);
+            expect(plan.toMint).to.equal(ethers.parseUnits("1500", 18));
+
+            const deployments = loadDeployments("hardhat", deploymentsDir)!;
+            const deployedToken = await ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address);
+            const deployedVault = await ethers.getContractAt("FDFIVestingVault", deployments.contracts.FDFIVestingVault.address);
+            expect(await deployedToken.vestingVault()).to.equal(await deployedVault.getAddress());
+            expect(await deployedToken.getVotes(bobAddr)).to.equal(ethers.parseUnits("500", 18));
+
+            const rerun = await distributeVesting(hre, allocations, { deploymentsDir });
+            expect(rerun.pending).to.have.length(0);
+            expect(rerun.existing).to.have.length(2);
+            expect(rerun.toMint).to.equal(0n);
+        });
+
+        it("refuses allocations above the MAX_SUPPLY headroom", async function () {
+            await deployNetwork({ role: "home", eid: 40161, rateLimits: [] }, deploymentsDir);
+            const allocations = parseVestingCsv(
+                `beneficiary,amount,start,cliff_days,duration_days\n${aliceAddr},2000000000.000000000000000001,0,0,365\n`
+            );
+            let error: Error | undefined;
+            try {
+                await distributeVesting(hre, allocations, { deploymentsDir });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.match(/MAX_SUPPLY headroom/);
+        });
+    });
+});
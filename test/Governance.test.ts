@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Signer } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { mine, SnapshotRestorer, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FDFIGovernor, FDFIToken } from "../typechain-types";
+import { deployNetwork } from "../scripts/lib/deploy";
+import { DeploymentsFile, NetworkManifest } from "../scripts/lib/manifest";
+import {
+    acceptOwnershipCalls,
+    CallBatch,
+    proposeBatch,
+    startOwnershipMigration,
+    timelockBatchCalldata
+} from "../scripts/lib/governance";
+
+describe("Governance (FDFIGovernor + FDFITimelock)", function () {
+    let deployer: Signer;
+    let voter: Signer;
+    let user: Signer;
+    let voterAddr: string;
+    let userAddr: string;
+    let deploymentsDir: string;
+
+    const VOTING_DELAY = 1; // blocks
+    const VOTING_PERIOD = 50; // blocks
+    const TIMELOCK_DELAY = 3600; // seconds
+    const VOTES = ethers.parseUnits("1000000", 18);
+
+    const homeManifest: NetworkManifest = {
+        role: "home",
+        eid: 40161,
+        rateLimits: [],
+        governance: {
+            timelockDelay: TIMELOCK_DELAY,
+            votingDelay: VOTING_DELAY,
+            votingPeriod: VOTING_PERIOD,
+            quorumPercent: 4,
+            proposalThreshold: "1000"
+        }
+    };
+
+    /// propose -> vote -> queue -> execute, with `voter` casting every vote
+    async function passProposal(governor: FDFIGovernor, deployments: DeploymentsFile, batch: CallBatch, description: string) {
+        const id = await proposeBatch(hre, deployments, batch, description);
+        await mine(VOTING_DELAY + 1);
+        await governor.connect(voter).castVote(id, 1); // For
+        await mine(VOTING_PERIOD);
+        const descriptionHash = ethers.id(description);
+        await governor.queue(batch.targets, batch.values, batch.calldatas, descriptionHash);
+        await time.increase(TIMELOCK_DELAY);
+        await governor.execute(batch.targets, batch.values, batch.calldatas, descriptionHash);
+        return id;
+    }
+
+    // Voting periods and timelock delays move the clock; snapshot the chain so the files after this one start clean
+    let snapshot: SnapshotRestorer;
+    before(async function () {
+        snapshot = await takeSnapshot();
+    });
+    after(async function () {
+        await snapshot.restore();
+    });
+
+    beforeEach(async function () {
+        [deployer, voter, user] = await ethers.getSigners();
+        voterAddr = await voter.getAddress();
+        userAddr = await user.getAddress();
+        deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-deployments-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    describe("home chain", function () {
+        let deployments: DeploymentsFile;
+        let token: FDFIToken;
+        let governor: FDFIGovernor;
+
+        beforeEach(async function () {
+            deployments = await deployNetwork(homeManifest, deploymentsDir);
+            token = await ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address);
+            governor = await ethers.getContractAt("FDFIGovernor", deployments.contracts.FDFIGovernor.address);
+
+            // Deployer keeps the proposal threshold, voter holds the bulk of the votes
+            await token.mintTo(await deployer.getAddress(), ethers.parseUnits("1000", 18));
+            await token.delegate(await deployer.getAddress());
+            await token.mintTo(voterAddr, VOTES);
+            await token.connect(voter).delegate(voterAddr);
+            await mine(1);
+        });
+
+        it("deploys the governor with the manifest settings and makes it the timelock's only proposer", async function () {
+            const timelock = await ethers.getContractAt("FDFITimelock", deployments.contracts.FDFITimelock.address);
+            expect(await governor.votingDelay()).to.equal(VOTING_DELAY);
+            expect(await governor.votingPeriod()).to.equal(VOTING_PERIOD);
+            expect(await governor["quorumNumerator()"]()).to.equal(4n);
+            expect(await governor.proposalThreshold()).to.equal(ethers.parseUnits("1000", 18));
+            expect(await governor.timelock()).to.equal(await timelock.getAddress());
+            expect(await timelock.getMinDelay()).to.equal(TIMELOCK_DELAY);
+
+            expect(await timelock.hasRole(await timelock.PROPOSER_ROLE(), await governor.getAddress())).to.equal(true);
+            expect(await timelock.hasRole(await timelock.DEFAULT_ADMIN_ROLE(), await deployer.getAddress())).to.equal(false);
+        });
+
+        it("migrates ownership to the timelock and then mints through propose -> vote -> queue -> execute", async function () {
+            const timelockAddr = deployments.contracts.FDFITimelock.address;
+            const adapter = await ethers.getContractAt("FDFIOFTAdapter", deployments.contracts.FDFIOFTAdapter.address);
+
+            const statuses = await startOwnershipMigration(hre, deployments);
+            // Adapter is plain Ownable and moves at once; the token waits for acceptOwnership
+            expect(statuses.map((s) => [s.name, s.state])).to.deep.equal([
+                ["FDFIToken", "pending-accept"],
+                ["FDFIOFTAdapter", "migrated"]
+            ]);
+            expect(await adapter.owner()).to.equal(timelockAddr);
+            expect(await token.pendingOwner()).to.equal(timelockAddr);
+
+            await passProposal(governor, deployments, acceptOwnershipCalls(statuses), "Accept ownership");
+            expect(await token.owner()).to.equal(timelockAddr);
+
+            const amount = ethers.parseUnits("5000", 18);
+            const mint = {
+                targets: [await token.getAddress()],
+                values: [0n],
+                calldatas: [token.interface.encodeFunctionData("mintTo", [userAddr, amount])]
+            };
+            const id = await passProposal(governor, deployments, mint, "Mint 5000 FDFI to user");
+            expect(await governor.state(id)).to.equal(7); // Executed
+            expect(await token.balanceOf(userAddr)).to.equal(amount);
+            await expect(token.mintTo(userAddr, 1n)).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+        });
+
+        it("defeats proposals that miss quorum", async function () {
+            await startOwnershipMigration(hre, deployments);
+            const batch = {
+                targets: [await token.getAddress()],
+                values: [0n],
+                calldatas: [token.interface.encodeFunctionData("enableTransfers")]
+            };
+            const id = await proposeBatch(hre, deployments, batch, "Enable transfers");
+            await mine(VOTING_DELAY + 1);
+            await governor.castVote(id, 1); // 1000 votes, quorum is 4% of ~1M
+            await mine(VOTING_PERIOD);
+            expect(await governor.state(id)).to.equal(3); // Defeated
+        });
+    });
+
+    describe("satellite", function () {
+        it("hands the OFT to a timelock scheduled by the manifest proposers", async function () {
+            const deployments = await deployNetwork({
+                role: "satellite",
+                eid: 40102,
+                rateLimits: [],
+                governance: { timelockDelay: TIMELOCK_DELAY, proposers: [voterAddr] }
+            }, deploymentsDir);
+            const timelock = await ethers.getContractAt("FDFITimelock", deployments.contracts.FDFITimelock.address);
+            const oft = await ethers.getContractAt("FDFIOFTUpgradeable", deployments.contracts.FDFIOFTUpgradeable.address);
+
+            const statuses = await startOwnershipMigration(hre, deployments);
+            const calldata = timelockBatchCalldata(acceptOwnershipCalls(statuses), BigInt(TIMELOCK_DELAY));
+            await voter.sendTransaction({ to: await timelock.getAddress(), data: calldata.schedule });
+            await expect(voter.sendTransaction({ to: await timelock.getAddress(), data: calldata.execute }))
+                .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+            await time.increase(TIMELOCK_DELAY);
+            await user.sendTransaction({ to: await timelock.getAddress(), data: calldata.execute }); // anyone executes
+            expect(await oft.owner()).to.equal(await timelock.getAddress());
+        });
+    });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { deployNetwork } from "../scripts/lib/deploy";
+import { assertLocalFork, checkDeploymentHealth, ExpectedState, formatHealthReport, loadExpectedState, runTokenSmokeTest } from "../scripts/lib/health";
+import { DeploymentsFile, NetworkManifest } from "../scripts/lib/manifest";
+import { deployBridgeFixture } from "./helpers/bridgeFixture";
+
+describe("Deployment health check", function () {
+    let deploymentsDir: string;
+    let deployments: DeploymentsFile;
+    let deployerAddr: string;
+    let otherAddr: string;
+
+    const SATELLITE_EID = 40102;
+    const PEER = "0x00000000000000000000000000000000000000aa";
+    const manifest: NetworkManifest = {
+        role: "home",
+        eid: 40161,
+        rateLimits: [{ eid: SATELLITE_EID, limit: "10000", window: 3600 }]
+    };
+
+    const expectedState = (): ExpectedState => ({
+        FDFIToken: {
+            owner: deployerAddr,
+            pendingOwner: ethers.ZeroAddress,
+            maxSupply: "2000000000",
+            transfersEnabled: false,
+            clockMode: "mode=blocknumber&from=default"
+        },
+        FDFIOFTAdapter: {
+            owner: deployerAddr,
+            token: "FDFIToken",
+            peers: { [SATELLITE_EID]: PEER },
+            rateLimits: [{ eid: SATELLITE_EID, limit: "10000", window: "1h" }],
+            inboundRateLimits: [{ eid: SATELLITE_EID, limit: "10000", window: 3600 }]
+        }
+    });
+
+    beforeEach(async function () {
+        [deployerAddr, otherAddr] = await Promise.all((await ethers.getSigners()).slice(0, 2).map((s) => s.getAddress()));
+        deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-health-"));
+        deployments = await deployNetwork(manifest, deploymentsDir);
+        const adapter = await ethers.getContractAt("FDFIOFTAdapter", deployments.contracts.FDFIOFTAdapter.address);
+        await adapter.setPeer(SATELLITE_EID, ethers.zeroPadValue(PEER, 32));
+    });
+
+    afterEach(function () {
+        fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    it("passes a deployment that matches its expected state, proxy slots included", async function () {
+        const report = await checkDeploymentHealth(ethers.provider, deployments, expectedState(), deploymentsDir);
+        expect(report.status).to.equal("pass");
+        const token = report.checks.filter((c) => c.contract === "FDFIToken").map((c) => c.check);
+        expect(token).to.deep.equal(["deployed", "implementation", "proxyAdmin", "owner", "pendingOwner", "MAX_SUPPLY", "transfersEnabled", "CLOCK_MODE"]);
+        const adapter = report.checks.filter((c) => c.contract === "FDFIOFTAdapter").map((c) => c.check);
+        expect(adapter).to.deep.equal(["deployed", "owner", "token", `peers(${SATELLITE_EID})`, `rateLimits(${SATELLITE_EID})`, `inboundRateLimits(${SATELLITE_EID})`]);
+        expect(formatHealthReport(report)).to.match(/PASS: 14 passed, 0 failed\n$/);
+    });
+
+    it("fails on drift without changing any state", async function () {
+        const token = await ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address);
+        await token.transferOwnership(otherAddr);
+        const expected = expectedState();
+        expected.FDFIOFTAdapter.rateLimits = [{ eid: SATELLITE_EID, limit: "20000", window: 3600 }];
+        expected.FDFIBlocklist = { owner: deployerAddr };
+        deployments.contracts.FDFIToken.implementation = otherAddr;
+
+        const blockBefore = await ethers.provider.getBlockNumber();
+        const report = await checkDeploymentHealth(ethers.provider, deployments, expected, deploymentsDir);
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+
+        expect(report.status).to.equal("fail");
+        const failed = report.checks.filter((c) => !c.ok).map((c) => `${c.contract}.${c.check}`);
+        expect(failed).to.deep.equal([
+            "FDFIToken.implementation",
+            "FDFIToken.pendingOwner",
+            `FDFIOFTAdapter.rateLimits(${SATELLITE_EID})`,
+            "FDFIBlocklist.deployed"
+        ]);
+        expect(formatHealthReport(report)).to.contain(`FAIL pendingOwner: expected ${ethers.ZeroAddress}, got ${otherAddr}`);
+    });
+
+    it("rejects expected-state files with unknown checks or bad windows", function () {
+        const file = path.join(deploymentsDir, "expected.json");
+        fs.writeFileSync(file, JSON.stringify({
+            FDFIToken: { ownr: deployerAddr },
+            FDFIOFTAdapter: { rateLimits: [{ eid: SATELLITE_EID, limit: "1", window: "soon" }] }
+        }));
+        expect(() => loadExpectedState(file)).to.throw(/FDFIToken.ownr is not a known check[\s\S]*FDFIOFTAdapter.rateLimits\[0\]/);
+    });
+
+    it("runs the smoke test only on a local fork", async function () {
+        expect(() => assertLocalFork("sepolia", { url: "https://rpc" })).to.throw(/only run on a local fork/);
+        expect(() => assertLocalFork("hardhat", undefined)).to.throw(/set FORK_RPC/);
+        expect(() => assertLocalFork("hardhat", { url: "https://rpc", enabled: true })).not.to.throw();
+
+        const [deployer] = await ethers.getSigners();
+        const f = await deployBridgeFixture({ enableTransfers: false });
+        const log = await runTokenSmokeTest(deployer, await f.token.getAddress());
+        expect(log.map((l) => l.split(":")[0])).to.deep.equal(["mintTo", "transfer", "enableTransfers", "transfer", "delegate"]);
+        expect(await f.token.transfersEnabled()).to.equal(true);
+    });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { SnapshotRestorer, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { auditSupply } from "../scripts/lib/audit";
+import { processInboundQueue, readInboundQueue } from "../scripts/lib/queue";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Adapter inbound queue", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let keeper: Signer;
+    let user1Addr: string;
+    let f: BridgeFixture;
+
+    // Long window so capacity barely refills between blocks unless time is advanced
+    const INBOUND = ethers.parseUnits("4000", 18);
+    const WINDOW = 86400;
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+
+    async function bridgeBack(amount: bigint) {
+        const tx = await f.oft.connect(user1).send(sendParam(HOME_EID, user1Addr, amount), { nativeFee: 0n, lzTokenFee: 0n }, user1Addr);
+        const [packet] = await f.sim.capture(tx);
+        return packet;
+    }
+
+    // Release delays move the shared clock forward; put it back after the queue tests
+    let snapshot: SnapshotRestorer;
+    before(async function () {
+        snapshot = await takeSnapshot();
+    });
+    after(async function () {
+        await snapshot.restore();
+    });
+
+    beforeEach(async function () {
+        [deployer, user1, keeper] = await ethers.getSigners();
+        user1Addr = await user1.getAddress();
+        f = await deployBridgeFixture();
+        await f.adapter.setInboundRateLimits([{ dstEid: SATELLITE_EID, limit: INBOUND, window: WINDOW }]);
+
+        const amount = units(10000);
+        await f.token.approve(await f.adapter.getAddress(), amount);
+        const tx = await f.adapter.send(sendParam(SATELLITE_EID, user1Addr, amount), { nativeFee: 0n, lzTokenFee: 0n }, await deployer.getAddress());
+        await f.sim.deliver((await f.sim.capture(tx))[0]);
+        await f.sim.deliver(await bridgeBack(units(3000)));
+    });
+
+    it("queues an over-limit delivery for the recipient instead of reverting", async function () {
+        await expect(f.sim.deliver(await bridgeBack(units(2000))))
+            .to.emit(f.adapter, "InboundQueued")
+            .withArgs(user1Addr, 0, SATELLITE_EID, units(2000));
+
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(3000));
+        expect(await f.adapter.totalQueued()).to.equal(units(2000));
+        const [entry] = await f.adapter.queuedInbound(user1Addr);
+        expect([entry.amountLD, entry.srcEid]).to.deep.equal([units(2000), BigInt(SATELLITE_EID)]);
+
+        // Queued tokens are still locked but already burned on the satellite: the audit nets them out
+        const report = await auditSupply(
+            [
+                { network: "home", eid: HOME_EID, role: "home", address: await f.adapter.getAddress(), provider: ethers.provider },
+                { network: "satellite", eid: SATELLITE_EID, role: "satellite", address: await f.oft.getAddress(), provider: ethers.provider }
+            ],
+            { tolerance: 0n }
+        );
+        expect([report.status, report.home.queued]).to.deep.equal(["ok", units(2000).toString()]);
+    });
+
+    it("lets anyone release a queued transfer once capacity refills", async function () {
+        await f.sim.deliver(await bridgeBack(units(2000)));
+        await expect(f.adapter.connect(keeper).releaseQueued(user1Addr, 0)).to.be.revertedWithCustomError(f.adapter, "RateLimitExceeded");
+
+        await time.increase(WINDOW);
+        await expect(f.adapter.connect(keeper).releaseQueued(user1Addr, 0))
+            .to.emit(f.adapter, "QueuedInboundReleased")
+            .withArgs(user1Addr, 0, units(2000), false)
+            .and.to.emit(f.adapter, "InflowRateConsumed");
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(5000));
+        expect(await f.adapter.totalQueued()).to.equal(0n);
+        await expect(f.adapter.releaseQueued(user1Addr, 0)).to.be.revertedWithCustomError(f.adapter, "NotQueued");
+    });
+
+    it("lets the owner release early or cancel with a reason", async function () {
+        await f.sim.deliver(await bridgeBack(units(2000)));
+        await f.sim.deliver(await bridgeBack(units(1500)));
+
+        await expect(f.adapter.connect(keeper).releaseQueuedEarly(user1Addr, 0))
+            .to.be.revertedWithCustomError(f.adapter, "OwnableUnauthorizedAccount");
+        await expect(f.adapter.connect(keeper).cancelQueued(user1Addr, 1, "forged"))
+            .to.be.revertedWithCustomError(f.adapter, "OwnableUnauthorizedAccount");
+
+        const [inFlightBefore] = await f.adapter.getAmountCanBeReceived(SATELLITE_EID);
+        await expect(f.adapter.releaseQueuedEarly(user1Addr, 0))
+            .to.emit(f.adapter, "QueuedInboundReleased")
+            .withArgs(user1Addr, 0, units(2000), true);
+        const [inFlightAfter] = await f.adapter.getAmountCanBeReceived(SATELLITE_EID);
+        expect(inFlightAfter).to.be.lte(inFlightBefore);
+
+        const locked = await f.token.balanceOf(await f.adapter.getAddress());
+        await expect(f.adapter.cancelQueued(user1Addr, 1, "forged on a compromised satellite"))
+            .to.emit(f.adapter, "QueuedInboundCancelled")
+            .withArgs(user1Addr, 1, units(1500), "forged on a compromised satellite");
+        expect(await f.token.balanceOf(await f.adapter.getAddress())).to.equal(locked);
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(5000));
+        expect(await f.adapter.totalQueued()).to.equal(0n);
+        await expect(f.adapter.releaseQueuedEarly(user1Addr, 1)).to.be.revertedWithCustomError(f.adapter, "NotQueued");
+    });
+
+    it("keeper releases the queue oldest first as capacity refills", async function () {
+        await f.sim.deliver(await bridgeBack(units(2000)));
+        await f.sim.deliver(await bridgeBack(units(3000)));
+        expect((await readInboundQueue(ethers.provider, await f.adapter.getAddress())).map((q) => q.amountLD))
+            .to.deep.equal([units(2000), units(3000)]);
+
+        const waiting = await processInboundQueue(keeper, await f.adapter.getAddress());
+        expect(waiting.map((r) => r.outcome)).to.deep.equal(["waiting", "waiting"]);
+
+        // Room for the 2000 but not both: the 3000 waits for the next pass
+        await time.increase(WINDOW);
+        const first = await processInboundQueue(keeper, await f.adapter.getAddress());
+        expect(first.map((r) => r.outcome)).to.deep.equal(["released", "waiting"]);
+
+        await time.increase(WINDOW);
+        const second = await processInboundQueue(keeper, await f.adapter.getAddress());
+        expect(second.map((r) => [r.index, r.outcome])).to.deep.equal([[1, "released"]]);
+        expect(await f.token.balanceOf(user1Addr)).to.equal(units(8000));
+        expect(await readInboundQueue(ethers.provider, await f.adapter.getAddress())).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { OFT_UNSAFE_ALLOW } from "../scripts/lib/upgrade";
+import { MeshConfig, MeshNode, applyMeshWiring, planMeshWiring } from "../scripts/lib/mesh";
+import { MsgType, buildExecutorOptions } from "../scripts/lib/options";
+
+describe("OFT mesh wiring", function () {
+    const HOME_EID = 40161;
+    const SATELLITE_EID = 40102;
+
+    let nodes: MeshNode[];
+    let mesh: MeshConfig;
+
+    beforeEach(async function () {
+        const [deployer, delegate] = await ethers.getSigners();
+        const Mock = await ethers.getContractFactory("contracts/mocks/MockLayerZeroEndpoint.sol:MockLayerZeroEndpoint");
+        const homeEndpoint = await Mock.deploy(HOME_EID);
+        const satelliteEndpoint = await Mock.deploy(SATELLITE_EID);
+
+        const FDFIFactory = await ethers.getContractFactory("FDFIToken");
+        const token = await upgrades.deployProxy(FDFIFactory, [deployer.address], { initializer: "initialize" });
+
+        const Adapter = await ethers.getContractFactory("FDFIOFTAdapter");
+        const adapter = await Adapter.deploy(await token.getAddress(), await homeEndpoint.getAddress(), deployer.address, []);
+
+        const OFT = await ethers.getContractFactory("FDFIOFTUpgradeable");
+        const oft = await upgrades.deployProxy(OFT, [[], "FDFI Token", "FDFI", deployer.address], {
+            initializer: "initialize",
+            constructorArgs: [await satelliteEndpoint.getAddress()],
+            unsafeAllow: OFT_UNSAFE_ALLOW
+        });
+
+        nodes = [
+            { network: "home", eid: HOME_EID, contractName: "FDFIOFTAdapter", address: await adapter.getAddress(), provider: ethers.provider, signer: deployer },
+            { network: "satellite", eid: SATELLITE_EID, contractName: "FDFIOFTUpgradeable", address: await oft.getAddress(), provider: ethers.provider, signer: deployer }
+        ];
+        mesh = {
+            networks: ["home", "satellite"],
+            enforcedOptions: [
+                { msgType: MsgType.SEND, lzReceiveGas: 100_000 },
+                { msgType: MsgType.SEND_AND_CALL, lzReceiveGas: 100_000, lzComposeGas: 200_000 }
+            ],
+            delegate: delegate.address
+        };
+    });
+
+    it("reports every missing peer, enforced option and delegate on a fresh deployment", async function () {
+        const changes = await planMeshWiring(hre, nodes, mesh);
+        const kinds = changes.map((c) => `${c.network}:${c.kind}`);
+        expect(kinds.filter((k) => k.endsWith(":peer"))).to.have.length(2);
+        expect(kinds.filter((k) => k.endsWith(":enforcedOptions"))).to.have.length(4);
+        expect(kinds.filter((k) => k.endsWith(":delegate"))).to.have.length(2);
+
+        const adapterPeer = changes.find((c) => c.network === "home" && c.kind === "peer")!;
+        expect(adapterPeer).to.deep.include({ eid: SATELLITE_EID, desired: ethers.zeroPadValue(nodes[1].address, 32).toLowerCase() });
+    });
+
+    it("applies only the missing transactions and converges to an empty diff", async function () {
+        // Pre-wire one peer by hand; it must not be re-sent
+        const adapter = await ethers.getContractAt("FDFIOFTAdapter", nodes[0].address);
+        await adapter.setPeer(SATELLITE_EID, ethers.zeroPadValue(nodes[1].address, 32));
+
+        const changes = await planMeshWiring(hre, nodes, mesh);
+        expect(changes.filter((c) => c.kind === "peer").map((c) => c.network)).to.deep.equal(["satellite"]);
+
+        await applyMeshWiring(hre, nodes, changes);
+        expect(await planMeshWiring(hre, nodes, mesh)).to.be.empty;
+
+        const oft = await ethers.getContractAt("FDFIOFTUpgradeable", nodes[1].address);
+        expect(await oft.peers(HOME_EID)).to.equal(ethers.zeroPadValue(nodes[0].address, 32));
+        expect(await oft.enforcedOptions(HOME_EID, MsgType.SEND_AND_CALL))
+            .to.equal(buildExecutorOptions(mesh.enforcedOptions[1]));
+    });
+
+    it("plans from read-only nodes and only needs signers to apply", async function () {
+        const readOnly = nodes.map((n) => ({ ...n, signer: undefined }));
+        const changes = await planMeshWiring(hre, readOnly, mesh);
+        expect(changes).to.deep.equal(await planMeshWiring(hre, nodes, mesh));
+
+        let error: Error | undefined;
+        try {
+            await applyMeshWiring(hre, readOnly, changes);
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/^home: no signer connected/);
+    });
+
+    it("detects a peer that drifted after wiring", async function () {
+        await applyMeshWiring(hre, nodes, await planMeshWiring(hre, nodes, mesh));
+
+        const oft = await ethers.getContractAt("FDFIOFTUpgradeable", nodes[1].address);
+        await oft.setPeer(HOME_EID, ethers.zeroPadValue(ethers.Wallet.createRandom().address, 32));
+
+        const changes = await planMeshWiring(hre, nodes, mesh);
+        expect(changes).to.have.length(1);
+        expect(changes[0]).to.deep.include({ network: "satellite", kind: "peer", eid: HOME_EID });
+    });
+
+    it("uses pathway overrides instead of the default enforced options", async function () {
+        const override = [{ msgType: MsgType.SEND, lzReceiveGas: 250_000 }];
+        mesh.pathwayOverrides = [{ from: "satellite", to: "home", enforcedOptions: override }];
+
+        const changes = await planMeshWiring(hre, nodes, mesh);
+        const satelliteOptions = changes.filter((c) => c.network === "satellite" && c.kind === "enforcedOptions");
+        expect(satelliteOptions).to.have.length(1);
+        expect(satelliteOptions[0]).to.deep.include({ desired: buildExecutorOptions(override[0]).toLowerCase() });
+    });
+});
+
+describe("Executor options encoding", function () {
+    it("matches OptionsBuilder for lzReceive with and without value", function () {
+        // OptionsBuilder.newOptions().addExecutorLzReceiveOption(200000, 0)
+        expect(buildExecutorOptions({ lzReceiveGas: 200_000 }))
+            .to.equal("0x00030100110100000000000000000000000000030d40");
+        // ... addExecutorLzReceiveOption(200000, 1)
+        expect(buildExecutorOptions({ lzReceiveGas: 200_000, lzReceiveValue: 1 }))
+            .to.equal("0x00030100210100000000000000000000000000030d4000000000000000000000000000000001");
+    });
+});
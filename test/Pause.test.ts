@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { MeshNode, applyMeshWiring, planMeshWiring } from "../scripts/lib/mesh";
+import { readPauseStatus, setMeshPaused } from "../scripts/lib/pause";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Pausable bridging (pauser / unpauser)", function () {
+    let deployer: Signer;
+    let pauser: Signer;
+    let unpauser: Signer;
+    let user: Signer;
+    let pauserAddr: string;
+    let unpauserAddr: string;
+    let userAddr: string;
+    let f: BridgeFixture;
+
+    const AMOUNT = ethers.parseUnits("1000", 18);
+
+    async function bridgeOut(amount: bigint) {
+        await f.token.approve(await f.adapter.getAddress(), amount);
+        const tx = await f.adapter.send(sendParam(SATELLITE_EID, userAddr, amount), { nativeFee: 0n, lzTokenFee: 0n }, await deployer.getAddress());
+        const [packet] = await f.sim.capture(tx);
+        return packet;
+    }
+
+    beforeEach(async function () {
+        [deployer, pauser, unpauser, user] = await ethers.getSigners();
+        [pauserAddr, unpauserAddr, userAddr] = await Promise.all([pauser, unpauser, user].map((s) => s.getAddress()));
+        f = await deployBridgeFixture();
+        for (const oapp of [f.adapter, f.oft]) {
+            await oapp.setPauser(pauserAddr);
+            await oapp.setUnpauser(unpauserAddr);
+        }
+    });
+
+    it("keeps pausing and unpausing to separate roles set by the owner", async function () {
+        await expect(f.oft.connect(user).setPauser(userAddr)).to.be.revertedWithCustomError(f.oft, "OwnableUnauthorizedAccount");
+        await expect(f.adapter.setUnpauser(userAddr)).to.emit(f.adapter, "UnpauserSet").withArgs(userAddr);
+        await f.adapter.setUnpauser(unpauserAddr);
+
+        for (const oapp of [f.adapter, f.oft]) {
+            await expect(oapp.connect(unpauser).pause()).to.be.revertedWithCustomError(oapp, "OnlyPauser");
+            await expect(oapp.connect(pauser).pause()).to.emit(oapp, "Paused").withArgs(pauserAddr);
+            await expect(oapp.connect(pauser).unpause()).to.be.revertedWithCustomError(oapp, "OnlyUnpauser");
+            await expect(oapp.connect(unpauser).unpause()).to.emit(oapp, "Unpaused").withArgs(unpauserAddr);
+        }
+    });
+
+    it("blocks sends while paused", async function () {
+        await f.adapter.connect(pauser).pause();
+        await f.token.approve(await f.adapter.getAddress(), AMOUNT);
+        const param = sendParam(SATELLITE_EID, userAddr, AMOUNT);
+        await expect(f.adapter.send(param, { nativeFee: 0n, lzTokenFee: 0n }, userAddr))
+            .to.be.revertedWithCustomError(f.adapter, "EnforcedPause");
+
+        await f.adapter.connect(unpauser).unpause();
+        await f.sim.deliver(await bridgeOut(AMOUNT));
+        await f.oft.connect(pauser).pause();
+        await expect(f.oft.connect(user).send(sendParam(HOME_EID, userAddr, AMOUNT), { nativeFee: 0n, lzTokenFee: 0n }, userAddr))
+            .to.be.revertedWithCustomError(f.oft, "EnforcedPause");
+    });
+
+    it("holds inbound packets on the endpoint until unpaused, then they can be retried", async function () {
+        const packet = await bridgeOut(AMOUNT);
+        await f.oft.connect(pauser).pause();
+
+        await f.sim.verify(packet);
+        await expect(f.sim.execute(packet)).to.be.revertedWithCustomError(f.oft, "EnforcedPause");
+        expect(await f.oft.balanceOf(userAddr)).to.equal(0n);
+
+        await f.oft.connect(unpauser).unpause();
+        await f.sim.execute(packet);
+        expect(await f.oft.balanceOf(userAddr)).to.equal(AMOUNT);
+    });
+
+    it("emergency-stops the whole mesh and wires the pause roles", async function () {
+        const nodes: MeshNode[] = [
+            { network: "home", eid: HOME_EID, contractName: "FDFIOFTAdapter", address: await f.adapter.getAddress(), provider: ethers.provider, signer: pauser },
+            { network: "satellite", eid: SATELLITE_EID, contractName: "FDFIOFTUpgradeable", address: await f.oft.getAddress(), provider: ethers.provider, signer: pauser }
+        ];
+
+        // Already paused endpoints are left alone; the rest are paused in the same run
+        await f.oft.connect(pauser).pause();
+        const results = await setMeshPaused(hre, nodes, true);
+        expect(results.map((r) => [r.network, r.outcome])).to.deep.equal([["home", "done"], ["satellite", "unchanged"]]);
+        expect((await readPauseStatus(hre, nodes)).every((s) => s.paused)).to.equal(true);
+
+        // The pauser key cannot unpause: reported per network instead of throwing
+        const unauthorized = await setMeshPaused(hre, nodes, false);
+        expect(unauthorized.map((r) => r.outcome)).to.deep.equal(["unauthorized", "unauthorized"]);
+        const resumed = await setMeshPaused(hre, nodes.map((n) => ({ ...n, signer: unpauser })), false);
+        expect(resumed.map((r) => r.outcome)).to.deep.equal(["done", "done"]);
+
+        // mesh:wire keeps pauser / unpauser in line with deploy-config/mesh.ts
+        const mesh = { networks: ["home", "satellite"], enforcedOptions: [], pauser: userAddr, unpauser: unpauserAddr };
+        const owned = nodes.map((n) => ({ ...n, signer: deployer }));
+        const changes = await planMeshWiring(hre, owned, mesh);
+        expect(changes.filter((c) => c.kind === "pauser" || c.kind === "unpauser").map((c) => `${c.network}:${c.kind}`))
+            .to.deep.equal(["home:pauser", "satellite:pauser"]);
+        await applyMeshWiring(hre, owned, changes);
+        expect(await f.oft.pauser()).to.equal(userAddr);
+        expect(await planMeshWiring(hre, owned, mesh)).to.deep.equal([]);
+    });
+});
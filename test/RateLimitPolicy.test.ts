@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { MeshNode } from "../scripts/lib/mesh";
+import {
+    applyRateLimitPolicy,
+    loadRateLimitPolicy,
+    parseRateLimitPolicy,
+    parseWindow,
+    planRateLimitPolicy,
+    rateLimitPolicySafeBatches
+} from "../scripts/lib/rateLimits";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture } from "./helpers/bridgeFixture";
+
+describe("Rate limit policy files", function () {
+    let deployer: Signer;
+    let ops: Signer;
+    let f: BridgeFixture;
+    let nodes: MeshNode[];
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+
+    function expectInvalid(raw: unknown): string {
+        try {
+            parseRateLimitPolicy(raw, "test.yaml");
+        } catch (e) {
+            return (e as Error).message;
+        }
+        throw new Error("expected the policy to be rejected");
+    }
+
+    beforeEach(async function () {
+        [deployer, ops] = await ethers.getSigners();
+        f = await deployBridgeFixture({ limit: units(10000), window: 3600 });
+        nodes = [
+            { network: "home", eid: HOME_EID, contractName: "FDFIOFTAdapter", address: await f.adapter.getAddress(), provider: ethers.provider, signer: deployer },
+            { network: "satellite", eid: SATELLITE_EID, contractName: "FDFIOFTUpgradeable", address: await f.oft.getAddress(), provider: ethers.provider, signer: deployer }
+        ];
+    });
+
+    it("parses YAML with whole-token limits and human windows, reporting every problem at once", async function () {
+        expect([parseWindow("1d"), parseWindow("1d12h"), parseWindow("90m"), parseWindow(3600), parseWindow("45")])
+            .to.deep.equal([86400, 129600, 5400, 3600, 45]);
+
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-policy-"));
+        const file = path.join(dir, "test.yaml");
+        fs.writeFileSync(file, [
+            "networks:",
+            "  home:",
+            "    outbound:",
+            `      - { eid: ${SATELLITE_EID}, limit: 1_000_000, window: 1d }`,
+            "    inbound:",
+            `      - { eid: ${SATELLITE_EID}, limit: "250000.5", window: 6h }`,
+            "  satellite:",
+            "    outbound:",
+            `      - { eid: ${HOME_EID}, limit: 5000, window: 3600 }`
+        ].join("\n"));
+        const policy = loadRateLimitPolicy(file);
+        expect(policy.home.outbound).to.deep.equal([{ dstEid: SATELLITE_EID, limit: units(1_000_000), window: 86400 }]);
+        expect(policy.home.inbound).to.deep.equal([{ dstEid: SATELLITE_EID, limit: units(250000.5), window: 21600 }]);
+        expect(policy.satellite.inbound).to.deep.equal(policy.satellite.outbound);
+
+        const message = expectInvalid({
+            networks: {
+                home: {
+                    outbound: [
+                        { eid: SATELLITE_EID, limit: "lots", window: "1d" },
+                        { eid: SATELLITE_EID, limit: 1, window: "1 day" },
+                        { eid: -1, limit: 1, window: 60 }
+                    ]
+                }
+            }
+        });
+        expect(message).to.contain("home.outbound[0]: limit \"lots\"");
+        expect(message).to.contain("home.outbound[1]: duplicate eid");
+        expect(message).to.contain("home.outbound[1]: window \"1 day\"");
+        expect(message).to.contain("home.outbound[2]: eid must be");
+        expect(expectInvalid({ rateLimits: [] })).to.contain("top-level `networks`");
+    });
+
+    it("detects drift, applies it from the rateLimiter role, and is clean afterwards", async function () {
+        await f.adapter.setRateLimiter(await ops.getAddress());
+        const policy = parseRateLimitPolicy({
+            networks: {
+                home: {
+                    outbound: [{ eid: SATELLITE_EID, limit: 10000, window: "1h" }],
+                    inbound: [{ eid: SATELLITE_EID, limit: 2500, window: "1d" }]
+                },
+                satellite: { outbound: [{ eid: HOME_EID, limit: 20000, window: "2h" }] }
+            }
+        }, "inline");
+
+        const drift = await planRateLimitPolicy(nodes, policy);
+        expect(drift.map((d) => `${d.network}:${d.direction}:${d.eid}`)).to.deep.equal([
+            `home:inbound:${SATELLITE_EID}`,
+            `satellite:outbound:${HOME_EID}`,
+            `satellite:inbound:${HOME_EID}`
+        ]);
+        expect(drift[0].current).to.deep.equal({ limit: units(10000), window: 3600 });
+
+        // The ops key only holds the adapter's rateLimiter role: the satellite is left to its Safe
+        const opsNodes = nodes.map((n) => ({ ...n, signer: ops }));
+        const results = await applyRateLimitPolicy(opsNodes, drift);
+        expect(results.map((r) => [r.network, r.outcome])).to.deep.equal([["home", "done"], ["satellite", "unauthorized"]]);
+        expect((await f.adapter.inboundRateLimits(SATELLITE_EID)).limit).to.equal(units(2500));
+
+        const rest = await planRateLimitPolicy(nodes, policy);
+        expect(rest.map((d) => d.network)).to.deep.equal(["satellite", "satellite"]);
+        const [{ network, batch }] = await rateLimitPolicySafeBatches(nodes, rest);
+        expect([network, batch.chainId, batch.transactions.length]).to.deep.equal(["satellite", "31337", 2]);
+        expect(batch.transactions.every((tx) => tx.to === nodes[1].address && tx.value === "0")).to.equal(true);
+
+        // What the Safe would execute
+        for (const tx of batch.transactions) await deployer.sendTransaction({ to: tx.to, data: tx.data });
+        expect(await planRateLimitPolicy(nodes, policy)).to.deep.equal([]);
+        expect((await f.oft.rateLimits(HOME_EID)).window).to.equal(7200n);
+    });
+
+    it("rejects networks outside the mesh and lanes to a node's own eid", async function () {
+        let error: Error | undefined;
+        try {
+            await planRateLimitPolicy(nodes, parseRateLimitPolicy({ networks: { mainnet: { outbound: [] } } }, "inline"));
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/outside the mesh: mainnet/);
+
+        error = undefined;
+        try {
+            const own = { networks: { home: { outbound: [{ eid: HOME_EID, limit: 1, window: 60 }] } } };
+            await planRateLimitPolicy(nodes, parseRateLimitPolicy(own, "inline"));
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/lane to its own eid/);
+    });
+});
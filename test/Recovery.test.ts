@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { MessagingApp, driveMessage, readInboundMessages } from "../scripts/lib/messages";
+import { BridgeFixture, HOME_EID, SATELLITE_EID, deployBridgeFixture, sendParam } from "./helpers/bridgeFixture";
+
+describe("Adapter recovery", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let deployerAddr: string;
+    let user1Addr: string;
+    let f: BridgeFixture;
+    let apps: MessagingApp[];
+
+    const units = (n: number) => ethers.parseUnits(n.toString(), 18);
+    const noFee = { nativeFee: 0n, lzTokenFee: 0n };
+
+    async function bridgeHome(amounts: number[]) {
+        const packets = [];
+        for (const amount of amounts) {
+            packets.push(...(await f.sim.capture(await f.oft.send(sendParam(HOME_EID, deployerAddr, units(amount)), noFee, deployerAddr))));
+        }
+        return packets;
+    }
+
+    async function errorMessage(promise: Promise<unknown>): Promise<string> {
+        try {
+            await promise;
+        } catch (e) {
+            return (e as Error).message;
+        }
+        throw new Error("expected an error");
+    }
+
+    async function homeBound() {
+        return (await readInboundMessages(apps)).filter((m) => m.dstEid === HOME_EID);
+    }
+
+    beforeEach(async function () {
+        [deployer, user1] = await ethers.getSigners();
+        [deployerAddr, user1Addr] = await Promise.all([deployer.getAddress(), user1.getAddress()]);
+        f = await deployBridgeFixture();
+        await f.token.approve(await f.adapter.getAddress(), ethers.MaxUint256);
+        await f.sim.capture(await f.adapter.send(sendParam(SATELLITE_EID, deployerAddr, units(1000)), noFee, deployerAddr));
+        await f.sim.deliverAll();
+        apps = [
+            { network: "home", eid: HOME_EID, address: await f.adapter.getAddress(), provider: ethers.provider, signer: deployer },
+            { network: "satellite", eid: SATELLITE_EID, address: await f.oft.getAddress(), provider: ethers.provider, signer: deployer }
+        ];
+    });
+
+    it("rescues direct transfers and foreign tokens but never locked liquidity or fees", async function () {
+        const adapter = await f.adapter.getAddress();
+        const token = await f.token.getAddress();
+        await f.adapter.setDefaultFeeBps(100);
+        await f.sim.capture(await f.adapter.send(sendParam(SATELLITE_EID, deployerAddr, units(1000), units(990)), noFee, deployerAddr));
+        expect(await f.adapter.totalLocked()).to.equal(units(1990));
+        expect(await f.adapter.rescuableAmount(token)).to.equal(0n);
+
+        await f.token.transfer(adapter, units(50));
+        expect(await f.adapter.rescuableAmount(token)).to.equal(units(50));
+        await expect(f.adapter.rescueTokens(token, user1Addr, units(51)))
+            .to.be.revertedWithCustomError(f.adapter, "RescueExceedsSurplus")
+            .withArgs(units(51), units(50));
+        await expect(f.adapter.connect(user1).rescueTokens(token, user1Addr, units(50)))
+            .to.be.revertedWithCustomError(f.adapter, "OwnableUnauthorizedAccount");
+        await expect(f.adapter.rescueTokens(token, user1Addr, units(50)))
+            .to.emit(f.adapter, "TokensRescued")
+            .withArgs(token, user1Addr, units(50));
+        expect(await f.token.balanceOf(adapter)).to.equal(units(2000));
+
+        // Satellite FDFI sent to the home adapter's address is a foreign token there
+        await f.oft.transfer(adapter, units(5));
+        expect(await f.adapter.rescuableAmount(await f.oft.getAddress())).to.equal(units(5));
+        await f.adapter.rescueTokens(await f.oft.getAddress(), user1Addr, units(5));
+        expect(await f.oft.balanceOf(user1Addr)).to.equal(units(5));
+
+        // Credits release locked liquidity; the fee balance stays reserved
+        await bridgeHome([400]);
+        await f.sim.deliverAll();
+        expect(await f.adapter.totalLocked()).to.equal(units(1590));
+        expect(await f.adapter.rescuableAmount(token)).to.equal(0n);
+    });
+
+    it("reports deliveries that revert and retries or clears them", async function () {
+        await f.adapter.setPauser(deployerAddr);
+        await f.adapter.setUnpauser(deployerAddr);
+        await f.adapter.pause();
+        const packets = await bridgeHome([100, 200]);
+        for (const packet of packets) await f.sim.verify(packet);
+
+        const [delivered] = (await readInboundMessages(apps)).filter((m) => m.dstEid === SATELLITE_EID);
+        expect([delivered.srcNetwork, delivered.status]).to.deep.equal(["home", "delivered"]);
+        let [first, second] = await homeBound();
+        expect([first.guid, first.nonce, first.status, first.reason]).to.deep.equal([packets[0].guid, 1n, "failed", "EnforcedPause()"]);
+        expect(second.status).to.equal("failed");
+
+        await driveMessage(apps, first, "clear");
+        await f.adapter.unpause();
+        [first, second] = await homeBound();
+        expect([first.status, second.status]).to.deep.equal(["delivered", "executable"]);
+
+        await driveMessage(apps, second, "retry");
+        expect((await homeBound()).map((m) => m.status)).to.deep.equal(["delivered", "delivered"]);
+        expect(await f.token.balanceOf(deployerAddr)).to.equal(units(999_200));
+        const [, done] = await homeBound();
+        expect(await errorMessage(driveMessage(apps, done, "retry"))).to.equal("Cannot retry a delivered message (expected failed or executable)");
+    });
+
+    it("skips a nonce that was never verified so later messages execute", async function () {
+        const [lost, later] = await bridgeHome([100, 200]);
+        f.sim.drop(lost);
+        await f.sim.verify(later);
+
+        let [first, second] = await homeBound();
+        expect(first.status).to.equal("pending");
+        expect([second.status, second.reason]).to.deep.equal(["failed", "LZ_InvalidNonce(1)"]);
+        expect(await errorMessage(driveMessage(apps, second, "skip"))).to.contain("Cannot skip a failed message");
+
+        await driveMessage(apps, first, "skip");
+        [first, second] = await homeBound();
+        expect([first.status, second.status]).to.deep.equal(["delivered", "executable"]);
+        await driveMessage(apps, second, "retry");
+        expect(await f.token.balanceOf(deployerAddr)).to.equal(units(999_200));
+    });
+});
@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { auditSupply, formatSupplyReportMarkdown, SupplyAuditTarget } from "../scripts/lib/audit";
+import { BridgeFixture, deployBridgeFixture, HOME_EID, SATELLITE_EID, sendParam } from "./helpers/bridgeFixture";
+
+describe("Supply auditor", function () {
+    let deployer: Signer;
+    let user1: Signer;
+    let user1Addr: string;
+    let f: BridgeFixture;
+    let targets: SupplyAuditTarget[];
+
+    async function bridgeOut(amount: bigint) {
+        await f.token.approve(await f.adapter.getAddress(), amount);
+        const tx = await f.adapter.send(sendParam(SATELLITE_EID, user1Addr, amount), { nativeFee: 0, lzTokenFee: 0 }, await deployer.getAddress());
+        const [packet] = await f.sim.capture(tx);
+        return packet;
+    }
+
+    beforeEach(async function () {
+        [deployer, user1] = await ethers.getSigners();
+        user1Addr = await user1.getAddress();
+        f = await deployBridgeFixture();
+        // Both "chains" live in the same hardhat network here
+        targets = [
+            { network: "home", eid: HOME_EID, role: "home", address: await f.adapter.getAddress(), provider: ethers.provider },
+            { network: "satellite", eid: SATELLITE_EID, role: "satellite", address: await f.oft.getAddress(), provider: ethers.provider }
+        ];
+    });
+
+    it("reports ok when every locked token is minted on the satellite", async function () {
+        const amount = ethers.parseUnits("1500", 18);
+        await f.sim.deliver(await bridgeOut(amount));
+
+        const report = await auditSupply(targets, { tolerance: 0n });
+        expect(report.status).to.equal("ok");
+        expect(report.home.locked).to.equal(amount.toString());
+        expect(report.satellites[0].totalSupply).to.equal(amount.toString());
+        expect(report.difference).to.equal("0");
+        expect(formatSupplyReportMarkdown(report)).to.contain("**OK**");
+    });
+
+    it("accepts messages in flight up to the tolerance", async function () {
+        await f.sim.deliver(await bridgeOut(ethers.parseUnits("1000", 18)));
+        await bridgeOut(ethers.parseUnits("200", 18)); // locked, not yet minted
+
+        const strict = await auditSupply(targets, { tolerance: 0n });
+        expect(strict.status).to.equal("mismatch");
+        expect(strict.difference).to.equal(ethers.parseUnits("200", 18).toString());
+
+        const tolerant = await auditSupply(targets, { tolerance: ethers.parseUnits("250", 18) });
+        expect(tolerant.status).to.equal("ok");
+    });
+
+    it("reconciles against totalLocked and lists FDFI sent to the adapter directly as rescuable", async function () {
+        const amount = ethers.parseUnits("1000", 18);
+        await f.sim.deliver(await bridgeOut(amount));
+        await f.token.transfer(await f.adapter.getAddress(), ethers.parseUnits("75", 18));
+
+        const report = await auditSupply(targets, { tolerance: 0n });
+        expect(report.status).to.equal("ok");
+        expect([report.home.locked, report.home.rescuable]).to.deep.equal([amount.toString(), ethers.parseUnits("75", 18).toString()]);
+        expect(formatSupplyReportMarkdown(report)).to.contain("- Sent to the adapter directly, rescuable (not locked): 75.0 FDFI");
+    });
+
+    it("flags satellite supply that is not backed by the adapter", async function () {
+        await f.sim.deliver(await bridgeOut(ethers.parseUnits("1000", 18)));
+
+        // A second "adapter" the satellite trusts (peer and inbound limit) mints 50 FDFI out of thin air
+        const ROGUE_EID = 40999;
+        await f.oft.setPeer(ROGUE_EID, ethers.zeroPadValue(await deployer.getAddress(), 32));
+        await f.oft.setInboundRateLimits([{ dstEid: ROGUE_EID, limit: ethers.parseUnits("1000", 18), window: 3600 }]);
+        const amountSD = 50_000_000n; // 6 shared decimals
+        await f.sim.deliver({
+            nonce: 1n,
+            srcEid: ROGUE_EID,
+            sender: await deployer.getAddress(),
+            dstEid: SATELLITE_EID,
+            receiver: await f.oft.getAddress(),
+            guid: ethers.id("rogue"),
+            message: ethers.solidityPacked(["bytes32", "uint64"], [ethers.zeroPadValue(user1Addr, 32), amountSD]),
+            options: "0x"
+        });
+
+        const report = await auditSupply(targets, { tolerance: ethers.parseUnits("1000", 18) });
+        expect(report.status).to.equal("mismatch");
+        expect(report.difference).to.equal((-ethers.parseUnits("50", 18)).toString());
+        expect(report.reason).to.match(/exceeds tokens locked/);
+    });
+
+    it("refuses to audit a mesh with more than one home network", async function () {
+        const twoHomes = [targets[0], { ...targets[1], role: "home" as const }];
+        let error: Error | undefined;
+        try {
+            await auditSupply(twoHomes, { tolerance: 0n });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/exactly one home network/);
+    });
+});
@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Signer } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { deployNetwork } from "../scripts/lib/deploy";
+import { applyTransferAllowlist, planTransferAllowlist } from "../scripts/lib/allowlist";
+import { BridgeFixture, deployBridgeFixture, SATELLITE_EID, sendParam } from "./helpers/bridgeFixture";
+
+describe("FDFIToken - pre-launch transfer allowlist", function () {
+    let treasury: Signer;
+    let holder: Signer;
+    let custody: Signer;
+    let treasuryAddr: string;
+    let holderAddr: string;
+    let custodyAddr: string;
+    let f: BridgeFixture;
+
+    const AMOUNT = ethers.parseUnits("1000", 18);
+
+    beforeEach(async function () {
+        [treasury, holder, custody] = await ethers.getSigners();
+        treasuryAddr = await treasury.getAddress();
+        holderAddr = await holder.getAddress();
+        custodyAddr = await custody.getAddress();
+        // Deployer acts as owner and treasury; transfers stay disabled
+        f = await deployBridgeFixture({ enableTransfers: false });
+        await f.token.mintTo(holderAddr, AMOUNT);
+    });
+
+    it("lets only the owner change the allowlist and emits an event per change", async function () {
+        await expect(f.token.connect(holder).setAllowedSender(holderAddr, true))
+            .to.be.revertedWithCustomError(f.token, "OwnableUnauthorizedAccount");
+        await expect(f.token.setAllowedSender(treasuryAddr, true))
+            .to.emit(f.token, "AllowedSenderSet").withArgs(treasuryAddr, true);
+        await expect(f.token.setAllowedReceiver(custodyAddr, true))
+            .to.emit(f.token, "AllowedReceiverSet").withArgs(custodyAddr, true);
+    });
+
+    it("lets an allowed treasury lock tokens in the adapter while holders still cannot bridge", async function () {
+        await f.token.setAllowedSender(treasuryAddr, true);
+        const adapterAddr = await f.adapter.getAddress();
+
+        await f.token.approve(adapterAddr, AMOUNT);
+        const tx = await f.adapter.send(sendParam(SATELLITE_EID, custodyAddr, AMOUNT), { nativeFee: 0, lzTokenFee: 0 }, treasuryAddr);
+        const [packet] = await f.sim.capture(tx);
+        await f.sim.deliver(packet);
+        expect(await f.token.balanceOf(adapterAddr)).to.equal(AMOUNT);
+        expect(await f.oft.balanceOf(custodyAddr)).to.equal(AMOUNT);
+
+        await f.token.connect(holder).approve(adapterAddr, AMOUNT);
+        await expect(
+            f.adapter.connect(holder).send(sendParam(SATELLITE_EID, holderAddr, AMOUNT), { nativeFee: 0, lzTokenFee: 0 }, holderAddr)
+        ).to.be.revertedWith("Transfers disabled");
+        await expect(f.token.connect(holder).transfer(custodyAddr, 1n)).to.be.revertedWith("Transfers disabled");
+    });
+
+    it("lets holders send to an allowed receiver, which itself stays gated", async function () {
+        await f.token.setAllowedReceiver(custodyAddr, true);
+        await f.token.connect(holder).transfer(custodyAddr, AMOUNT);
+        expect(await f.token.balanceOf(custodyAddr)).to.equal(AMOUNT);
+        await expect(f.token.connect(custody).transfer(holderAddr, 1n)).to.be.revertedWith("Transfers disabled");
+
+        await f.token.setAllowedReceiver(custodyAddr, false);
+        await expect(f.token.connect(holder).transfer(custodyAddr, 0n)).to.be.revertedWith("Transfers disabled");
+    });
+
+    it("ignores the allowlist once transfers are enabled", async function () {
+        expect(await f.token.isTransferAllowed(holderAddr, custodyAddr)).to.equal(false);
+        await f.token.enableTransfers();
+        expect(await f.token.isTransferAllowed(holderAddr, custodyAddr)).to.equal(true);
+        await f.token.connect(holder).transfer(custodyAddr, 1n);
+    });
+
+    describe("manifest sync", function () {
+        let deploymentsDir: string;
+
+        beforeEach(function () {
+            deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-deployments-"));
+        });
+
+        afterEach(function () {
+            fs.rmSync(deploymentsDir, { recursive: true, force: true });
+        });
+
+        it("allows manifest entries by address or record name and revokes stale ones", async function () {
+            const deployments = await deployNetwork({ role: "home", eid: 40161, rateLimits: [] }, deploymentsDir);
+            const token = await ethers.getContractAt("FDFIToken", deployments.contracts.FDFIToken.address);
+            await token.setAllowedReceiver(holderAddr, true); // not in the manifest
+
+            // Adapter as sender so tokens bridged back before launch can be unlocked
+            const allowlist = { senders: [treasuryAddr, "FDFIOFTAdapter"], receivers: [custodyAddr] };
+            const changes = await planTransferAllowlist(hre, allowlist, deployments);
+            expect(changes.map((c) => [c.kind, c.label, c.allowed])).to.deep.equal([
+                ["sender", treasuryAddr, true],
+                ["sender", "FDFIOFTAdapter", true],
+                ["receiver", custodyAddr, true],
+                ["receiver", holderAddr, false]
+            ]);
+
+            await applyTransferAllowlist(hre, deployments, changes);
+            expect(await token.allowedSenders(treasuryAddr)).to.equal(true);
+            expect(await token.allowedSenders(deployments.contracts.FDFIOFTAdapter.address)).to.equal(true);
+            expect(await token.allowedReceivers(holderAddr)).to.equal(false);
+            expect(await planTransferAllowlist(hre, allowlist, deployments)).to.deep.equal([]);
+        });
+    });
+});
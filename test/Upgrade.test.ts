@@ -0,0 +1,177 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { deployNetwork } from "../scripts/lib/deploy";
+import { DeploymentsFile, NetworkManifest, loadDeployments } from "../scripts/lib/manifest";
+import { migrateInboundRateLimits, supportsInboundRateLimits, toRateLimitConfigs } from "../scripts/lib/rateLimits";
+import { OFT_UNSAFE_ALLOW, upgradeContract } from "../scripts/lib/upgrade";
+import { FDFIOFTOutboundOnly } from "../typechain-types";
+
+describe("Upgrade pipeline", function () {
+    let deploymentsDir: string;
+
+    const HOME_EID = 40161;
+    const SATELLITE_EID = 40102;
+
+    const homeManifest: NetworkManifest = {
+        role: "home",
+        eid: HOME_EID,
+        rateLimits: [{ eid: SATELLITE_EID, limit: "10000", window: 3600 }]
+    };
+    const satelliteManifest: NetworkManifest = {
+        role: "satellite",
+        eid: SATELLITE_EID,
+        rateLimits: [{ eid: HOME_EID, limit: "10000", window: 3600 }]
+    };
+
+    beforeEach(function () {
+        deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "fdfi-deployments-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    it("upgrades FDFIToken to FDFITokenV2 by record name, preserving state and updating the record", async function () {
+        const [deployer] = await ethers.getSigners();
+        const deployments = await deployNetwork(homeManifest, deploymentsDir);
+        const proxy = deployments.contracts.FDFIToken.address;
+        const token = await ethers.getContractAt("FDFIToken", proxy);
+        await token.mintTo(deployer.address, ethers.parseUnits("1000", 18));
+
+        const result = await upgradeContract(hre, { contractName: "FDFITokenV2", proxy: "FDFIToken" }, deploymentsDir);
+
+        expect(result.proxy).to.equal(proxy);
+        expect(result.newImplementation).to.not.equal(result.previousImplementation);
+        const v2 = await ethers.getContractAt("FDFITokenV2", proxy);
+        expect(await v2.version()).to.equal("2");
+        expect(await v2.balanceOf(deployer.address)).to.equal(ethers.parseUnits("1000", 18));
+        expect(loadDeployments("hardhat", deploymentsDir)!.contracts.FDFIToken.implementation).to.equal(result.newImplementation);
+    });
+
+    it("--prepare-only deploys the implementation and returns upgradeToAndCall calldata without upgrading", async function () {
+        const [owner] = await ethers.getSigners();
+        const deployments = await deployNetwork(homeManifest, deploymentsDir);
+        const proxy = deployments.contracts.FDFIToken.address;
+
+        const result = await upgradeContract(
+            hre,
+            { contractName: "FDFITokenV2", proxy, prepareOnly: true },
+            deploymentsDir
+        );
+
+        expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(result.previousImplementation);
+        expect(await ethers.provider.getCode(result.newImplementation)).to.not.equal("0x");
+        expect(result.prepared!.to).to.equal(proxy);
+
+        // What the multisig would execute
+        await owner.sendTransaction({ to: result.prepared!.to, data: result.prepared!.data });
+        expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(result.newImplementation);
+        expect(await (await ethers.getContractAt("FDFITokenV2", proxy)).version()).to.equal("2");
+    });
+
+    it("rebuilds FDFIOFTUpgradeable with the endpoint of the live proxy", async function () {
+        const [owner] = await ethers.getSigners();
+        const deployments = await deployNetwork(satelliteManifest, deploymentsDir);
+        const proxy = deployments.contracts.FDFIOFTUpgradeable.address;
+        const endpoint = deployments.contracts.LayerZeroEndpoint.address;
+
+        const result = await upgradeContract(
+            hre,
+            { contractName: "FDFIOFTUpgradeable", proxy: "FDFIOFTUpgradeable", prepareOnly: true },
+            deploymentsDir
+        );
+        // Same bytecode and constructor args, so the plugin reuses the deployed implementation
+        expect(result.newImplementation).to.equal(result.previousImplementation);
+
+        await owner.sendTransaction({ to: result.prepared!.to, data: result.prepared!.data });
+        const oft = await ethers.getContractAt("FDFIOFTUpgradeable", proxy);
+        expect(await oft.endpoint()).to.equal(endpoint);
+        expect((await oft.rateLimits(HOME_EID)).limit).to.equal(ethers.parseUnits("10000", 18));
+    });
+
+    it("upgrades an outbound-only OFT proxy to inbound limits, keeping its rateLimits entries", async function () {
+        const [owner, pauser] = await ethers.getSigners();
+        const Mock = await ethers.getContractFactory("contracts/mocks/MockLayerZeroEndpoint.sol:MockLayerZeroEndpoint");
+        const endpoint = await Mock.deploy(SATELLITE_EID);
+        const limit = ethers.parseUnits("10000", 18);
+        const V1 = await ethers.getContractFactory("FDFIOFTOutboundOnly");
+        const proxy = await upgrades.deployProxy(V1, [[{ dstEid: HOME_EID, limit, window: 3600 }], "FDFI Token", "FDFI", owner.address], {
+            initializer: "initialize",
+            constructorArgs: [await endpoint.getAddress()],
+            unsafeAllow: OFT_UNSAFE_ALLOW
+        });
+        await (proxy as unknown as FDFIOFTOutboundOnly).setPauser(pauser.address);
+        const before = await proxy.rateLimits(HOME_EID);
+
+        const inbound = { dstEid: HOME_EID, limit: limit / 2n, window: 7200 };
+        await upgradeContract(hre, {
+            contractName: "FDFIOFTUpgradeable",
+            proxy: await proxy.getAddress(),
+            call: { fn: "setInboundRateLimits", args: [[inbound]] }
+        }, deploymentsDir);
+
+        const oft = await ethers.getContractAt("FDFIOFTUpgradeable", await proxy.getAddress());
+        expect(await oft.rateLimits(HOME_EID)).to.deep.equal(before);
+        expect((await oft.rateLimits(HOME_EID)).limit).to.equal(limit);
+        expect(await oft.pauser()).to.equal(pauser.address);
+        expect(await oft.owner()).to.equal(owner.address);
+        const inboundLimit = await oft.inboundRateLimits(HOME_EID);
+        expect([inboundLimit.limit, inboundLimit.window]).to.deep.equal([limit / 2n, 7200n]);
+        expect((await oft.getAmountCanBeReceived(HOME_EID))[1]).to.equal(limit / 2n);
+    });
+
+    it("migrates an outbound-only OFT and then keeps its inbound limits in line with the manifest", async function () {
+        const [owner] = await ethers.getSigners();
+        const Mock = await ethers.getContractFactory("contracts/mocks/MockLayerZeroEndpoint.sol:MockLayerZeroEndpoint");
+        const endpoint = await Mock.deploy(SATELLITE_EID);
+        const V1 = await ethers.getContractFactory("FDFIOFTOutboundOnly");
+        const configs = toRateLimitConfigs(satelliteManifest.rateLimits);
+        const proxy = await upgrades.deployProxy(V1, [configs, "FDFI Token", "FDFI", owner.address], {
+            initializer: "initialize",
+            constructorArgs: [await endpoint.getAddress()],
+            unsafeAllow: OFT_UNSAFE_ALLOW
+        });
+        const deployments: DeploymentsFile = {
+            version: 1,
+            network: "hardhat",
+            chainId: 31337,
+            eid: SATELLITE_EID,
+            contracts: { FDFIOFTUpgradeable: { address: await proxy.getAddress(), deployedAt: new Date().toISOString() } }
+        };
+        const manifest = { ...satelliteManifest, inboundRateLimits: [{ eid: HOME_EID, limit: "2500", window: 86400 }] };
+
+        const prepared = await migrateInboundRateLimits(hre, manifest, deployments, { prepareOnly: true, deploymentsDir });
+        expect(prepared.action).to.equal("prepared");
+        expect(await supportsInboundRateLimits(owner, await proxy.getAddress())).to.equal(false);
+
+        const upgraded = await migrateInboundRateLimits(hre, manifest, deployments, { deploymentsDir });
+        expect(upgraded.action).to.equal("upgraded");
+        const oft = await ethers.getContractAt("FDFIOFTUpgradeable", await proxy.getAddress());
+        expect((await oft.rateLimits(HOME_EID)).limit).to.equal(ethers.parseUnits("10000", 18));
+        expect((await oft.inboundRateLimits(HOME_EID)).limit).to.equal(ethers.parseUnits("2500", 18));
+        expect((await migrateInboundRateLimits(hre, manifest, deployments, { deploymentsDir })).action).to.equal("none");
+
+        const loosened = { ...manifest, inboundRateLimits: [{ eid: HOME_EID, limit: "5000", window: 86400 }] };
+        const calldata = await migrateInboundRateLimits(hre, loosened, deployments, { prepareOnly: true, deploymentsDir });
+        expect(calldata.action).to.equal("calldata");
+        expect((await migrateInboundRateLimits(hre, loosened, deployments, { deploymentsDir })).action).to.equal("set");
+        expect((await oft.inboundRateLimits(HOME_EID)).limit).to.equal(ethers.parseUnits("5000", 18));
+    });
+
+    it("rejects an implementation whose storage layout is incompatible", async function () {
+        const deployments = await deployNetwork(satelliteManifest, deploymentsDir);
+        const proxy = deployments.contracts.FDFIOFTUpgradeable.address;
+
+        let error: Error | undefined;
+        try {
+            await upgradeContract(hre, { contractName: "FDFIToken", proxy, prepareOnly: true }, deploymentsDir);
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/New storage layout is incompatible/);
+        expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(deployments.contracts.FDFIOFTUpgradeable.implementation);
+    });
+});
@@ -0,0 +1,288 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { Signer } from "ethers";
+import { SnapshotRestorer, mine, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FDFIGovernor, FDFIOFTAdapter, FDFIOFTUpgradeable, FDFIToken, FDFIVoteAggregator, FDFIVoteReporter } from "../typechain-types";
+import { MeshNode, applyMeshWiring, planMeshWiring } from "../scripts/lib/mesh";
+import { proposalTimepoint, reportSatelliteVotes } from "../scripts/lib/governance";
+import { LayerZeroSimulator } from "./helpers/lzSimulator";
+import { HOME_EID, SATELLITE_EID, deploySatelliteOFT, sendParam } from "./helpers/bridgeFixture";
+
+describe("Cross-chain vote aggregation", function () {
+    const SATELLITE_B_EID = 40168;
+    const VOTING_PERIOD = 50;
+    const SECONDS_PER_BLOCK = 12;
+
+    let deployer: Signer;
+    let alice: Signer; // home holder
+    let bob: Signer; // holder on satellite A
+    let carol: Signer; // holder on satellite B, delegating to alice
+    let deployerAddr: string;
+    let aliceAddr: string;
+    let bobAddr: string;
+    let carolAddr: string;
+
+    let sim: LayerZeroSimulator;
+    let token: FDFIToken;
+    let adapter: FDFIOFTAdapter;
+    let oftA: FDFIOFTUpgradeable;
+    let oftB: FDFIOFTUpgradeable;
+    let reporterA: FDFIVoteReporter;
+    let reporterB: FDFIVoteReporter;
+    let aggregator: FDFIVoteAggregator;
+    let governor: FDFIGovernor;
+    let nodes: MeshNode[];
+    let snapshot: SnapshotRestorer;
+
+    const ALICE_HOME = ethers.parseUnits("100000", 18);
+    const BOB_SATELLITE = ethers.parseUnits("300000", 18);
+    const CAROL_SATELLITE = ethers.parseUnits("200000", 18);
+
+    async function bridge(from: Signer, dstEid: number, to: string, amount: bigint, oapp: FDFIOFTAdapter | FDFIOFTUpgradeable = adapter) {
+        if (oapp === adapter) await token.connect(from).approve(await adapter.getAddress(), amount);
+        const tx = await oapp.connect(from).send(sendParam(dstEid, to, amount), { nativeFee: 0n, lzTokenFee: 0n }, await from.getAddress());
+        await sim.capture(tx);
+        await sim.deliverAll();
+    }
+
+    async function propose(description: string) {
+        const target = await token.getAddress();
+        const calldata = token.interface.encodeFunctionData("enableTransfers");
+        await governor.propose([target], [0n], [calldata], description);
+        const id = await governor.hashProposal([target], [0n], [calldata], ethers.id(description));
+        await mine(1);
+        return id;
+    }
+
+    async function report(reporter: FDFIVoteReporter, timepoint: number, accounts: string[]) {
+        const receipts = await reportSatelliteVotes(deployer, await reporter.getAddress(), HOME_EID, timepoint, accounts);
+        const packets = [];
+        for (const receipt of receipts) packets.push(...(await sim.capture(receipt)));
+        return packets;
+    }
+
+    // The voting-delay case mines 12 s blocks; later files expect the clock they started with
+    before(async function () {
+        snapshot = await takeSnapshot();
+    });
+
+    after(async function () {
+        await snapshot.restore();
+    });
+
+    beforeEach(async function () {
+        [deployer, alice, bob, carol] = await ethers.getSigners();
+        [deployerAddr, aliceAddr, bobAddr, carolAddr] = await Promise.all([deployer, alice, bob, carol].map((s) => s.getAddress()));
+
+        sim = await LayerZeroSimulator.deploy([HOME_EID, SATELLITE_EID, SATELLITE_B_EID]);
+        const limit = ethers.parseUnits("10000000", 18);
+
+        const FDFIFactory = await ethers.getContractFactory("FDFIToken");
+        const proxy = await upgrades.deployProxy(FDFIFactory, [deployerAddr], { initializer: "initialize" });
+        token = await ethers.getContractAt("FDFIToken", await proxy.getAddress());
+        await token.mintTo(deployerAddr, ethers.parseUnits("1000000", 18));
+        await token.mintTo(aliceAddr, ALICE_HOME);
+        await token.enableTransfers();
+        await token.connect(alice).delegate(aliceAddr);
+
+        const Adapter = await ethers.getContractFactory("FDFIOFTAdapter");
+        adapter = await Adapter.deploy(await token.getAddress(), await sim.endpointAddress(HOME_EID), deployerAddr, [
+            { dstEid: SATELLITE_EID, limit, window: 3600 },
+            { dstEid: SATELLITE_B_EID, limit, window: 3600 }
+        ]);
+        oftA = await deploySatelliteOFT(sim, SATELLITE_EID, [{ dstEid: HOME_EID, limit, window: 3600 }]);
+        oftB = await deploySatelliteOFT(sim, SATELLITE_B_EID, [{ dstEid: HOME_EID, limit, window: 3600 }]);
+        const Reporter = await ethers.getContractFactory("FDFIVoteReporter");
+        reporterA = await Reporter.deploy(await oftA.getAddress(), await sim.endpointAddress(SATELLITE_EID), deployerAddr);
+        reporterB = await Reporter.deploy(await oftB.getAddress(), await sim.endpointAddress(SATELLITE_B_EID), deployerAddr);
+
+        const Aggregator = await ethers.getContractFactory("FDFIVoteAggregator");
+        aggregator = await Aggregator.deploy(await sim.endpointAddress(HOME_EID), deployerAddr);
+        const Timelock = await ethers.getContractFactory("FDFITimelock");
+        const timelock = await Timelock.deploy(3600, [], [ethers.ZeroAddress], deployerAddr);
+        const Governor = await ethers.getContractFactory("FDFIGovernor");
+        governor = await Governor.deploy(
+            await token.getAddress(), await timelock.getAddress(), 0, VOTING_PERIOD, 0, 4, await aggregator.getAddress(), SECONDS_PER_BLOCK
+        );
+
+        // Adapter <-> OFT peers plus aggregator <-> reporter peers and OFT reporters, all through mesh wiring
+        nodes = [
+            {
+                network: "home",
+                eid: HOME_EID,
+                contractName: "FDFIOFTAdapter",
+                address: await adapter.getAddress(),
+                voteAggregator: await aggregator.getAddress(),
+                provider: ethers.provider,
+                signer: deployer
+            },
+            {
+                network: "satA",
+                eid: SATELLITE_EID,
+                contractName: "FDFIOFTUpgradeable",
+                address: await oftA.getAddress(),
+                voteReporter: await reporterA.getAddress(),
+                provider: ethers.provider,
+                signer: deployer
+            },
+            {
+                network: "satB",
+                eid: SATELLITE_B_EID,
+                contractName: "FDFIOFTUpgradeable",
+                address: await oftB.getAddress(),
+                voteReporter: await reporterB.getAddress(),
+                provider: ethers.provider,
+                signer: deployer
+            }
+        ];
+        const mesh = { networks: nodes.map((n) => n.network), enforcedOptions: [] };
+        await applyMeshWiring(hre, nodes, await planMeshWiring(hre, nodes, mesh));
+        expect(await planMeshWiring(hre, nodes, mesh)).to.deep.equal([]);
+
+        await bridge(deployer, SATELLITE_EID, bobAddr, BOB_SATELLITE);
+        await bridge(deployer, SATELLITE_B_EID, carolAddr, CAROL_SATELLITE);
+        await reporterA.connect(bob).delegate(bobAddr);
+        await reporterB.connect(carol).delegate(aliceAddr); // satellite votes can go to any home address
+    });
+
+    it("checkpoints satellite votes by timestamp and follows OFT balances", async function () {
+        expect(await reporterA.CLOCK_MODE()).to.equal("mode=timestamp");
+        const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+        expect(await reporterA.getPastVotes(bobAddr, timestamp - 1)).to.equal(BOB_SATELLITE);
+        expect(await reporterB.getVotes(aliceAddr)).to.equal(CAROL_SATELLITE);
+
+        const half = BOB_SATELLITE / 2n;
+        await oftA.connect(bob).transfer(carolAddr, half);
+        expect(await reporterA.getVotes(bobAddr)).to.equal(BOB_SATELLITE - half);
+        await reporterA.connect(carol).delegate(carolAddr);
+        expect(await reporterA.getVotes(carolAddr)).to.equal(half);
+
+        await expect(reporterA.transferVotingUnits(bobAddr, carolAddr, 1n)).to.be.revertedWithCustomError(reporterA, "OnlyToken");
+    });
+
+    it("keeps the vote reporter it was wired with, so transfers after a replacement attempt still move votes", async function () {
+        const Reporter = await ethers.getContractFactory("FDFIVoteReporter");
+        const replacement = await Reporter.deploy(await oftA.getAddress(), await sim.endpointAddress(SATELLITE_EID), deployerAddr);
+        await expect(oftA.setVoteReporter(await replacement.getAddress())).to.be.revertedWithCustomError(oftA, "VoteReporterAlreadySet");
+        const replacementAddr = await replacement.getAddress();
+        const replaced = nodes.map((n) => (n.network === "satA" ? { ...n, voteReporter: replacementAddr } : n));
+        let error: Error | undefined;
+        try {
+            await planMeshWiring(hre, replaced, { networks: replaced.map((n) => n.network), enforcedOptions: [] });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.match(/\[satA\] FDFIOFTUpgradeable already reports votes to .* cannot switch/);
+
+        const half = BOB_SATELLITE / 2n;
+        await oftA.connect(bob).transfer(carolAddr, half);
+        await oftA.connect(bob).transfer(carolAddr, half);
+        expect(await reporterA.getVotes(bobAddr)).to.equal(0n);
+        expect(await oftA.voteReporter()).to.equal(await reporterA.getAddress());
+    });
+
+    it("counts reported satellite votes at the proposal snapshot", async function () {
+        const id = await propose("Enable transfers");
+        const snapshot = await governor.proposalSnapshot(id);
+        const timepoint = await proposalTimepoint(ethers.provider, await governor.getAddress(), id);
+        expect(timepoint).to.equal((await ethers.provider.getBlock(Number(snapshot)))!.timestamp);
+
+        expect(await governor.getVotes(aliceAddr, snapshot)).to.equal(ALICE_HOME);
+        await report(reporterA, timepoint, [bobAddr]);
+        await report(reporterB, timepoint, [aliceAddr]);
+        await sim.deliverAll();
+
+        expect(await aggregator.reportedVotes(SATELLITE_B_EID, timepoint, aliceAddr)).to.equal(CAROL_SATELLITE);
+        expect(await governor.getVotes(bobAddr, snapshot)).to.equal(BOB_SATELLITE);
+        expect(await governor.getVotes(aliceAddr, snapshot)).to.equal(ALICE_HOME + CAROL_SATELLITE);
+
+        await governor.connect(bob).castVote(id, 1); // For
+        await governor.connect(alice).castVote(id, 0); // Against
+        const { againstVotes, forVotes } = await governor.proposalVotes(id);
+        expect(forVotes).to.equal(BOB_SATELLITE);
+        expect(againstVotes).to.equal(ALICE_HOME + CAROL_SATELLITE);
+    });
+
+    it("counts tokens bridged after the snapshot once, on the side they were on", async function () {
+        const id = await propose("Enable transfers");
+        const snapshot = await governor.proposalSnapshot(id);
+        const timepoint = await proposalTimepoint(ethers.provider, await governor.getAddress(), id);
+
+        // Bob brings everything home and delegates there; alice sends her home tokens to satellite A
+        await bridge(bob, HOME_EID, bobAddr, BOB_SATELLITE, oftA);
+        await token.connect(bob).delegate(bobAddr);
+        await bridge(alice, SATELLITE_EID, aliceAddr, ALICE_HOME);
+        await reporterA.connect(alice).delegate(aliceAddr);
+
+        await report(reporterA, timepoint, [bobAddr, aliceAddr]);
+        await sim.deliverAll();
+        expect(await governor.getVotes(bobAddr, snapshot)).to.equal(BOB_SATELLITE);
+        expect(await governor.getVotes(aliceAddr, snapshot)).to.equal(ALICE_HOME);
+    });
+
+    it("overwrites repeated reports and only accepts them from satellite reporter peers", async function () {
+        const id = await propose("Enable transfers");
+        const timepoint = await proposalTimepoint(ethers.provider, await governor.getAddress(), id);
+
+        await report(reporterA, timepoint, [bobAddr]);
+        await report(reporterA, timepoint, [bobAddr]);
+        await sim.deliverAll();
+        expect(await aggregator.satelliteVotes(timepoint, bobAddr)).to.equal(BOB_SATELLITE);
+
+        const [packet] = await report(reporterB, timepoint, [aliceAddr]);
+        const spoofed = { ...packet, sender: carolAddr };
+        await sim.verify(spoofed);
+        await expect(sim.execute(spoofed)).to.be.revertedWithCustomError(aggregator, "OnlyPeer");
+
+        await expect(reporterA.reportVotes(HOME_EID, timepoint + 3600, [bobAddr], "0x"))
+            .to.be.revertedWithCustomError(reporterA, "ERC5805FutureLookup");
+        await expect(reporterA.reportVotes(SATELLITE_B_EID, timepoint, [bobAddr], "0x")).to.be.revertedWithCustomError(reporterA, "NoPeer");
+    });
+
+    it("estimates the snapshot timestamp with a voting delay and opens voting once it has passed", async function () {
+        const Governor = await ethers.getContractFactory("FDFIGovernor");
+        const delayed = await Governor.deploy(
+            await token.getAddress(), await governor.timelock(), 5, VOTING_PERIOD, 0, 4, await aggregator.getAddress(), SECONDS_PER_BLOCK
+        );
+        const target = await token.getAddress();
+        const proposeDelayed = async (description: string) => {
+            await delayed.propose([target], [0n], ["0x"], description);
+            const id = await delayed.hashProposal([target], [0n], ["0x"], ethers.id(description));
+            return { id, timepoint: await proposalTimepoint(ethers.provider, await delayed.getAddress(), id) };
+        };
+
+        // Blocks at the estimated pace: the timestamp is exactly the snapshot block's
+        const onPace = await proposeDelayed("On pace");
+        for (let i = 0; i < 5; i++) await time.increase(SECONDS_PER_BLOCK);
+        const snapshotBlock = await ethers.provider.getBlock(Number(await delayed.proposalSnapshot(onPace.id)));
+        expect(snapshotBlock!.timestamp).to.equal(onPace.timepoint);
+        await mine(1); // satellite votes can be reported once the timepoint is in the past
+        await report(reporterA, onPace.timepoint, [bobAddr]);
+        await sim.deliverAll();
+        await delayed.connect(bob).castVote(onPace.id, 1);
+        expect((await delayed.proposalVotes(onPace.id)).forVotes).to.equal(BOB_SATELLITE);
+
+        // Faster blocks: voting starts before the timestamp and waits for it
+        const fast = await proposeDelayed("Fast blocks");
+        await mine(6);
+        await expect(delayed.connect(bob).castVote(fast.id, 1))
+            .to.be.revertedWithCustomError(delayed, "SnapshotTimestampPending")
+            .withArgs(fast.timepoint);
+        await time.increaseTo(fast.timepoint + 1);
+        await report(reporterA, fast.timepoint, [bobAddr]);
+        await sim.deliverAll();
+        await delayed.connect(bob).castVote(fast.id, 1);
+        expect((await delayed.proposalVotes(fast.id)).forVotes).to.equal(BOB_SATELLITE);
+
+        // Without aggregation votes never wait and only home votes count
+        const homeOnly = await Governor.deploy(
+            await token.getAddress(), await governor.timelock(), 5, VOTING_PERIOD, 0, 4, ethers.ZeroAddress, SECONDS_PER_BLOCK
+        );
+        await homeOnly.propose([target], [0n], ["0x"], "Home only");
+        const id = await homeOnly.hashProposal([target], [0n], ["0x"], ethers.id("Home only"));
+        await mine(6);
+        await homeOnly.connect(alice).castVote(id, 1);
+        expect((await homeOnly.proposalVotes(id)).forVotes).to.equal(ALICE_HOME);
+        expect(await homeOnly.getVotes(bobAddr, await homeOnly.proposalSnapshot(id))).to.equal(0n);
+    });
+});
@@ -0,0 +1,86 @@
+import { ethers, upgrades } from "hardhat";
+import { FDFIOFTAdapter, FDFIOFTUpgradeable, FDFIToken } from "../../typechain-types";
+import { OFT_UNSAFE_ALLOW } from "../../scripts/lib/upgrade";
+import { LayerZeroSimulator } from "./lzSimulator";
+
+export const HOME_EID = 40161;
+export const SATELLITE_EID = 40102;
+
+export interface BridgeFixtureOptions {
+    /// Rate limit applied on both sides for the remote eid; defaults to 10k FDFI per hour
+    limit?: bigint;
+    window?: number;
+    /// Amount minted to the deployer on the home chain
+    supply?: bigint;
+    /// Call FDFIToken.enableTransfers(); defaults to true
+    enableTransfers?: boolean;
+}
+
+export interface BridgeFixture {
+    sim: LayerZeroSimulator;
+    token: FDFIToken;
+    adapter: FDFIOFTAdapter;
+    oft: FDFIOFTUpgradeable;
+}
+
+/**
+ * Home chain (FDFIToken + FDFIOFTAdapter) and one satellite (FDFIOFTUpgradeable) on simulated endpoints,
+ * peered with each other, with transfers enabled (unless disabled via opts) and the deployer holding the minted supply.
+ */
+export async function deployBridgeFixture(opts: BridgeFixtureOptions = {}): Promise<BridgeFixture> {
+    const [deployer] = await ethers.getSigners();
+    const limit = opts.limit ?? ethers.parseUnits("10000", 18);
+    const window = opts.window ?? 3600;
+
+    const sim = await LayerZeroSimulator.deploy([HOME_EID, SATELLITE_EID]);
+
+    const FDFIFactory = await ethers.getContractFactory("FDFIToken");
+    const proxy = await upgrades.deployProxy(FDFIFactory, [deployer.address], { initializer: "initialize" });
+    const token = await ethers.getContractAt("FDFIToken", await proxy.getAddress());
+    await token.mintTo(deployer.address, opts.supply ?? ethers.parseUnits("1000000", 18));
+    if (opts.enableTransfers ?? true) await token.enableTransfers();
+
+    const Adapter = await ethers.getContractFactory("FDFIOFTAdapter");
+    const adapter = await Adapter.deploy(
+        await token.getAddress(),
+        await sim.endpointAddress(HOME_EID),
+        deployer.address,
+        [{ dstEid: SATELLITE_EID, limit, window }]
+    );
+
+    const oft = await deploySatelliteOFT(sim, SATELLITE_EID, [{ dstEid: HOME_EID, limit, window }]);
+
+    await adapter.setPeer(SATELLITE_EID, ethers.zeroPadValue(await oft.getAddress(), 32));
+    await oft.setPeer(HOME_EID, ethers.zeroPadValue(await adapter.getAddress(), 32));
+
+    return { sim, token, adapter, oft };
+}
+
+/// FDFIOFTUpgradeable proxy on the simulated endpoint of `eid`, owned by the deployer; peers are left to the caller
+export async function deploySatelliteOFT(
+    sim: LayerZeroSimulator,
+    eid: number,
+    rateLimits: { dstEid: number; limit: bigint; window: number }[]
+): Promise<FDFIOFTUpgradeable> {
+    const [deployer] = await ethers.getSigners();
+    const OFT = await ethers.getContractFactory("FDFIOFTUpgradeable");
+    const proxy = await upgrades.deployProxy(OFT, [rateLimits, "FDFI Token", "FDFI", deployer.address], {
+        initializer: "initialize",
+        constructorArgs: [await sim.endpointAddress(eid)],
+        unsafeAllow: OFT_UNSAFE_ALLOW
+    });
+    return ethers.getContractAt("FDFIOFTUpgradeable", await proxy.getAddress());
+}
+
+/// SendParam for a plain transfer (no compose, no extra options)
+export function sendParam(dstEid: number, to: string, amountLD: bigint, minAmountLD: bigint = amountLD) {
+    return {
+        dstEid,
+        to: ethers.zeroPadValue(to, 32),
+        amountLD,
+        minAmountLD,
+        extraOptions: "0x",
+        composeMsg: "0x",
+        oftCmd: "0x"
+    };
+}
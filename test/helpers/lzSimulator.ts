@@ -0,0 +1,186 @@
+import { ethers } from "hardhat";
+import { ContractTransactionResponse, TransactionReceipt } from "ethers";
+import { MockLayerZeroEndpoint } from "../../typechain-types";
+
+/// A packet emitted by MockLayerZeroEndpoint.send, decoded from its PacketV1 encoding
+export interface LzPacket {
+    nonce: bigint;
+    srcEid: number;
+    sender: string;
+    dstEid: number;
+    receiver: string;
+    guid: string;
+    message: string;
+    options: string;
+}
+
+/// A compose message queued on the destination endpoint by OFTCore._lzReceive
+export interface LzComposeMessage {
+    eid: number;
+    from: string;
+    to: string;
+    guid: string;
+    index: number;
+    message: string;
+}
+
+export interface DeliverOptions {
+    /// msg.value forwarded to lzReceive / lzCompose
+    value?: bigint;
+    extraData?: string;
+}
+
+function decodePacket(encoded: string, options: string): LzPacket {
+    const bytes = ethers.getBytes(encoded);
+    const slice = (start: number, end?: number) => ethers.hexlify(bytes.slice(start, end));
+    return {
+        nonce: BigInt(slice(1, 9)),
+        srcEid: Number(slice(9, 13)),
+        sender: ethers.getAddress(ethers.dataSlice(slice(13, 45), 12)),
+        dstEid: Number(slice(45, 49)),
+        receiver: ethers.getAddress(ethers.dataSlice(slice(49, 81), 12)),
+        guid: slice(81, 113),
+        message: slice(113),
+        options
+    };
+}
+
+/**
+ * Relays packets between MockLayerZeroEndpoint instances deployed on the same hardhat network.
+ * Packets are captured from send() receipts into an in-flight queue and only reach the destination when
+ * the test calls deliver(), so ordering, replays, delays and drops are fully under test control.
+ */
+export class LayerZeroSimulator {
+    readonly endpoints = new Map<number, MockLayerZeroEndpoint>();
+    private inFlight: LzPacket[] = [];
+    private composes: LzComposeMessage[] = [];
+
+    /// Deploys one mock endpoint per eid
+    static async deploy(eids: number[]): Promise<LayerZeroSimulator> {
+        const simulator = new LayerZeroSimulator();
+        const Factory = await ethers.getContractFactory("contracts/mocks/MockLayerZeroEndpoint.sol:MockLayerZeroEndpoint");
+        for (const eid of eids) {
+            const endpoint = (await Factory.deploy(eid)) as unknown as MockLayerZeroEndpoint;
+            await endpoint.waitForDeployment();
+            simulator.endpoints.set(eid, endpoint);
+        }
+        return simulator;
+    }
+
+    endpoint(eid: number): MockLayerZeroEndpoint {
+        const endpoint = this.endpoints.get(eid);
+        if (!endpoint) throw new Error(`No simulated endpoint for eid ${eid}`);
+        return endpoint;
+    }
+
+    async endpointAddress(eid: number): Promise<string> {
+        return this.endpoint(eid).getAddress();
+    }
+
+    /// Packets sent but not yet delivered or dropped, in send order
+    pending(): LzPacket[] {
+        return [...this.inFlight];
+    }
+
+    /// Compose messages queued on destination endpoints but not yet executed
+    pendingComposes(): LzComposeMessage[] {
+        return [...this.composes];
+    }
+
+    /// Captures every PacketSent / ComposeSent emitted by a simulated endpoint in the given transaction
+    async capture(tx: ContractTransactionResponse | TransactionReceipt | null): Promise<LzPacket[]> {
+        const receipt = tx && "wait" in tx ? await tx.wait() : tx;
+        if (!receipt) throw new Error("Transaction has no receipt");
+
+        const captured: LzPacket[] = [];
+        for (const [eid, endpoint] of this.endpoints) {
+            const address = (await endpoint.getAddress()).toLowerCase();
+            for (const log of receipt.logs) {
+                if (log.address.toLowerCase() !== address) continue;
+                const parsed = endpoint.interface.parseLog(log);
+                if (parsed?.name === "PacketSent") {
+                    const packet = decodePacket(parsed.args.encodedPayload, parsed.args.options);
+                    captured.push(packet);
+                    this.inFlight.push(packet);
+                } else if (parsed?.name === "ComposeSent") {
+                    this.composes.push({
+                        eid,
+                        from: parsed.args.from,
+                        to: parsed.args.to,
+                        guid: parsed.args.guid,
+                        index: Number(parsed.args.index),
+                        message: parsed.args.message
+                    });
+                }
+            }
+        }
+        return captured;
+    }
+
+    /// Verifies a packet on its destination endpoint (DVN step) without executing it
+    async verify(packet: LzPacket) {
+        const payloadHash = ethers.keccak256(ethers.concat([packet.guid, packet.message]));
+        return this.endpoint(packet.dstEid).verify(this.origin(packet), packet.receiver, payloadHash);
+    }
+
+    /// Executes lzReceive for a packet that was already verified (executor step); usable for replays
+    async execute(packet: LzPacket, opts: DeliverOptions = {}) {
+        const tx = await this.endpoint(packet.dstEid).lzReceive(
+            this.origin(packet),
+            packet.receiver,
+            packet.guid,
+            packet.message,
+            opts.extraData ?? "0x",
+            { value: opts.value ?? 0n }
+        );
+        this.remove(packet);
+        await this.capture(tx);
+        return tx;
+    }
+
+    /// Verifies and executes a packet, removing it from the in-flight queue
+    async deliver(packet: LzPacket, opts: DeliverOptions = {}) {
+        await this.verify(packet);
+        return this.execute(packet, opts);
+    }
+
+    /// Delivers the oldest in-flight packet
+    async deliverNext(opts: DeliverOptions = {}) {
+        const [packet] = this.inFlight;
+        if (!packet) throw new Error("No packets in flight");
+        return this.deliver(packet, opts);
+    }
+
+    /// Delivers every in-flight packet in send order
+    async deliverAll(opts: DeliverOptions = {}) {
+        while (this.inFlight.length > 0) await this.deliverNext(opts);
+    }
+
+    /// Removes a packet from the queue without delivering it (lost in transit)
+    drop(packet: LzPacket) {
+        this.remove(packet);
+    }
+
+    /// Executes a queued lzCompose call on the destination endpoint
+    async deliverCompose(compose: LzComposeMessage, opts: DeliverOptions = {}) {
+        const tx = await this.endpoint(compose.eid).lzCompose(
+            compose.from,
+            compose.to,
+            compose.guid,
+            compose.index,
+            compose.message,
+            opts.extraData ?? "0x",
+            { value: opts.value ?? 0n }
+        );
+        this.composes = this.composes.filter((c) => c !== compose);
+        return tx;
+    }
+
+    origin(packet: LzPacket) {
+        return { srcEid: packet.srcEid, sender: ethers.zeroPadValue(packet.sender, 32), nonce: packet.nonce };
+    }
+
+    private remove(packet: LzPacket) {
+        this.inFlight = this.inFlight.filter((p) => p.guid !== packet.guid);
+    }
+}